@@ -0,0 +1,17 @@
+-- User-declared must-link / cannot-link constraints for entity resolution
+CREATE TYPE resolution_constraint_kind AS ENUM ('must_link', 'cannot_link');
+
+CREATE TABLE IF NOT EXISTS resolution_constraints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  kind resolution_constraint_kind NOT NULL,
+  entity_a_id VARCHAR(255) NOT NULL,
+  entity_a_name TEXT NOT NULL,
+  entity_b_id VARCHAR(255) NOT NULL,
+  entity_b_name TEXT NOT NULL,
+  review_item_id UUID REFERENCES review_queue(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE UNIQUE INDEX resolution_constraints_pair_unique
+  ON resolution_constraints(document_id, entity_a_id, entity_b_id);
@@ -0,0 +1,3 @@
+-- Add epub_export job type and activity type
+ALTER TYPE job_type ADD VALUE 'epub_export';
+ALTER TYPE activity_type ADD VALUE 'epub_export';
@@ -0,0 +1,2 @@
+-- Add file_import activity type for direct document uploads
+ALTER TYPE activity_type ADD VALUE 'file_import';
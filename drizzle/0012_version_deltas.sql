@@ -0,0 +1,6 @@
+-- Store document versions as deltas between periodic keyframes
+ALTER TABLE document_versions ADD COLUMN is_keyframe BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE document_versions ADD COLUMN base_version INTEGER;
+
+-- Per-user version history retention policy (null = defaults)
+ALTER TABLE users ADD COLUMN version_retention JSONB;
@@ -0,0 +1,7 @@
+-- Named checkpoints, exempt from version retention pruning
+ALTER TABLE document_versions ADD COLUMN name VARCHAR(100);
+ALTER TABLE document_versions ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false;
+
+-- Lineage for drafts forked from a document version
+ALTER TABLE documents ADD COLUMN forked_from_document_id UUID REFERENCES documents(id) ON DELETE SET NULL;
+ALTER TABLE documents ADD COLUMN forked_from_version INTEGER;
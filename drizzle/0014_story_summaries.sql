@@ -0,0 +1,15 @@
+-- Chapter, thread and arc summaries, updated progressively from source diffs
+CREATE TABLE IF NOT EXISTS story_summaries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  summary_type VARCHAR(20) NOT NULL,
+  target_id VARCHAR(255) NOT NULL,
+  title TEXT,
+  source_text TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  edit_chain_length INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE UNIQUE INDEX story_summaries_target_unique
+  ON story_summaries(document_id, summary_type, target_id);
@@ -0,0 +1,2 @@
+-- Per-document in-world calendar (month names, day lengths) for story time
+ALTER TABLE documents ADD COLUMN story_calendar JSONB;
@@ -0,0 +1,20 @@
+-- Documents shared with other users by email invitation
+CREATE TYPE document_role AS ENUM ('viewer', 'commenter', 'editor');
+
+CREATE TABLE IF NOT EXISTS document_collaborators (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role document_role NOT NULL,
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  invite_token VARCHAR(255) UNIQUE,
+  invite_expires_at TIMESTAMPTZ,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE UNIQUE INDEX document_collaborators_email_unique
+  ON document_collaborators(document_id, email);
+CREATE INDEX document_collaborators_user_idx
+  ON document_collaborators(user_id);
@@ -0,0 +1,35 @@
+-- Anchored comment threads, replies and suggested edits
+CREATE TYPE comment_thread_kind AS ENUM ('comment', 'suggestion');
+CREATE TYPE comment_thread_status AS ENUM ('open', 'resolved', 'accepted', 'rejected');
+
+CREATE TABLE IF NOT EXISTS comment_threads (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  segment_id VARCHAR(255) NOT NULL,
+  relative_start INTEGER NOT NULL,
+  relative_end INTEGER NOT NULL,
+  original_text TEXT NOT NULL,
+  text_hash VARCHAR(64) NOT NULL,
+  kind comment_thread_kind NOT NULL DEFAULT 'comment',
+  suggested_text TEXT,
+  status comment_thread_status NOT NULL DEFAULT 'open',
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  applied_version INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX comment_threads_document_idx
+  ON comment_threads(document_id, status);
+
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES comment_threads(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  mentioned_user_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX comments_thread_idx ON comments(thread_id);
@@ -0,0 +1,40 @@
+-- Projects group documents (e.g. books in a series) that share a story world
+CREATE TABLE IF NOT EXISTS projects (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX projects_user_id_idx ON projects(user_id);
+
+ALTER TABLE documents
+  ADD COLUMN project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  ADD COLUMN project_position INTEGER;
+CREATE INDEX documents_project_id_idx ON documents(project_id);
+
+-- Entities recurring across a project's documents, and the per-document
+-- graph nodes linked to each
+CREATE TABLE IF NOT EXISTS project_entities (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  aliases JSONB NOT NULL DEFAULT '[]',
+  facets JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX project_entities_project_idx ON project_entities(project_id);
+
+CREATE TABLE IF NOT EXISTS project_entity_nodes (
+  node_id VARCHAR(255) PRIMARY KEY,
+  project_entity_id UUID NOT NULL REFERENCES project_entities(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX project_entity_nodes_entity_idx
+  ON project_entity_nodes(project_entity_id);
+CREATE INDEX project_entity_nodes_document_idx
+  ON project_entity_nodes(document_id);
@@ -0,0 +1,34 @@
+-- Merge suggestions rejected before resolution constraints existed become
+-- cannot-link constraints, so re-analysis keeps honouring them
+INSERT INTO resolution_constraints (
+  document_id, kind, entity_a_id, entity_a_name, entity_b_id, entity_b_name,
+  review_item_id, created_by, created_at
+)
+SELECT
+  document_id,
+  'cannot_link',
+  CASE WHEN id_0 < id_1 THEN id_0 ELSE id_1 END,
+  CASE WHEN id_0 < id_1 THEN name_0 ELSE name_1 END,
+  CASE WHEN id_0 < id_1 THEN id_1 ELSE id_0 END,
+  CASE WHEN id_0 < id_1 THEN name_1 ELSE name_0 END,
+  review_item_id,
+  resolved_by,
+  COALESCE(resolved_at, created_at)
+FROM (
+  SELECT
+    id AS review_item_id,
+    document_id,
+    resolved_by,
+    resolved_at,
+    created_at,
+    (resolution->'entityIds'->>0) COLLATE "C" AS id_0,
+    (resolution->'entityIds'->>1) COLLATE "C" AS id_1,
+    COALESCE(resolution->'entityNames'->>0, resolution->'entityIds'->>0) AS name_0,
+    COALESCE(resolution->'entityNames'->>1, resolution->'entityIds'->>1) AS name_1
+  FROM review_queue
+  WHERE item_type = 'merge_suggestion'
+    AND status = 'resolved'
+    AND resolution->>'type' = 'not_same_entity'
+) rejected
+WHERE id_0 IS NOT NULL AND id_1 IS NOT NULL AND id_0 <> id_1
+ON CONFLICT (document_id, entity_a_id, entity_b_id) DO NOTHING;
@@ -0,0 +1,2 @@
+-- Add story_bible_export activity type for story bible downloads
+ALTER TYPE activity_type ADD VALUE 'story_bible_export';
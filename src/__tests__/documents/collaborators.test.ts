@@ -0,0 +1,226 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import {
+  closeDb,
+  createTestCollaborator,
+  createTestDocument,
+  createVerifiedUser,
+  getDocumentById,
+  resetDocumentCounter,
+  resetUserCounter,
+  truncateAll,
+} from '../helpers';
+import {
+  clearMockStoryNodes,
+  clearRedisStore,
+  setMockStoryNode,
+  startTestServer,
+  stopTestServer,
+} from '../helpers/testApp';
+
+describe('Document Collaborator Access', () => {
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const server = await startTestServer();
+    baseUrl = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    await stopTestServer();
+    await closeDb();
+  });
+
+  beforeEach(async () => {
+    await truncateAll();
+    resetUserCounter();
+    resetDocumentCounter();
+    clearRedisStore();
+    clearMockStoryNodes();
+  });
+
+  async function login(email: string, password: string): Promise<string> {
+    const loginRes = await fetch(`${baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ emailOrUsername: email, password }),
+    });
+    const cookie = loginRes.headers.get('set-cookie');
+    if (!cookie) throw new Error('Login failed: no cookie');
+    return cookie;
+  }
+
+  async function patchDocument(
+    documentId: string,
+    cookie: string,
+    body: Record<string, unknown>,
+  ) {
+    return fetch(`${baseUrl}/api/documents/${documentId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        Cookie: cookie,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe('viewer', () => {
+    test('can read the document but not change it', async () => {
+      const { user: owner } = await createVerifiedUser();
+      const { user: viewer, password } = await createVerifiedUser();
+      const doc = await createTestDocument(owner.id, { content: 'Original' });
+      await createTestCollaborator(doc.id, viewer, 'viewer');
+      const cookie = await login(viewer.email, password);
+
+      const getRes = await fetch(`${baseUrl}/api/documents/${doc.id}`, {
+        headers: { Cookie: cookie },
+      });
+      expect(getRes.status).toBe(200);
+      expect((await getRes.json()).role).toBe('viewer');
+
+      const patchRes = await patchDocument(doc.id, cookie, {
+        content: 'Changed by a viewer',
+      });
+      expect(patchRes.status).toBe(403);
+
+      const stored = await getDocumentById(doc.id);
+      expect(stored.content).toBe('Original');
+    });
+  });
+
+  describe('editor', () => {
+    test('can change the title', async () => {
+      const { user: owner } = await createVerifiedUser();
+      const { user: editor, password } = await createVerifiedUser();
+      const doc = await createTestDocument(owner.id);
+      await createTestCollaborator(doc.id, editor, 'editor');
+      const cookie = await login(editor.email, password);
+
+      const res = await patchDocument(doc.id, cookie, { title: 'Renamed' });
+
+      expect(res.status).toBe(200);
+      const stored = await getDocumentById(doc.id);
+      expect(stored.title).toBe('Renamed');
+    });
+
+    test('cannot change document settings', async () => {
+      const { user: owner } = await createVerifiedUser();
+      const { user: editor, password } = await createVerifiedUser();
+      const doc = await createTestDocument(owner.id);
+      await createTestCollaborator(doc.id, editor, 'editor');
+      const cookie = await login(editor.email, password);
+
+      const patchRes = await patchDocument(doc.id, cookie, {
+        narrativeModeEnabled: true,
+      });
+      expect(patchRes.status).toBe(403);
+
+      const modesRes = await fetch(`${baseUrl}/api/documents/${doc.id}/modes`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify({ mediaModeEnabled: true }),
+      });
+      expect(modesRes.status).toBe(403);
+
+      const stored = await getDocumentById(doc.id);
+      expect(stored.narrative_mode_enabled).toBe(false);
+      expect(stored.media_mode_enabled).toBe(false);
+    });
+  });
+
+  describe('commenter', () => {
+    test('can read the document but not edit or share it', async () => {
+      const { user: owner } = await createVerifiedUser();
+      const { user: commenter, password } = await createVerifiedUser();
+      const doc = await createTestDocument(owner.id, { content: 'Original' });
+      await createTestCollaborator(doc.id, commenter, 'commenter');
+      const cookie = await login(commenter.email, password);
+
+      const getRes = await fetch(`${baseUrl}/api/documents/${doc.id}`, {
+        headers: { Cookie: cookie },
+      });
+      expect(getRes.status).toBe(200);
+      expect((await getRes.json()).role).toBe('commenter');
+
+      const patchRes = await patchDocument(doc.id, cookie, {
+        content: 'Changed by a commenter',
+      });
+      expect(patchRes.status).toBe(403);
+
+      const inviteRes = await fetch(
+        `${baseUrl}/api/documents/${doc.id}/collaborators`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Cookie: cookie },
+          body: JSON.stringify({ email: 'friend@example.com', role: 'viewer' }),
+        },
+      );
+      expect(inviteRes.status).toBe(403);
+
+      const stored = await getDocumentById(doc.id);
+      expect(stored.content).toBe('Original');
+    });
+  });
+
+  describe('removed collaborator', () => {
+    test('gets 404 for the document graph after removal', async () => {
+      const { user: owner, password: ownerPassword } =
+        await createVerifiedUser();
+      const { user: editor, password } = await createVerifiedUser();
+      const doc = await createTestDocument(owner.id);
+      const collaborator = await createTestCollaborator(
+        doc.id,
+        editor,
+        'editor',
+      );
+
+      const nodeId = randomUUID();
+      setMockStoryNode(nodeId, {
+        id: nodeId,
+        documentId: doc.id,
+        userId: owner.id,
+        type: 'character',
+        name: 'Shared Character',
+        description: null,
+        aliases: [],
+        primaryMediaId: null,
+        stylePreset: null,
+        stylePrompt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        deletedAt: null,
+      });
+
+      const editorCookie = await login(editor.email, password);
+      const beforeRes = await fetch(`${baseUrl}/api/nodes/${nodeId}`, {
+        headers: { Cookie: editorCookie },
+      });
+      expect(beforeRes.status).toBe(200);
+
+      const ownerCookie = await login(owner.email, ownerPassword);
+      const removeRes = await fetch(
+        `${baseUrl}/api/documents/${doc.id}/collaborators/${collaborator.id}`,
+        { method: 'DELETE', headers: { Cookie: ownerCookie } },
+      );
+      expect(removeRes.status).toBe(200);
+
+      const afterRes = await fetch(`${baseUrl}/api/nodes/${nodeId}`, {
+        headers: { Cookie: editorCookie },
+      });
+      expect(afterRes.status).toBe(404);
+
+      const docRes = await fetch(`${baseUrl}/api/documents/${doc.id}`, {
+        headers: { Cookie: editorCookie },
+      });
+      expect(docRes.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test';
+import { sql } from 'drizzle-orm';
+import {
+  closeDb,
+  createTestDocument,
+  createVerifiedUser,
+  getTestDb,
+  resetDocumentCounter,
+  resetUserCounter,
+  truncateAll,
+} from '../helpers';
+import {
+  clearPrimaryEditors,
+  clearRedisStore,
+  startTestServer,
+  stopTestServer,
+} from '../helpers/testApp';
+
+describe('Document Review Queue', () => {
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const server = await startTestServer();
+    baseUrl = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    await stopTestServer();
+    await closeDb();
+  });
+
+  beforeEach(async () => {
+    await truncateAll();
+    resetUserCounter();
+    resetDocumentCounter();
+    clearRedisStore();
+    clearPrimaryEditors();
+  });
+
+  async function login(email: string, password: string): Promise<string> {
+    const loginRes = await fetch(`${baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ emailOrUsername: email, password }),
+    });
+    const cookie = loginRes.headers.get('set-cookie');
+    if (!cookie) throw new Error('Login failed: no cookie');
+    return cookie;
+  }
+
+  async function insertReviewItem(
+    documentId: string,
+    itemType: string,
+    status = 'pending',
+  ) {
+    const db = await getTestDb();
+    await db.execute(sql`
+      INSERT INTO review_queue (document_id, item_type, context_summary, status)
+      VALUES (${documentId}, ${itemType}, 'test item', ${status})
+    `);
+  }
+
+  describe('GET /documents/:id/review-queue', () => {
+    test('returns 403 for document owned by another user', async () => {
+      const { user: owner } = await createVerifiedUser();
+      const { user: other, password: otherPassword } =
+        await createVerifiedUser();
+      const doc = await createTestDocument(owner.id);
+      const cookie = await login(other.email, otherPassword);
+
+      const res = await fetch(
+        `${baseUrl}/api/documents/${doc.id}/review-queue`,
+        { headers: { Cookie: cookie } },
+      );
+
+      expect(res.status).toBe(403);
+    });
+
+    test('lists pending items filtered by type', async () => {
+      const { user, password } = await createVerifiedUser();
+      const doc = await createTestDocument(user.id);
+      await insertReviewItem(doc.id, 'merge_suggestion');
+      await insertReviewItem(doc.id, 'merge_suggestion', 'resolved');
+      await insertReviewItem(doc.id, 'contradiction');
+      const cookie = await login(user.email, password);
+
+      const res = await fetch(
+        `${baseUrl}/api/documents/${doc.id}/review-queue?itemType=merge_suggestion`,
+        { headers: { Cookie: cookie } },
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.total).toBe(1);
+      expect(body.items).toHaveLength(1);
+      expect(body.items[0].itemType).toBe('merge_suggestion');
+      expect(body.stats.pending).toBe(2);
+    });
+
+    test('rejects an unknown item type', async () => {
+      const { user, password } = await createVerifiedUser();
+      const doc = await createTestDocument(user.id);
+      const cookie = await login(user.email, password);
+
+      const res = await fetch(
+        `${baseUrl}/api/documents/${doc.id}/review-queue?itemType=bogus`,
+        { headers: { Cookie: cookie } },
+      );
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('POST /review-queue/:itemId/dismiss', () => {
+    test('returns 403 for item on another user document', async () => {
+      const { user: owner } = await createVerifiedUser();
+      const { user: other, password: otherPassword } =
+        await createVerifiedUser();
+      const doc = await createTestDocument(owner.id);
+      await insertReviewItem(doc.id, 'contradiction');
+      const db = await getTestDb();
+      const rows = await db.execute(sql`SELECT id FROM review_queue LIMIT 1`);
+      const itemId = (rows as unknown as { id: string }[])[0].id;
+      const cookie = await login(other.email, otherPassword);
+
+      const res = await fetch(`${baseUrl}/api/review-queue/${itemId}/dismiss`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify({}),
+      });
+
+      expect(res.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test';
+import { sql } from 'drizzle-orm';
+import {
+  closeDb,
+  createTestDocument,
+  createVerifiedUser,
+  getTestDb,
+  resetDocumentCounter,
+  resetUserCounter,
+  truncateAll,
+} from '../helpers';
+import {
+  clearRedisStore,
+  startTestServer,
+  stopTestServer,
+} from '../helpers/testApp';
+
+describe('Document Share Links', () => {
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const server = await startTestServer();
+    baseUrl = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    await stopTestServer();
+    await closeDb();
+  });
+
+  beforeEach(async () => {
+    await truncateAll();
+    resetUserCounter();
+    resetDocumentCounter();
+    clearRedisStore();
+  });
+
+  async function login(email: string, password: string): Promise<string> {
+    const loginRes = await fetch(`${baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ emailOrUsername: email, password }),
+    });
+    const cookie = loginRes.headers.get('set-cookie');
+    if (!cookie) throw new Error('Login failed: no cookie');
+    return cookie;
+  }
+
+  /** A document with one share link created through the owner route */
+  async function createSharedDocument(body: Record<string, unknown> = {}) {
+    const { user, password } = await createVerifiedUser();
+    const doc = await createTestDocument(user.id, { title: 'Shared Story' });
+    const cookie = await login(user.email, password);
+
+    const res = await fetch(`${baseUrl}/api/documents/${doc.id}/share-links`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify(body),
+    });
+    if (res.status !== 201) throw new Error('Share link creation failed');
+    const { link } = await res.json();
+
+    return { doc, cookie, link };
+  }
+
+  async function getViewCount(linkId: string): Promise<number> {
+    const db = await getTestDb();
+    const result = await db.execute(sql`
+      SELECT view_count FROM document_share_links WHERE id = ${linkId}
+    `);
+    return (result[0] as { view_count: number }).view_count;
+  }
+
+  function viewShare(token: string, password?: string) {
+    return fetch(`${baseUrl}/api/share/${token}`, {
+      headers: password ? { 'X-Share-Password': password } : {},
+    });
+  }
+
+  describe('GET /share/:token', () => {
+    test('returns the document and counts the view', async () => {
+      const { link } = await createSharedDocument();
+
+      const res = await viewShare(link.token);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('cache-control')).toBe('no-store');
+      const body = await res.json();
+      expect(body.document.title).toBe('Shared Story');
+      expect(body.storyGraph).toBeNull();
+      expect(await getViewCount(link.id)).toBe(1);
+
+      await viewShare(link.token);
+      expect(await getViewCount(link.id)).toBe(2);
+    });
+
+    test('returns 404 for an unknown token', async () => {
+      const res = await viewShare('no-such-token');
+
+      expect(res.status).toBe(404);
+    });
+
+    test('returns 404 once the link is revoked', async () => {
+      const { doc, cookie, link } = await createSharedDocument();
+
+      const revokeRes = await fetch(
+        `${baseUrl}/api/documents/${doc.id}/share-links/${link.id}`,
+        { method: 'DELETE', headers: { Cookie: cookie } },
+      );
+      expect(revokeRes.status).toBe(200);
+
+      const res = await viewShare(link.token);
+
+      expect(res.status).toBe(404);
+      expect(await getViewCount(link.id)).toBe(0);
+    });
+
+    test('returns 404 once the link has expired', async () => {
+      const { link } = await createSharedDocument({
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      });
+      const db = await getTestDb();
+      await db.execute(sql`
+        UPDATE document_share_links
+        SET expires_at = NOW() - INTERVAL '1 minute'
+        WHERE id = ${link.id}
+      `);
+
+      const res = await viewShare(link.token);
+
+      expect(res.status).toBe(404);
+      expect(await getViewCount(link.id)).toBe(0);
+    });
+
+    test('requires the password of a protected link', async () => {
+      const { link } = await createSharedDocument({ password: 'open sesame' });
+
+      const res = await viewShare(link.token);
+
+      expect(res.status).toBe(401);
+      const body = await res.json();
+      expect(body.error.code).toBe('PASSWORD_REQUIRED');
+      expect(await getViewCount(link.id)).toBe(0);
+    });
+
+    test('rejects a wrong password', async () => {
+      const { link } = await createSharedDocument({ password: 'open sesame' });
+
+      const res = await viewShare(link.token, 'wrong guess');
+
+      expect(res.status).toBe(401);
+      const body = await res.json();
+      expect(body.error.code).toBe('INVALID_PASSWORD');
+      expect(await getViewCount(link.id)).toBe(0);
+    });
+
+    test('opens a protected link with the right password', async () => {
+      const { link } = await createSharedDocument({ password: 'open sesame' });
+
+      const res = await viewShare(link.token, 'open sesame');
+
+      expect(res.status).toBe(200);
+      expect(await getViewCount(link.id)).toBe(1);
+    });
+  });
+});
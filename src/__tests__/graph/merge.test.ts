@@ -0,0 +1,261 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from 'bun:test';
+import { GraphService } from '../../services/graph/graph.service';
+import type { StoryNodeResult } from '../../types/storyNodes';
+
+// Skip if FalkorDB is not available (detected in preload.ts)
+const isFalkorDBAvailable = process.env.FALKORDB_AVAILABLE === 'true';
+
+// Create our own instance to bypass any mocks applied to the singleton
+const graphService = new GraphService();
+
+function createNodeInput(
+  overrides: Partial<StoryNodeResult> & {
+    type: StoryNodeResult['type'];
+    name: string;
+  },
+): StoryNodeResult {
+  return {
+    description: '',
+    mentions: [],
+    ...overrides,
+  };
+}
+
+(isFalkorDBAvailable ? describe : describe.skip)(
+  'Graph: mergeStoryNodes',
+  () => {
+    // Unique IDs for this test file - enables parallel execution with other graph test files
+    const testUserId = '00000000-0000-0000-0000-000000000011';
+    const testDocumentId = '00000000-0000-0000-0000-000000000012';
+    const otherDocId = '00000000-0000-0000-0000-000000000013';
+
+    const cleanup = async () => {
+      await graphService.query(
+        `MATCH (n:StoryNode)-[:HAS_FACET]->(f:Facet) WHERE n.userId = '${testUserId}' DETACH DELETE f`,
+      );
+      await graphService.query(
+        `MATCH (n) WHERE n.userId = '${testUserId}' DETACH DELETE n`,
+      );
+    };
+
+    beforeAll(async () => {
+      await graphService.connect();
+      await graphService.initializeIndexes();
+    });
+
+    afterAll(async () => {
+      await cleanup();
+      await graphService.disconnect();
+    });
+
+    beforeEach(async () => {
+      await cleanup();
+    });
+
+    const createCharacter = (
+      name: string,
+      extra?: Partial<StoryNodeResult>,
+      documentId = testDocumentId,
+    ) =>
+      graphService.createStoryNode(
+        documentId,
+        testUserId,
+        createNodeInput({ type: 'character', name, ...extra }),
+      );
+
+    test('soft-deletes absorbed nodes and unions aliases', async () => {
+      const survivorId = await createCharacter('Elizabeth', {
+        aliases: ['Liz'],
+      });
+      const absorbedId = await createCharacter('Lizzy', {
+        aliases: ['Eliza', 'liz'],
+        description: 'Second daughter',
+      });
+
+      await graphService.mergeStoryNodes(survivorId, [absorbedId]);
+
+      const absorbed = await graphService.getStoryNodeById(
+        absorbedId,
+        testUserId,
+      );
+      expect(absorbed).toBeNull();
+
+      const survivor = await graphService.getStoryNodeById(
+        survivorId,
+        testUserId,
+      );
+      expect(survivor?.aliases).toEqual(['Liz', 'Lizzy', 'Eliza']);
+      expect(survivor?.description).toBe('Second daughter');
+    });
+
+    test('moves facets onto the survivor', async () => {
+      const survivorId = await createCharacter('Elizabeth');
+      const absorbedId = await createCharacter('Lizzy');
+      const facetId = await graphService.createFacet(absorbedId, {
+        type: 'trait',
+        content: 'witty',
+      });
+
+      const result = await graphService.mergeStoryNodes(survivorId, [
+        absorbedId,
+      ]);
+
+      expect(result.absorbed[0].facetIds).toEqual([facetId]);
+      const facets = await graphService.getFacetsForEntity(survivorId);
+      expect(facets.map((f) => f.id)).toContain(facetId);
+      expect(facets.find((f) => f.id === facetId)?.entityId).toBe(survivorId);
+    });
+
+    test('moves edges and collapses parallel and self-loop edges', async () => {
+      const survivorId = await createCharacter('Elizabeth');
+      const absorbedId = await createCharacter('Lizzy');
+      const darcyId = await createCharacter('Darcy');
+      const janeId = await createCharacter('Jane');
+
+      await graphService.createStoryConnection(
+        survivorId,
+        darcyId,
+        'OPPOSES',
+        'survivor edge',
+      );
+      await graphService.createStoryConnection(
+        absorbedId,
+        darcyId,
+        'OPPOSES',
+        'parallel edge',
+      );
+      await graphService.createStoryConnection(
+        janeId,
+        absorbedId,
+        'CONNECTED_TO',
+        'sisters',
+      );
+      await graphService.createStoryConnection(
+        absorbedId,
+        survivorId,
+        'RELATED_TO',
+        'same person',
+      );
+
+      const result = await graphService.mergeStoryNodes(survivorId, [
+        absorbedId,
+      ]);
+
+      const dropReasons = Object.fromEntries(
+        result.absorbed[0].edges.map((e) => [e.edgeType, e.dropReason]),
+      );
+      expect(dropReasons).toEqual({
+        OPPOSES: 'duplicate',
+        CONNECTED_TO: null,
+        RELATED_TO: 'self_loop',
+      });
+
+      const connections =
+        await graphService.getStoryConnectionsForDocument(testDocumentId);
+      expect(
+        connections.map((c) => [c.fromNodeId, c.edgeType, c.toNodeId]),
+      ).toEqual(
+        expect.arrayContaining([
+          [survivorId, 'OPPOSES', darcyId],
+          [janeId, 'CONNECTED_TO', survivorId],
+        ]),
+      );
+      expect(connections).toHaveLength(2);
+    });
+
+    test('restoreMergedNode reverses a merge', async () => {
+      const survivorId = await createCharacter('Elizabeth');
+      const absorbedId = await createCharacter('Lizzy');
+      const janeId = await createCharacter('Jane');
+      const facetId = await graphService.createFacet(absorbedId, {
+        type: 'trait',
+        content: 'witty',
+      });
+      await graphService.createStoryConnection(
+        janeId,
+        absorbedId,
+        'CONNECTED_TO',
+        'sisters',
+      );
+
+      const result = await graphService.mergeStoryNodes(survivorId, [
+        absorbedId,
+      ]);
+      await graphService.restoreMergedNode(survivorId, result.absorbed[0]);
+
+      const restored = await graphService.getStoryNodeById(
+        absorbedId,
+        testUserId,
+      );
+      expect(restored?.name).toBe('Lizzy');
+
+      const facets = await graphService.getFacetsForEntity(absorbedId);
+      expect(facets.map((f) => f.id)).toEqual([facetId]);
+
+      const connections =
+        await graphService.getStoryConnectionsForDocument(testDocumentId);
+      expect(
+        connections.map((c) => [c.fromNodeId, c.edgeType, c.toNodeId]),
+      ).toEqual([[janeId, 'CONNECTED_TO', absorbedId]]);
+    });
+
+    test('splitStoryNode moves the given facets and edges to a new node', async () => {
+      const originalId = await createCharacter('The Captain');
+      const shipId = await createCharacter('The Ship');
+      const facetId = await graphService.createFacet(originalId, {
+        type: 'name',
+        content: 'Captain Reyes',
+      });
+      const edgeId = await graphService.createStoryConnection(
+        originalId,
+        shipId,
+        'POSSESSES',
+        null,
+      );
+
+      const split = await graphService.splitStoryNode(
+        originalId,
+        { name: 'Captain Reyes' },
+        { facetIds: [facetId], edgeIds: [edgeId] },
+      );
+
+      const created = await graphService.getStoryNodeById(
+        split.nodeId,
+        testUserId,
+      );
+      expect(created?.name).toBe('Captain Reyes');
+      expect(created?.type).toBe('character');
+      expect(split.facetIds).toEqual([facetId]);
+
+      const connections =
+        await graphService.getStoryConnectionsForDocument(testDocumentId);
+      expect(
+        connections.map((c) => [c.fromNodeId, c.edgeType, c.toNodeId]),
+      ).toEqual([[split.nodeId, 'POSSESSES', shipId]]);
+    });
+
+    test('rejects nodes from a different document', async () => {
+      const survivorId = await createCharacter('Elizabeth');
+      const otherId = await createCharacter('Lizzy', {}, otherDocId);
+
+      await expect(
+        graphService.mergeStoryNodes(survivorId, [otherId]),
+      ).rejects.toThrow('different document');
+    });
+
+    test('rejects merging a node into itself', async () => {
+      const survivorId = await createCharacter('Elizabeth');
+
+      await expect(
+        graphService.mergeStoryNodes(survivorId, [survivorId]),
+      ).rejects.toThrow('No nodes to merge');
+    });
+  },
+);
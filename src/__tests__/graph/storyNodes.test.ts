@@ -482,6 +482,81 @@ function createNodeInput(
     });
   });
 
+  describe('user-authored items', () => {
+    test('getUserAuthoredNodeIds returns only user-created nodes', async () => {
+      const userNodeId = await graphService.createStoryNode(
+        testDocumentId,
+        testUserId,
+        createNodeInput({ type: 'character', name: 'Hand Made' }),
+        { userAuthored: true },
+      );
+      await graphService.createStoryNode(
+        testDocumentId,
+        testUserId,
+        createNodeInput({ type: 'character', name: 'Extracted' }),
+      );
+
+      const ids = await graphService.getUserAuthoredNodeIds(testDocumentId);
+      expect([...ids]).toEqual([userNodeId]);
+    });
+
+    test('softDeleteStoryConnection keeps user-authored edges', async () => {
+      const fromId = await graphService.createStoryNode(
+        testDocumentId,
+        testUserId,
+        createNodeInput({ type: 'character', name: 'From' }),
+      );
+      const toId = await graphService.createStoryNode(
+        testDocumentId,
+        testUserId,
+        createNodeInput({ type: 'character', name: 'To' }),
+      );
+      const userEdgeId = await graphService.createStoryConnection(
+        fromId,
+        toId,
+        'OPPOSES',
+        null,
+        { userAuthored: true },
+      );
+      await graphService.createStoryConnection(
+        fromId,
+        toId,
+        'CONNECTED_TO',
+        null,
+      );
+
+      await graphService.softDeleteStoryConnection(fromId, toId);
+
+      const connections =
+        await graphService.getStoryConnectionsForDocument(testDocumentId);
+      expect(connections.map((c) => c.id)).toEqual([userEdgeId]);
+    });
+
+    test('softDeleteStoryConnectionById removes a single edge', async () => {
+      const fromId = await graphService.createStoryNode(
+        testDocumentId,
+        testUserId,
+        createNodeInput({ type: 'character', name: 'From' }),
+      );
+      const toId = await graphService.createStoryNode(
+        testDocumentId,
+        testUserId,
+        createNodeInput({ type: 'character', name: 'To' }),
+      );
+      const edgeId = await graphService.createStoryConnection(
+        fromId,
+        toId,
+        'OPPOSES',
+        null,
+        { userAuthored: true },
+      );
+
+      await graphService.softDeleteStoryConnectionById(edgeId);
+
+      expect(await graphService.getStoryConnectionById(edgeId)).toBeNull();
+    });
+  });
+
   describe('deleteAllStoryNodesForDocument', () => {
     test('removes all nodes for a document', async () => {
       await graphService.createStoryNode(
@@ -335,6 +335,44 @@ export function resetDocumentCounter() {
   documentCounter = 0;
 }
 
+// ========== Collaborator Factories ==========
+
+type CollaboratorRole = 'viewer' | 'commenter' | 'editor';
+
+interface TestCollaborator {
+  id: string;
+  documentId: string;
+  userId: string;
+  role: CollaboratorRole;
+}
+
+/**
+ * Give a user an accepted collaborator role on a document, as if they had
+ * followed the owner's invitation.
+ */
+export async function createTestCollaborator(
+  documentId: string,
+  user: Pick<TestUser, 'id' | 'email'>,
+  role: CollaboratorRole,
+): Promise<TestCollaborator> {
+  const db = await getTestDb();
+
+  const result = await db.execute(sql`
+    INSERT INTO document_collaborators (document_id, user_id, email, role, accepted_at)
+    VALUES (${documentId}, ${user.id}, ${user.email}, ${role}, NOW())
+    RETURNING id, document_id, user_id, role
+  `);
+
+  const row = result[0] as unknown;
+
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    userId: row.user_id,
+    role: row.role,
+  };
+}
+
 // ========== Media Factories ==========
 
 interface MediaInsert {
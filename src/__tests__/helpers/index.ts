@@ -11,6 +11,7 @@ export {
   createPasswordResetToken,
   createQueuedGeneration,
   createSession,
+  createTestCollaborator,
   createTestDocument,
   createTestGeneration,
   createTestMedia,
@@ -7,13 +7,19 @@ interface EmailServiceMock {
   >;
   sendPasswordResetEmail: Mock<(email: string, token: string) => Promise<void>>;
   sendPasswordChangedEmail: Mock<(email: string) => Promise<void>>;
+  sendDocumentInvitation: Mock<
+    (email: string, token: string, details: unknown) => Promise<void>
+  >;
+  sendCommentMention: Mock<(email: string, details: unknown) => Promise<void>>;
   getLastVerificationToken: () => string | null;
   getLastPasswordResetToken: () => string | null;
+  getLastInvitationToken: () => string | null;
   reset: () => void;
 }
 
 let lastVerificationToken: string | null = null;
 let lastPasswordResetToken: string | null = null;
+let lastInvitationToken: string | null = null;
 
 export function createEmailServiceMock(): EmailServiceMock {
   const sendVerificationEmail = mock(async (_email: string, token: string) => {
@@ -32,20 +38,36 @@ export function createEmailServiceMock(): EmailServiceMock {
 
   const sendPasswordChangedEmail = mock(async (_email: string) => {});
 
+  const sendDocumentInvitation = mock(
+    async (_email: string, token: string, _details: unknown) => {
+      lastInvitationToken = token;
+    },
+  );
+
+  const sendCommentMention = mock(
+    async (_email: string, _details: unknown) => {},
+  );
+
   return {
     sendVerificationEmail,
     sendEmailChangeVerification,
     sendPasswordResetEmail,
     sendPasswordChangedEmail,
+    sendDocumentInvitation,
+    sendCommentMention,
     getLastVerificationToken: () => lastVerificationToken,
     getLastPasswordResetToken: () => lastPasswordResetToken,
+    getLastInvitationToken: () => lastInvitationToken,
     reset: () => {
       lastVerificationToken = null;
       lastPasswordResetToken = null;
+      lastInvitationToken = null;
       sendVerificationEmail.mockClear();
       sendEmailChangeVerification.mockClear();
       sendPasswordResetEmail.mockClear();
       sendPasswordChangedEmail.mockClear();
+      sendDocumentInvitation.mockClear();
+      sendCommentMention.mockClear();
     },
   };
 }
@@ -65,6 +87,7 @@ export function resetAllMocks() {
   }
   lastVerificationToken = null;
   lastPasswordResetToken = null;
+  lastInvitationToken = null;
 }
 
 export function mockImageProvider() {
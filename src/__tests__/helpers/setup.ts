@@ -181,9 +181,16 @@ export async function truncateAll() {
   // Excludes dropped legacy tables (story_nodes, story_node_connections)
   const tables = [
     'mentions',
+    'comments',
+    'comment_threads',
     'document_versions',
     'document_media',
+    'document_collaborators',
+    'document_share_links',
+    'project_entity_nodes',
+    'project_entities',
     'documents',
+    'projects',
     'node_media',
     'user_style_prompts',
     'model_inputs',
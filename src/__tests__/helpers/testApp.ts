@@ -181,6 +181,7 @@ mock.module('../../middleware/rateLimiter', () => {
     signupRateLimiter: noOpRateLimiter,
     passwordResetRateLimiter: noOpRateLimiter,
     emailVerificationRateLimiter: noOpRateLimiter,
+    shareLinkRateLimiter: noOpRateLimiter,
   };
 });
 
@@ -333,6 +334,9 @@ mock.module('../../services/graph/graph.service', () => ({
     getStoryConnectionsForDocument: async () => [],
     createStoryConnection: async () => 'mock-connection-id',
     softDeleteStoryConnection: async () => {},
+    getStoryConnectionById: async () => null,
+    wouldCreateCycle: async () => false,
+    getFacetById: async () => null,
     setNodeEmbedding: async () => {},
     findSimilarNodes: async () => [],
     getNodeSimilaritiesForDocument: async () => [],
@@ -382,10 +386,12 @@ async function createTestApp() {
   const [
     { default: adminRoutes },
     { default: authRoutes },
+    { collaboratorsRouter },
     { default: documentRoutes },
     { default: generationRoutes },
     { default: mediaRoutes },
     { default: nodeRoutes },
+    { shareLinksRouter },
     { default: tagRoutes },
     { requireAuth, requireEmailVerified },
     { errorHandler },
@@ -393,10 +399,12 @@ async function createTestApp() {
   ] = await Promise.all([
     import('../../routes/admin'),
     import('../../routes/auth'),
+    import('../../routes/collaborators'),
     import('../../routes/documents'),
     import('../../routes/generations'),
     import('../../routes/media'),
     import('../../routes/nodes'),
+    import('../../routes/shareLinks'),
     import('../../routes/tags'),
     import('../../middleware/auth'),
     import('../../middleware/errorHandler'),
@@ -459,9 +467,11 @@ async function createTestApp() {
   app.use('/api', authRoutes);
   app.use('/api', adminRoutes);
   app.use('/api', documentRoutes);
+  app.use('/api', collaboratorsRouter);
   app.use('/api/generations', generationRoutes);
   app.use('/api/media', mediaRoutes);
   app.use('/api', nodeRoutes);
+  app.use('/api', shareLinksRouter);
   app.use('/api', tagRoutes);
 
   app.use(errorHandler);
@@ -452,4 +452,163 @@ describe('Node CRUD', () => {
       expect(res.status).toBe(401);
     });
   });
+
+  describe('POST /documents/:id/nodes', () => {
+    test('returns 404 for other users document', async () => {
+      const { user: owner } = await createVerifiedUser();
+      const { user: other, password } = await createVerifiedUser();
+      const doc = await createTestDocument(owner.id);
+
+      const loginRes = await fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailOrUsername: other.email, password }),
+      });
+      const cookie = loginRes.headers.get('set-cookie');
+      if (!cookie) throw new Error('Login failed: no cookie');
+
+      const res = await fetch(`${baseUrl}/api/documents/${doc.id}/nodes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify({ type: 'character', name: 'Missed Character' }),
+      });
+
+      expect(res.status).toBe(404);
+    });
+
+    test('returns 400 for invalid type', async () => {
+      const { user, password } = await createVerifiedUser();
+      const doc = await createTestDocument(user.id);
+
+      const loginRes = await fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailOrUsername: user.email, password }),
+      });
+      const cookie = loginRes.headers.get('set-cookie');
+      if (!cookie) throw new Error('Login failed: no cookie');
+
+      const res = await fetch(`${baseUrl}/api/documents/${doc.id}/nodes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify({ type: 'spaceship', name: 'Serenity' }),
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /nodes/:id', () => {
+    test('deletes node', async () => {
+      const { user, password } = await createVerifiedUser();
+      const doc = await createTestDocument(user.id);
+
+      const nodeId = randomUUID();
+      setMockStoryNode(nodeId, {
+        id: nodeId,
+        documentId: doc.id,
+        userId: user.id,
+        type: 'character',
+        name: 'Extraction Mistake',
+        description: null,
+        aliases: [],
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        deletedAt: null,
+      });
+
+      const loginRes = await fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailOrUsername: user.email, password }),
+      });
+      const cookie = loginRes.headers.get('set-cookie');
+      if (!cookie) throw new Error('Login failed: no cookie');
+
+      const res = await fetch(`${baseUrl}/api/nodes/${nodeId}`, {
+        method: 'DELETE',
+        headers: { Cookie: cookie },
+      });
+
+      expect(res.status).toBe(200);
+    });
+
+    test('returns 404 for non-existent node', async () => {
+      const { user, password } = await createVerifiedUser();
+
+      const loginRes = await fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailOrUsername: user.email, password }),
+      });
+      const cookie = loginRes.headers.get('set-cookie');
+      if (!cookie) throw new Error('Login failed: no cookie');
+
+      const res = await fetch(`${baseUrl}/api/nodes/nonexistent-node`, {
+        method: 'DELETE',
+        headers: { Cookie: cookie },
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /nodes/:id/edges', () => {
+    test('rejects an edge from a node to itself', async () => {
+      const { user, password } = await createVerifiedUser();
+      const doc = await createTestDocument(user.id);
+
+      const nodeId = randomUUID();
+      setMockStoryNode(nodeId, {
+        id: nodeId,
+        documentId: doc.id,
+        userId: user.id,
+        type: 'event',
+        name: 'The Fire',
+        description: null,
+        aliases: [],
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        deletedAt: null,
+      });
+
+      const loginRes = await fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailOrUsername: user.email, password }),
+      });
+      const cookie = loginRes.headers.get('set-cookie');
+      if (!cookie) throw new Error('Login failed: no cookie');
+
+      const res = await fetch(`${baseUrl}/api/nodes/${nodeId}/edges`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify({ toNodeId: nodeId, edgeType: 'CAUSES' }),
+      });
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error.code).toBe('INVALID_EDGE');
+    });
+
+    test('returns 400 for unknown edge type', async () => {
+      const { user, password } = await createVerifiedUser();
+
+      const loginRes = await fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailOrUsername: user.email, password }),
+      });
+      const cookie = loginRes.headers.get('set-cookie');
+      if (!cookie) throw new Error('Login failed: no cookie');
+
+      const res = await fetch(`${baseUrl}/api/nodes/some-id/edges`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify({ toNodeId: 'other', edgeType: 'LOVES' }),
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
 });
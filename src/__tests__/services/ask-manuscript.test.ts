@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  buildPassages,
+  extractCitations,
+  formatSegmentSummaries,
+  mergeRanges,
+} from '../../services/ask/context';
+
+const content =
+  'Mara found the vial in the cellar. She told no one. ' +
+  'Days later, Tomas drank the wine. The keeper knew the taste of poison.';
+
+function mention(id: string, nodeId: string, text: string) {
+  const absoluteStart = content.indexOf(text);
+  return {
+    id,
+    nodeId,
+    absoluteStart,
+    absoluteEnd: absoluteStart + text.length,
+  };
+}
+
+describe('mergeRanges', () => {
+  test('merges overlapping and touching ranges in document order', () => {
+    expect(
+      mergeRanges([
+        { absoluteStart: 40, absoluteEnd: 60 },
+        { absoluteStart: 0, absoluteEnd: 20 },
+        { absoluteStart: 20, absoluteEnd: 30 },
+        { absoluteStart: 50, absoluteEnd: 70 },
+      ]),
+    ).toEqual([
+      { absoluteStart: 0, absoluteEnd: 30 },
+      { absoluteStart: 40, absoluteEnd: 70 },
+    ]);
+  });
+});
+
+describe('buildPassages', () => {
+  test('numbers passages and attaches the mentions inside them', () => {
+    const firstEnd = content.indexOf(' Days');
+    const passages = buildPassages(
+      content,
+      [
+        { absoluteStart: firstEnd + 1, absoluteEnd: content.length },
+        { absoluteStart: 0, absoluteEnd: firstEnd },
+      ],
+      [
+        mention('m1', 'mara', 'Mara'),
+        mention('m2', 'vial', 'vial'),
+        mention('m3', 'tomas', 'Tomas'),
+        mention('m4', 'mara', 'She'),
+      ],
+    );
+
+    expect(passages).toHaveLength(2);
+    expect(passages[0].number).toBe(1);
+    expect(passages[0].text).toBe(
+      'Mara found the vial in the cellar. She told no one.',
+    );
+    expect(passages[0].mentionIds).toEqual(['m1', 'm2', 'm4']);
+    expect(passages[0].nodeIds).toEqual(['mara', 'vial']);
+    expect(passages[1].mentionIds).toEqual(['m3']);
+  });
+});
+
+describe('extractCitations', () => {
+  const passages = buildPassages(
+    content,
+    [
+      { absoluteStart: 0, absoluteEnd: 34 },
+      { absoluteStart: 52, absoluteEnd: 85 },
+    ],
+    [mention('m1', 'mara', 'Mara'), mention('m3', 'tomas', 'Tomas')],
+  );
+
+  test('collects cited passages in order of first citation', () => {
+    const citations = extractCitations(
+      'Only Mara knew [2, 1], having found it herself [1]. See also [7].',
+      passages,
+    );
+
+    expect(citations.map((c) => c.passage)).toEqual([2, 1]);
+    expect(citations[0].mentionIds).toEqual(['m3']);
+    expect(citations[1].absoluteStart).toBe(0);
+    expect(citations[1].absoluteEnd).toBe(34);
+  });
+
+  test('returns nothing for an uncited answer', () => {
+    expect(extractCitations('Nobody knew.', passages)).toEqual([]);
+  });
+});
+
+describe('formatSegmentSummaries', () => {
+  test('lists summarized segments in document order', () => {
+    expect(
+      formatSegmentSummaries([
+        { id: 'b', start: 100, end: 200, summary: 'Tomas is poisoned.' },
+        { id: 'c', start: 200, end: 300 },
+        { id: 'a', start: 0, end: 100, summary: 'Mara finds a vial.' },
+      ]),
+    ).toBe(
+      '(from char 0) Mara finds a vial.\n(from char 100) Tomas is poisoned.',
+    );
+  });
+});
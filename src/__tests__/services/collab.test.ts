@@ -0,0 +1,148 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  type CollabConnection,
+  CollabRoom,
+} from '../../services/collab/collabRoom';
+import {
+  type Awareness,
+  createAwareness,
+  encodeAwareness,
+  encodeSyncStep1,
+  encodeUpdate,
+  parseCollabPath,
+  readCookie,
+  readMessage,
+} from '../../services/collab/protocol';
+
+const Y = require('yjs');
+
+interface ClientDoc {
+  clientID: number;
+  getText(name: string): {
+    insert(index: number, text: string): void;
+    toString(): string;
+  };
+  on(
+    event: 'update',
+    handler: (update: Uint8Array, origin: unknown) => void,
+  ): void;
+  destroy(): void;
+}
+
+interface Client extends CollabConnection {
+  doc: ClientDoc;
+  awareness: Awareness;
+}
+
+/** A client wired to the room the way a y-websocket provider would be */
+function connect(room: CollabRoom, userId: string, readOnly = false): Client {
+  const doc: ClientDoc = new Y.Doc();
+  const awareness = createAwareness(doc);
+  const client: Client = {
+    userId,
+    readOnly,
+    doc,
+    awareness,
+    send: (message) => {
+      const reply = readMessage(message, doc, awareness, room);
+      if (reply) room.receive(client, reply);
+    },
+  };
+
+  doc.on('update', (update, origin) => {
+    if (origin !== room) room.receive(client, encodeUpdate(update));
+  });
+  awareness.on('update', ({ added, updated, removed }, origin) => {
+    if (origin === room) return;
+    room.receive(
+      client,
+      encodeAwareness(awareness, [...added, ...updated, ...removed]),
+    );
+  });
+
+  room.join(client);
+  room.receive(client, encodeSyncStep1(doc));
+  return client;
+}
+
+describe('parseCollabPath', () => {
+  test('reads the document id from collab URLs only', () => {
+    expect(parseCollabPath('/api/documents/doc-1/collab')).toBe('doc-1');
+    expect(parseCollabPath('/api/documents/doc-1/collab?v=2')).toBe('doc-1');
+    expect(parseCollabPath('/api/documents/doc-1')).toBeNull();
+    expect(parseCollabPath('/api/documents/../collab')).toBeNull();
+    expect(parseCollabPath(undefined)).toBeNull();
+  });
+});
+
+describe('readCookie', () => {
+  test('finds and decodes a named cookie', () => {
+    expect(readCookie('a=1; sessionToken=abc%3D; b=2', 'sessionToken')).toBe(
+      'abc=',
+    );
+    expect(readCookie('a=1', 'sessionToken')).toBeNull();
+    expect(readCookie(undefined, 'sessionToken')).toBeNull();
+  });
+});
+
+describe('CollabRoom', () => {
+  test('merges edits from every client and relays them', () => {
+    let changes = 0;
+    const room = new CollabRoom('doc-1', null, () => {
+      changes++;
+    });
+    const alice = connect(room, 'alice');
+    const bob = connect(room, 'bob');
+
+    alice.doc.getText('t').insert(0, 'Hello');
+    bob.doc.getText('t').insert(5, ' world');
+
+    expect(alice.doc.getText('t').toString()).toBe('Hello world');
+    expect(bob.doc.getText('t').toString()).toBe('Hello world');
+    expect(changes).toBe(2);
+    expect(room.lastEditorId).toBe('bob');
+
+    const saved: ClientDoc = new Y.Doc();
+    Y.applyUpdate(saved, Buffer.from(room.encodeState(), 'base64'));
+    expect(saved.getText('t').toString()).toBe('Hello world');
+  });
+
+  test('sends existing state to a client that joins later', () => {
+    const room = new CollabRoom('doc-1', null, () => {});
+    connect(room, 'alice').doc.getText('t').insert(0, 'Draft');
+
+    const bob = connect(room, 'bob');
+    expect(bob.doc.getText('t').toString()).toBe('Draft');
+  });
+
+  test('read-only clients receive edits but cannot make them', () => {
+    let changes = 0;
+    const room = new CollabRoom('doc-1', null, () => {
+      changes++;
+    });
+    const alice = connect(room, 'alice');
+    const viewer = connect(room, 'viewer', true);
+
+    alice.doc.getText('t').insert(0, 'Draft');
+    expect(viewer.doc.getText('t').toString()).toBe('Draft');
+
+    viewer.doc.getText('t').insert(0, 'Vandalised ');
+    expect(alice.doc.getText('t').toString()).toBe('Draft');
+    expect(changes).toBe(1);
+  });
+
+  test('relays awareness and drops it when a client leaves', () => {
+    const room = new CollabRoom('doc-1', null, () => {});
+    const alice = connect(room, 'alice');
+    const bob = connect(room, 'bob');
+
+    alice.awareness.setLocalState({ cursor: 3 });
+    expect(bob.awareness.getStates().get(alice.doc.clientID)).toEqual({
+      cursor: 3,
+    });
+
+    room.leave(alice);
+    expect(room.size).toBe(1);
+    expect(bob.awareness.getStates().has(alice.doc.clientID)).toBe(false);
+  });
+});
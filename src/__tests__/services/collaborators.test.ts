@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  hasDocumentRole,
+  normalizeEmail,
+} from '../../services/collaborators/roles';
+
+describe('hasDocumentRole', () => {
+  test('each role includes the ones below it', () => {
+    expect(hasDocumentRole('owner', 'editor')).toBe(true);
+    expect(hasDocumentRole('editor', 'commenter')).toBe(true);
+    expect(hasDocumentRole('commenter', 'viewer')).toBe(true);
+    expect(hasDocumentRole('viewer', 'viewer')).toBe(true);
+  });
+
+  test('collaborators never get owner access', () => {
+    expect(hasDocumentRole('viewer', 'commenter')).toBe(false);
+    expect(hasDocumentRole('commenter', 'editor')).toBe(false);
+    expect(hasDocumentRole('editor', 'owner')).toBe(false);
+  });
+
+  test('no role grants nothing', () => {
+    expect(hasDocumentRole(null, 'viewer')).toBe(false);
+    expect(hasDocumentRole(undefined, 'viewer')).toBe(false);
+  });
+});
+
+describe('normalizeEmail', () => {
+  test('ignores case and surrounding whitespace', () => {
+    expect(normalizeEmail('  Ada@Example.COM ')).toBe('ada@example.com');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  excerpt,
+  parseMentionedUsernames,
+} from '../../services/comments/commentText';
+import { replaceTextInState } from '../../services/comments/textEdit';
+import { contentJsonToPlainText } from '../../services/documentImport/contentJson';
+import {
+  htmlToYjsState,
+  textToYjsState,
+} from '../../services/documentImport/convert';
+import { yjsStateToContentJson } from '../../services/documentImport/yjsState';
+
+function plainTextOf(yjsState: string): string {
+  return contentJsonToPlainText(yjsStateToContentJson(yjsState));
+}
+
+describe('parseMentionedUsernames', () => {
+  test('finds mentions, lowercased and deduplicated', () => {
+    expect(
+      parseMentionedUsernames('@Alice can you check? cc @bob_2 and @alice'),
+    ).toEqual(['alice', 'bob_2']);
+  });
+
+  test('ignores email addresses and too-short names', () => {
+    expect(
+      parseMentionedUsernames('mail ana@example.com or ping @al, @@carol'),
+    ).toEqual([]);
+  });
+
+  test('allows trailing punctuation', () => {
+    expect(parseMentionedUsernames('Thoughts, @dana?')).toEqual(['dana']);
+  });
+});
+
+describe('excerpt', () => {
+  test('flattens whitespace', () => {
+    expect(excerpt('  Line one\n\n line two ')).toBe('Line one line two');
+  });
+
+  test('truncates long text with an ellipsis', () => {
+    const result = excerpt('a'.repeat(50), 10);
+    expect(result).toHaveLength(10);
+    expect(result.endsWith('…')).toBe(true);
+  });
+});
+
+describe('replaceTextInState', () => {
+  const { yjsState } = textToYjsState('First para\n\nSecond one here');
+
+  test('replaces a range and keeps the surrounding text', () => {
+    const start = 'First para\n\n'.length + 'Second '.length;
+    const updated = replaceTextInState(yjsState, {
+      start,
+      end: start + 'one'.length,
+      replacement: 'two',
+      expected: 'one',
+    });
+
+    expect(updated).not.toBeNull();
+    expect(plainTextOf(updated as string)).toBe(
+      'First para\n\nSecond two here',
+    );
+  });
+
+  test('supports pure insertions and deletions', () => {
+    const inserted = replaceTextInState(yjsState, {
+      start: 5,
+      end: 5,
+      replacement: ' big',
+    });
+    expect(plainTextOf(inserted as string)).toBe(
+      'First big para\n\nSecond one here',
+    );
+
+    const deleted = replaceTextInState(yjsState, {
+      start: 0,
+      end: 6,
+      replacement: '',
+    });
+    expect(plainTextOf(deleted as string)).toBe('para\n\nSecond one here');
+  });
+
+  test('refuses a range whose text changed', () => {
+    expect(
+      replaceTextInState(yjsState, {
+        start: 0,
+        end: 5,
+        replacement: 'Last',
+        expected: 'Frist',
+      }),
+    ).toBeNull();
+  });
+
+  test('refuses a range spanning paragraphs', () => {
+    expect(
+      replaceTextInState(yjsState, {
+        start: 6,
+        end: 'First para\n\nSecond'.length,
+        replacement: 'merged',
+      }),
+    ).toBeNull();
+  });
+
+  test('keeps formatting around the edit', () => {
+    const formatted = htmlToYjsState('<p>The <strong>bold</strong> cat</p>');
+    const start = 'The bold '.length;
+    const updated = replaceTextInState(formatted.yjsState, {
+      start,
+      end: start + 3,
+      replacement: 'dog',
+      expected: 'cat',
+    });
+
+    const json = yjsStateToContentJson(updated as string);
+    expect(contentJsonToPlainText(json)).toBe('The bold dog');
+    expect(JSON.stringify(json)).toContain('"bold"');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  formatPassages,
+  locateWarnings,
+  numberFacts,
+  overlappingSegments,
+} from '../../services/lint/context';
+import type { LintPassage } from '../../services/lint/lint.types';
+
+const segments = [
+  { id: 's1', start: 0, end: 100 },
+  { id: 's2', start: 100, end: 250 },
+  { id: 's3', start: 250, end: 400 },
+];
+
+describe('overlappingSegments', () => {
+  test('returns the segments a range touches', () => {
+    expect(overlappingSegments(segments, 90, 120).map((s) => s.id)).toEqual([
+      's1',
+      's2',
+    ]);
+    expect(overlappingSegments(segments, 100, 250).map((s) => s.id)).toEqual([
+      's2',
+    ]);
+  });
+
+  test('checks the containing segment for an empty range', () => {
+    expect(overlappingSegments(segments, 250, 250).map((s) => s.id)).toEqual([
+      's3',
+    ]);
+  });
+});
+
+describe('numberFacts', () => {
+  test('numbers facets and possessions across entities, skipping names', () => {
+    const entities = numberFacts(
+      [
+        {
+          id: 'mara',
+          name: 'Mara',
+          type: 'character',
+          facets: [
+            { id: 'f-name', type: 'name', content: 'Mara' },
+            { id: 'f-eyes', type: 'appearance', content: 'green eyes' },
+          ],
+          possessions: [{ id: 'compass', name: 'the brass compass' }],
+        },
+        {
+          id: 'tower',
+          name: 'Lighthouse',
+          type: 'location',
+          facets: [{ id: 'f-ruin', type: 'state', content: 'in ruins' }],
+          possessions: [],
+        },
+      ],
+      4,
+    );
+    expect(entities[0].facts.map((f) => f.ref)).toEqual(['F4', 'F5']);
+    expect(entities[0].facts[1].content).toBe('possesses the brass compass');
+    expect(entities[1].facts[0].ref).toBe('F6');
+  });
+});
+
+describe('locateWarnings', () => {
+  const text = 'Mara blinked her blue eyes and reached for the sword.';
+  const passage: LintPassage = {
+    number: 1,
+    segmentId: 's2',
+    start: 100,
+    end: 100 + text.length,
+    text,
+    entities: numberFacts([
+      {
+        id: 'mara',
+        name: 'Mara',
+        type: 'character',
+        facets: [{ id: 'f-eyes', type: 'appearance', content: 'green eyes' }],
+        possessions: [],
+      },
+    ]),
+  };
+
+  test('maps quotes to absolute offsets with the contradicted fact', () => {
+    const warnings = locateWarnings(
+      [
+        {
+          passage: 1,
+          entityName: 'mara',
+          quote: 'Blue eyes',
+          factRef: 'F1',
+          message: "Mara's eyes were established as green",
+        },
+      ],
+      [passage],
+      { start: 100, end: 200 },
+    );
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].start).toBe(117);
+    expect(warnings[0].end).toBe(126);
+    expect(warnings[0].quote).toBe('blue eyes');
+    expect(warnings[0].fact?.id).toBe('f-eyes');
+  });
+
+  test('drops unlocatable, unknown-entity and out-of-range warnings', () => {
+    const warnings = locateWarnings(
+      [
+        { passage: 1, entityName: 'Mara', quote: 'red hair', message: 'x' },
+        { passage: 1, entityName: 'Tom', quote: 'sword', message: 'x' },
+        { passage: 2, entityName: 'Mara', quote: 'sword', message: 'x' },
+        { passage: 1, entityName: 'Mara', quote: 'blue eyes', message: 'x' },
+      ],
+      [passage],
+      { start: 130, end: 160 },
+    );
+    expect(warnings).toHaveLength(0);
+  });
+});
+
+describe('formatPassages', () => {
+  test('lists each passage with its numbered facts', () => {
+    const formatted = formatPassages([
+      {
+        number: 1,
+        segmentId: 's1',
+        start: 0,
+        end: 10,
+        text: 'Mara ran.',
+        entities: numberFacts([
+          {
+            id: 'mara',
+            name: 'Mara',
+            type: 'character',
+            facets: [{ id: 'f1', type: 'state', content: 'broken leg' }],
+            possessions: [],
+          },
+        ]),
+      },
+    ]);
+    expect(formatted).toContain('## PASSAGE 1');
+    expect(formatted).toContain('[F1] state: broken leg');
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  contentJsonToPlainText,
+  htmlToContentJson,
+  markdownToContentJson,
+  textToContentJson,
+} from '../../services/documentImport/contentJson';
+import {
+  docxToYjsState,
+  pdfToYjsState,
+  resolveImportMimeType,
+} from '../../services/documentImport/convert';
+import {
+  contentJsonToYjsState,
+  documentEditorContent,
+  replaceDocContent,
+  yjsStateToContentJson,
+} from '../../services/documentImport/yjsState';
+import { AppError } from '../../utils/errors';
+
+// Same Yjs instance as the state helpers, which require it
+const Y = require('yjs');
+
+describe('markdownToContentJson', () => {
+  test('keeps headings, emphasis and links', () => {
+    const doc = markdownToContentJson(
+      '# Chapter One\n\nIt was a *truth* universally **acknowledged**.\nSee [notes](https://example.com).',
+    );
+    expect(doc.content).toEqual([
+      {
+        type: 'heading',
+        attrs: { level: 1 },
+        content: [{ type: 'text', text: 'Chapter One' }],
+      },
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'It was a ' },
+          { type: 'text', text: 'truth', marks: [{ type: 'italic' }] },
+          { type: 'text', text: ' universally ' },
+          { type: 'text', text: 'acknowledged', marks: [{ type: 'bold' }] },
+          { type: 'text', text: '. See ' },
+          {
+            type: 'text',
+            text: 'notes',
+            marks: [{ type: 'link', attrs: { href: 'https://example.com' } }],
+          },
+          { type: 'text', text: '.' },
+        ],
+      },
+    ]);
+  });
+
+  test('parses nested lists and blockquotes', () => {
+    const doc = markdownToContentJson(
+      '- Jane\n  1. eldest\n- Elizabeth\n\n> Quoted',
+    );
+    expect(doc.content?.map((n) => n.type)).toEqual([
+      'bulletList',
+      'blockquote',
+    ]);
+    const [jane] = doc.content?.[0].content ?? [];
+    expect(jane.content?.map((n) => n.type)).toEqual([
+      'paragraph',
+      'orderedList',
+    ]);
+  });
+});
+
+describe('htmlToContentJson', () => {
+  test('maps headings and Google Docs inline styles to marks', () => {
+    const doc = htmlToContentJson(
+      '<html><head><style>p{}</style></head><body><h2>Part <em>Two</em></h2><p><span style="font-weight: 700">Bold</span> and <i>plain</i></p><p></p></body></html>',
+    );
+    expect(doc.content).toEqual([
+      {
+        type: 'heading',
+        attrs: { level: 2 },
+        content: [
+          { type: 'text', text: 'Part ' },
+          { type: 'text', text: 'Two', marks: [{ type: 'italic' }] },
+        ],
+      },
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Bold', marks: [{ type: 'bold' }] },
+          { type: 'text', text: ' and ' },
+          { type: 'text', text: 'plain', marks: [{ type: 'italic' }] },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('textToContentJson', () => {
+  test('joins wrapped PDF lines but keeps hard breaks in text files', () => {
+    const text = 'First line\nsecond line\n\nNext';
+    expect(
+      contentJsonToPlainText(textToContentJson(text, { joinLines: true })),
+    ).toBe('First line second line\n\nNext');
+    expect(contentJsonToPlainText(textToContentJson(text))).toBe(text);
+  });
+});
+
+describe('contentJsonToYjsState', () => {
+  test('encodes blocks and marks into the prosemirror fragment', () => {
+    const state = contentJsonToYjsState(
+      markdownToContentJson('# Title\n\nSome **bold** text'),
+    );
+    const ydoc = new Y.Doc();
+    Y.applyUpdate(ydoc, Buffer.from(state, 'base64'));
+
+    const root = ydoc.getXmlFragment('prosemirror').get(0);
+    const heading = root.get(0);
+    expect(heading.nodeName).toBe('heading');
+    expect(heading.getAttribute('level') as unknown).toBe(1);
+
+    const text = root.get(1).get(0);
+    expect(text.toDelta()).toEqual([
+      { insert: 'Some ' },
+      { insert: 'bold', attributes: { bold: {} } },
+      { insert: ' text' },
+    ]);
+  });
+});
+
+describe('documentEditorContent', () => {
+  test('prefers the collaborative state over stale import content', () => {
+    const content = documentEditorContent({
+      contentJson: textToContentJson('As imported'),
+      yjsState: contentJsonToYjsState(textToContentJson('As edited')),
+    });
+    expect(content).toEqual(textToContentJson('As edited'));
+  });
+
+  test('falls back to contentJson without a collaborative state', () => {
+    expect(
+      documentEditorContent({
+        contentJson: textToContentJson('As imported'),
+        yjsState: null,
+      }),
+    ).toEqual(textToContentJson('As imported'));
+  });
+});
+
+describe('replaceDocContent', () => {
+  test('replaces a live document in place, keeping its layout', () => {
+    const ydoc = new Y.Doc();
+    Y.applyUpdate(
+      ydoc,
+      Buffer.from(
+        contentJsonToYjsState(textToContentJson('Current text')),
+        'base64',
+      ),
+    );
+    const root = ydoc.getXmlFragment('prosemirror').get(0);
+    const updates: Uint8Array[] = [];
+    ydoc.on('update', (update: Uint8Array) => updates.push(update));
+
+    replaceDocContent(ydoc, textToContentJson('Restored text'));
+
+    expect(updates).toHaveLength(1);
+    expect(ydoc.getXmlFragment('prosemirror').get(0)).toBe(root);
+    expect(
+      yjsStateToContentJson(
+        Buffer.from(Y.encodeStateAsUpdate(ydoc)).toString('base64'),
+      ),
+    ).toEqual(textToContentJson('Restored text'));
+  });
+});
+
+describe('corrupt uploads', () => {
+  async function statusOf(conversion: Promise<unknown>) {
+    try {
+      await conversion;
+      return null;
+    } catch (error) {
+      return error instanceof AppError ? error.statusCode : 500;
+    }
+  }
+
+  test('reject an unreadable DOCX as a bad request', async () => {
+    expect(await statusOf(docxToYjsState(Buffer.from('not a docx')))).toBe(400);
+  });
+
+  test('reject an unreadable PDF as a bad request', async () => {
+    expect(await statusOf(pdfToYjsState(Buffer.from('not a pdf')))).toBe(400);
+  });
+});
+
+describe('resolveImportMimeType', () => {
+  test('falls back to the extension for generic upload types', () => {
+    expect(resolveImportMimeType('book.md', 'application/octet-stream')).toBe(
+      'text/markdown',
+    );
+    expect(resolveImportMimeType('book.exe', 'application/octet-stream')).toBe(
+      null,
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test';
+import JSZip from 'jszip';
+import { splitIntoChapters } from '../../services/export/chapters';
+import { generateEpub, placeImages } from '../../services/export/epub';
+import type { ProseMirrorNode } from '../../services/export/types';
+
+function paragraph(text: string): ProseMirrorNode {
+  return { type: 'paragraph', content: [{ type: 'text', text }] };
+}
+
+function chapterHeading(text: string): ProseMirrorNode {
+  return {
+    type: 'heading',
+    attrs: { level: 1 },
+    content: [{ type: 'text', text }],
+  };
+}
+
+const doc: ProseMirrorNode = {
+  type: 'doc',
+  content: [
+    paragraph('Prologue.'),
+    chapterHeading('The Ball'),
+    paragraph('They danced.'),
+    {
+      type: 'heading',
+      attrs: { level: 2 },
+      content: [{ type: 'text', text: 'Later' }],
+    },
+    chapterHeading('The Letter'),
+    paragraph('A letter came.'),
+  ],
+};
+
+describe('splitIntoChapters', () => {
+  test('starts a chapter at each H1 and keeps the opening untitled', () => {
+    const chapters = splitIntoChapters(doc);
+    expect(chapters.map((c) => c.title)).toEqual([
+      null,
+      'The Ball',
+      'The Letter',
+    ]);
+    expect(chapters[1].blocks).toHaveLength(3);
+  });
+});
+
+describe('placeImages', () => {
+  test('attaches images to the block containing their offset', () => {
+    const blocks = doc.content ?? [];
+    // "Prologue." is 0-9, blank line, "The Ball" is 11-19, blank line,
+    // "They danced." 21-33
+    const placed = placeImages(blocks, [
+      { textOffset: 3 },
+      { textOffset: 22 },
+      { textOffset: 10_000 },
+    ]);
+
+    expect(placed.get(blocks[0])).toEqual([{ textOffset: 3 }]);
+    expect(placed.get(blocks[2])).toEqual([{ textOffset: 22 }]);
+    expect(placed.get(blocks[blocks.length - 1])).toEqual([
+      { textOffset: 10_000 },
+    ]);
+  });
+
+  test('skips empty blocks like the plain-text content does', () => {
+    const blocks: ProseMirrorNode[] = [
+      paragraph('Rain.'),
+      { type: 'paragraph' },
+      { type: 'horizontalRule' },
+      paragraph('Sun.'),
+    ];
+    // contentJsonToPlainText gives "Rain.\n\nSun.", so "Sun." starts at 7
+    const placed = placeImages(blocks, [{ textOffset: 5 }, { textOffset: 7 }]);
+
+    expect(placed.get(blocks[0])).toEqual([{ textOffset: 5 }]);
+    expect(placed.get(blocks[3])).toEqual([{ textOffset: 7 }]);
+  });
+});
+
+describe('generateEpub', () => {
+  test('writes chapters, navigation and embedded images', async () => {
+    const result = await generateEpub({
+      identifier: '00000000-0000-0000-0000-000000000001',
+      title: 'Pride & Prejudice',
+      author: 'Jane Austen',
+      contentJson: doc,
+      fallbackText: '',
+      images: [
+        { textOffset: 22, buffer: Buffer.from('png'), mimeType: 'image/png' },
+      ],
+    });
+
+    expect(result.mimeType).toBe('application/epub+zip');
+    const zip = await JSZip.loadAsync(result.buffer);
+    expect(Object.keys(zip.files)[0]).toBe('mimetype');
+
+    const nav = await zip.file('OEBPS/nav.xhtml')?.async('string');
+    expect(nav).toContain('<a href="chapter-2.xhtml">The Ball</a>');
+    expect(nav).toContain('<a href="chapter-3.xhtml">The Letter</a>');
+
+    const chapter = await zip.file('OEBPS/chapter-2.xhtml')?.async('string');
+    expect(chapter).toContain(
+      '<p>They danced.</p>\n<figure><img src="images/image-1.png" alt=""/></figure>',
+    );
+
+    const opf = await zip.file('OEBPS/content.opf')?.async('string');
+    expect(opf).toContain('<dc:title>Pride &amp; Prejudice</dc:title>');
+    expect(opf).toContain('href="images/image-1.png" media-type="image/png"');
+    expect(zip.file('OEBPS/images/image-1.png')).not.toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  type MergeChangeData,
+  rollBackSurvivor,
+} from '../../services/changelog/mergeRollback';
+import type { StoredStoryNode } from '../../services/graph/graph.types';
+
+function node(
+  id: string,
+  overrides: Partial<StoredStoryNode> = {},
+): StoredStoryNode {
+  return {
+    id,
+    documentId: 'doc-1',
+    userId: 'user-1',
+    type: 'character',
+    name: id,
+    description: null,
+    aliases: null,
+    metadata: null,
+    primaryMediaId: null,
+    stylePreset: null,
+    stylePrompt: null,
+    documentOrder: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function merge(
+  mergedFrom: StoredStoryNode,
+  survivorBefore: MergeChangeData['survivorBefore'],
+  survivorAfter: MergeChangeData['survivorAfter'],
+): MergeChangeData {
+  return {
+    mergedFrom,
+    mergedInto: { id: 'aria', name: 'Aria' },
+    survivorBefore,
+    survivorAfter,
+    moved: {
+      facetIds: [],
+      stateIds: [],
+      arcIds: [],
+      threadMemberships: [],
+      edges: [],
+      mentionIds: [],
+    },
+  };
+}
+
+// Aria absorbs "The Fox", then "Vance", each merge adding names and text
+const first = merge(
+  node('fox', { name: 'The Fox', aliases: ['Fox'] }),
+  { aliases: ['Ari'], description: 'A thief', documentOrder: 5 },
+  {
+    aliases: ['Ari', 'The Fox', 'Fox'],
+    description: 'A thief known as the Fox',
+    documentOrder: 2,
+  },
+);
+const second = merge(
+  node('vance', { name: 'Vance' }),
+  {
+    aliases: ['Ari', 'The Fox', 'Fox'],
+    description: 'A thief known as the Fox',
+    documentOrder: 2,
+  },
+  {
+    aliases: ['Ari', 'The Fox', 'Fox', 'Vance'],
+    description: 'Aria Vance, a thief known as the Fox',
+    documentOrder: 1,
+  },
+);
+const afterBoth = {
+  aliases: ['Ari', 'The Fox', 'Fox', 'Vance'],
+  description: 'Aria Vance, a thief known as the Fox',
+  documentOrder: 1,
+};
+
+describe('rollBackSurvivor', () => {
+  test('undoing the later merge keeps what the earlier one added', () => {
+    expect(rollBackSurvivor(afterBoth, [second])).toEqual({
+      aliases: ['Ari', 'The Fox', 'Fox'],
+      description: 'A thief known as the Fox',
+      documentOrder: 2,
+    });
+  });
+
+  test('undoing both merges restores the original survivor', () => {
+    expect(rollBackSurvivor(afterBoth, [first, second])).toEqual({
+      aliases: ['Ari'],
+      description: 'A thief',
+      documentOrder: 5,
+    });
+  });
+
+  test('keeps a description edited after the merge', () => {
+    const edited = { ...afterBoth, description: 'Hand-written' };
+    expect(rollBackSurvivor(edited, [first, second]).description).toBe(
+      'Hand-written',
+    );
+  });
+});
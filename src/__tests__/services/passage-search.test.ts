@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  buildHighlightedContext,
+  combineScores,
+  extractQueryTerms,
+  scoreKeywordMatch,
+  splitDocumentSentences,
+} from '../../services/search/passages';
+
+describe('extractQueryTerms', () => {
+  test('drops stop words and duplicates', () => {
+    expect(
+      extractQueryTerms('Where did I describe the lighthouse at night? Night!'),
+    ).toEqual(['describe', 'lighthouse', 'night']);
+  });
+});
+
+describe('scoreKeywordMatch', () => {
+  const terms = ['lighthouse', 'night'];
+
+  test('matches word prefixes and rewards the full phrase', () => {
+    expect(scoreKeywordMatch('The lighthouses blinked all night.', terms)).toBe(
+      0.8,
+    );
+    expect(
+      scoreKeywordMatch(
+        'We saw the lighthouse night after night.',
+        terms,
+        'lighthouse night',
+      ),
+    ).toBe(1);
+    expect(scoreKeywordMatch('A quiet night.', terms)).toBe(0.4);
+  });
+
+  test('ignores matches inside other words', () => {
+    expect(scoreKeywordMatch('It was a knightly deed.', ['night'])).toBe(0);
+  });
+});
+
+describe('splitDocumentSentences', () => {
+  test('returns trimmed sentences with absolute offsets per segment', () => {
+    const content =
+      'Intro line here.\n\nThe lighthouse stood alone. Waves hit.';
+    const sentences = splitDocumentSentences(content, [
+      { id: 'a', start: 0, end: 16 },
+      { id: 'b', start: 18, end: content.length },
+    ]);
+
+    expect(sentences.map((s) => s.segmentId)).toEqual(['a', 'b', 'b']);
+    const [, lighthouse] = sentences;
+    expect(lighthouse.text).toBe('The lighthouse stood alone.');
+    expect(
+      content.slice(lighthouse.absoluteStart, lighthouse.absoluteEnd),
+    ).toBe(lighthouse.text);
+  });
+});
+
+describe('buildHighlightedContext', () => {
+  test('cuts context at word boundaries and marks term offsets', () => {
+    const content =
+      'Far away across the bay the old lighthouse turned its beam through the night fog again.';
+    const start = content.indexOf('the old');
+    const end = content.indexOf(' through');
+
+    const result = buildHighlightedContext(
+      content,
+      start,
+      end,
+      ['lighthouse'],
+      12,
+    );
+
+    expect(result.context).toBe(
+      'the bay the old lighthouse turned its beam through the',
+    );
+    expect(content.slice(result.contextStart).startsWith(result.context)).toBe(
+      true,
+    );
+    expect(result.highlights).toEqual([{ start: 16, end: 26 }]);
+  });
+});
+
+describe('combineScores', () => {
+  test('weights semantic similarity above keyword overlap', () => {
+    expect(combineScores(null, 1) < combineScores(0.9, 0)).toBe(true);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, test } from 'bun:test';
+import { ensurePhoneticReady } from '../../services/entityResolution/aliasPatterns';
+import type { ExistingEntity } from '../../services/entityResolution/types';
+import type {
+  StoredStoryConnection,
+  StoredStoryNode,
+} from '../../services/graph/graph.types';
+import {
+  buildProjectGraph,
+  matchProjectEntity,
+  mergeEntityDetails,
+  nodeToCluster,
+} from '../../services/projects/projectGraph';
+
+function node(
+  id: string,
+  documentId: string,
+  overrides: Partial<StoredStoryNode> = {},
+): StoredStoryNode {
+  return {
+    id,
+    documentId,
+    userId: 'owner-1',
+    type: 'character',
+    name: id,
+    description: null,
+    aliases: null,
+    metadata: null,
+    primaryMediaId: null,
+    stylePreset: null,
+    stylePrompt: null,
+    documentOrder: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function connection(
+  id: string,
+  fromNodeId: string,
+  toNodeId: string,
+): StoredStoryConnection {
+  return {
+    id,
+    fromNodeId,
+    toNodeId,
+    edgeType: 'OPPOSES',
+    description: null,
+    strength: null,
+    narrativeDistance: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    deletedAt: null,
+  };
+}
+
+describe('buildProjectGraph', () => {
+  const bookOne = {
+    documentId: 'book-1',
+    nodes: [
+      node('aria-1', 'book-1', { name: 'Aria', description: 'A thief' }),
+      node('kell-1', 'book-1', { name: 'Kell' }),
+    ],
+    connections: [connection('e1', 'aria-1', 'kell-1')],
+  };
+  const bookTwo = {
+    documentId: 'book-2',
+    nodes: [
+      node('aria-2', 'book-2', { name: 'Aria Vance', aliases: ['Aria'] }),
+      node('kell-2', 'book-2', { name: 'Kell' }),
+      node('mira-2', 'book-2', { name: 'Mira' }),
+    ],
+    connections: [
+      connection('e2', 'aria-2', 'kell-2'),
+      connection('e3', 'mira-2', 'aria-2'),
+    ],
+  };
+  const links = new Map([
+    ['aria-1', 'pe-aria'],
+    ['aria-2', 'pe-aria'],
+    ['kell-1', 'pe-kell'],
+    ['kell-2', 'pe-kell'],
+  ]);
+
+  test('collapses linked nodes into one entity', () => {
+    const graph = buildProjectGraph([bookOne, bookTwo], links);
+    const aria = graph.nodes.find((n) => n.id === 'pe-aria');
+
+    expect(graph.nodes).toHaveLength(3);
+    expect(aria?.name).toBe('Aria');
+    expect(aria?.description).toBe('A thief');
+    expect(aria?.aliases).toEqual(['Aria Vance']);
+    expect(aria?.documentIds).toEqual(['book-1', 'book-2']);
+    expect(aria?.nodeIds).toEqual(['aria-1', 'aria-2']);
+  });
+
+  test('keeps unlinked nodes under their own id', () => {
+    const graph = buildProjectGraph([bookOne, bookTwo], links);
+    const mira = graph.nodes.find((n) => n.id === 'mira-2');
+    expect(mira?.projectEntityId).toBeNull();
+    expect(mira?.documentIds).toEqual(['book-2']);
+  });
+
+  test('remaps and deduplicates connections across books', () => {
+    const graph = buildProjectGraph([bookOne, bookTwo], links);
+    expect(graph.connections).toHaveLength(2);
+
+    const rivalry = graph.connections.find(
+      (c) => c.fromNodeId === 'pe-aria' && c.toNodeId === 'pe-kell',
+    );
+    expect(rivalry?.documentIds).toEqual(['book-1', 'book-2']);
+  });
+
+  test('drops connections between nodes of the same entity', () => {
+    const graph = buildProjectGraph(
+      [
+        {
+          documentId: 'book-1',
+          nodes: [node('a', 'book-1'), node('b', 'book-1')],
+          connections: [connection('e1', 'a', 'b')],
+        },
+      ],
+      new Map([
+        ['a', 'pe-1'],
+        ['b', 'pe-1'],
+      ]),
+    );
+    expect(graph.nodes).toHaveLength(1);
+    expect(graph.connections).toHaveLength(0);
+  });
+});
+
+describe('mergeEntityDetails', () => {
+  test('collects other names as aliases and dedupes facets', () => {
+    const merged = mergeEntityDetails('Aria', [
+      {
+        name: 'Aria',
+        aliases: ['The Fox'],
+        facets: [{ type: 'trait', content: 'Quick-witted' }],
+      },
+      {
+        name: 'Aria Vance',
+        aliases: ['the fox'],
+        facets: [
+          { type: 'trait', content: 'quick-witted' },
+          { type: 'appearance', content: 'A scar over one eye' },
+        ],
+      },
+    ]);
+
+    expect(merged.aliases).toEqual(['The Fox', 'Aria Vance']);
+    expect(merged.facets).toEqual([
+      { type: 'trait', content: 'Quick-witted' },
+      { type: 'appearance', content: 'A scar over one eye' },
+    ]);
+  });
+});
+
+describe('matchProjectEntity', () => {
+  const registry: ExistingEntity[] = [
+    {
+      id: 'pe-aria',
+      name: 'Aria Vance',
+      type: 'character',
+      embedding: [1, 0, 0],
+      aliases: ['Aria'],
+      facets: [],
+      mentionCount: 1,
+    },
+    {
+      id: 'pe-harbor',
+      name: 'The Harbor',
+      type: 'location',
+      embedding: [0, 1, 0],
+      aliases: [],
+      facets: [],
+      mentionCount: 1,
+    },
+  ];
+
+  test('links a recurring character from an earlier book', async () => {
+    await ensurePhoneticReady();
+    const cluster = nodeToCluster(
+      node('aria-2', 'book-2', { name: 'Aria Vance' }),
+      [],
+      [1, 0, 0],
+    );
+    expect(matchProjectEntity(cluster, registry)?.entity.id).toBe('pe-aria');
+  });
+
+  test('leaves a new character unlinked', async () => {
+    await ensurePhoneticReady();
+    const cluster = nodeToCluster(
+      node('mira-2', 'book-2', { name: 'Mira Holt' }),
+      [],
+      [0, 0, 1],
+    );
+    expect(matchProjectEntity(cluster, registry)).toBeNull();
+  });
+
+  test('does not link across types', async () => {
+    await ensurePhoneticReady();
+    const cluster = nodeToCluster(
+      node('harbor-2', 'book-2', { name: 'The Harbor', type: 'character' }),
+      [],
+      [0, 1, 0],
+    );
+    expect(matchProjectEntity(cluster, registry)).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test';
+import { buildConstraintIndex } from '../../services/entityResolution/constraints';
+import type { ResolutionConstraint } from '../../services/entityResolution/types';
+import { matchExistingEntity } from '../../services/pipeline/existingMatch';
+
+const twins: ResolutionConstraint = {
+  kind: 'cannot_link',
+  entityIds: ['node-fred', 'node-george'],
+  entityNames: ['Fred Weasley', 'George Weasley'],
+};
+
+describe('buildConstraintIndex', () => {
+  test('matches pairs by name in either order', () => {
+    const index = buildConstraintIndex([twins]);
+    expect(
+      index.check({ names: ['george weasley'] }, { names: ['Fred Weasley'] }),
+    ).toBe('cannot_link');
+  });
+
+  test('matches pairs by id', () => {
+    const index = buildConstraintIndex([twins]);
+    expect(
+      index.check(
+        { ids: ['node-fred'], names: [] },
+        { ids: ['node-george'], names: [] },
+      ),
+    ).toBe('cannot_link');
+  });
+
+  test('returns null for unrelated subjects', () => {
+    const index = buildConstraintIndex([twins]);
+    expect(
+      index.check({ names: ['Fred Weasley'] }, { names: ['Ron Weasley'] }),
+    ).toBeNull();
+  });
+
+  test('cannot_link wins over must_link', () => {
+    const index = buildConstraintIndex([
+      { ...twins, kind: 'must_link' },
+      twins,
+    ]);
+    expect(
+      index.check({ names: ['Fred Weasley'] }, { names: ['George Weasley'] }),
+    ).toBe('cannot_link');
+  });
+});
+
+describe('matchExistingEntity on re-analysis', () => {
+  const registry = [
+    { id: 'node-fred', name: 'Fred Weasley', type: 'character', aliases: [] },
+    {
+      id: 'node-george',
+      name: 'George Weasley',
+      type: 'character',
+      aliases: [],
+    },
+  ];
+  const georgeMatchedToFred = {
+    name: 'George Weasley',
+    type: 'character',
+    facets: [],
+    existingMatch: {
+      matchedName: 'Fred Weasley',
+      matchedType: 'character',
+      confidence: 'high' as const,
+      reason: 'Same surname, appears alongside Ron',
+    },
+  };
+
+  test('keeps a cannot-link pair split when the LLM matches them', () => {
+    const match = matchExistingEntity(
+      georgeMatchedToFred,
+      registry,
+      new Map(),
+      buildConstraintIndex([twins]),
+    );
+    expect(match.entity?.id).toBe('node-george');
+    expect(match.constraint).toBe('cannot_link');
+  });
+
+  test('creates a new entity when the pair was recreated under new ids', () => {
+    const match = matchExistingEntity(
+      georgeMatchedToFred,
+      [{ ...registry[0], id: 'node-fred-2' }],
+      new Map(),
+      buildConstraintIndex([twins]),
+    );
+    expect(match.entity).toBeNull();
+    expect(match.existingMatch).toBeUndefined();
+  });
+
+  test('fuses a must-link pair the LLM did not match', () => {
+    const match = matchExistingEntity(
+      { name: 'Voldemort', type: 'character', facets: [] },
+      [{ id: 'node-tom', name: 'Tom Riddle', type: 'character', aliases: [] }],
+      new Map(),
+      buildConstraintIndex([
+        {
+          kind: 'must_link',
+          entityIds: ['node-tom', 'node-voldemort'],
+          entityNames: ['Tom Riddle', 'Voldemort'],
+        },
+      ]),
+    );
+    expect(match.entity?.id).toBe('node-tom');
+    expect(match.existingMatch?.matchedName).toBe('Tom Riddle');
+  });
+
+  test('follows the LLM when no constraint applies', () => {
+    const match = matchExistingEntity(
+      georgeMatchedToFred,
+      registry,
+      new Map(),
+      buildConstraintIndex(),
+    );
+    expect(match.entity?.id).toBe('node-fred');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from 'bun:test';
+import type {
+  StoredStoryConnection,
+  StoredStoryNode,
+} from '../../services/graph/graph.types';
+import {
+  shareLinkStatus,
+  toPublicStoryGraph,
+} from '../../services/shareLinks/publicView';
+
+function node(
+  id: string,
+  overrides: Partial<StoredStoryNode> = {},
+): StoredStoryNode {
+  return {
+    id,
+    documentId: 'doc-1',
+    userId: 'owner-1',
+    type: 'character',
+    name: id,
+    description: null,
+    aliases: null,
+    metadata: '{"confidence":0.9}',
+    primaryMediaId: null,
+    stylePreset: 'noir',
+    stylePrompt: 'moody lighting',
+    documentOrder: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function connection(
+  fromNodeId: string,
+  toNodeId: string,
+): StoredStoryConnection {
+  return {
+    id: `${fromNodeId}-${toNodeId}`,
+    fromNodeId,
+    toNodeId,
+    edgeType: 'OPPOSES',
+    description: 'rivals',
+    strength: 0.8,
+    narrativeDistance: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    deletedAt: null,
+  };
+}
+
+describe('shareLinkStatus', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+
+  test('links without expiry stay active until revoked', () => {
+    expect(shareLinkStatus({ expiresAt: null, revokedAt: null }, now)).toBe(
+      'active',
+    );
+    expect(
+      shareLinkStatus({ expiresAt: null, revokedAt: new Date(now) }, now),
+    ).toBe('revoked');
+  });
+
+  test('links expire at their expiry time', () => {
+    expect(
+      shareLinkStatus(
+        { expiresAt: new Date('2026-06-02T00:00:00Z'), revokedAt: null },
+        now,
+      ),
+    ).toBe('active');
+    expect(shareLinkStatus({ expiresAt: now, revokedAt: null }, now)).toBe(
+      'expired',
+    );
+  });
+});
+
+describe('toPublicStoryGraph', () => {
+  test('keeps only reader-facing fields', () => {
+    const graph = toPublicStoryGraph(
+      [node('Ada', { description: 'An inventor', primaryMediaId: 'm-1' })],
+      [],
+      new Map([['m-1', 'https://cdn.example/ada.png']]),
+    );
+
+    expect(graph.nodes).toEqual([
+      {
+        id: 'Ada',
+        type: 'character',
+        name: 'Ada',
+        description: 'An inventor',
+        aliases: [],
+        imageUrl: 'https://cdn.example/ada.png',
+      },
+    ]);
+  });
+
+  test('orders nodes by document order and drops dangling connections', () => {
+    const graph = toPublicStoryGraph(
+      [
+        node('Late', { documentOrder: 50 }),
+        node('Unplaced'),
+        node('Early', { documentOrder: 10 }),
+      ],
+      [connection('Early', 'Late'), connection('Early', 'Deleted')],
+      new Map(),
+    );
+
+    expect(graph.nodes.map((n) => n.name)).toEqual([
+      'Early',
+      'Late',
+      'Unplaced',
+    ]);
+    expect(graph.connections).toEqual([
+      {
+        fromNodeId: 'Early',
+        toNodeId: 'Late',
+        edgeType: 'OPPOSES',
+        description: 'rivals',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  renderStoryBibleHtml,
+  renderStoryBibleMarkdown,
+} from '../../services/export/storyBible';
+import type { StoryBible } from '../../services/export/types';
+
+const bible: StoryBible = {
+  title: 'Pride and Prejudice',
+  entries: [
+    {
+      name: 'Elizabeth Bennet',
+      type: 'character',
+      aliases: ['Lizzy'],
+      description: 'Second daughter',
+      facetGroups: [{ type: 'trait', contents: ['witty', 'proud'] }],
+      image: {
+        buffer: Buffer.from('png'),
+        mimeType: 'image/png',
+        width: 480,
+        height: 960,
+      },
+      keyPassages: ['She is tolerable;\nbut not handsome enough'],
+      relationships: [
+        {
+          edgeType: 'MEMBER_OF',
+          direction: 'outgoing',
+          otherName: 'Bennet family',
+          description: null,
+        },
+        {
+          edgeType: 'OPPOSES',
+          direction: 'incoming',
+          otherName: 'Lady Catherine',
+          description: 'Over the engagement',
+        },
+      ],
+      arcs: [
+        {
+          name: 'Humbled',
+          arcType: 'growth',
+          summary: null,
+          states: ['Prejudiced', 'Reflective'],
+        },
+      ],
+    },
+    {
+      name: 'Pemberley',
+      type: 'location',
+      aliases: [],
+      description: null,
+      facetGroups: [],
+      image: null,
+      keyPassages: [],
+      relationships: [],
+      arcs: [],
+    },
+  ],
+};
+
+describe('renderStoryBibleMarkdown', () => {
+  test('renders a dossier per entity grouped by type', () => {
+    const md = renderStoryBibleMarkdown(bible);
+    expect(md).toContain('# Pride and Prejudice: Story Bible');
+    expect(md).toContain('## Characters\n\n### Elizabeth Bennet');
+    expect(md).toContain('## Locations\n\n### Pemberley');
+    expect(md).not.toContain('## Objects');
+    expect(md).toContain('**Trait**\n\n- witty\n- proud');
+    expect(md).toContain(
+      '**Arc: Humbled (growth)**\n\nPrejudiced → Reflective',
+    );
+    expect(md).toContain('> She is tolerable; but not handsome enough');
+  });
+
+  test('writes relationships from the subject of the edge', () => {
+    const md = renderStoryBibleMarkdown(bible);
+    expect(md).toContain('- Elizabeth Bennet _member of_ Bennet family');
+    expect(md).toContain(
+      '- Lady Catherine _opposes_ Elizabeth Bennet — Over the engagement',
+    );
+  });
+});
+
+describe('renderStoryBibleHtml', () => {
+  test('embeds the primary image scaled to the page', () => {
+    const html = renderStoryBibleHtml(bible);
+    expect(html).toContain(
+      `<img src="data:image/png;base64,${Buffer.from('png').toString('base64')}" width="240" height="480" alt="Elizabeth Bennet"/>`,
+    );
+    expect(html).toContain('<p><em>Also known as: Lizzy</em></p>');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_CALENDAR,
+  type StoryCalendar,
+} from '../../services/storyCalendar/calendar.types';
+import {
+  readTimeExpression,
+  resolveStoryTime,
+  withTimeExpression,
+} from '../../services/storyCalendar/resolve';
+import { parseTimeExpression } from '../../services/storyCalendar/timeExpressions';
+
+const fantasy: StoryCalendar = {
+  months: [
+    { name: 'Frostmoon', days: 40 },
+    { name: 'Thawing', days: 40 },
+    { name: 'Highsun', days: 40 },
+  ],
+  hoursPerDay: 30,
+  daysPerWeek: 10,
+  seasons: [{ name: 'the long dark', startMonth: 0, endMonth: 0 }],
+};
+
+function event(id: string, documentOrder: number, timeExpression: string) {
+  return { id, documentOrder, timeExpression };
+}
+
+describe('parseTimeExpression', () => {
+  test('reads explicit dates, seasons and years', () => {
+    expect(parseTimeExpression('winter of 1843', DEFAULT_CALENDAR)).toEqual({
+      kind: 'absolute',
+      year: 1843,
+      monthIndex: null,
+      day: null,
+      seasonIndex: 0,
+    });
+    expect(parseTimeExpression('the 3rd of Frostmoon, 1201', fantasy)).toEqual({
+      kind: 'absolute',
+      year: 1201,
+      monthIndex: 0,
+      day: 3,
+      seasonIndex: null,
+    });
+  });
+
+  test('reads relative offsets in calendar units', () => {
+    expect(parseTimeExpression('three days later', fantasy)).toEqual({
+      kind: 'relative',
+      offsetHours: 90,
+      approximate: false,
+    });
+    expect(parseTimeExpression('a week earlier', fantasy)).toEqual({
+      kind: 'relative',
+      offsetHours: -300,
+      approximate: false,
+    });
+    expect(parseTimeExpression('the next morning', fantasy)).toEqual({
+      kind: 'relative',
+      offsetHours: 30,
+      approximate: false,
+    });
+    expect(parseTimeExpression('years later', fantasy)).toEqual({
+      kind: 'relative',
+      offsetHours: 3600,
+      approximate: true,
+    });
+  });
+
+  test('rejects text with no time and days the month lacks', () => {
+    expect(parseTimeExpression('at dawn', DEFAULT_CALENDAR)).toBeNull();
+    expect(parseTimeExpression('45 Thawing 1201', fantasy)).toBeNull();
+  });
+});
+
+describe('resolveStoryTime', () => {
+  test('anchors relative expressions on the previous placed event', () => {
+    const result = resolveStoryTime(
+      [
+        event('departure', 10, '3 Frostmoon 1201'),
+        event('arrival', 50, 'three days later'),
+        event('feast', 90, 'in Thawing'),
+      ],
+      [],
+      fantasy,
+    );
+    expect(result.placements.map((p) => p.label)).toEqual([
+      '3 Frostmoon 1201',
+      '6 Frostmoon 1201',
+      'Thawing 1201',
+    ]);
+    expect(result.placements[1].anchorEventId).toBe('departure');
+  });
+
+  test('rolls a yearless date into the next year rather than backwards', () => {
+    const result = resolveStoryTime(
+      [event('harvest', 10, 'August 1843'), event('snow', 20, 'March')],
+      [],
+      DEFAULT_CALENDAR,
+    );
+    expect(result.placements[1].label).toBe('March 1844');
+  });
+
+  test('leaves events it cannot place and flags reversed orderings', () => {
+    const result = resolveStoryTime(
+      [
+        event('orphan', 5, 'two days later'),
+        event('battle', 10, 'spring of 1843'),
+        event('treaty', 20, 'winter of 1843'),
+      ],
+      [{ fromId: 'battle', toId: 'treaty' }],
+      DEFAULT_CALENDAR,
+    );
+    expect(result.unplacedEventIds).toEqual(['orphan']);
+    expect(result.conflicts).toEqual([
+      {
+        beforeEventId: 'battle',
+        afterEventId: 'treaty',
+        beforeLabel: 'spring 1843',
+        afterLabel: 'winter 1843',
+      },
+    ]);
+  });
+});
+
+describe('readTimeExpression', () => {
+  test('reads the expression from node metadata', () => {
+    expect(readTimeExpression('{"timeExpression":"that night"}')).toBe(
+      'that night',
+    );
+    expect(readTimeExpression('{"other":1}')).toBeNull();
+    expect(readTimeExpression('not json')).toBeNull();
+    expect(readTimeExpression(null)).toBeNull();
+  });
+});
+
+describe('withTimeExpression', () => {
+  test('replaces the expression and keeps other metadata', () => {
+    expect(
+      withTimeExpression('{"timeExpression":"that night","other":1}', 'dawn'),
+    ).toEqual({ timeExpression: 'dawn', other: 1 });
+    expect(withTimeExpression('not json', 'dawn')).toEqual({
+      timeExpression: 'dawn',
+    });
+    expect(withTimeExpression(null, 'dawn')).toEqual({
+      timeExpression: 'dawn',
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  isIntroduced,
+  occurredEvents,
+  resolveLocation,
+} from '../../services/storyState/snapshot';
+
+const nodes = [
+  { id: 'mara', name: 'Mara', type: 'character' as const, documentOrder: 10 },
+  { id: 'tom', name: 'Tom', type: 'character' as const, documentOrder: 900 },
+  { id: 'port', name: 'Port', type: 'location' as const, documentOrder: 5 },
+  {
+    id: 'tower',
+    name: 'Lighthouse',
+    type: 'location' as const,
+    documentOrder: 200,
+  },
+  {
+    id: 'ledger',
+    name: 'Ledger',
+    type: 'object' as const,
+    documentOrder: null,
+  },
+  { id: 'storm', name: 'Storm', type: 'event' as const, documentOrder: 300 },
+  { id: 'arrival', name: 'Arrival', type: 'event' as const, documentOrder: 50 },
+];
+const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+const connections = [
+  { fromNodeId: 'mara', toNodeId: 'port', edgeType: 'LOCATED_AT' },
+  { fromNodeId: 'mara', toNodeId: 'arrival', edgeType: 'PARTICIPATES_IN' },
+  { fromNodeId: 'mara', toNodeId: 'storm', edgeType: 'PARTICIPATES_IN' },
+  { fromNodeId: 'arrival', toNodeId: 'port', edgeType: 'LOCATED_AT' },
+  { fromNodeId: 'storm', toNodeId: 'tower', edgeType: 'LOCATED_AT' },
+];
+
+describe('occurredEvents', () => {
+  test('returns events at or before the position in document order', () => {
+    expect(occurredEvents(nodes, 300).map((e) => e.id)).toEqual([
+      'arrival',
+      'storm',
+    ]);
+    expect(occurredEvents(nodes, 299).map((e) => e.id)).toEqual(['arrival']);
+    expect(occurredEvents(nodes, 0)).toHaveLength(0);
+  });
+});
+
+describe('resolveLocation', () => {
+  test('uses the latest occurred event the entity took part in', () => {
+    const location = resolveLocation(
+      'mara',
+      occurredEvents(nodes, 400),
+      nodesById,
+      connections,
+    );
+    expect(location).toEqual({
+      id: 'tower',
+      name: 'Lighthouse',
+      viaEventId: 'storm',
+    });
+  });
+
+  test('ignores events that have not occurred yet', () => {
+    const location = resolveLocation(
+      'mara',
+      occurredEvents(nodes, 100),
+      nodesById,
+      connections,
+    );
+    expect(location?.id).toBe('port');
+    expect(location?.viaEventId).toBe('arrival');
+  });
+
+  test('falls back to a direct LOCATED_AT edge', () => {
+    const location = resolveLocation('mara', [], nodesById, connections);
+    expect(location).toEqual({ id: 'port', name: 'Port', viaEventId: null });
+    expect(resolveLocation('tom', [], nodesById, connections)).toBeNull();
+  });
+});
+
+describe('isIntroduced', () => {
+  test('compares first mention with the position', () => {
+    const [, tom, , , ledger] = nodes;
+    expect(isIntroduced(tom, 500)).toBe(false);
+    expect(isIntroduced(tom, 900)).toBe(true);
+    expect(isIntroduced(ledger, 0)).toBe(true);
+  });
+});
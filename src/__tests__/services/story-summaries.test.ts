@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  contentJsonToYjsState,
+  yjsStateToContentJson,
+} from '../../services/documentImport/yjsState';
+import type { ProseMirrorNode } from '../../services/export/types';
+import {
+  buildArcSource,
+  buildChapterSources,
+  buildThreadSource,
+} from '../../services/summarization/summarySources';
+
+function heading(text: string, level = 1): ProseMirrorNode {
+  return {
+    type: 'heading',
+    attrs: { level },
+    content: [{ type: 'text', text }],
+  };
+}
+
+function paragraph(text: string): ProseMirrorNode {
+  return { type: 'paragraph', content: [{ type: 'text', text }] };
+}
+
+const manuscript: ProseMirrorNode = {
+  type: 'doc',
+  content: [
+    paragraph('A prologue at sea.'),
+    heading('The Lighthouse'),
+    paragraph('Mara climbs the stairs.'),
+    heading('The Keeper', 2),
+    paragraph('The keeper is gone.'),
+    heading('Empty'),
+    heading('The Storm'),
+    paragraph('Waves hit the rocks.'),
+  ],
+};
+
+describe('buildChapterSources', () => {
+  test('splits at H1 headings keyed by heading number', () => {
+    const sources = buildChapterSources(manuscript, '');
+
+    expect(sources.map((s) => s.targetId)).toEqual([
+      'chapter-0',
+      'chapter-1',
+      'chapter-3',
+    ]);
+    expect(sources[0].title).toBeNull();
+    expect(sources[1].title).toBe('The Lighthouse');
+    expect(sources[1].sourceText).toBe(
+      'Mara climbs the stairs.\nThe Keeper\nThe keeper is gone.',
+    );
+    expect(sources[2].sourceText).toBe('Waves hit the rocks.');
+  });
+
+  test('treats plain text as a single chapter', () => {
+    expect(buildChapterSources(null, '  Just text.  ')).toEqual([
+      { targetId: 'chapter-0', title: null, sourceText: 'Just text.' },
+    ]);
+    expect(buildChapterSources(null, '   ')).toEqual([]);
+  });
+
+  test('reads chapters back from the collaborative state', () => {
+    const decoded = yjsStateToContentJson(contentJsonToYjsState(manuscript));
+    expect(decoded).not.toBeNull();
+    expect(buildChapterSources(decoded, '')).toEqual(
+      buildChapterSources(manuscript, ''),
+    );
+  });
+});
+
+describe('thread and arc sources', () => {
+  test('lists events and states in order, one per line', () => {
+    expect(
+      buildThreadSource([
+        { name: 'Arrival', description: 'Mara reaches the island' },
+        { name: 'Discovery', description: null },
+      ]),
+    ).toBe('1. Arrival: Mara reaches the island\n2. Discovery');
+
+    expect(
+      buildArcSource([
+        { name: 'Doubtful', facets: ['fears the sea'] },
+        { name: 'Resolved', facets: [] },
+      ]),
+    ).toBe('Phase 1: Doubtful (fears the sea)\nPhase 2: Resolved');
+  });
+});
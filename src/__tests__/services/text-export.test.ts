@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'bun:test';
+import { renderDocumentText } from '../../services/export/text';
+import type { ProseMirrorNode } from '../../services/export/types';
+
+const doc: ProseMirrorNode = {
+  type: 'doc',
+  content: [
+    {
+      type: 'heading',
+      attrs: { level: 1 },
+      content: [{ type: 'text', text: 'Chapter One' }],
+    },
+    {
+      type: 'paragraph',
+      content: [
+        { type: 'text', text: 'It was a ' },
+        { type: 'text', text: 'truth', marks: [{ type: 'italic' }] },
+        { type: 'text', text: ' universally ' },
+        { type: 'text', text: 'acknowledged', marks: [{ type: 'bold' }] },
+        { type: 'text', text: '. See ' },
+        {
+          type: 'text',
+          text: 'notes',
+          marks: [{ type: 'link', attrs: { href: 'https://example.com' } }],
+        },
+        { type: 'text', text: '.' },
+      ],
+    },
+    {
+      type: 'bulletList',
+      content: [
+        {
+          type: 'listItem',
+          content: [
+            { type: 'paragraph', content: [{ type: 'text', text: 'Jane' }] },
+            {
+              type: 'orderedList',
+              attrs: { start: 1 },
+              content: [
+                {
+                  type: 'listItem',
+                  content: [
+                    {
+                      type: 'paragraph',
+                      content: [{ type: 'text', text: 'eldest' }],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        {
+          type: 'listItem',
+          content: [
+            {
+              type: 'paragraph',
+              content: [{ type: 'text', text: 'Elizabeth' }],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const appendix = {
+  characters: [
+    {
+      name: 'Elizabeth Bennet',
+      aliases: ['Lizzy'],
+      description: 'Second daughter',
+      facets: [{ type: 'trait', content: 'witty' }],
+    },
+  ],
+  locations: [],
+};
+
+describe('renderDocumentText', () => {
+  test('renders markdown headings, emphasis, links and nested lists', () => {
+    expect(
+      renderDocumentText({ contentJson: doc, fallbackText: '' }, 'md'),
+    ).toBe(`# Chapter One
+
+It was a _truth_ universally **acknowledged**. See [notes](https://example.com).
+
+- Jane
+  1. eldest
+- Elizabeth
+`);
+  });
+
+  test('renders plain text with underlined headings and inline links', () => {
+    expect(
+      renderDocumentText({ contentJson: doc, fallbackText: '' }, 'txt'),
+    ).toBe(`Chapter One
+===========
+
+It was a truth universally acknowledged. See notes (https://example.com).
+
+- Jane
+  1. eldest
+- Elizabeth
+`);
+  });
+
+  test('escapes markdown syntax in prose', () => {
+    const text = renderDocumentText(
+      {
+        contentJson: {
+          type: 'doc',
+          content: [
+            {
+              type: 'paragraph',
+              content: [{ type: 'text', text: '# not a *heading*' }],
+            },
+          ],
+        },
+        fallbackText: '',
+      },
+      'md',
+    );
+    expect(text).toBe('\\# not a \\*heading\\*\n');
+  });
+
+  test('falls back to plain content when contentJson is missing', () => {
+    expect(
+      renderDocumentText(
+        { contentJson: null, fallbackText: 'Hello.\n' },
+        'txt',
+      ),
+    ).toBe('Hello.\n');
+  });
+
+  test('appends characters with aliases and facets', () => {
+    const text = renderDocumentText(
+      { contentJson: null, fallbackText: 'Hello.', appendix },
+      'md',
+    );
+    expect(text).toContain('## Characters');
+    expect(text).toContain('### Elizabeth Bennet');
+    expect(text).toContain('_Also known as: Lizzy_');
+    expect(text).toContain('- **trait:** witty');
+    expect(text).not.toContain('## Locations');
+  });
+});
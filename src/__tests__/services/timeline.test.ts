@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  buildTimeline,
+  detectDisplacements,
+  longestIncreasingRun,
+} from '../../services/timeline/build';
+
+function event(id: string, documentOrder: number | null) {
+  return { id, name: id, description: null, documentOrder };
+}
+
+describe('longestIncreasingRun', () => {
+  test('finds the main line through out-of-order values', () => {
+    expect([...longestIncreasingRun([0, 1, 4, 2, 3])].sort()).toEqual([
+      0, 1, 3, 4,
+    ]);
+    expect(longestIncreasingRun([]).size).toBe(0);
+  });
+});
+
+describe('detectDisplacements', () => {
+  test('marks events read after later events as flashbacks', () => {
+    // Read: a c d b e; happens: a b c d e
+    const causal = new Map([
+      ['a', 0],
+      ['b', 1],
+      ['c', 2],
+      ['d', 3],
+      ['e', 4],
+    ]);
+    const result = detectDisplacements(['a', 'c', 'd', 'b', 'e'], causal);
+    expect(result.get('b')).toBe('flashback');
+    expect(result.size).toBe(1);
+  });
+
+  test('marks events read before earlier events as flash-forwards', () => {
+    // Read: a e b c d; happens: a b c d e
+    const causal = new Map([
+      ['a', 0],
+      ['b', 1],
+      ['c', 2],
+      ['d', 3],
+      ['e', 4],
+    ]);
+    const result = detectDisplacements(['a', 'e', 'b', 'c', 'd'], causal);
+    expect(result.get('e')).toBe('flash-forward');
+    expect(result.size).toBe(1);
+  });
+
+  test('reports nothing for a linear story', () => {
+    const causal = new Map([
+      ['a', 0],
+      ['b', 1],
+    ]);
+    expect(detectDisplacements(['a', 'b'], causal).size).toBe(0);
+  });
+});
+
+describe('buildTimeline', () => {
+  const timeline = buildTimeline({
+    documentId: 'doc-1',
+    events: [
+      event('wreck', 500),
+      event('voyage', 100),
+      event('childhood', 300),
+      event('rescue', 700),
+      event('dream', null),
+    ],
+    causalOrder: ['mara', 'childhood', 'voyage', 'wreck', 'rescue', 'dream'],
+    threads: [
+      {
+        id: 'sea',
+        name: 'At sea',
+        color: '#00f',
+        isPrimary: true,
+        memberEventIds: ['rescue', 'voyage', 'wreck'],
+      },
+    ],
+    gapEventIds: ['childhood', 'rescue'],
+    pivotalNodeIds: ['wreck', 'mara'],
+  });
+
+  test('orders events both ways, ignoring non-event nodes', () => {
+    expect(timeline.causalOrder).toEqual([
+      'childhood',
+      'voyage',
+      'wreck',
+      'rescue',
+      'dream',
+    ]);
+    expect(timeline.readingOrder).toEqual([
+      'voyage',
+      'childhood',
+      'wreck',
+      'rescue',
+    ]);
+  });
+
+  test('flags the told-later childhood as a flashback', () => {
+    const byId = new Map(timeline.events.map((e) => [e.id, e]));
+    expect(byId.get('childhood')?.displacement).toBe('flashback');
+    expect(byId.get('voyage')?.displacement).toBeNull();
+    expect(byId.get('dream')?.readingIndex).toBeNull();
+    expect(byId.get('wreck')?.pivotal).toBe(true);
+  });
+
+  test('builds thread lanes in causal order plus an unthreaded lane', () => {
+    expect(timeline.lanes).toHaveLength(2);
+    expect(timeline.lanes[0].eventIds).toEqual(['voyage', 'wreck', 'rescue']);
+    expect(timeline.lanes[1].threadId).toBeNull();
+    expect(timeline.lanes[1].eventIds).toEqual(['childhood', 'dream']);
+  });
+
+  test('marks gaps after their causal predecessor, skipping the opening', () => {
+    expect(timeline.gaps).toEqual([
+      { eventId: 'rescue', afterEventId: 'wreck' },
+    ]);
+  });
+});
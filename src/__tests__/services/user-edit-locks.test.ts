@@ -0,0 +1,186 @@
+import { describe, expect, test } from 'bun:test';
+import type { ChangeLogEntry } from '../../services/changelog/changelog.types';
+import { buildUserEditLocks } from '../../services/changelog/userEditLocks';
+import { descriptionService } from '../../services/descriptionGeneration/descriptionService';
+import { selectFacetsToCreate } from '../../services/pipeline/facetUpsert';
+
+let entryCounter = 0;
+
+function entry(
+  overrides: Partial<ChangeLogEntry> &
+    Pick<ChangeLogEntry, 'targetType' | 'targetId' | 'operation'>,
+): ChangeLogEntry {
+  entryCounter++;
+  return {
+    id: `entry-${entryCounter}`,
+    createdAt: new Date(entryCounter * 1000),
+    source: 'user',
+    relatedEntityIds: [overrides.targetId],
+    summary: '',
+    changeData: {},
+    reason: null,
+    sourcePosition: null,
+    batchId: null,
+    ...overrides,
+  };
+}
+
+describe('buildUserEditLocks', () => {
+  test('locks only the entity fields the user updated', () => {
+    const locks = buildUserEditLocks([
+      entry({
+        targetType: 'entity',
+        targetId: 'node-1',
+        operation: 'update',
+        changeData: {
+          before: { description: 'old' },
+          after: { description: 'hand-written' },
+        },
+      }),
+    ]);
+
+    expect(locks.isFieldLocked('node-1', 'description')).toBe(true);
+    expect(locks.isFieldLocked('node-1', 'name')).toBe(false);
+    expect(locks.lockedFields('node-2')).toEqual([]);
+  });
+
+  test('ignores system changes', () => {
+    const locks = buildUserEditLocks([
+      entry({
+        source: 'system',
+        targetType: 'entity',
+        targetId: 'node-1',
+        operation: 'update',
+        changeData: { after: { name: 'Liz' } },
+      }),
+    ]);
+
+    expect(locks.size).toBe(0);
+  });
+
+  test('tracks deleted edges until the user re-creates them', () => {
+    const deleted = entry({
+      targetType: 'edge',
+      targetId: 'edge-1',
+      operation: 'delete',
+      relatedEntityIds: ['node-1', 'node-2'],
+      changeData: { deleted: { edgeType: 'OPPOSES' } },
+    });
+
+    const locks = buildUserEditLocks([deleted]);
+    expect(locks.isEdgeDeleted('node-1', 'OPPOSES', 'node-2')).toBe(true);
+    expect(locks.isEdgeDeleted('node-2', 'OPPOSES', 'node-1')).toBe(false);
+
+    const recreated = buildUserEditLocks([
+      deleted,
+      entry({
+        targetType: 'edge',
+        targetId: 'edge-2',
+        operation: 'create',
+        relatedEntityIds: ['node-1', 'node-2'],
+        changeData: { created: { edgeType: 'OPPOSES' } },
+      }),
+    ]);
+    expect(recreated.isEdgeDeleted('node-1', 'OPPOSES', 'node-2')).toBe(false);
+    expect(recreated.isEdgeLocked('edge-2')).toBe(true);
+  });
+});
+
+describe('selectFacetsToCreate', () => {
+  const rewritten = entry({
+    targetType: 'facet',
+    targetId: 'facet-1',
+    operation: 'update',
+    relatedEntityIds: ['node-1'],
+    changeData: {
+      before: { type: 'appearance', content: 'Brown hair' },
+      after: { type: 'appearance', content: 'Auburn hair' },
+    },
+  });
+  const deleted = entry({
+    targetType: 'facet',
+    targetId: 'facet-2',
+    operation: 'delete',
+    relatedEntityIds: ['node-1'],
+    changeData: { deleted: { type: 'trait', content: 'Proud' } },
+  });
+  const existing = [
+    { type: 'appearance' as const, content: 'Auburn hair', userAuthored: true },
+    { type: 'trait' as const, content: 'Witty', userAuthored: false },
+  ];
+
+  test('does not restore facet content the user rewrote or deleted', () => {
+    const facets = selectFacetsToCreate(
+      'node-1',
+      [
+        { type: 'appearance', content: 'Brown hair' },
+        { type: 'trait', content: 'proud' },
+        { type: 'trait', content: 'Curious' },
+      ],
+      existing,
+      buildUserEditLocks([rewritten, deleted]),
+    );
+    expect(facets).toEqual([{ type: 'trait', content: 'Curious' }]);
+  });
+
+  test('keeps the user-authored wording over an extracted restatement', () => {
+    const facets = selectFacetsToCreate(
+      'node-1',
+      [
+        { type: 'appearance', content: 'auburn  hair' },
+        { type: 'trait', content: 'witty' },
+      ],
+      existing,
+      buildUserEditLocks([]),
+    );
+    expect(facets).toEqual([{ type: 'trait', content: 'witty' }]);
+  });
+
+  test('scopes overrides to the entity they were made on', () => {
+    const facets = selectFacetsToCreate(
+      'node-2',
+      [{ type: 'appearance', content: 'Brown hair' }],
+      [],
+      buildUserEditLocks([rewritten]),
+    );
+    expect(facets).toHaveLength(1);
+  });
+});
+
+describe('descriptionService with locked descriptions', () => {
+  const entity = {
+    id: 'node-1',
+    name: 'Elizabeth',
+    type: 'character',
+    permanentFacets: [],
+    stateFacets: [],
+    currentDescription: 'Hand-written by the author.',
+    descriptionLocked: true,
+  };
+
+  test('keeps the user description and returns the generated one as a proposal', async () => {
+    const generated =
+      'Second daughter of the Bennet family, known for her wit and prejudice.';
+
+    const result = await descriptionService.updateDescription(
+      entity,
+      'added trait: witty',
+      async () => generated,
+    );
+
+    expect(result.method).toBe('locked');
+    expect(result.description).toBe(entity.currentDescription);
+    expect(result.proposedDescription).toBe(generated);
+  });
+
+  test('reports no change when the model agrees', async () => {
+    const result = await descriptionService.updateDescription(
+      entity,
+      'added trait: witty',
+      async () => 'NO_CHANGE',
+    );
+
+    expect(result.method).toBe('no_change');
+    expect(result.description).toBe(entity.currentDescription);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { computeStructuredDiff } from '../../utils/diffUtils';
+
+describe('computeStructuredDiff', () => {
+  test('pairs changed paragraphs and diffs them word by word', () => {
+    const diff = computeStructuredDiff(
+      'It was a dark night.\n\nThe end.',
+      'It was a stormy night.\n\nThe end.',
+    );
+
+    expect(diff.paragraphs.map((p) => p.type)).toEqual(['modify', 'equal']);
+    expect(diff.paragraphs[0].words).toEqual([
+      { type: 'equal', text: 'It was a ' },
+      { type: 'delete', text: 'dark' },
+      { type: 'insert', text: 'stormy' },
+      { type: 'equal', text: ' night.' },
+    ]);
+    expect(diff.stats.paragraphsModified).toBe(1);
+    expect(diff.stats.wordsAdded).toBe(1);
+    expect(diff.stats.wordsRemoved).toBe(1);
+    expect(diff.unified).toContain('+It was a stormy night.');
+  });
+
+  test('reports whole added and removed paragraphs with their indexes', () => {
+    const diff = computeStructuredDiff(
+      'Opening.\n\nCut scene here.\n\nClosing.',
+      'Opening.\n\nClosing.\n\nEpilogue two words.',
+    );
+
+    const changes = diff.paragraphs.filter((p) => p.type !== 'equal');
+    expect(changes).toHaveLength(2);
+    expect(changes[0]).toEqual({
+      type: 'delete',
+      oldIndex: 2,
+      newIndex: null,
+      oldText: 'Cut scene here.',
+      newText: null,
+    });
+    expect(changes[1].type).toBe('insert');
+    expect(changes[1].newIndex).toBe(4);
+    expect(diff.stats.wordsRemoved).toBe(3);
+    expect(diff.stats.wordsAdded).toBe(3);
+  });
+
+  test('returns only equal paragraphs for identical text', () => {
+    const diff = computeStructuredDiff('Same.\n\nText.', 'Same.\n\nText.');
+    expect(diff.paragraphs.map((p) => p.type)).toEqual(['equal', 'equal']);
+    expect(diff.unified).toBe('');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  applyVersionDelta,
+  canonicalYjsState,
+  DEFAULT_VERSION_RETENTION,
+  encodeVersionDelta,
+  parseRetentionPolicy,
+  selectRetainedVersions,
+} from '../../services/versionStorage';
+
+// Same Yjs instance as versionStorage, which requires it
+const Y = require('yjs');
+
+function encode(doc: unknown): string {
+  return Buffer.from(Y.encodeStateAsUpdate(doc)).toString('base64');
+}
+
+describe('encodeVersionDelta', () => {
+  test('round-trips Yjs edits and text changes through a delta', () => {
+    const doc = new Y.Doc();
+    const text = doc.getText('prosemirror');
+    text.insert(0, 'It was a dark night.');
+    const base = { yjsState: encode(doc), content: 'It was a dark night.' };
+
+    text.delete(9, 4);
+    text.insert(9, 'stormy');
+    const next = {
+      yjsState: encode(doc),
+      content: 'It was a stormy night.\n\nThe end.',
+    };
+
+    const delta = encodeVersionDelta(base, next);
+    expect(delta).not.toBeNull();
+    if (!delta) return;
+    expect(delta.yjsState.length < next.yjsState.length).toBe(true);
+
+    const restored = applyVersionDelta(base, delta);
+    expect(restored.content).toBe(next.content);
+    expect(restored.yjsState).toBe(canonicalYjsState(next.yjsState));
+  });
+
+  test('falls back to a keyframe when the new state drops history', () => {
+    const doc = new Y.Doc();
+    doc.getText('prosemirror').insert(0, 'Draft');
+    const older = { yjsState: encode(doc), content: 'Draft' };
+    doc.getText('prosemirror').insert(5, ' two');
+    const newer = { yjsState: encode(doc), content: 'Draft two' };
+
+    // Restoring an old state can't be expressed as an update on top
+    expect(encodeVersionDelta(newer, older)).toBeNull();
+  });
+
+  test('encodes text-only documents without Yjs state', () => {
+    const delta = encodeVersionDelta(
+      { yjsState: '', content: 'v1' },
+      { yjsState: '', content: 'v2' },
+    );
+    expect(delta?.yjsState).toBe('');
+    expect(
+      delta && applyVersionDelta({ yjsState: '', content: 'v1' }, delta),
+    ).toEqual({ yjsState: '', content: 'v2' });
+  });
+});
+
+describe('selectRetainedVersions', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const at = (iso: string) => new Date(iso);
+
+  test('keeps recent versions, then the last per hour and per day', () => {
+    const retained = selectRetainedVersions(
+      [
+        // Older than 30 days: one per day
+        { versionNumber: 1, createdAt: at('2026-01-10T09:00:00Z') },
+        { versionNumber: 2, createdAt: at('2026-01-10T17:00:00Z') },
+        // Between 7 and 30 days: one per hour
+        { versionNumber: 3, createdAt: at('2026-02-10T09:05:00Z') },
+        { versionNumber: 4, createdAt: at('2026-02-10T09:40:00Z') },
+        { versionNumber: 5, createdAt: at('2026-02-10T10:10:00Z') },
+        // Last 7 days: everything
+        { versionNumber: 6, createdAt: at('2026-02-28T09:05:00Z') },
+        { versionNumber: 7, createdAt: at('2026-02-28T09:06:00Z') },
+      ],
+      DEFAULT_VERSION_RETENTION,
+      now,
+    );
+
+    expect([...retained].sort((a, b) => a - b)).toEqual([2, 4, 5, 6, 7]);
+  });
+
+  test('always keeps the latest version', () => {
+    const retained = selectRetainedVersions(
+      [
+        { versionNumber: 1, createdAt: at('2025-01-01T09:00:00Z') },
+        { versionNumber: 2, createdAt: at('2025-01-01T10:00:00Z') },
+      ],
+      { keepAllDays: 0, keepHourlyDays: 0 },
+      now,
+    );
+    expect([...retained]).toEqual([2]);
+  });
+
+  test('never prunes pinned checkpoints', () => {
+    const retained = selectRetainedVersions(
+      [
+        {
+          versionNumber: 1,
+          createdAt: at('2025-01-01T09:00:00Z'),
+          pinned: true,
+        },
+        { versionNumber: 2, createdAt: at('2025-01-01T09:30:00Z') },
+        { versionNumber: 3, createdAt: at('2025-01-01T10:00:00Z') },
+      ],
+      { keepAllDays: 0, keepHourlyDays: 0 },
+      now,
+    );
+    expect([...retained].sort((a, b) => a - b)).toEqual([1, 3]);
+  });
+
+  test('never prunes versions a draft was forked from', () => {
+    const retained = selectRetainedVersions(
+      [
+        { versionNumber: 1, createdAt: at('2025-01-01T09:00:00Z') },
+        { versionNumber: 2, createdAt: at('2025-01-01T09:30:00Z') },
+        { versionNumber: 3, createdAt: at('2025-01-01T10:00:00Z') },
+      ],
+      { keepAllDays: 0, keepHourlyDays: 0 },
+      now,
+      new Set([1]),
+    );
+    expect([...retained].sort((a, b) => a - b)).toEqual([1, 3]);
+  });
+});
+
+describe('parseRetentionPolicy', () => {
+  test('rejects malformed or inverted windows', () => {
+    expect(
+      parseRetentionPolicy({ keepAllDays: 3, keepHourlyDays: 14 }),
+    ).toEqual({ keepAllDays: 3, keepHourlyDays: 14 });
+    expect(parseRetentionPolicy({ keepAllDays: 14, keepHourlyDays: 3 })).toBe(
+      null,
+    );
+    expect(parseRetentionPolicy({ keepAllDays: 1.5, keepHourlyDays: 3 })).toBe(
+      null,
+    );
+    expect(parseRetentionPolicy(null)).toBe(null);
+  });
+});
@@ -5,11 +5,15 @@ import express from 'express';
 import helmet from 'helmet';
 import { env } from './config/env';
 import { passport } from './config/passport';
+import { allowedOrigins } from './config/security';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
 import { activitiesRouter } from './routes/activities';
 import adminRoutes from './routes/admin';
+import { askRouter } from './routes/ask';
 import authRoutes from './routes/auth';
+import { collaboratorsRouter } from './routes/collaborators';
+import { commentsRouter } from './routes/comments';
 import conflictsRoutes from './routes/conflicts';
 import contactRoutes from './routes/contact';
 import customStylePromptsRoutes from './routes/customStylePrompts';
@@ -18,10 +22,19 @@ import earlyAccessRoutes from './routes/earlyAccess';
 import { exportRouter } from './routes/export';
 import generationsRoutes from './routes/generations';
 import googleDriveRoutes from './routes/google-drive';
+import { lintRouter } from './routes/lint';
 import mediaRoutes from './routes/media';
 import nodesRoutes from './routes/nodes';
+import { projectsRouter } from './routes/projects';
+import reviewQueueRoutes from './routes/reviewQueue';
+import { searchRouter } from './routes/search';
+import { shareLinksRouter } from './routes/shareLinks';
 import { sseRouter } from './routes/sse';
+import { storyCalendarRouter } from './routes/storyCalendar';
+import { storyStateRouter } from './routes/storyState';
+import { summariesRouter } from './routes/summaries';
 import tagRoutes from './routes/tags';
+import { timelineRouter } from './routes/timeline';
 // Logging configured via middleware
 
 export function createApp() {
@@ -41,16 +54,9 @@ export function createApp() {
     }),
   );
 
-  const corsOrigins =
-    env.NODE_ENV === 'development'
-      ? ['http://localhost:5173', 'http://localhost:3001']
-      : env.FRONTEND_URL
-        ? [env.FRONTEND_URL]
-        : [];
-
   app.use(
     cors({
-      origin: corsOrigins,
+      origin: allowedOrigins(),
       credentials: true,
     }),
   );
@@ -103,9 +109,21 @@ export function createApp() {
   app.use('/api', customStylePromptsRoutes);
   app.use('/api', adminRoutes);
   app.use('/api', nodesRoutes);
+  app.use('/api', reviewQueueRoutes);
   app.use('/api', exportRouter);
   app.use('/api', googleDriveRoutes);
   app.use('/api', activitiesRouter);
+  app.use('/api', searchRouter);
+  app.use('/api', askRouter);
+  app.use('/api', summariesRouter);
+  app.use('/api', storyStateRouter);
+  app.use('/api', timelineRouter);
+  app.use('/api', storyCalendarRouter);
+  app.use('/api', lintRouter);
+  app.use('/api', collaboratorsRouter);
+  app.use('/api', shareLinksRouter);
+  app.use('/api', commentsRouter);
+  app.use('/api', projectsRouter);
   app.use('', sseRouter); // Unified SSE endpoints at /sse/*
 
   Sentry.setupExpressErrorHandler(app);
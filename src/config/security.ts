@@ -1,3 +1,5 @@
+import { env } from './env';
+
 export const LOGIN_SECURITY = {
   ATTEMPTS_BEFORE_WARNING: 3,
   ATTEMPTS_BEFORE_LOCKOUT: 7,
@@ -8,3 +10,11 @@ export const ACCOUNT_DELETION = {
   GRACE_PERIOD_DAYS: 14,
   GRACE_PERIOD_MS: 14 * 24 * 60 * 60 * 1000,
 };
+
+/** Browser origins allowed to make credentialed requests */
+export function allowedOrigins(): string[] {
+  if (env.NODE_ENV === 'development') {
+    return ['http://localhost:5173', 'http://localhost:3001'];
+  }
+  return env.FRONTEND_URL ? [env.FRONTEND_URL] : [];
+}
@@ -9,10 +9,12 @@ import { env } from './config/env';
 import { startCleanupActivitiesJob } from './jobs/cleanupActivities';
 import { startCleanupReservationsJob } from './jobs/cleanupReservations';
 import { startCleanupJob } from './jobs/cleanupSoftDeleted';
+import { startCompactVersionsJob } from './jobs/compactVersions';
 import { startJobWorkers, stopJobWorkers } from './jobs/index';
 import { startReconciliationJob } from './jobs/reconcileGenerations';
 import { cpuPool } from './lib/cpu-pool';
 import { analytics } from './services/analytics';
+import { collabService } from './services/collab';
 import { graphService } from './services/graph/graph.service';
 import { puppeteerPool } from './services/puppeteerPool';
 import { redis } from './services/redis';
@@ -37,6 +39,7 @@ let reconciliationTask: ScheduledTask;
 let cleanupTask: ScheduledTask;
 let cleanupReservationsTask: { stop: () => void };
 let cleanupActivitiesTask: ScheduledTask;
+let compactVersionsTask: ScheduledTask;
 
 async function verifyDatabase() {
   for (let attempt = 1; attempt <= 3; attempt++) {
@@ -66,11 +69,13 @@ async function start() {
       cleanupTask = startCleanupJob();
       cleanupReservationsTask = startCleanupReservationsJob();
       cleanupActivitiesTask = startCleanupActivitiesJob();
+      compactVersionsTask = startCompactVersionsJob();
       await graphService.initializeIndexes();
     } catch (error) {
       logger.error({ error }, 'Failed to start generation services');
     }
   });
+  collabService.attach(server);
 }
 
 start();
@@ -96,6 +101,7 @@ const shutdown = async (signal: string) => {
     if (cleanupTask) cleanupTask.stop();
     if (cleanupReservationsTask) cleanupReservationsTask.stop();
     if (cleanupActivitiesTask) cleanupActivitiesTask.stop();
+    if (compactVersionsTask) compactVersionsTask.stop();
 
     await cpuPool.shutdown();
 
@@ -105,6 +111,9 @@ const shutdown = async (signal: string) => {
 
     sseService.closeAll();
 
+    // Saves open collab documents, so before the database closes
+    await collabService.closeAll();
+
     await redis.disconnect();
 
     await graphService.disconnect();
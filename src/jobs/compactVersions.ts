@@ -0,0 +1,33 @@
+import cron from 'node-cron';
+import { versioningService } from '../services/versioning';
+import { logger } from '../utils/logger';
+
+/**
+ * Starts a daily cron job that thins document version history to each
+ * owner's retention policy and stores what's left as deltas.
+ * Runs at 4:00 AM daily.
+ */
+export function startCompactVersionsJob(): cron.ScheduledTask {
+  const task = cron.schedule(
+    '0 4 * * *',
+    async () => {
+      logger.info('Starting version history compaction job');
+
+      try {
+        const totals = await versioningService.compactAllHistories();
+        logger.info(totals, 'Version history compaction completed');
+      } catch (error) {
+        logger.error({ error }, 'Version history compaction failed');
+      }
+    },
+    {
+      timezone: 'UTC',
+    },
+  );
+
+  logger.info(
+    'Version history compaction cron job scheduled (daily at 4:00 AM UTC)',
+  );
+
+  return task;
+}
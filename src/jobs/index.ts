@@ -8,6 +8,7 @@ export type {
   AnalysisCheckpoint,
   AnalysisProgress,
   CreateJobParams,
+  EpubExportProgress,
   Job,
   JobProgress,
   JobStatus,
@@ -22,6 +23,7 @@ export { JobWorker } from './worker';
 // Workers
 export { analysisVersionUpgradeWorker } from './workers/analysis-version-upgrade';
 export { documentAnalysisWorker } from './workers/document-analysis';
+export { epubExportWorker } from './workers/epub-export';
 export { imageGenerationWorker } from './workers/image-generation';
 export { mediaStatusWorker } from './workers/media-status';
 export { promptAugmentationWorker } from './workers/prompt-augmentation';
@@ -38,6 +40,7 @@ export async function startJobWorkers(): Promise<void> {
   const { documentAnalysisWorker } = await import(
     './workers/document-analysis.js'
   );
+  const { epubExportWorker } = await import('./workers/epub-export.js');
   const { imageGenerationWorker } = await import(
     './workers/image-generation.js'
   );
@@ -65,6 +68,7 @@ export async function startJobWorkers(): Promise<void> {
   await Promise.all([
     analysisVersionUpgradeWorker.start(),
     documentAnalysisWorker.start(),
+    epubExportWorker.start(),
     imageGenerationWorker.start(),
     promptAugmentationWorker.start(),
     mediaStatusWorker.start(),
@@ -83,6 +87,7 @@ export async function stopJobWorkers(): Promise<void> {
   const { documentAnalysisWorker } = await import(
     './workers/document-analysis.js'
   );
+  const { epubExportWorker } = await import('./workers/epub-export.js');
   const { imageGenerationWorker } = await import(
     './workers/image-generation.js'
   );
@@ -95,6 +100,7 @@ export async function stopJobWorkers(): Promise<void> {
   await Promise.all([
     analysisVersionUpgradeWorker.stop(),
     documentAnalysisWorker.stop(),
+    epubExportWorker.stop(),
     imageGenerationWorker.stop(),
     promptAugmentationWorker.stop(),
     mediaStatusWorker.stop(),
@@ -21,7 +21,8 @@ export type JobType =
   | 'thumbnail_generation'
   | 'media_status_update'
   | 'image_generation'
-  | 'analysis_version_upgrade';
+  | 'analysis_version_upgrade'
+  | 'epub_export';
 
 export type TargetType = 'document' | 'media';
 
@@ -77,6 +78,14 @@ export interface VersionUpgradeProgress extends JobProgress {
   totalEntities: number;
 }
 
+export interface EpubExportProgress extends JobProgress {
+  stage: number;
+  totalStages: number;
+  stageName: string;
+  /** Set once the finished file is uploaded */
+  storageKey?: string;
+}
+
 export interface VersionUpgradeCheckpoint {
   fromVersion: string;
   toVersion: string;
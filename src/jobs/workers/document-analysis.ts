@@ -12,6 +12,7 @@ import {
   AnalysisPausedError,
   multiStagePipeline,
 } from '../../services/pipeline';
+import { projectRegistry } from '../../services/projects';
 import { type Segment, segmentService } from '../../services/segments';
 import { hasValidSegments } from '../../services/segments/segment.validation';
 import { splitIntoSentences } from '../../services/sentences/sentence.detector';
@@ -128,6 +129,19 @@ class DocumentAnalysisWorker extends JobWorker<
         })),
       });
 
+      // Link recurring entities into the project registry. Not fatal: the
+      // registry can be re-synced from the project
+      if (document.projectId) {
+        try {
+          await projectRegistry.syncDocument(documentId);
+        } catch (error) {
+          logger.warn(
+            { error, documentId, projectId: document.projectId },
+            'Project registry sync failed after analysis',
+          );
+        }
+      }
+
       // Update lastAnalyzedVersion and clear analysis status
       await db
         .update(documents)
@@ -0,0 +1,152 @@
+/**
+ * EPUB export worker.
+ * Builds an e-book from a document and its scene images, then uploads it
+ * to storage for download.
+ */
+
+import { documentEditorContent } from '../../services/documentImport/yjsState';
+import { documentsService } from '../../services/documents';
+import { type EpubImage, generateEpub } from '../../services/export/epub';
+import { mediaService } from '../../services/mediaService';
+import { storageProvider } from '../../services/storage';
+import { logger } from '../../utils/logger';
+import type { EpubExportProgress, Job, JobType } from '../types';
+import { JobWorker } from '../worker';
+
+interface EpubExportPayload {
+  documentTitle: string;
+  filename: string;
+  author?: string | null;
+}
+
+const TOTAL_STAGES = 3;
+
+class EpubExportWorker extends JobWorker<
+  EpubExportPayload,
+  EpubExportProgress
+> {
+  protected jobType: JobType = 'epub_export';
+
+  constructor() {
+    super('epub-export-worker');
+  }
+
+  protected getActivityTitle(_job: Job, payload: EpubExportPayload): string {
+    return `Exporting: ${payload.filename}.epub`;
+  }
+
+  protected getResultUrl(job: Job): string {
+    return `/api/documents/${job.targetId}/export/epub/${job.id}/download`;
+  }
+
+  protected async processJob(
+    job: Job,
+    payload: EpubExportPayload,
+  ): Promise<void> {
+    const documentId = job.targetId;
+
+    logger.info(
+      { jobId: job.id, documentId, userId: job.userId },
+      'Processing EPUB export',
+    );
+
+    await this.updateProgress(job.id, {
+      stage: 1,
+      totalStages: TOTAL_STAGES,
+      stageName: 'Collecting images',
+    });
+
+    const document = await documentsService.get(
+      documentId,
+      job.userId,
+      'viewer',
+    );
+    const images = await this.loadSceneImages(documentId);
+
+    await this.checkInterruption(job.id);
+    await this.updateProgress(job.id, {
+      stage: 2,
+      totalStages: TOTAL_STAGES,
+      stageName: 'Building e-book',
+    });
+
+    const result = await generateEpub({
+      identifier: document.id,
+      title: document.title || payload.documentTitle,
+      author: payload.author,
+      contentJson: documentEditorContent(document),
+      fallbackText: document.content,
+      images,
+    });
+
+    await this.checkInterruption(job.id);
+    await this.updateProgress(job.id, {
+      stage: 3,
+      totalStages: TOTAL_STAGES,
+      stageName: 'Uploading',
+    });
+
+    const storageKey = await storageProvider.upload(
+      job.userId,
+      `epub-${job.id}`,
+      result.buffer,
+      result.mimeType,
+    );
+
+    await this.updateProgress(job.id, {
+      stage: 3,
+      totalStages: TOTAL_STAGES,
+      stageName: 'Uploading',
+      storageKey,
+    });
+
+    logger.info(
+      {
+        jobId: job.id,
+        documentId,
+        size: result.buffer.length,
+        imageCount: images.length,
+      },
+      'EPUB export completed',
+    );
+  }
+
+  /**
+   * Download completed images that have a position in the text.
+   * A missing image is skipped rather than failing the export.
+   */
+  private async loadSceneImages(documentId: string): Promise<EpubImage[]> {
+    const documentMedia = await mediaService.getDocumentMedia(documentId);
+    const images: EpubImage[] = [];
+
+    for (const item of documentMedia) {
+      const storageKey = item.storageKey ?? item.s3Key;
+      if (
+        item.status !== 'completed' ||
+        !storageKey ||
+        !item.mimeType ||
+        item.textOffset === null
+      ) {
+        continue;
+      }
+
+      try {
+        images.push({
+          textOffset: item.textOffset,
+          buffer: await storageProvider.downloadToBuffer(storageKey),
+          mimeType: item.mimeType,
+          alt: item.sourceText ?? item.prompt,
+        });
+      } catch (error) {
+        logger.warn(
+          { error, documentId, mediaId: item.id },
+          'Failed to download image for EPUB, skipping',
+        );
+      }
+    }
+
+    return images;
+  }
+}
+
+export const epubExportWorker = new EpubExportWorker();
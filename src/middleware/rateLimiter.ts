@@ -70,3 +70,17 @@ export const earlyAccessRateLimiter = rateLimit({
     });
   },
 });
+
+export const shareLinkRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: process.env.NODE_ENV === 'development' ? 300 : 60,
+  message: 'Too many share link requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn({ ip: req.ip }, 'Share link rate limit exceeded');
+    res.status(429).json({
+      error: 'Too many share link requests, please try again later',
+    });
+  },
+});
@@ -1,5 +1,6 @@
 import { relations, sql } from 'drizzle-orm';
 import {
+  type AnyPgColumn,
   bigint,
   boolean,
   date,
@@ -42,6 +43,7 @@ export const users = pgTable('users', {
   defaultStylePreset: varchar('default_style_preset', { length: 50 }),
   hiddenPresetIds: text('hidden_preset_ids').array(),
   nodeTypeStyleDefaults: jsonb('node_type_style_defaults'),
+  versionRetention: jsonb('version_retention'),
   failedLoginAttempts: integer('failed_login_attempts').default(0).notNull(),
   lockedUntil: timestamp('locked_until', { withTimezone: true }),
   googleAccessToken: text('google_access_token'),
@@ -213,6 +215,28 @@ export const mediaTags = pgTable(
   ],
 );
 
+// A series or other group of documents sharing one story world. Recurring
+// characters, places and facets are tracked across its documents through
+// the project entity registry below.
+export const projects = pgTable(
+  'projects',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }).notNull(),
+    description: text('description'),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index('projects_user_id_idx').on(table.userId)],
+);
+
 export const documents = pgTable(
   'documents',
   {
@@ -251,6 +275,19 @@ export const documents = pgTable(
       jsonb('layout_positions').$type<
         Array<{ nodeId: string; x: number; y: number }>
       >(),
+    // In-world calendar for story time; null means the default calendar
+    storyCalendar: jsonb('story_calendar'),
+    // Set on drafts forked from another document's version
+    forkedFromDocumentId: uuid('forked_from_document_id').references(
+      (): AnyPgColumn => documents.id,
+      { onDelete: 'set null' },
+    ),
+    forkedFromVersion: integer('forked_from_version'),
+    // Project the document belongs to, and its place in the series
+    projectId: uuid('project_id').references(() => projects.id, {
+      onDelete: 'set null',
+    }),
+    projectPosition: integer('project_position'),
     createdAt: timestamp('created_at', { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -265,6 +302,7 @@ export const documents = pgTable(
     index('documents_user_active_idx')
       .on(table.userId, table.deletedAt)
       .where(sql`deleted_at IS NULL`),
+    index('documents_project_id_idx').on(table.projectId),
   ],
 );
 
@@ -308,8 +346,15 @@ export const documentVersions = pgTable(
       .notNull()
       .references(() => documents.id, { onDelete: 'cascade' }),
     versionNumber: integer('version_number').notNull(),
+    // Full state on keyframes; Yjs update and unified text diff against
+    // baseVersion otherwise
     yjsState: text('yjs_state').notNull(),
     content: text('content').notNull(),
+    isKeyframe: boolean('is_keyframe').default(true).notNull(),
+    baseVersion: integer('base_version'),
+    // Named checkpoints are pinned: exempt from retention pruning
+    name: varchar('name', { length: 100 }),
+    pinned: boolean('pinned').default(false).notNull(),
     createdAt: timestamp('created_at', { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -326,6 +371,110 @@ export const documentVersions = pgTable(
   ],
 );
 
+// Chapter, thread and arc summaries. sourceText is the source the summary
+// was last brought up to date with, diffed against on the next update.
+export const storySummaries = pgTable(
+  'story_summaries',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => documents.id, { onDelete: 'cascade' }),
+    summaryType: varchar('summary_type', { length: 20 }).notNull(),
+    // chapter-N, thread ID or arc ID
+    targetId: varchar('target_id', { length: 255 }).notNull(),
+    title: text('title'),
+    sourceText: text('source_text').notNull(),
+    summary: text('summary').notNull(),
+    editChainLength: integer('edit_chain_length').default(0).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('story_summaries_target_unique').on(
+      table.documentId,
+      table.summaryType,
+      table.targetId,
+    ),
+  ],
+);
+
+export const documentRoleEnum = pgEnum('document_role', [
+  'viewer',
+  'commenter',
+  'editor',
+]);
+
+// People a document is shared with. Invitations go to an email address;
+// userId is set once the invitation is accepted.
+export const documentCollaborators = pgTable(
+  'document_collaborators',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => documents.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id').references(() => users.id, {
+      onDelete: 'cascade',
+    }),
+    email: varchar('email', { length: 255 }).notNull(),
+    role: documentRoleEnum('role').notNull(),
+    invitedBy: uuid('invited_by').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    inviteToken: varchar('invite_token', { length: 255 }).unique(),
+    inviteExpiresAt: timestamp('invite_expires_at', { withTimezone: true }),
+    acceptedAt: timestamp('accepted_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('document_collaborators_email_unique').on(
+      table.documentId,
+      table.email,
+    ),
+    index('document_collaborators_user_idx').on(table.userId),
+  ],
+);
+
+// Public read-only links for readers without accounts. Anyone holding the
+// token can view the document until the link expires or is revoked.
+export const documentShareLinks = pgTable(
+  'document_share_links',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => documents.id, { onDelete: 'cascade' }),
+    createdBy: uuid('created_by')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    token: varchar('token', { length: 255 }).notNull().unique(),
+    label: varchar('label', { length: 255 }),
+    passwordHash: varchar('password_hash', { length: 255 }),
+    includeStoryGraph: boolean('include_story_graph').default(false).notNull(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }),
+    viewCount: integer('view_count').default(0).notNull(),
+    lastViewedAt: timestamp('last_viewed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index('document_share_links_document_idx').on(table.documentId)],
+);
+
 export const mentionSourceEnum = pgEnum('mention_source', [
   'extraction',
   'name_match',
@@ -370,6 +519,130 @@ export const mentions = pgTable(
   ],
 );
 
+export const commentThreadKindEnum = pgEnum('comment_thread_kind', [
+  'comment',
+  'suggestion',
+]);
+
+export const commentThreadStatusEnum = pgEnum('comment_thread_status', [
+  'open',
+  'resolved',
+  'accepted',
+  'rejected',
+]);
+
+// Comment threads and suggested edits on a passage. Anchored like mentions,
+// to a segment-relative range, so they follow the text through edits.
+export const commentThreads = pgTable(
+  'comment_threads',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => documents.id, { onDelete: 'cascade' }),
+    segmentId: varchar('segment_id', { length: 255 }).notNull(),
+    relativeStart: integer('relative_start').notNull(),
+    relativeEnd: integer('relative_end').notNull(),
+    originalText: text('original_text').notNull(),
+    textHash: varchar('text_hash', { length: 64 }).notNull(),
+    kind: commentThreadKindEnum('kind').default('comment').notNull(),
+    // Replacement for the anchored passage; suggestions only
+    suggestedText: text('suggested_text'),
+    status: commentThreadStatusEnum('status').default('open').notNull(),
+    createdBy: uuid('created_by')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    resolvedBy: uuid('resolved_by').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+    // Document version an accepted suggestion produced
+    appliedVersion: integer('applied_version'),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index('comment_threads_document_idx').on(table.documentId, table.status),
+  ],
+);
+
+export const comments = pgTable(
+  'comments',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    threadId: uuid('thread_id')
+      .notNull()
+      .references(() => commentThreads.id, { onDelete: 'cascade' }),
+    authorId: uuid('author_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    body: text('body').notNull(),
+    mentionedUserIds: jsonb('mentioned_user_ids')
+      .$type<string[]>()
+      .default([])
+      .notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index('comments_thread_idx').on(table.threadId)],
+);
+
+// Project entity registry: one row per character, place or other entity
+// that recurs across a project's documents. Each document keeps its own
+// graph node (so mentions point at that document's text); nodes are linked
+// to their project entity in project_entity_nodes.
+export const projectEntities = pgTable(
+  'project_entities',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    projectId: uuid('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    type: varchar('type', { length: 50 }).notNull(),
+    name: varchar('name', { length: 255 }).notNull(),
+    aliases: jsonb('aliases').$type<string[]>().default([]).notNull(),
+    facets: jsonb('facets')
+      .$type<Array<{ type: string; content: string }>>()
+      .default([])
+      .notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index('project_entities_project_idx').on(table.projectId)],
+);
+
+export const projectEntityNodes = pgTable(
+  'project_entity_nodes',
+  {
+    nodeId: varchar('node_id', { length: 255 }).primaryKey(),
+    projectEntityId: uuid('project_entity_id')
+      .notNull()
+      .references(() => projectEntities.id, { onDelete: 'cascade' }),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => documents.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index('project_entity_nodes_entity_idx').on(table.projectEntityId),
+    index('project_entity_nodes_document_idx').on(table.documentId),
+  ],
+);
+
 export const usersRelations = relations(users, ({ many }) => ({
   media: many(media),
   tags: many(tags),
@@ -683,6 +956,57 @@ export const reviewQueueRelations = relations(reviewQueue, ({ one }) => ({
   }),
 }));
 
+// User-declared entity resolution constraints. Pairs are stored with
+// entity_a_id < entity_b_id so each pair has a single row per document.
+
+export const resolutionConstraintKindEnum = pgEnum(
+  'resolution_constraint_kind',
+  ['must_link', 'cannot_link'],
+);
+
+export const resolutionConstraints = pgTable(
+  'resolution_constraints',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => documents.id, { onDelete: 'cascade' }),
+    kind: resolutionConstraintKindEnum('kind').notNull(),
+
+    // Entity names are kept alongside IDs so constraints still match
+    // after a re-analysis recreates the entities with new IDs.
+    entityAId: varchar('entity_a_id', { length: 255 }).notNull(),
+    entityAName: text('entity_a_name').notNull(),
+    entityBId: varchar('entity_b_id', { length: 255 }).notNull(),
+    entityBName: text('entity_b_name').notNull(),
+
+    reviewItemId: uuid('review_item_id').references(() => reviewQueue.id, {
+      onDelete: 'set null',
+    }),
+    createdBy: uuid('created_by').references(() => users.id),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('resolution_constraints_pair_unique').on(
+      table.documentId,
+      table.entityAId,
+      table.entityBId,
+    ),
+  ],
+);
+
+export const resolutionConstraintsRelations = relations(
+  resolutionConstraints,
+  ({ one }) => ({
+    document: one(documents, {
+      fields: [resolutionConstraints.documentId],
+      references: [documents.id],
+    }),
+  }),
+);
+
 export const llmUsage = pgTable(
   'llm_usage',
   {
@@ -964,6 +1288,7 @@ export const jobTypeEnum = pgEnum('job_type', [
   'docx_export',
   'image_generation',
   'analysis_version_upgrade',
+  'epub_export',
 ]);
 
 export const jobs = pgTable(
@@ -1021,6 +1346,9 @@ export const activityTypeEnum = pgEnum('activity_type', [
   'drive_import',
   'drive_export',
   'analysis_version_upgrade',
+  'epub_export',
+  'file_import',
+  'story_bible_export',
 ]);
 
 export const activityStatusEnum = pgEnum('activity_status', [
@@ -0,0 +1,53 @@
+/**
+ * Ask the Manuscript
+ *
+ * Answers a writer's question about their own story, grounded in retrieved
+ * passages, the entity graph and segment summaries. Passages are numbered
+ * so the answer can cite them as [n].
+ */
+
+import type { PromptDefinition } from '../types';
+
+interface AskManuscriptInput {
+  documentTitle: string;
+  question: string;
+  /** Chronological segment summaries */
+  storySoFar: string;
+  /** Formatted entity registry */
+  entities: string;
+  /** Numbered passages, e.g. "[1] (chars 120-480)\n..." */
+  passages: string;
+}
+
+export const askManuscriptPrompt: PromptDefinition<AskManuscriptInput> = {
+  id: 'ask-manuscript',
+  version: 1,
+  model: 'gemini-2.5-flash',
+  description: 'Answer a question about a manuscript with passage citations',
+
+  build: ({ documentTitle, question, storySoFar, entities, passages }) => {
+    return `You are a careful reader helping the author of "${documentTitle}" answer questions about their own manuscript.
+
+## RULES
+- Answer ONLY from the passages, entities and summaries below. Do not invent events.
+- Cite every claim with the passage numbers it relies on, e.g. [2] or [1][4].
+- Positions are character offsets; a lower offset happens earlier in the text.
+- Questions about "before" or "after" a point depend on positions: check them.
+- If the material does not answer the question, say so plainly.
+- Keep the answer short: a few sentences, or a brief list.
+
+## STORY SO FAR (segment summaries, in order)
+${storySoFar || '(no summaries available)'}
+
+## ENTITIES
+${entities || '(no entities found)'}
+
+## PASSAGES
+${passages || '(no matching passages)'}
+
+## QUESTION
+${question}
+
+## ANSWER`;
+  },
+};
@@ -0,0 +1 @@
+export { askManuscriptPrompt } from './askManuscript';
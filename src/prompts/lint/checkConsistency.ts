@@ -0,0 +1,49 @@
+/**
+ * Consistency Lint
+ *
+ * Checks newly written passages against what is already established about
+ * the entities they mention: facets active at that point in the story and
+ * what each character possesses. Facts are numbered so warnings can point
+ * at the one they contradict.
+ */
+
+import type { PromptDefinition } from '../types';
+
+interface CheckConsistencyInput {
+  documentTitle: string;
+  /** Numbered passages, each followed by the facts for its entities */
+  passages: string;
+}
+
+export const checkConsistencyPrompt: PromptDefinition<CheckConsistencyInput> = {
+  id: 'lint-check-consistency',
+  version: 1,
+  model: 'gemini-2.5-flash',
+  description: 'Flag new prose that contradicts established entity facts',
+
+  build: ({ documentTitle, passages }) => {
+    return `You are a continuity editor for "${documentTitle}". The author has just written or revised the passages below. Check each passage against the established facts listed under it.
+
+## WHAT TO FLAG
+- Text that contradicts a fact: a different eye color, a healed injury acting up on the wrong side, using an object the character does not have
+- Only clear contradictions. New details that add to the facts are fine.
+- Changes the passage itself explains (a disguise, a new injury, an object being handed over) are not contradictions
+
+## WHAT NOT TO FLAG
+- Style, grammar or pacing
+- Facts about entities the passage does not mention
+- Anything you are unsure about
+
+## OUTPUT
+For each contradiction return:
+- passage: the passage number
+- entityName: the entity as named in its facts heading
+- quote: the shortest exact, verbatim span of the passage that contradicts the fact
+- factRef: the fact reference it contradicts (e.g. "F3"), or null
+- message: one short sentence for the author, e.g. "Mara's eyes were established as green"
+
+Return an empty list when nothing contradicts.
+
+${passages}`;
+  },
+};
@@ -0,0 +1 @@
+export { checkConsistencyPrompt } from './checkConsistency';
@@ -131,7 +131,7 @@ Use this to understand what has happened earlier in the narrative.
  */
 export const extractEntitiesPrompt: PromptDefinition<ExtractEntitiesInput> = {
   id: 'stage2-extract-entities-batch',
-  version: 3,
+  version: 4,
   model: process.env.ENTITY_EXTRACTION_MODEL || 'gemini-2.5-flash',
   description:
     'Stage 2: Extract entities with LLM-first merge detection (batch support)',
@@ -223,6 +223,7 @@ ${formatSegments(segments, totalSegments)}
       "type": "character|location|event|concept|object|other",
       "segmentId": "segment-uuid",
       "documentOrder": 1,
+      "timeExpression": "three days later",
       "existingMatch": {
         "matchedName": "Exact Name From Registry",
         "matchedType": "character|location|event|concept|object|other",
@@ -290,6 +291,9 @@ existingMatch confidence levels:
   Minor logistics (walking between rooms, eating meals) are not events unless narratively significant.
   Always set documentOrder to preserve narrative sequence
   Name events as noun phrases describing the action
+  Set timeExpression when the text says when the event happens, copied as written:
+  explicit ("winter of 1843", "the 3rd of Frostmoon, 1201") or relative to the previous event ("three days later", "the next morning", "years earlier")
+  Omit timeExpression when the text gives no time; never guess one
 - **concept**: Themes, motifs, abstract forces
 - **object**: Physical items, artifacts, possessions, tools of narrative significance
 - **other**: Miscellaneous entities that don't fit above categories
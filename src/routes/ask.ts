@@ -0,0 +1,116 @@
+import { randomUUID } from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { askService } from '../services/ask';
+import { documentsService } from '../services/documents';
+import { sseService } from '../services/sse';
+import { UsageQuotaExceededError, usageService } from '../services/usage';
+import { logger } from '../utils/logger';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+// Roughly the passages, entities and summaries of one question plus answer
+const ASK_QUOTA_UNITS = 8;
+
+const AskBodySchema = z.object({
+  question: z.string().trim().min(1, 'Question is required').max(1000),
+});
+
+/**
+ * POST /api/documents/:id/ask
+ * Ask a question about the manuscript. Responds with a requestId at once;
+ * the answer streams to the user's SSE channel as ask-chunk events and
+ * ends with ask-complete (answer and citations) or ask-failed.
+ */
+router.post(
+  '/documents/:id/ask',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = AskBodySchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        res.status(400).json({
+          error: {
+            message: bodyResult.error.issues[0]?.message || 'Invalid input',
+            code: 'INVALID_INPUT',
+          },
+        });
+        return;
+      }
+      const { question } = bodyResult.data;
+
+      const document = await documentsService.get(id, userId, 'editor');
+
+      const { operationId } = await usageService.checkAndReserveQuota({
+        userId,
+        operationType: 'llm-query-1k-tokens',
+        units: ASK_QUOTA_UNITS,
+      });
+
+      const requestId = randomUUID();
+      res.status(202).json({ requestId });
+
+      askService
+        .ask(document, userId, question, {
+          requestId,
+          onChunk: (text) =>
+            sseService.broadcastToUser(userId, 'ask-chunk', {
+              requestId,
+              documentId: id,
+              text,
+            }),
+        })
+        .then(
+          (result) => {
+            sseService.broadcastToUser(userId, 'ask-complete', result);
+            return true;
+          },
+          (error) => {
+            logger.error(
+              { error, requestId, documentId: id, userId },
+              'Manuscript question failed',
+            );
+            sseService.broadcastToUser(userId, 'ask-failed', {
+              requestId,
+              documentId: id,
+              error: 'Could not answer the question. Please try again.',
+            });
+            return false;
+          },
+        )
+        .then(async (success) => {
+          if (operationId) {
+            await usageService.finalizeReservation({
+              operationId,
+              userId,
+              success,
+            });
+          }
+        })
+        .catch((error) => {
+          logger.error({ error, requestId }, 'Failed to finalize ask quota');
+        });
+    } catch (error) {
+      if (error instanceof UsageQuotaExceededError) {
+        res.status(403).json({
+          error: {
+            message: `You've used all your monthly usage. Resets on ${error.resetDate.toLocaleDateString()}.`,
+            code: 'QUOTA_EXCEEDED',
+            resetDate: error.resetDate,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  },
+);
+
+export { router as askRouter };
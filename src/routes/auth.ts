@@ -352,6 +352,7 @@ router.patch(
         defaultStylePreset,
         hiddenPresetIds,
         nodeTypeStyleDefaults,
+        versionRetention,
       } = req.body;
 
       const preferences = await authService.updateUserPreferences(userId, {
@@ -360,6 +361,7 @@ router.patch(
         defaultStylePreset,
         hiddenPresetIds,
         nodeTypeStyleDefaults,
+        versionRetention,
       });
 
       res.json({ preferences });
@@ -0,0 +1,208 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireEmailVerified } from '../middleware/auth';
+import {
+  COLLABORATOR_ROLES,
+  collaboratorsService,
+} from '../services/collaborators';
+import { documentsService } from '../services/documents';
+import { NotFoundError } from '../utils/errors';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+const InviteSchema = z.object({
+  email: z.string().trim().email('A valid email address is required').max(255),
+  role: z.enum(COLLABORATOR_ROLES),
+});
+
+const UpdateRoleSchema = z.object({
+  role: z.enum(COLLABORATOR_ROLES),
+});
+
+const AcceptSchema = z.object({
+  token: z.string().min(1).max(255),
+});
+
+function invalidInput(res: Response, error: z.ZodError) {
+  res.status(400).json({
+    error: {
+      message: error.issues[0]?.message || 'Invalid input',
+      code: 'INVALID_INPUT',
+    },
+  });
+}
+
+/**
+ * GET /api/documents/:id/collaborators
+ * Everyone with access can see who else has it.
+ */
+router.get(
+  '/documents/:id/collaborators',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const { document, role } = await documentsService.getWithRole(
+        id,
+        req.user.id,
+        'viewer',
+      );
+      const collaborators = await collaboratorsService.list(id);
+
+      res.json({ ownerId: document.userId, role, collaborators });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/documents/:id/collaborators
+ * Invite someone by email. Owner only.
+ */
+router.post(
+  '/documents/:id/collaborators',
+  requireAuth,
+  requireEmailVerified('Verify your email before sharing documents'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = InviteSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        invalidInput(res, bodyResult.error);
+        return;
+      }
+
+      await documentsService.get(id, req.user.id);
+      const collaborator = await collaboratorsService.invite({
+        documentId: id,
+        invitedBy: req.user.id,
+        ...bodyResult.data,
+      });
+
+      res.status(201).json({
+        collaborator: {
+          id: collaborator.id,
+          email: collaborator.email,
+          role: collaborator.role,
+          acceptedAt: collaborator.acceptedAt,
+          createdAt: collaborator.createdAt,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * PATCH /api/documents/:id/collaborators/:collaboratorId
+ * Change a collaborator's role. Owner only.
+ */
+router.patch(
+  '/documents/:id/collaborators/:collaboratorId',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+      const collaboratorId = parseStringParam(
+        req.params.collaboratorId,
+        'collaboratorId',
+      );
+
+      const bodyResult = UpdateRoleSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        invalidInput(res, bodyResult.error);
+        return;
+      }
+
+      await documentsService.get(id, req.user.id);
+      const collaborator = await collaboratorsService.updateRole(
+        id,
+        collaboratorId,
+        bodyResult.data.role,
+      );
+
+      res.json({
+        collaborator: { id: collaborator.id, role: collaborator.role },
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * DELETE /api/documents/:id/collaborators/:collaboratorId
+ * The owner can remove anyone; collaborators can remove themselves.
+ */
+router.delete(
+  '/documents/:id/collaborators/:collaboratorId',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+      const collaboratorId = parseStringParam(
+        req.params.collaboratorId,
+        'collaboratorId',
+      );
+
+      const { role } = await documentsService.getWithRole(id, userId, 'viewer');
+      if (role !== 'owner') {
+        const collaborator = await collaboratorsService.get(id, collaboratorId);
+        if (collaborator?.userId !== userId) {
+          throw new NotFoundError('Collaborator not found');
+        }
+      }
+
+      await collaboratorsService.remove(id, collaboratorId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/invitations/accept
+ * Accept an invitation sent to the signed-in user's email address.
+ */
+router.post(
+  '/invitations/accept',
+  requireAuth,
+  requireEmailVerified('Verify your email before accepting invitations'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+
+      const bodyResult = AcceptSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        invalidInput(res, bodyResult.error);
+        return;
+      }
+
+      const collaborator = await collaboratorsService.accept(
+        bodyResult.data.token,
+        req.user,
+      );
+
+      res.json({
+        documentId: collaborator.documentId,
+        role: collaborator.role,
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as collaboratorsRouter };
@@ -0,0 +1,304 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { authorizationService } from '../services/authorization';
+import { type DocumentRole, hasDocumentRole } from '../services/collaborators';
+import { commentsService } from '../services/comments';
+import { documentsService } from '../services/documents';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+const MAX_COMMENT_LENGTH = 10_000;
+
+const ListQuerySchema = z.object({
+  status: z.enum(['open', 'resolved', 'accepted', 'rejected']).optional(),
+});
+
+const CreateThreadSchema = z
+  .object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(1),
+    body: z.string().trim().min(1).max(MAX_COMMENT_LENGTH).optional(),
+    suggestedText: z.string().max(MAX_COMMENT_LENGTH).optional(),
+  })
+  .refine((data) => data.end > data.start, {
+    message: 'end must be greater than start',
+  })
+  .refine(
+    (data) => data.body !== undefined || data.suggestedText !== undefined,
+    {
+      message: 'A comment needs a body or suggested text',
+    },
+  );
+
+const ReplySchema = z.object({
+  body: z.string().trim().min(1).max(MAX_COMMENT_LENGTH),
+});
+
+function invalidInput(res: Response, error: z.ZodError) {
+  res.status(400).json({
+    error: {
+      message: error.issues[0]?.message || 'Invalid input',
+      code: 'INVALID_INPUT',
+    },
+  });
+}
+
+/**
+ * A thread and the user's role on its document. Users without at least
+ * `minRole` get a 404, as if the thread did not exist.
+ */
+async function requireThreadRole(
+  threadId: string,
+  userId: string,
+  minRole: DocumentRole,
+) {
+  const thread = await commentsService.getThread(threadId);
+  const role = await authorizationService.getDocumentRole(
+    userId,
+    thread.documentId,
+  );
+  if (!hasDocumentRole(role, minRole)) {
+    throw new NotFoundError('Comment thread not found', 'NOT_FOUND');
+  }
+  return { thread, role };
+}
+
+/**
+ * GET /api/documents/:id/comments
+ * Comment threads and suggestions with their current positions.
+ */
+router.get(
+  '/documents/:id/comments',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const queryResult = ListQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        invalidInput(res, queryResult.error);
+        return;
+      }
+
+      await documentsService.get(id, req.user.id, 'viewer');
+      const threads = await commentsService.list(id, queryResult.data.status);
+
+      res.json({ threads });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/documents/:id/comments
+ * Comment on a passage, or suggest replacing it with `suggestedText`.
+ */
+router.post(
+  '/documents/:id/comments',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = CreateThreadSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        invalidInput(res, bodyResult.error);
+        return;
+      }
+
+      await documentsService.get(id, req.user.id, 'commenter');
+      const thread = await commentsService.createThread({
+        documentId: id,
+        userId: req.user.id,
+        ...bodyResult.data,
+      });
+
+      res.status(201).json({ thread });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/comment-threads/:threadId/replies
+ */
+router.post(
+  '/comment-threads/:threadId/replies',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const threadId = parseStringParam(req.params.threadId, 'threadId');
+
+      const bodyResult = ReplySchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        invalidInput(res, bodyResult.error);
+        return;
+      }
+
+      const { thread } = await requireThreadRole(
+        threadId,
+        req.user.id,
+        'commenter',
+      );
+      const comment = await commentsService.addComment(
+        thread,
+        req.user.id,
+        bodyResult.data.body,
+      );
+
+      res.status(201).json({ comment });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * DELETE /api/comment-threads/:threadId/comments/:commentId
+ * Authors can delete their own comments; the owner can delete any.
+ */
+router.delete(
+  '/comment-threads/:threadId/comments/:commentId',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const threadId = parseStringParam(req.params.threadId, 'threadId');
+      const commentId = parseStringParam(req.params.commentId, 'commentId');
+
+      const { thread, role } = await requireThreadRole(
+        threadId,
+        req.user.id,
+        'viewer',
+      );
+      const comment = await commentsService.getComment(threadId, commentId);
+      if (!comment) {
+        throw new NotFoundError('Comment not found', 'NOT_FOUND');
+      }
+      if (comment.authorId !== req.user.id && role !== 'owner') {
+        throw new ForbiddenError('You can only delete your own comments');
+      }
+
+      await commentsService.deleteComment(thread, commentId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/comment-threads/:threadId/resolve
+ * The thread's author or an editor can resolve it.
+ */
+router.post(
+  '/comment-threads/:threadId/resolve',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const threadId = parseStringParam(req.params.threadId, 'threadId');
+
+      const { thread, role } = await requireThreadRole(
+        threadId,
+        req.user.id,
+        'commenter',
+      );
+      if (
+        thread.createdBy !== req.user.id &&
+        !hasDocumentRole(role, 'editor')
+      ) {
+        throw new ForbiddenError('Only the author or an editor can resolve');
+      }
+
+      const updated = await commentsService.resolve(thread, req.user.id);
+      res.json({ thread: updated });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/comment-threads/:threadId/reopen
+ */
+router.post(
+  '/comment-threads/:threadId/reopen',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const threadId = parseStringParam(req.params.threadId, 'threadId');
+
+      const { thread } = await requireThreadRole(
+        threadId,
+        req.user.id,
+        'commenter',
+      );
+      const updated = await commentsService.reopen(thread);
+      res.json({ thread: updated });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/comment-threads/:threadId/accept
+ * Apply a suggestion to the document as a new version. Editors only.
+ */
+router.post(
+  '/comment-threads/:threadId/accept',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const threadId = parseStringParam(req.params.threadId, 'threadId');
+
+      const { thread } = await requireThreadRole(
+        threadId,
+        req.user.id,
+        'editor',
+      );
+      const result = await commentsService.accept(thread, req.user.id);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/comment-threads/:threadId/reject
+ */
+router.post(
+  '/comment-threads/:threadId/reject',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const threadId = parseStringParam(req.params.threadId, 'threadId');
+
+      const { thread } = await requireThreadRole(
+        threadId,
+        req.user.id,
+        'editor',
+      );
+      const updated = await commentsService.reject(thread, req.user.id);
+      res.json({ thread: updated });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as commentsRouter };
@@ -4,6 +4,7 @@ import { Router } from 'express';
 import { db } from '../config/database';
 import { requireAuth } from '../middleware/auth';
 import { reviewQueue } from '../models/schema';
+import { authorizationService } from '../services/authorization';
 import { parseStringParam } from '../utils/validation';
 
 const router = Router();
@@ -16,6 +17,17 @@ router.get(
       const nodeId = parseStringParam(req.params.nodeId, 'nodeId');
       const { status = 'pending' } = req.query;
 
+      const node = await authorizationService.getAccessibleNode(
+        req.user?.id as string,
+        nodeId,
+      );
+      if (!node) {
+        res
+          .status(404)
+          .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+        return;
+      }
+
       const whereClause =
         status === 'all'
           ? eq(reviewQueue.primaryEntityId, nodeId)
@@ -79,6 +91,20 @@ router.patch(
         .where(eq(reviewQueue.id, conflictId))
         .limit(1);
 
+      if (
+        !existing ||
+        !(await authorizationService.canAccessDocument(
+          userId,
+          existing.documentId,
+          'editor',
+        ))
+      ) {
+        res.status(404).json({
+          error: { message: 'Conflict not found', code: 'NOT_FOUND' },
+        });
+        return;
+      }
+
       const [updated] = await db
         .update(reviewQueue)
         .set({
@@ -86,7 +112,7 @@ router.patch(
           resolvedAt: new Date(),
           resolvedBy: userId,
           resolution: {
-            ...(existing?.resolution || {}),
+            ...(existing.resolution || {}),
             userAction: userResolution,
             notes,
           },
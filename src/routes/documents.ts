@@ -5,6 +5,7 @@ import {
   type Response,
   Router,
 } from 'express';
+import multer from 'multer';
 import {
   getCurrentAnalysisVersion,
   getVersionDiff,
@@ -13,6 +14,11 @@ import { db } from '../config/database';
 import { jobService } from '../jobs/service';
 import { requireAuth } from '../middleware/auth';
 import { analysisSnapshots, documents, jobs, mentions } from '../models/schema';
+import { collaboratorsService } from '../services/collaborators';
+import {
+  importDocumentFile,
+  resolveImportMimeType,
+} from '../services/documentImport';
 import { documentsService } from '../services/documents';
 import {
   computeCausalOrder,
@@ -25,19 +31,98 @@ import { graphThreads } from '../services/graph/graph.threads';
 import { mediaService } from '../services/mediaService';
 import { mentionService } from '../services/mentions/mention.service';
 import { clearCheckpoint } from '../services/pipeline/checkpoint';
+import { projectRegistry, projectsService } from '../services/projects';
 import { redis } from '../services/redis';
 import { redisStreams } from '../services/redis-streams';
 import { sseService } from '../services/sse';
 import { stalenessService } from '../services/staleness';
 import { graphStoryNodesRepository } from '../services/storyNodes';
+import { storyStateService } from '../services/storyState';
+import { storySummaryService } from '../services/summarization';
 import { UsageQuotaExceededError, usageService } from '../services/usage';
 import { versioningService } from '../services/versioning';
+import { computeStructuredDiff } from '../utils/diffUtils';
 import { sanitizeError } from '../utils/error-sanitizer';
-import { BadRequestError } from '../utils/errors';
+import { BadRequestError, NotFoundError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { parseStringParam } from '../utils/validation';
 
 const router = Router();
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 },
+});
+
+function parseVersionNumber(
+  value: string | string[] | undefined,
+  name: string,
+): number {
+  const versionNumber = Number(parseStringParam(value, name));
+  if (!Number.isInteger(versionNumber) || versionNumber < 0) {
+    throw new BadRequestError(`Invalid ${name}`, 'VALIDATION_ERROR');
+  }
+  return versionNumber;
+}
+
+/** Threads can be changed by the document's editors */
+async function requireThreadEditor(threadId: string, userId: string) {
+  const thread = await graphThreads.getThreadById(threadId);
+  if (!thread) {
+    throw new NotFoundError('Thread not found', 'NOT_FOUND');
+  }
+  await documentsService.get(thread.documentId, userId, 'editor');
+  return thread;
+}
+
+/**
+ * Queue analysis for a freshly imported document. Import succeeds even
+ * when analysis can't start, so failures are reported, not thrown.
+ */
+async function queueImportAnalysis(
+  documentId: string,
+  userId: string,
+  content: string,
+): Promise<{ jobId: string } | { skipped: string }> {
+  if (content.trim().length < 50) {
+    return { skipped: 'Document is too short to analyze' };
+  }
+
+  const wordCount = content.split(/\s+/).filter((w) => w.length > 0).length;
+  let operationId: string | null | undefined;
+  try {
+    ({ operationId } = await usageService.checkAndReserveQuota({
+      userId,
+      operationType: 'llm-query-1k-tokens',
+      units: Math.ceil(wordCount / 600),
+    }));
+  } catch (error) {
+    if (error instanceof UsageQuotaExceededError) {
+      return { skipped: 'Monthly usage exhausted' };
+    }
+    throw error;
+  }
+
+  const job = await jobService.create({
+    type: 'document_analysis',
+    targetType: 'document',
+    targetId: documentId,
+    userId,
+    payload: { reanalyze: false, operationId: operationId || undefined },
+  });
+
+  if (!job) {
+    if (operationId) {
+      await usageService.finalizeReservation({
+        operationId,
+        userId,
+        success: false,
+      });
+    }
+    return { skipped: 'Analysis is already in progress' };
+  }
+
+  return { jobId: job.id };
+}
 
 router.get(
   '/documents',
@@ -71,6 +156,21 @@ router.get(
   },
 );
 
+// Documents other users have shared with this one
+router.get(
+  '/documents/shared',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const documents = await collaboratorsService.listSharedWith(req.user.id);
+      res.json({ documents });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 router.get(
   '/documents/:id',
   requireAuth,
@@ -79,8 +179,12 @@ router.get(
       if (!req.user) throw new Error('User not authenticated');
       const userId = req.user.id;
       const id = parseStringParam(req.params.id, 'id');
-      const document = await documentsService.get(id, userId);
-      res.json({ document });
+      const { document, role } = await documentsService.getWithRole(
+        id,
+        userId,
+        'viewer',
+      );
+      res.json({ document, role });
     } catch (error) {
       next(error);
     }
@@ -122,6 +226,66 @@ router.post(
   },
 );
 
+router.post(
+  '/documents/import',
+  requireAuth,
+  importUpload.single('file'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+
+      if (!req.file) {
+        res
+          .status(400)
+          .json({ error: { message: 'No file provided', code: 'NO_FILE' } });
+        return;
+      }
+
+      const mimeType = resolveImportMimeType(
+        req.file.originalname,
+        req.file.mimetype,
+      );
+      if (!mimeType) {
+        res.status(400).json({
+          error: {
+            message:
+              'Unsupported file type. Supported formats: DOCX, PDF, TXT, MD.',
+            code: 'UNSUPPORTED_FILE_TYPE',
+          },
+        });
+        return;
+      }
+
+      const title =
+        typeof req.body.title === 'string' ? req.body.title.trim() : '';
+      const { documentId } = await importDocumentFile({
+        userId,
+        filename: req.file.originalname,
+        mimeType,
+        buffer: req.file.buffer,
+        title,
+      });
+      const document = await documentsService.get(documentId, userId);
+
+      await sseService.broadcastToUser(userId, 'document-updated', {
+        documentId: document.id,
+        currentVersion: document.currentVersion,
+        updatedAt: document.createdAt,
+      });
+
+      const analysis =
+        req.body.analyze === 'true'
+          ? await queueImportAnalysis(document.id, userId, document.content)
+          : null;
+
+      res.status(201).json({ document, analysis });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 router.post(
   '/documents/:id/copy',
   requireAuth,
@@ -209,7 +373,7 @@ router.get(
       const id = parseStringParam(req.params.id, 'id');
       const limit = parseInt(req.query.limit as string, 10) || 50;
 
-      await documentsService.get(id, userId);
+      await documentsService.get(id, userId, 'viewer');
       const versions = await versioningService.getVersions(id, limit);
       res.json({ versions });
     } catch (error) {
@@ -231,7 +395,7 @@ router.get(
         'versionNumber',
       );
 
-      await documentsService.get(id, userId);
+      await documentsService.get(id, userId, 'viewer');
       const version = await versioningService.getVersion(
         id,
         parseInt(versionNumber, 10),
@@ -251,6 +415,239 @@ router.get(
   },
 );
 
+router.get(
+  '/documents/:id/versions/:a/diff/:b',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+      const a = parseVersionNumber(req.params.a, 'a');
+      const b = parseVersionNumber(req.params.b, 'b');
+
+      await documentsService.get(id, userId, 'viewer');
+      const [from, to] = await Promise.all([
+        versioningService.getVersion(id, a),
+        versioningService.getVersion(id, b),
+      ]);
+
+      if (!from || !to) {
+        res
+          .status(404)
+          .json({ error: { message: 'Version not found', code: 'NOT_FOUND' } });
+        return;
+      }
+
+      res.json({
+        from: { versionNumber: a, createdAt: from.createdAt },
+        to: { versionNumber: b, createdAt: to.createdAt },
+        diff: computeStructuredDiff(from.content, to.content),
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/documents/:id/versions/:versionNumber/restore',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+      const versionNumber = parseVersionNumber(
+        req.params.versionNumber,
+        'versionNumber',
+      );
+
+      const result = await documentsService.restoreVersion(
+        id,
+        userId,
+        versionNumber,
+      );
+      // Restored text no longer matches the last analysis
+      const staleness = await stalenessService.detectStaleness(
+        id,
+        result.document.content,
+      );
+
+      await sseService.broadcastToUser(userId, 'document-updated', {
+        documentId: id,
+        currentVersion: result.currentVersion,
+        updatedAt: result.document.updatedAt,
+      });
+
+      res.json({ ...result, staleness });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/documents/:id/versions/:versionNumber/fork',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+      const versionNumber = parseVersionNumber(
+        req.params.versionNumber,
+        'versionNumber',
+      );
+      const { title } = req.body;
+
+      const document = await documentsService.copy(
+        id,
+        userId,
+        title || 'Untitled draft',
+        { fromVersion: versionNumber },
+      );
+
+      await sseService.broadcastToUser(userId, 'document-updated', {
+        documentId: document.id,
+        currentVersion: document.currentVersion,
+        updatedAt: document.createdAt,
+      });
+
+      res.status(201).json({ document });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.get(
+  '/documents/:id/mainline-diff',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+      const against =
+        req.query.against === 'fork-point' ? 'fork-point' : 'mainline';
+
+      const result = await documentsService.diffAgainstMainline(
+        id,
+        userId,
+        against,
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.get(
+  '/documents/:id/checkpoints',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+
+      await documentsService.get(id, userId, 'viewer');
+      const checkpoints = await versioningService.getCheckpoints(id);
+      res.json({ checkpoints });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/documents/:id/checkpoints',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+      const name =
+        typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+      if (!name || name.length > 100) {
+        res.status(400).json({
+          error: {
+            message: 'Checkpoint name must be 1-100 characters',
+            code: 'VALIDATION_ERROR',
+          },
+        });
+        return;
+      }
+
+      const document = await documentsService.get(id, userId, 'editor');
+
+      // Without a version number, checkpoint the current state
+      const versionNumber =
+        req.body.versionNumber !== undefined
+          ? parseVersionNumber(String(req.body.versionNumber), 'versionNumber')
+          : await versioningService.createVersion(
+              id,
+              document.yjsState ?? '',
+              document.content,
+            );
+
+      const checkpoint = await versioningService.createCheckpoint(
+        id,
+        versionNumber,
+        name,
+      );
+
+      if (!checkpoint) {
+        res
+          .status(404)
+          .json({ error: { message: 'Version not found', code: 'NOT_FOUND' } });
+        return;
+      }
+
+      res.status(201).json({ checkpoint });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.delete(
+  '/documents/:id/checkpoints/:versionNumber',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+      const versionNumber = parseVersionNumber(
+        req.params.versionNumber,
+        'versionNumber',
+      );
+
+      await documentsService.get(id, userId, 'editor');
+      const removed = await versioningService.removeCheckpoint(
+        id,
+        versionNumber,
+      );
+
+      if (!removed) {
+        res.status(404).json({
+          error: { message: 'Checkpoint not found', code: 'NOT_FOUND' },
+        });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 router.patch(
   '/documents/:id/modes',
   requireAuth,
@@ -375,7 +772,7 @@ router.get(
       if (!req.user) throw new Error('User not authenticated');
       const userId = req.user.id;
       const id = parseStringParam(req.params.id, 'id');
-      await documentsService.get(id, userId);
+      await documentsService.get(id, userId, 'viewer');
       const media = await mediaService.getDocumentMedia(id);
       res.json({ media });
     } catch (error) {
@@ -429,8 +826,12 @@ router.get(
       const userId = req.user.id;
       const id = parseStringParam(req.params.id, 'id');
 
-      const document = await documentsService.get(id, userId);
-      const nodes = await graphStoryNodesRepository.getActiveNodes(id, userId);
+      const document = await documentsService.get(id, userId, 'viewer');
+      // The story graph belongs to the document's owner
+      const nodes = await graphStoryNodesRepository.getActiveNodes(
+        id,
+        document.userId,
+      );
 
       const hasAnalysis = nodes.length > 0;
       const lastAnalyzedVersion = document.lastAnalyzedVersion ?? null;
@@ -539,7 +940,7 @@ router.get(
       const userId = req.user.id;
       const id = parseStringParam(req.params.id, 'id');
 
-      const document = await documentsService.get(id, userId);
+      const document = await documentsService.get(id, userId, 'viewer');
       const result = await stalenessService.detectStaleness(
         id,
         document.content,
@@ -871,8 +1272,32 @@ router.get(
       const userId = req.user.id;
       const id = parseStringParam(req.params.id, 'id');
 
+      const document = await documentsService.get(id, userId, 'viewer');
+
+      // ?scope=project merges the graphs of every book in the project
+      if (req.query.scope === 'project') {
+        const scope = await projectsService.getScopeForDocument(
+          document,
+          userId,
+        );
+        const graph = await projectsService.getGraph(scope.documents);
+        res.json({
+          project: { id: scope.project.id, name: scope.project.name },
+          documents: scope.documents.map((d) => ({
+            id: d.id,
+            title: d.title,
+            projectPosition: d.projectPosition,
+          })),
+          ...graph,
+        });
+        return;
+      }
+
       // Fetch active story nodes from FalkorDB
-      const nodes = await graphStoryNodesRepository.getActiveNodes(id, userId);
+      const nodes = await graphStoryNodesRepository.getActiveNodes(
+        id,
+        document.userId,
+      );
 
       // Fetch active connections from FalkorDB
       const connections =
@@ -978,6 +1403,7 @@ router.delete(
       logger.info({ documentId: id }, 'Starting FalkorDB delete');
       await graphStoryNodesRepository.deleteAllForDocument(id, userId);
       logger.info({ documentId: id }, 'FalkorDB delete completed');
+      await projectRegistry.unlinkDocument(id);
 
       // Phase 2: Update PostgreSQL atomically
       await db.transaction(async (tx) => {
@@ -1039,6 +1465,7 @@ router.delete(
         'State after delete - DELETE COMPLETED',
       );
 
+      await storyStateService.invalidate(id);
       await sseService.broadcastToDocument(id, 'node-deleted', {
         documentId: id,
         nodeIds,
@@ -1066,11 +1493,11 @@ router.get(
       const k = parseInt(req.query.k as string, 10) || 10;
       const cutoff = parseFloat(req.query.cutoff as string) || 0.3;
 
-      await documentsService.get(id, userId);
+      const document = await documentsService.get(id, userId, 'viewer');
 
       const similarities = await graphService.getNodeSimilaritiesForDocument(
         id,
-        userId,
+        document.userId,
         k,
         cutoff,
       );
@@ -1091,19 +1518,23 @@ router.get(
       const userId = req.user.id;
       const id = parseStringParam(req.params.id, 'id');
 
-      await documentsService.get(id, userId);
+      const { userId: ownerId } = await documentsService.get(
+        id,
+        userId,
+        'viewer',
+      );
 
       const [causalOrder, threads, pivotalNodes, causalGaps] =
         await Promise.all([
-          computeCausalOrder(id, userId),
-          detectThreads(id, userId),
-          findPivotalNodes(id, userId),
-          findCausalGaps(id, userId),
+          computeCausalOrder(id, ownerId),
+          detectThreads(id, ownerId),
+          findPivotalNodes(id, ownerId),
+          findCausalGaps(id, ownerId),
         ]);
 
       const existingThreads = await graphThreads.getThreadsForDocument(
         id,
-        userId,
+        ownerId,
       );
 
       const existingThreadsWithMembers = await Promise.all(
@@ -1138,11 +1569,11 @@ router.get(
       const userId = req.user.id;
       const id = parseStringParam(req.params.id, 'id');
 
-      await documentsService.get(id, userId);
+      const document = await documentsService.get(id, userId, 'viewer');
 
       const projection = await graphService.getNodeEmbeddingsProjection(
         id,
-        userId,
+        document.userId,
       );
 
       res.json({ projection });
@@ -1165,13 +1596,13 @@ router.get(
       const id = parseStringParam(req.params.id, 'id');
       const entityId = parseStringParam(req.params.entityId, 'entityId');
 
-      await documentsService.get(id, userId);
+      const document = await documentsService.get(id, userId, 'viewer');
 
       const result =
         await entityDocumentSimilarityService.computeEntitySimilarityForDocument(
           id,
           entityId,
-          userId,
+          document.userId,
         );
 
       res.json(result);
@@ -1181,6 +1612,40 @@ router.get(
   },
 );
 
+/** A character's arcs with their states and transitions */
+async function loadCharacterArcs(characterId: string) {
+  const [arcs, transitions] = await Promise.all([
+    graphService.getCharacterArcs(characterId),
+    graphService.getStateTransitions(characterId),
+  ]);
+
+  // For each arc, get its states via INCLUDES_STATE
+  return Promise.all(
+    arcs.map(async (arc) => {
+      const arcStates = await graphService.getArcStates(arc.id);
+      return {
+        id: arc.id,
+        name: arc.name,
+        arcType: arc.arcType,
+        states: arcStates.map((s) => ({
+          id: s.id,
+          name: s.name,
+          description: '', // States don't have description, use name
+          documentOrder: s.documentOrder,
+        })),
+        transitions: transitions
+          .filter((t) => arcStates.some((s) => s.id === t.fromStateId))
+          .map((t) => ({
+            fromStateId: t.fromStateId,
+            toStateId: t.toStateId,
+            gapDetected: t.gapDetected,
+            triggerEventId: t.triggerEventId,
+          })),
+      };
+    }),
+  );
+}
+
 // Character arc endpoint
 router.get(
   '/documents/:id/character-arc/:characterId',
@@ -1196,38 +1661,43 @@ router.get(
       );
 
       // Verify user has access to document
-      await documentsService.get(id, userId);
+      const document = await documentsService.get(id, userId, 'viewer');
 
-      const [arcs, transitions] = await Promise.all([
-        graphService.getCharacterArcs(characterId),
-        graphService.getStateTransitions(characterId),
-      ]);
+      // ?scope=project follows the character through every book it is
+      // linked to in the project registry
+      if (req.query.scope === 'project') {
+        const scope = await projectsService.getScopeForDocument(
+          document,
+          userId,
+        );
+        const linked = await projectRegistry.getLinkedNodes(characterId);
+        const nodeIdsByDocument = new Map(
+          (linked?.nodes ?? [{ nodeId: characterId, documentId: id }]).map(
+            (n) => [n.documentId, n.nodeId],
+          ),
+        );
 
-      // For each arc, get its states via INCLUDES_STATE
-      const arcsWithStates = await Promise.all(
-        arcs.map(async (arc) => {
-          const arcStates = await graphService.getArcStates(arc.id);
-          return {
-            id: arc.id,
-            name: arc.name,
-            arcType: arc.arcType,
-            states: arcStates.map((s) => ({
-              id: s.id,
-              name: s.name,
-              description: '', // States don't have description, use name
-              documentOrder: s.documentOrder,
-            })),
-            transitions: transitions
-              .filter((t) => arcStates.some((s) => s.id === t.fromStateId))
-              .map((t) => ({
-                fromStateId: t.fromStateId,
-                toStateId: t.toStateId,
-                gapDetected: t.gapDetected,
-                triggerEventId: t.triggerEventId,
-              })),
-          };
-        }),
-      );
+        const books = [];
+        for (const projectDocument of scope.documents) {
+          const nodeId = nodeIdsByDocument.get(projectDocument.id);
+          if (!nodeId) continue;
+          books.push({
+            documentId: projectDocument.id,
+            title: projectDocument.title,
+            characterId: nodeId,
+            arcs: await loadCharacterArcs(nodeId),
+          });
+        }
+
+        res.json({
+          characterId,
+          projectEntityId: linked?.projectEntityId ?? null,
+          documents: books,
+        });
+        return;
+      }
+
+      const arcsWithStates = await loadCharacterArcs(characterId);
 
       res.json({ characterId, arcs: arcsWithStates });
     } catch (error) {
@@ -1246,7 +1716,7 @@ router.get(
       const userId = req.user.id;
       const id = parseStringParam(req.params.id, 'id');
 
-      await documentsService.get(id, userId);
+      await documentsService.get(id, userId, 'viewer');
 
       const entityIds = await graphService.getEntityIdsWithArcs(id);
       res.json({ entityIds });
@@ -1268,13 +1738,17 @@ router.post(
       const id = parseStringParam(req.params.id, 'id');
       const { name, isPrimary } = req.body;
 
-      await documentsService.get(id, userId);
+      const document = await documentsService.get(id, userId, 'editor');
 
-      const threadId = await graphService.createNarrativeThread(id, userId, {
-        name: name || 'Untitled Thread',
-        isPrimary: isPrimary ?? false,
-        eventNames: [],
-      });
+      const threadId = await graphService.createNarrativeThread(
+        id,
+        document.userId,
+        {
+          name: name || 'Untitled Thread',
+          isPrimary: isPrimary ?? false,
+          eventNames: [],
+        },
+      );
 
       res.status(201).json({ threadId });
     } catch (error) {
@@ -1288,16 +1762,11 @@ router.patch(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      if (!req.user) throw new Error('User not authenticated');
       const id = parseStringParam(req.params.id, 'id');
       const { name } = req.body;
 
-      const thread = await graphThreads.getThreadById(id);
-      if (!thread) {
-        res
-          .status(404)
-          .json({ error: { message: 'Thread not found', code: 'NOT_FOUND' } });
-        return;
-      }
+      await requireThreadEditor(id, req.user.id);
 
       if (name) await graphThreads.renameThread(id, name);
       res.json({ success: true });
@@ -1312,17 +1781,13 @@ router.delete(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      if (!req.user) throw new Error('User not authenticated');
       const id = parseStringParam(req.params.id, 'id');
 
-      const thread = await graphThreads.getThreadById(id);
-      if (!thread) {
-        res
-          .status(404)
-          .json({ error: { message: 'Thread not found', code: 'NOT_FOUND' } });
-        return;
-      }
+      const thread = await requireThreadEditor(id, req.user.id);
 
       await graphThreads.deleteThread(id);
+      await storySummaryService.removeTargets(thread.documentId, [id]);
       res.json({ success: true });
     } catch (error) {
       next(error);
@@ -1335,9 +1800,11 @@ router.post(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      if (!req.user) throw new Error('User not authenticated');
       const id = parseStringParam(req.params.id, 'id');
       const { nodeId, order } = req.body;
 
+      await requireThreadEditor(id, req.user.id);
       await graphThreads.addEventToThread(nodeId, id, order ?? 0);
       res.status(201).json({ success: true });
     } catch (error) {
@@ -1351,9 +1818,11 @@ router.delete(
   requireAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      if (!req.user) throw new Error('User not authenticated');
       const id = parseStringParam(req.params.id, 'id');
       const nodeId = parseStringParam(req.params.nodeId, 'nodeId');
 
+      await requireThreadEditor(id, req.user.id);
       await graphThreads.removeEventFromThread(nodeId, id);
       res.json({ success: true });
     } catch (error) {
@@ -1371,8 +1840,8 @@ router.post(
       const userId = req.user.id;
       const id = parseStringParam(req.params.id, 'id');
 
-      await documentsService.get(id, userId);
-      const threads = await detectThreads(id, userId);
+      const document = await documentsService.get(id, userId, 'viewer');
+      const threads = await detectThreads(id, document.userId);
 
       res.json({ threads });
     } catch (error) {
@@ -2,11 +2,28 @@ import timeout from 'connect-timeout';
 import type { NextFunction, Request, Response } from 'express';
 import { Router } from 'express';
 import { z } from 'zod';
+import { jobService } from '../jobs';
+import type { EpubExportProgress } from '../jobs/types';
 import { requireAuth } from '../middleware/auth';
+import { activityService } from '../services/activity.service';
+import { documentEditorContent } from '../services/documentImport/yjsState';
 import { documentsService } from '../services/documents';
 import { generateDocx } from '../services/export/docx';
 import { generatePdf } from '../services/export/pdf';
+import { loadStoryAppendix } from '../services/export/storyAppendix';
+import {
+  renderStoryBibleHtml,
+  renderStoryBibleMarkdown,
+  STORY_BIBLE_STYLES,
+} from '../services/export/storyBible';
+import { loadStoryBible } from '../services/export/storyBibleData';
+import {
+  generateTextExport,
+  type TextExportFormat,
+} from '../services/export/text';
+import type { ExportResult } from '../services/export/types';
 import { puppeteerPool } from '../services/puppeteerPool';
+import { storageProvider } from '../services/storage';
 import { logger } from '../utils/logger';
 import { parseStringParam } from '../utils/validation';
 
@@ -29,6 +46,111 @@ const ExportRequestSchema = z.object({
   orientation: z.enum(['portrait', 'landscape']).default('portrait'),
 });
 
+const TextExportRequestSchema = z.object({
+  filename: z.string().min(1).max(255),
+  includeAppendix: z.boolean().default(false),
+});
+
+const StoryBibleRequestSchema = z.object({
+  filename: z.string().min(1).max(255),
+  fileType: z.enum(['pdf', 'docx', 'md']),
+  format: z.enum(['a4', 'letter']).default('a4'),
+  orientation: z.enum(['portrait', 'landscape']).default('portrait'),
+});
+
+const EpubExportRequestSchema = z.object({
+  filename: z.string().min(1).max(255),
+  author: z.string().max(255).optional(),
+});
+
+function sanitizeFilename(filename: string): string {
+  return filename.replace(/[^a-zA-Z0-9-_]/g, '_').substring(0, 100);
+}
+
+function textExportHandler(format: TextExportFormat) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = TextExportRequestSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        const firstError = bodyResult.error.issues[0];
+        res.status(400).json({
+          error: {
+            message: firstError?.message || 'Invalid request body',
+            code: 'INVALID_INPUT',
+          },
+        });
+        return;
+      }
+
+      const { filename, includeAppendix } = bodyResult.data;
+
+      const document = await documentsService.get(id, userId, 'viewer');
+      if (!document) {
+        res.status(404).json({
+          error: { message: 'Document not found', code: 'NOT_FOUND' },
+        });
+        return;
+      }
+
+      const sanitizedFilename = sanitizeFilename(filename);
+
+      logger.info(
+        { documentId: id, userId, filename: sanitizedFilename, format },
+        'Processing text export',
+      );
+
+      const activity = await activityService.create({
+        userId,
+        activityType: format === 'md' ? 'md_export' : 'txt_export',
+        targetType: 'document',
+        targetId: id,
+        title: `Exporting: ${sanitizedFilename}.${format}`,
+        viewedAt: new Date(),
+      });
+
+      try {
+        const appendix = includeAppendix
+          ? await loadStoryAppendix(id, document.userId)
+          : null;
+        const result = generateTextExport(
+          {
+            contentJson: documentEditorContent(document),
+            fallbackText: document.content,
+            appendix,
+          },
+          format,
+        );
+
+        await activityService.updateStatus(activity.id, 'completed');
+
+        res.setHeader('Content-Type', result.mimeType);
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="${sanitizedFilename}.${result.extension}"`,
+        );
+        res.send(result.buffer);
+
+        logger.info(
+          { documentId: id, size: result.buffer.length, format },
+          'Text export completed',
+        );
+      } catch (error) {
+        await activityService.updateStatus(activity.id, 'failed', {
+          errorMessage:
+            error instanceof Error ? error.message : 'Export failed',
+        });
+        throw error;
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
 router.post(
   '/documents/:id/export/pdf/download',
   requireAuth,
@@ -52,7 +174,7 @@ router.post(
 
       const { html, styles, filename, format, orientation } = bodyResult.data;
 
-      const document = await documentsService.get(id, userId);
+      const document = await documentsService.get(id, userId, 'viewer');
       if (!document) {
         res.status(404).json({
           error: { message: 'Document not found', code: 'NOT_FOUND' },
@@ -128,7 +250,7 @@ router.post(
 
       const { html, filename } = bodyResult.data;
 
-      const document = await documentsService.get(id, userId);
+      const document = await documentsService.get(id, userId, 'viewer');
       if (!document) {
         res.status(404).json({
           error: { message: 'Document not found', code: 'NOT_FOUND' },
@@ -171,4 +293,210 @@ router.post(
   },
 );
 
+router.post(
+  '/documents/:id/export/txt/download',
+  requireAuth,
+  textExportHandler('txt'),
+);
+
+router.post(
+  '/documents/:id/export/md/download',
+  requireAuth,
+  textExportHandler('md'),
+);
+
+router.post(
+  '/documents/:id/export/story-bible',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = StoryBibleRequestSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        const firstError = bodyResult.error.issues[0];
+        res.status(400).json({
+          error: {
+            message: firstError?.message || 'Invalid request body',
+            code: 'INVALID_INPUT',
+          },
+        });
+        return;
+      }
+
+      const { filename, fileType, format, orientation } = bodyResult.data;
+      const document = await documentsService.get(id, userId, 'viewer');
+      const sanitizedFilename = sanitizeFilename(filename);
+
+      logger.info(
+        { documentId: id, userId, filename: sanitizedFilename, fileType },
+        'Processing story bible export',
+      );
+
+      const activity = await activityService.create({
+        userId,
+        activityType: 'story_bible_export',
+        targetType: 'document',
+        targetId: id,
+        title: `Exporting: ${sanitizedFilename}.${fileType}`,
+        viewedAt: new Date(),
+      });
+
+      try {
+        const bible = await loadStoryBible(id, document.userId, document.title);
+
+        let result: ExportResult;
+        if (fileType === 'md') {
+          result = {
+            buffer: Buffer.from(renderStoryBibleMarkdown(bible), 'utf-8'),
+            mimeType: 'text/markdown; charset=utf-8',
+            extension: 'md',
+          };
+        } else if (fileType === 'docx') {
+          result = await generateDocx(renderStoryBibleHtml(bible));
+        } else {
+          const context = await puppeteerPool.acquire();
+          try {
+            const page = await context.newPage();
+            result = await generatePdf(
+              page,
+              renderStoryBibleHtml(bible),
+              STORY_BIBLE_STYLES,
+              { format, orientation },
+            );
+            await page.close();
+          } finally {
+            await puppeteerPool.release(context);
+          }
+        }
+
+        await activityService.updateStatus(activity.id, 'completed');
+
+        res.setHeader('Content-Type', result.mimeType);
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="${sanitizedFilename}.${result.extension}"`,
+        );
+        res.send(result.buffer);
+
+        logger.info(
+          {
+            documentId: id,
+            size: result.buffer.length,
+            entries: bible.entries.length,
+            fileType,
+          },
+          'Story bible export completed',
+        );
+      } catch (error) {
+        await activityService.updateStatus(activity.id, 'failed', {
+          errorMessage:
+            error instanceof Error ? error.message : 'Export failed',
+        });
+        throw error;
+      }
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/documents/:id/export/epub',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = EpubExportRequestSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        const firstError = bodyResult.error.issues[0];
+        res.status(400).json({
+          error: {
+            message: firstError?.message || 'Invalid request body',
+            code: 'INVALID_INPUT',
+          },
+        });
+        return;
+      }
+
+      const { filename, author } = bodyResult.data;
+      const document = await documentsService.get(id, userId, 'viewer');
+
+      const job = await jobService.create({
+        type: 'epub_export',
+        targetType: 'document',
+        targetId: id,
+        userId,
+        payload: {
+          documentTitle: document.title,
+          filename: sanitizeFilename(filename),
+          author: author ?? null,
+        },
+      });
+
+      if (!job) {
+        res.status(409).json({
+          error: {
+            code: 'OPERATION_IN_PROGRESS',
+            message: 'An EPUB export is already running for this document',
+          },
+        });
+        return;
+      }
+
+      res.status(202).json({ jobId: job.id, message: 'Export queued' });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.get(
+  '/documents/:id/export/epub/:jobId/download',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+      const jobId = parseStringParam(req.params.jobId, 'jobId');
+
+      const job = await jobService.get(jobId);
+      const storageKey = (job?.progress as EpubExportProgress | null)
+        ?.storageKey;
+      if (
+        !job ||
+        job.type !== 'epub_export' ||
+        job.targetId !== id ||
+        job.userId !== userId ||
+        job.status !== 'completed' ||
+        !storageKey
+      ) {
+        res.status(404).json({
+          error: { message: 'Export not found', code: 'NOT_FOUND' },
+        });
+        return;
+      }
+
+      const payload = job.payload as { filename?: string } | null;
+      const filename = sanitizeFilename(payload?.filename || 'export');
+      const buffer = await storageProvider.downloadToBuffer(storageKey);
+
+      res.setHeader('Content-Type', 'application/epub+zip');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}.epub"`,
+      );
+      res.send(buffer);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 export { router as exportRouter };
@@ -0,0 +1,96 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { documentsService } from '../services/documents';
+import { lintService } from '../services/lint';
+import { UsageQuotaExceededError, usageService } from '../services/usage';
+import { logger } from '../utils/logger';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+// A few changed segments with their entities' facts, plus warnings
+const LINT_QUOTA_UNITS = 2;
+
+const LintBodySchema = z
+  .object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+  })
+  .refine((body) => body.end >= body.start, {
+    message: 'end must not be before start',
+  });
+
+/**
+ * POST /api/documents/:id/lint
+ * Check a changed range of the saved text against established facets and
+ * possessions. Returns warnings with absolute offsets.
+ */
+router.post(
+  '/documents/:id/lint',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = LintBodySchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        res.status(400).json({
+          error: {
+            message: bodyResult.error.issues[0]?.message || 'Invalid input',
+            code: 'INVALID_INPUT',
+          },
+        });
+        return;
+      }
+
+      const document = await documentsService.get(id, userId, 'editor');
+
+      const { operationId } = await usageService.checkAndReserveQuota({
+        userId,
+        operationType: 'llm-query-1k-tokens',
+        units: LINT_QUOTA_UNITS,
+      });
+
+      let checked = false;
+      try {
+        const result = await lintService.lint(
+          document,
+          userId,
+          bodyResult.data,
+        );
+        // Nothing is charged when no segment needed the model
+        checked = result.checkedSegmentIds.length > 0;
+        res.json(result);
+      } finally {
+        if (operationId) {
+          await usageService
+            .finalizeReservation({ operationId, userId, success: checked })
+            .catch((error) => {
+              logger.error(
+                { error, documentId: id },
+                'Failed to finalize lint quota',
+              );
+            });
+        }
+      }
+    } catch (error) {
+      if (error instanceof UsageQuotaExceededError) {
+        res.status(403).json({
+          error: {
+            message: `You've used all your monthly usage. Resets on ${error.resetDate.toLocaleDateString()}.`,
+            code: 'QUOTA_EXCEEDED',
+            resetDate: error.resetDate,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  },
+);
+
+export { router as lintRouter };
@@ -1,15 +1,31 @@
-import { and, eq } from 'drizzle-orm';
 import { Router } from 'express';
 import { z } from 'zod';
-import { db } from '../config/database';
 import { requireAuth, requireEmailVerified } from '../middleware/auth';
-import { documents } from '../models/schema';
-import { changeLogService } from '../services/changelog';
+import { authorizationService } from '../services/authorization';
+import {
+  changeLogService,
+  createUserEdge,
+  createUserEntity,
+  createUserFacet,
+  deleteTrackedEdge,
+  deleteTrackedEntity,
+  deleteTrackedFacet,
+  mergeTrackedEntities,
+  splitTrackedEntity,
+  unmergeTrackedEntries,
+  updateTrackedEdge,
+  updateTrackedFacet,
+} from '../services/changelog';
 import { characterSheetService } from '../services/characterSheetService';
+import { documentsService } from '../services/documents';
+import { isChapterHeading } from '../services/export/chapters';
 import { graphService } from '../services/graph/graph.service';
+import { CAUSAL_EDGE_TYPES } from '../services/graph/graph.types';
 import { mentionService } from '../services/mentions';
+import { resolutionConstraintService } from '../services/resolutionConstraints';
 import { segmentService } from '../services/segments';
 import { sseService } from '../services/sse';
+import { storyStateService } from '../services/storyState';
 import { parseStringParam } from '../utils/validation';
 
 const router = Router();
@@ -48,6 +64,92 @@ const updateNodeSchema = z.object({
   aliases: z.array(z.string().max(100)).max(50).optional(),
 });
 
+const createNodeSchema = z.object({
+  type: z.enum([
+    'character',
+    'location',
+    'event',
+    'concept',
+    'object',
+    'other',
+  ]),
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  aliases: z.array(z.string().max(100)).max(50).optional(),
+});
+
+const createEdgeSchema = z.object({
+  toNodeId: z.string().min(1),
+  edgeType: z.enum([
+    'CAUSES',
+    'ENABLES',
+    'PREVENTS',
+    'HAPPENS_BEFORE',
+    'PARTICIPATES_IN',
+    'LOCATED_AT',
+    'PART_OF',
+    'MEMBER_OF',
+    'POSSESSES',
+    'CONNECTED_TO',
+    'OPPOSES',
+    'ABOUT',
+    'RELATED_TO',
+  ]),
+  description: z.string().max(2000).nullable().optional(),
+  strength: z.number().min(0).max(1).optional(),
+});
+
+const updateEdgeSchema = z
+  .object({
+    description: z.string().max(2000).nullable().optional(),
+    strength: z.number().min(0).max(1).nullable().optional(),
+  })
+  .refine(
+    (data) => data.description !== undefined || data.strength !== undefined,
+    { message: 'Nothing to update' },
+  );
+
+const createFacetSchema = z.object({
+  type: z.enum(['name', 'appearance', 'trait', 'state']),
+  content: z.string().min(1).max(2000),
+});
+
+const updateFacetSchema = z.object({
+  content: z.string().min(1).max(2000),
+});
+
+const mergeNodesSchema = z.object({
+  absorbedIds: z.array(z.string().min(1)).min(1).max(50),
+  reason: z.string().max(500).optional(),
+});
+
+// Either reverse a merge batch or split off a partition of mentions/facets
+const splitNodeSchema = z.union([
+  z.object({
+    batchId: z.string().uuid(),
+    reason: z.string().max(500).optional(),
+  }),
+  z
+    .object({
+      name: z.string().min(1).max(200),
+      type: z
+        .enum(['character', 'location', 'event', 'concept', 'object', 'other'])
+        .optional(),
+      description: z.string().max(2000).nullable().optional(),
+      mentionIds: z.array(z.string().min(1)).max(1000).default([]),
+      facetIds: z.array(z.string().min(1)).max(200).default([]),
+      reason: z.string().max(500).optional(),
+    })
+    .refine((data) => data.mentionIds.length + data.facetIds.length > 0, {
+      message: 'At least one mention or facet must be split off',
+    }),
+]);
+
+const nodeConstraintSchema = z.object({
+  otherNodeId: z.string().min(1),
+  kind: z.enum(['must_link', 'cannot_link']),
+});
+
 // Generate character sheet for a node
 router.post(
   '/nodes/:id/character-sheet',
@@ -68,10 +170,7 @@ router.post(
         cursorPosition: validatedData.cursorPosition,
       });
 
-      const node = await graphService.getStoryNodeById(
-        id,
-        req.user?.id as string,
-      );
+      const node = await graphService.getStoryNodeByIdInternal(id);
       if (node) {
         await sseService.broadcastToDocument(
           node.documentId,
@@ -183,14 +282,25 @@ router.patch('/nodes/:id/style', requireAuth, async (req, res, next) => {
     const id = parseStringParam(req.params.id, 'id');
     const validatedData = updateNodeStyleSchema.parse(req.body);
 
-    // Verify ownership and update in FalkorDB
+    const existing = await authorizationService.getAccessibleNode(
+      req.user?.id as string,
+      id,
+      'editor',
+    );
+    if (!existing) {
+      res
+        .status(404)
+        .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
     const updated = await graphService.updateStoryNodeStyle(
       id,
       validatedData.stylePreset,
       validatedData.stylePrompt,
     );
 
-    if (!updated || updated.userId !== (req.user?.id as string)) {
+    if (!updated) {
       res
         .status(404)
         .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
@@ -228,9 +338,10 @@ router.patch('/nodes/:id', requireAuth, async (req, res, next) => {
     const id = parseStringParam(req.params.id, 'id');
     const validatedData = updateNodeSchema.parse(req.body);
 
-    const existing = await graphService.getStoryNodeById(
-      id,
+    const existing = await authorizationService.getAccessibleNode(
       req.user?.id as string,
+      id,
+      'editor',
     );
     if (!existing) {
       res
@@ -254,12 +365,10 @@ router.patch('/nodes/:id', requireAuth, async (req, res, next) => {
       entityName: existing.name,
     });
 
-    const updated = await graphService.getStoryNodeById(
-      id,
-      req.user?.id as string,
-    );
+    const updated = await graphService.getStoryNodeByIdInternal(id);
 
     if (updated) {
+      await storyStateService.invalidate(updated.documentId);
       await sseService.broadcastToDocument(updated.documentId, 'node-updated', {
         documentId: updated.documentId,
         nodeId: updated.id,
@@ -282,6 +391,278 @@ router.patch('/nodes/:id', requireAuth, async (req, res, next) => {
   }
 });
 
+// Create an entity the extractor missed
+router.post('/documents/:id/nodes', requireAuth, async (req, res, next) => {
+  try {
+    const documentId = parseStringParam(req.params.id, 'id');
+    const input = createNodeSchema.parse(req.body);
+    const userId = req.user?.id as string;
+
+    // Nodes belong to the document owner, whoever creates them
+    const doc = await documentsService.get(documentId, userId, 'editor');
+
+    const nodeId = await createUserEntity(documentId, doc.userId, input, {
+      stylePreset: doc.defaultStylePreset,
+      stylePrompt: doc.defaultStylePrompt,
+    });
+
+    const node = await graphService.getStoryNodeByIdInternal(nodeId);
+
+    await storyStateService.invalidate(documentId);
+    await sseService.broadcastToDocument(documentId, 'nodes-updated', {
+      documentId,
+      nodeIds: [nodeId],
+    });
+
+    res.status(201).json({ node });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: {
+          message: 'Invalid request',
+          code: 'VALIDATION_ERROR',
+          details: error.issues,
+        },
+      });
+      return;
+    }
+    next(error);
+  }
+});
+
+// Delete a node and its mentions
+router.delete('/nodes/:id', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+
+    const node = await authorizationService.getAccessibleNode(
+      req.user?.id as string,
+      id,
+      'editor',
+    );
+    if (!node) {
+      res
+        .status(404)
+        .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    await deleteTrackedEntity(id);
+
+    await storyStateService.invalidate(node.documentId);
+    await sseService.broadcastToDocument(node.documentId, 'node-deleted', {
+      documentId: node.documentId,
+      nodeIds: [id],
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Merge other nodes into this one (this node survives)
+router.post('/nodes/:id/merge', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+    const { absorbedIds, reason } = mergeNodesSchema.parse(req.body);
+    const userId = req.user?.id as string;
+
+    const survivor = await authorizationService.getAccessibleNode(
+      userId,
+      id,
+      'editor',
+    );
+    if (!survivor) {
+      res
+        .status(404)
+        .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    const uniqueAbsorbedIds = [...new Set(absorbedIds)];
+    if (uniqueAbsorbedIds.includes(id)) {
+      res.status(400).json({
+        error: {
+          message: 'A node cannot be merged into itself',
+          code: 'INVALID_MERGE',
+        },
+      });
+      return;
+    }
+
+    for (const absorbedId of uniqueAbsorbedIds) {
+      const node = await authorizationService.getAccessibleNode(
+        userId,
+        absorbedId,
+        'editor',
+      );
+      if (!node) {
+        res
+          .status(404)
+          .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+        return;
+      }
+      if (node.documentId !== survivor.documentId) {
+        res.status(400).json({
+          error: {
+            message: 'Nodes must belong to the same document',
+            code: 'INVALID_MERGE',
+          },
+        });
+        return;
+      }
+    }
+
+    const { batchId } = await mergeTrackedEntities(id, uniqueAbsorbedIds, {
+      source: 'user',
+      reason,
+    });
+
+    const updated = await graphService.getStoryNodeByIdInternal(id);
+
+    await storyStateService.invalidate(survivor.documentId);
+    await sseService.broadcastToDocument(survivor.documentId, 'node-deleted', {
+      documentId: survivor.documentId,
+      nodeIds: uniqueAbsorbedIds,
+    });
+    await sseService.broadcastToDocument(survivor.documentId, 'node-updated', {
+      documentId: survivor.documentId,
+      nodeId: id,
+    });
+
+    res.json({ node: updated, absorbedIds: uniqueAbsorbedIds, batchId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: {
+          message: 'Invalid request',
+          code: 'VALIDATION_ERROR',
+          details: error.issues,
+        },
+      });
+      return;
+    }
+    next(error);
+  }
+});
+
+// Split a node: reverse a merge batch, or move a partition into a new node
+router.post('/nodes/:id/split', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+    const validatedData = splitNodeSchema.parse(req.body);
+    const userId = req.user?.id as string;
+
+    const node = await authorizationService.getAccessibleNode(
+      userId,
+      id,
+      'editor',
+    );
+    if (!node) {
+      res
+        .status(404)
+        .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    let batchId: string;
+    let splitNodeIds: string[];
+
+    if ('batchId' in validatedData) {
+      const entries = (
+        await changeLogService.getForBatch(validatedData.batchId)
+      ).filter(
+        (entry) =>
+          entry.targetType === 'entity' &&
+          entry.operation === 'merge' &&
+          (entry.changeData.mergedInto as { id?: string } | undefined)?.id ===
+            id,
+      );
+      if (entries.length === 0) {
+        res.status(404).json({
+          error: {
+            message: 'No merge into this node found for batch',
+            code: 'NOT_FOUND',
+          },
+        });
+        return;
+      }
+
+      for (const entry of entries) {
+        if (await graphService.getStoryNodeByIdInternal(entry.targetId)) {
+          res.status(409).json({
+            error: {
+              message: 'This merge has already been reversed',
+              code: 'ALREADY_SPLIT',
+            },
+          });
+          return;
+        }
+      }
+
+      const result = await unmergeTrackedEntries(id, entries, {
+        source: 'user',
+        reason: validatedData.reason,
+      });
+      batchId = result.batchId;
+      splitNodeIds = result.restoredIds;
+    } else {
+      const [nodeMentions, nodeFacets] = await Promise.all([
+        mentionService.getByNodeId(id),
+        graphService.getFacetsForEntity(id),
+      ]);
+      const mentionIds = new Set(nodeMentions.map((m) => m.id));
+      const facetIds = new Set(nodeFacets.map((f) => f.id));
+      if (
+        !validatedData.mentionIds.every((m) => mentionIds.has(m)) ||
+        !validatedData.facetIds.every((f) => facetIds.has(f))
+      ) {
+        res.status(400).json({
+          error: {
+            message: 'Mentions and facets must belong to this node',
+            code: 'INVALID_SPLIT',
+          },
+        });
+        return;
+      }
+
+      const result = await splitTrackedEntity(id, validatedData, {
+        source: 'user',
+        reason: validatedData.reason,
+      });
+      batchId = result.batchId;
+      splitNodeIds = [result.nodeId];
+    }
+
+    const [updated, ...splitNodes] = await Promise.all(
+      [id, ...splitNodeIds].map((nodeId) =>
+        graphService.getStoryNodeByIdInternal(nodeId),
+      ),
+    );
+
+    await storyStateService.invalidate(node.documentId);
+    await sseService.broadcastToDocument(node.documentId, 'nodes-updated', {
+      documentId: node.documentId,
+      nodeIds: [id, ...splitNodeIds],
+    });
+
+    res.json({ node: updated, splitNodes, batchId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: {
+          message: 'Invalid request',
+          code: 'VALIDATION_ERROR',
+          details: error.issues,
+        },
+      });
+      return;
+    }
+    next(error);
+  }
+});
+
 // Chapter detection helpers
 interface Chapter {
   id: string;
@@ -298,7 +679,7 @@ function detectChaptersFromContent(contentJson: any): Chapter[] {
   if (!contentJson?.content) return chapters;
 
   for (const node of contentJson.content) {
-    if (node.type === 'heading' && node.attrs?.level === 1) {
+    if (isChapterHeading(node)) {
       const title = node.content?.[0]?.text || 'Untitled Chapter';
       chapters.push({
         id: `chapter-${chapters.length + 1}`,
@@ -331,6 +712,107 @@ function findChapterForPosition(
   return chapters[0]; // Before first chapter
 }
 
+// List the must-link / cannot-link constraints involving a node
+router.get('/nodes/:id/constraints', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+    const userId = req.user?.id as string;
+
+    const node = await authorizationService.getAccessibleNode(userId, id);
+    if (!node) {
+      res
+        .status(404)
+        .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    const constraints = await resolutionConstraintService.listForEntity(
+      node.documentId,
+      id,
+    );
+
+    res.json({ constraints });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Declare that a node must always / never be merged with another node
+router.post('/nodes/:id/constraints', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+    const { otherNodeId, kind } = nodeConstraintSchema.parse(req.body);
+    const userId = req.user?.id as string;
+
+    const [node, other] = await Promise.all([
+      authorizationService.getAccessibleNode(userId, id, 'editor'),
+      authorizationService.getAccessibleNode(userId, otherNodeId, 'editor'),
+    ]);
+    if (!node || !other) {
+      res
+        .status(404)
+        .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    const constraint = await resolutionConstraintService.set({
+      documentId: node.documentId,
+      kind,
+      entityIds: [id, otherNodeId],
+      userId,
+    });
+
+    res.status(201).json({ constraint });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: {
+          message: 'Invalid request',
+          code: 'VALIDATION_ERROR',
+          details: error.issues,
+        },
+      });
+      return;
+    }
+    next(error);
+  }
+});
+
+router.delete(
+  '/nodes/:id/constraints/:constraintId',
+  requireAuth,
+  async (req, res, next) => {
+    try {
+      const id = parseStringParam(req.params.id, 'id');
+      const constraintId = parseStringParam(
+        req.params.constraintId,
+        'constraintId',
+      );
+      const userId = req.user?.id as string;
+
+      const node = await authorizationService.getAccessibleNode(
+        userId,
+        id,
+        'editor',
+      );
+      const constraint =
+        await resolutionConstraintService.getById(constraintId);
+      if (!node || !constraint || !constraint.entityIds.includes(id)) {
+        res.status(404).json({
+          error: { message: 'Constraint not found', code: 'NOT_FOUND' },
+        });
+        return;
+      }
+
+      await resolutionConstraintService.delete(constraintId);
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 // Get a single mention by ID
 router.get('/mentions/:id', requireAuth, async (req, res, next) => {
   try {
@@ -344,19 +826,13 @@ router.get('/mentions/:id', requireAuth, async (req, res, next) => {
       return;
     }
 
-    // Verify user owns the document this mention belongs to
-    const [doc] = await db
-      .select({ id: documents.id })
-      .from(documents)
-      .where(
-        and(
-          eq(documents.id, mention.documentId),
-          eq(documents.userId, req.user?.id as string),
-        ),
-      )
-      .limit(1);
-
-    if (!doc) {
+    // Verify user can see the document this mention belongs to
+    if (
+      !(await authorizationService.canAccessDocument(
+        req.user?.id as string,
+        mention.documentId,
+      ))
+    ) {
       res
         .status(404)
         .json({ error: { message: 'Mention not found', code: 'NOT_FOUND' } });
@@ -394,13 +870,19 @@ router.get('/nodes/:id/mentions', requireAuth, async (req, res, next) => {
         ? Number.parseInt(offsetParam, 10)
         : 0;
 
+    const document = await documentsService.get(
+      documentId,
+      req.user?.id as string,
+      'viewer',
+    );
+
     // Get segments for the document
     const segments = await segmentService.getDocumentSegments(documentId);
 
     // Get all event nodes for this document to find context for each mention
     const allNodes = await graphService.getStoryNodesForDocument(
       documentId,
-      req.user?.id as string,
+      document.userId,
     );
     const eventNodes = allNodes.filter((n) => n.type === 'event');
 
@@ -446,14 +928,7 @@ router.get('/nodes/:id/mentions', requireAuth, async (req, res, next) => {
       });
     }
 
-    // Get document for chapter detection
-    const [document] = await db
-      .select()
-      .from(documents)
-      .where(eq(documents.id, documentId))
-      .limit(1);
-
-    const chapters = document?.contentJson
+    const chapters = document.contentJson
       ? detectChaptersFromContent(document.contentJson)
       : [];
 
@@ -542,6 +1017,21 @@ router.patch(
         .object({ isKeyPassage: z.boolean() })
         .parse(req.body);
 
+      const mention = await mentionService.getMentionById(mentionId);
+      if (
+        !mention ||
+        !(await authorizationService.canAccessDocument(
+          req.user?.id as string,
+          mention.documentId,
+          'editor',
+        ))
+      ) {
+        res
+          .status(404)
+          .json({ error: { message: 'Mention not found', code: 'NOT_FOUND' } });
+        return;
+      }
+
       const { documentId, nodeId } = await mentionService.updateKeyPassage(
         mentionId,
         isKeyPassage,
@@ -580,6 +1070,7 @@ router.patch(
 router.get('/documents/:id/mentions', requireAuth, async (req, res, next) => {
   try {
     const id = parseStringParam(req.params.id, 'id');
+    await documentsService.get(id, req.user?.id as string, 'viewer');
 
     const mentions =
       await mentionService.getByDocumentIdWithAbsolutePositions(id);
@@ -610,9 +1101,9 @@ router.get('/nodes/:id/facets', requireAuth, async (req, res, next) => {
     const id = parseStringParam(req.params.id, 'id');
 
     // Verify node exists and user has access
-    const node = await graphService.getStoryNodeById(
-      id,
+    const node = await authorizationService.getAccessibleNode(
       req.user?.id as string,
+      id,
     );
     if (!node) {
       res
@@ -629,15 +1120,318 @@ router.get('/nodes/:id/facets', requireAuth, async (req, res, next) => {
   }
 });
 
+// Add a facet to a node
+router.post('/nodes/:id/facets', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+    const facet = createFacetSchema.parse(req.body);
+
+    const node = await authorizationService.getAccessibleNode(
+      req.user?.id as string,
+      id,
+      'editor',
+    );
+    if (!node) {
+      res
+        .status(404)
+        .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    const facetId = await createUserFacet(id, facet, {
+      entityName: node.name,
+    });
+
+    await storyStateService.invalidate(node.documentId);
+    await sseService.broadcastToDocument(node.documentId, 'node-updated', {
+      documentId: node.documentId,
+      nodeId: id,
+      facetId,
+    });
+
+    res.status(201).json({ facet: await graphService.getFacetById(facetId) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: {
+          message: 'Invalid request',
+          code: 'VALIDATION_ERROR',
+          details: error.issues,
+        },
+      });
+      return;
+    }
+    next(error);
+  }
+});
+
+// Change a facet's content
+router.patch('/facets/:id', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+    const { content } = updateFacetSchema.parse(req.body);
+
+    const facet = await graphService.getFacetById(id);
+    const node = facet
+      ? await authorizationService.getAccessibleNode(
+          req.user?.id as string,
+          facet.entityId,
+          'editor',
+        )
+      : null;
+    if (!facet || !node) {
+      res
+        .status(404)
+        .json({ error: { message: 'Facet not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    await updateTrackedFacet(facet, content, { entityName: node.name });
+
+    await storyStateService.invalidate(node.documentId);
+    await sseService.broadcastToDocument(node.documentId, 'node-updated', {
+      documentId: node.documentId,
+      nodeId: node.id,
+      facetId: id,
+    });
+
+    res.json({ facet: await graphService.getFacetById(id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: {
+          message: 'Invalid request',
+          code: 'VALIDATION_ERROR',
+          details: error.issues,
+        },
+      });
+      return;
+    }
+    next(error);
+  }
+});
+
+router.delete('/facets/:id', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+
+    const facet = await graphService.getFacetById(id);
+    const node = facet
+      ? await authorizationService.getAccessibleNode(
+          req.user?.id as string,
+          facet.entityId,
+          'editor',
+        )
+      : null;
+    if (!facet || !node) {
+      res
+        .status(404)
+        .json({ error: { message: 'Facet not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    await deleteTrackedFacet(facet, { entityName: node.name });
+
+    await storyStateService.invalidate(node.documentId);
+    await sseService.broadcastToDocument(node.documentId, 'node-updated', {
+      documentId: node.documentId,
+      nodeId: node.id,
+      facetId: id,
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a relationship from this node to another
+router.post('/nodes/:id/edges', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+    const { toNodeId, edgeType, description, strength } =
+      createEdgeSchema.parse(req.body);
+    const userId = req.user?.id as string;
+
+    const [fromNode, toNode] = await Promise.all([
+      authorizationService.getAccessibleNode(userId, id, 'editor'),
+      authorizationService.getAccessibleNode(userId, toNodeId, 'editor'),
+    ]);
+    if (!fromNode || !toNode) {
+      res
+        .status(404)
+        .json({ error: { message: 'Node not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    if (id === toNodeId || fromNode.documentId !== toNode.documentId) {
+      res.status(400).json({
+        error: {
+          message: 'Edges must connect two different nodes in one document',
+          code: 'INVALID_EDGE',
+        },
+      });
+      return;
+    }
+
+    if (
+      CAUSAL_EDGE_TYPES.includes(edgeType) &&
+      (await graphService.wouldCreateCycle(id, toNodeId))
+    ) {
+      res.status(400).json({
+        error: {
+          message: `A ${edgeType} edge here would create a causal cycle`,
+          code: 'WOULD_CREATE_CYCLE',
+        },
+      });
+      return;
+    }
+
+    const edgeId = await createUserEdge(
+      id,
+      toNodeId,
+      edgeType,
+      description ?? null,
+      { strength },
+      { fromName: fromNode.name, toName: toNode.name },
+    );
+
+    await storyStateService.invalidate(fromNode.documentId);
+    await sseService.broadcastToDocument(fromNode.documentId, 'nodes-updated', {
+      documentId: fromNode.documentId,
+      nodeIds: [id, toNodeId],
+    });
+
+    res
+      .status(201)
+      .json({ edge: await graphService.getStoryConnectionById(edgeId) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: {
+          message: 'Invalid request',
+          code: 'VALIDATION_ERROR',
+          details: error.issues,
+        },
+      });
+      return;
+    }
+    next(error);
+  }
+});
+
+// Change a relationship's description or strength
+router.patch('/edges/:id', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+    const updates = updateEdgeSchema.parse(req.body);
+    const userId = req.user?.id as string;
+
+    const edge = await graphService.getStoryConnectionById(id);
+    const [fromNode, toNode] = edge
+      ? await Promise.all([
+          authorizationService.getAccessibleNode(
+            userId,
+            edge.fromNodeId,
+            'editor',
+          ),
+          authorizationService.getAccessibleNode(
+            userId,
+            edge.toNodeId,
+            'editor',
+          ),
+        ])
+      : [null, null];
+    if (!edge || !fromNode || !toNode) {
+      res
+        .status(404)
+        .json({ error: { message: 'Edge not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    await updateTrackedEdge(edge, updates, {
+      fromName: fromNode.name,
+      toName: toNode.name,
+    });
+
+    await storyStateService.invalidate(fromNode.documentId);
+    await sseService.broadcastToDocument(fromNode.documentId, 'nodes-updated', {
+      documentId: fromNode.documentId,
+      nodeIds: [edge.fromNodeId, edge.toNodeId],
+    });
+
+    res.json({ edge: await graphService.getStoryConnectionById(id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: {
+          message: 'Invalid request',
+          code: 'VALIDATION_ERROR',
+          details: error.issues,
+        },
+      });
+      return;
+    }
+    next(error);
+  }
+});
+
+router.delete('/edges/:id', requireAuth, async (req, res, next) => {
+  try {
+    const id = parseStringParam(req.params.id, 'id');
+    const userId = req.user?.id as string;
+
+    const edge = await graphService.getStoryConnectionById(id);
+    const [fromNode, toNode] = edge
+      ? await Promise.all([
+          authorizationService.getAccessibleNode(
+            userId,
+            edge.fromNodeId,
+            'editor',
+          ),
+          authorizationService.getAccessibleNode(
+            userId,
+            edge.toNodeId,
+            'editor',
+          ),
+        ])
+      : [null, null];
+    if (!edge || !fromNode || !toNode) {
+      res
+        .status(404)
+        .json({ error: { message: 'Edge not found', code: 'NOT_FOUND' } });
+      return;
+    }
+
+    await deleteTrackedEdge(edge, {
+      fromName: fromNode.name,
+      toName: toNode.name,
+    });
+
+    await storyStateService.invalidate(fromNode.documentId);
+    await sseService.broadcastToDocument(fromNode.documentId, 'nodes-updated', {
+      documentId: fromNode.documentId,
+      nodeIds: [edge.fromNodeId, edge.toNodeId],
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get entity graph data for visualization
 router.get('/nodes/:id/graph', requireAuth, async (req, res, next) => {
   try {
     const id = parseStringParam(req.params.id, 'id');
 
-    const graphData = await graphService.getEntityGraph(
-      id,
+    const node = await authorizationService.getAccessibleNode(
       req.user?.id as string,
+      id,
     );
+    const graphData = node
+      ? await graphService.getEntityGraph(id, node.userId)
+      : null;
 
     if (!graphData) {
       res
@@ -658,9 +1452,9 @@ router.get('/nodes/:id/arc', requireAuth, async (req, res, next) => {
     const id = parseStringParam(req.params.id, 'id');
 
     // Verify node exists and is a character
-    const node = await graphService.getStoryNodeById(
-      id,
+    const node = await authorizationService.getAccessibleNode(
       req.user?.id as string,
+      id,
     );
     if (!node) {
       res
@@ -719,9 +1513,9 @@ router.get('/nodes/:id/changelog', requireAuth, async (req, res, next) => {
     const offset = parseInt(req.query.offset as string, 10) || 0;
 
     // Verify node exists and user has access
-    const node = await graphService.getStoryNodeById(
-      id,
+    const node = await authorizationService.getAccessibleNode(
       req.user?.id as string,
+      id,
     );
     if (!node) {
       res
@@ -0,0 +1,267 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { projectRegistry, projectsService } from '../services/projects';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+const CreateProjectSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().max(5000).nullable().optional(),
+});
+
+const UpdateProjectSchema = CreateProjectSchema.partial().refine(
+  (data) => data.name !== undefined || data.description !== undefined,
+  { message: 'Nothing to update' },
+);
+
+const AddDocumentSchema = z.object({
+  documentId: z.string().uuid(),
+  position: z.number().int().min(1).optional(),
+});
+
+function invalidInput(res: Response, error: z.ZodError) {
+  res.status(400).json({
+    error: {
+      message: error.issues[0]?.message || 'Invalid input',
+      code: 'INVALID_INPUT',
+    },
+  });
+}
+
+/**
+ * GET /api/projects
+ */
+router.get(
+  '/projects',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const projects = await projectsService.list(req.user.id);
+      res.json({ projects });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/projects
+ */
+router.post(
+  '/projects',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+
+      const bodyResult = CreateProjectSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        invalidInput(res, bodyResult.error);
+        return;
+      }
+
+      const project = await projectsService.create(
+        req.user.id,
+        bodyResult.data,
+      );
+      res.status(201).json({ project });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/projects/:id
+ * The project with its documents in order.
+ */
+router.get(
+  '/projects/:id',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const project = await projectsService.get(id, req.user.id);
+      const documents = await projectsService.listDocuments(id);
+
+      res.json({ project, documents });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * PATCH /api/projects/:id
+ */
+router.patch(
+  '/projects/:id',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = UpdateProjectSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        invalidInput(res, bodyResult.error);
+        return;
+      }
+
+      const project = await projectsService.update(
+        id,
+        req.user.id,
+        bodyResult.data,
+      );
+      res.json({ project });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * DELETE /api/projects/:id
+ * Documents are kept; only the grouping and its registry are removed.
+ */
+router.delete(
+  '/projects/:id',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      await projectsService.delete(id, req.user.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/projects/:id/documents
+ * Add a document (or move it to a new position) and link its entities.
+ */
+router.post(
+  '/projects/:id/documents',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = AddDocumentSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        invalidInput(res, bodyResult.error);
+        return;
+      }
+
+      const documents = await projectsService.addDocument(
+        id,
+        req.user.id,
+        bodyResult.data.documentId,
+        bodyResult.data.position,
+      );
+      res.json({ documents });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * DELETE /api/projects/:id/documents/:documentId
+ */
+router.delete(
+  '/projects/:id/documents/:documentId',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+      const documentId = parseStringParam(req.params.documentId, 'documentId');
+
+      await projectsService.removeDocument(id, req.user.id, documentId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/projects/:id/graph
+ * Story graph across all books, recurring entities shown once.
+ */
+router.get(
+  '/projects/:id/graph',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      await projectsService.get(id, req.user.id);
+      const documents = await projectsService.listDocuments(id);
+      const graph = await projectsService.getGraph(documents);
+
+      res.json(graph);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/projects/:id/entities
+ * The project registry: recurring entities and the node linked in each book.
+ */
+router.get(
+  '/projects/:id/entities',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      await projectsService.get(id, req.user.id);
+      const entities = await projectRegistry.listEntities(id);
+
+      res.json({ entities });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/projects/:id/entities/sync
+ * Re-link every book's entities, e.g. after a failed sync.
+ */
+router.post(
+  '/projects/:id/entities/sync',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      await projectsService.get(id, req.user.id);
+      const result = await projectRegistry.syncProject(id);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as projectsRouter };
@@ -0,0 +1,186 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { documentsService } from '../services/documents';
+import { type ReviewItem, reviewQueueService } from '../services/reviewQueue';
+import { sseService } from '../services/sse';
+import { storyStateService } from '../services/storyState';
+import { NotFoundError } from '../utils/errors';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+const listReviewQueueSchema = z.object({
+  itemType: z
+    .enum([
+      'contradiction',
+      'merge_suggestion',
+      'gap_detected',
+      'low_confidence',
+    ])
+    .optional(),
+  status: z
+    .enum(['pending', 'resolved', 'dismissed', 'all'])
+    .default('pending'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const acceptMergeSchema = z.object({
+  survivorId: z.string().min(1).optional(),
+  alwaysMerge: z.boolean().optional(),
+});
+
+const dismissSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  res.status(400).json({
+    error: {
+      message: 'Invalid request',
+      code: 'VALIDATION_ERROR',
+      details: error.issues,
+    },
+  });
+}
+
+/**
+ * Load a review item and verify the user can edit its document.
+ */
+async function getEditableReviewItem(
+  req: Request,
+): Promise<{ item: ReviewItem; userId: string }> {
+  if (!req.user) throw new Error('User not authenticated');
+  const userId = req.user.id;
+  const itemId = parseStringParam(req.params.itemId, 'itemId');
+
+  const item = await reviewQueueService.getById(itemId);
+  if (!item) throw new NotFoundError('Review item not found');
+  await documentsService.get(item.documentId, userId, 'editor');
+
+  return { item, userId };
+}
+
+router.get(
+  '/documents/:id/review-queue',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+      const { itemType, status, limit, offset } = listReviewQueueSchema.parse(
+        req.query,
+      );
+
+      await documentsService.get(id, userId, 'viewer');
+
+      const [page, stats] = await Promise.all([
+        reviewQueueService.getPageForDocument(id, {
+          itemType,
+          status: status === 'all' ? undefined : status,
+          limit,
+          offset,
+        }),
+        reviewQueueService.getStats(id),
+      ]);
+
+      res.json({ ...page, stats });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+      next(error);
+    }
+  },
+);
+
+// Accept a merge suggestion: merges the two entities
+router.post(
+  '/review-queue/:itemId/accept',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const options = acceptMergeSchema.parse(req.body ?? {});
+      const { item, userId } = await getEditableReviewItem(req);
+
+      const resolved = await reviewQueueService.acceptMergeSuggestion(
+        item,
+        userId,
+        options,
+      );
+
+      const resolution = resolved.resolution as {
+        survivorId: string;
+        absorbedId: string;
+      };
+      await storyStateService.invalidate(item.documentId);
+      await sseService.broadcastToDocument(item.documentId, 'node-deleted', {
+        documentId: item.documentId,
+        nodeIds: [resolution.absorbedId],
+      });
+      await sseService.broadcastToDocument(item.documentId, 'node-updated', {
+        documentId: item.documentId,
+        nodeId: resolution.survivorId,
+      });
+
+      res.json({ item: resolved });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+      next(error);
+    }
+  },
+);
+
+// Reject a merge suggestion: the pair is never suggested or auto-merged again
+router.post(
+  '/review-queue/:itemId/reject',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { item, userId } = await getEditableReviewItem(req);
+
+      const resolved = await reviewQueueService.rejectMergeSuggestion(
+        item,
+        userId,
+      );
+
+      res.json({ item: resolved });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/review-queue/:itemId/dismiss',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { reason } = dismissSchema.parse(req.body ?? {});
+      const { item, userId } = await getEditableReviewItem(req);
+
+      const dismissed = await reviewQueueService.dismiss(
+        item.id,
+        userId,
+        reason,
+      );
+
+      res.json({ item: dismissed });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+      next(error);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,89 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { documentsService } from '../services/documents';
+import { searchService } from '../services/search';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(500),
+  nodeId: z.string().min(1).optional(),
+  threadId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+function parseSearchQuery(req: Request, res: Response) {
+  const queryResult = SearchQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    res.status(400).json({
+      error: {
+        message: queryResult.error.issues[0]?.message || 'Invalid query',
+        code: 'INVALID_INPUT',
+      },
+    });
+    return null;
+  }
+  return queryResult.data;
+}
+
+/**
+ * GET /api/documents/:id/search
+ * Ranked passages in one document, optionally only those mentioning a
+ * story node (nodeId) or an event in a narrative thread (threadId)
+ */
+router.get(
+  '/documents/:id/search',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+
+      const query = parseSearchQuery(req, res);
+      if (!query) return;
+
+      const document = await documentsService.get(id, userId, 'viewer');
+      const { q, ...options } = query;
+      const results = await searchService.searchDocument(
+        document,
+        userId,
+        q,
+        options,
+      );
+
+      res.json({ results });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/search
+ * Ranked passages across all of the user's documents
+ */
+router.get(
+  '/search',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+
+      const query = parseSearchQuery(req, res);
+      if (!query) return;
+
+      const { q, ...options } = query;
+      const results = await searchService.searchAll(req.user.id, q, options);
+
+      res.json({ results });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as searchRouter };
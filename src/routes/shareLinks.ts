@@ -0,0 +1,133 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { shareLinkRateLimiter } from '../middleware/rateLimiter';
+import { documentsService } from '../services/documents';
+import { shareLinksService } from '../services/shareLinks';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+const CreateShareLinkSchema = z.object({
+  label: z.string().trim().min(1).max(255).optional(),
+  password: z
+    .string()
+    .min(4, 'Password must be at least 4 characters')
+    .max(128)
+    .optional(),
+  includeStoryGraph: z.boolean().optional(),
+  expiresAt: z.iso
+    .datetime({ offset: true })
+    .transform((value) => new Date(value))
+    .refine((date) => date > new Date(), 'Expiry must be in the future')
+    .optional(),
+});
+
+/**
+ * GET /api/documents/:id/share-links
+ * Links the owner has created, with view counts.
+ */
+router.get(
+  '/documents/:id/share-links',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      await documentsService.get(id, req.user.id);
+      const links = await shareLinksService.list(id);
+
+      res.json({ links });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/documents/:id/share-links
+ * Create a public read-only link. Owner only.
+ */
+router.post(
+  '/documents/:id/share-links',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const bodyResult = CreateShareLinkSchema.safeParse(req.body ?? {});
+      if (!bodyResult.success) {
+        res.status(400).json({
+          error: {
+            message: bodyResult.error.issues[0]?.message || 'Invalid input',
+            code: 'INVALID_INPUT',
+          },
+        });
+        return;
+      }
+
+      await documentsService.get(id, req.user.id);
+      const link = await shareLinksService.create({
+        documentId: id,
+        createdBy: req.user.id,
+        ...bodyResult.data,
+      });
+
+      res.status(201).json({ link });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * DELETE /api/documents/:id/share-links/:linkId
+ * Revoke a link. It stays listed so its view count is kept.
+ */
+router.delete(
+  '/documents/:id/share-links/:linkId',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+      const linkId = parseStringParam(req.params.linkId, 'linkId');
+
+      await documentsService.get(id, req.user.id);
+      const link = await shareLinksService.revoke(id, linkId);
+
+      res.json({ link });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/share/:token
+ * Public read-only view. Password-protected links take the password in
+ * the X-Share-Password header.
+ */
+router.get(
+  '/share/:token',
+  shareLinkRateLimiter,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const token = parseStringParam(req.params.token, 'token');
+      const password = req.get('x-share-password');
+
+      const view = await shareLinksService.view(token, password);
+
+      // Signed media URLs expire, so the response must not be reused
+      res.setHeader('Cache-Control', 'no-store');
+      res.json(view);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as shareLinksRouter };
@@ -0,0 +1,110 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { documentsService } from '../services/documents';
+import {
+  storyCalendarSchema,
+  storyCalendarService,
+} from '../services/storyCalendar';
+import { logger } from '../utils/logger';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+const UpdateCalendarSchema = z.object({
+  /** Null restores the default calendar */
+  calendar: storyCalendarSchema.nullable(),
+});
+
+/**
+ * GET /api/documents/:id/calendar
+ * The document's in-world calendar, or the default one
+ */
+router.get(
+  '/documents/:id/calendar',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      await documentsService.get(id, req.user.id, 'viewer');
+      const result = await storyCalendarService.getCalendar(id);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * PUT /api/documents/:id/calendar
+ * Set month names, day lengths and seasons used to place events in time
+ */
+router.put(
+  '/documents/:id/calendar',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const userId = req.user.id;
+      const id = parseStringParam(req.params.id, 'id');
+
+      const parseResult = UpdateCalendarSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        res.status(400).json({
+          error: {
+            message: parseResult.error.issues[0]?.message || 'Invalid input',
+            code: 'INVALID_INPUT',
+          },
+        });
+        return;
+      }
+
+      const document = await documentsService.get(id, userId, 'editor');
+      await storyCalendarService.setCalendar(id, parseResult.data.calendar);
+
+      // Placements move with the calendar, so orderings are rechecked
+      try {
+        await storyCalendarService.flagConflicts(id, document.userId);
+      } catch (error) {
+        logger.warn(
+          { documentId: id, error },
+          'Story time conflict check failed after calendar update',
+        );
+      }
+
+      const result = await storyCalendarService.getCalendar(id);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/documents/:id/story-time
+ * Events placed on the calendar, unplaceable events, and HAPPENS_BEFORE
+ * edges the placements contradict
+ */
+router.get(
+  '/documents/:id/story-time',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const document = await documentsService.get(id, req.user.id, 'viewer');
+      const timeline = await storyCalendarService.resolve(id, document.userId);
+
+      res.json(timeline);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as storyCalendarRouter };
@@ -0,0 +1,53 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { documentsService } from '../services/documents';
+import { storyStateService } from '../services/storyState';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+const StateAtQuerySchema = z.object({
+  position: z.coerce.number().int().min(0),
+});
+
+/**
+ * GET /api/documents/:id/state-at?position=N
+ * Every entity's active state, facets and location at a character offset,
+ * plus the events that have occurred by then
+ */
+router.get(
+  '/documents/:id/state-at',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const queryResult = StateAtQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({
+          error: {
+            message: queryResult.error.issues[0]?.message || 'Invalid query',
+            code: 'INVALID_INPUT',
+          },
+        });
+        return;
+      }
+
+      const document = await documentsService.get(id, req.user.id, 'viewer');
+      const snapshot = await storyStateService.getSnapshot(
+        document,
+        document.userId,
+        queryResult.data.position,
+      );
+
+      res.json(snapshot);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as storyStateRouter };
@@ -0,0 +1,186 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { authorizationService } from '../services/authorization';
+import { documentsService } from '../services/documents';
+import { graphService } from '../services/graph/graph.service';
+import { graphThreads } from '../services/graph/graph.threads';
+import { storySummaryService } from '../services/summarization';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+const SummaryListQuerySchema = z.object({
+  type: z.enum(['chapter', 'thread', 'arc']).optional(),
+});
+
+/**
+ * GET /api/documents/:id/summaries
+ * Stored chapter, thread and arc summaries, optionally of one type
+ */
+router.get(
+  '/documents/:id/summaries',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const queryResult = SummaryListQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        res.status(400).json({
+          error: {
+            message: queryResult.error.issues[0]?.message || 'Invalid query',
+            code: 'INVALID_INPUT',
+          },
+        });
+        return;
+      }
+
+      await documentsService.get(id, req.user.id, 'viewer');
+      const summaries = await storySummaryService.list(
+        id,
+        queryResult.data.type,
+      );
+
+      res.json({ summaries });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/documents/:id/summaries/chapters
+ * Generate missing chapter summaries and update changed ones
+ */
+router.post(
+  '/documents/:id/summaries/chapters',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const document = await documentsService.get(id, req.user.id, 'editor');
+      const summaries = await storySummaryService.refreshChapters(document);
+
+      res.json({ summaries });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/threads/:id/summary
+ */
+router.get(
+  '/threads/:id/summary',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const thread = await graphThreads.getThreadById(id);
+      if (
+        !thread ||
+        !(await authorizationService.canAccessDocument(
+          req.user.id,
+          thread.documentId,
+        ))
+      ) {
+        res
+          .status(404)
+          .json({ error: { message: 'Thread not found', code: 'NOT_FOUND' } });
+        return;
+      }
+
+      const summary = await storySummaryService.get(
+        thread.documentId,
+        'thread',
+        id,
+      );
+      res.json({ summary });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/threads/:id/summary
+ * Generate or update the thread summary from its current events
+ */
+router.post(
+  '/threads/:id/summary',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const summary = await storySummaryService.refreshThread(id, req.user.id);
+      res.json({ summary });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/arcs/:id/summary
+ */
+router.get(
+  '/arcs/:id/summary',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const arc = await graphService.getArcById(id);
+      if (
+        !arc ||
+        !(await authorizationService.canAccessDocument(
+          req.user.id,
+          arc.documentId,
+        ))
+      ) {
+        res
+          .status(404)
+          .json({ error: { message: 'Arc not found', code: 'NOT_FOUND' } });
+        return;
+      }
+
+      const summary = await storySummaryService.get(arc.documentId, 'arc', id);
+      res.json({ summary });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /api/arcs/:id/summary
+ * Generate or update the arc summary from its current states
+ */
+router.post(
+  '/arcs/:id/summary',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const summary = await storySummaryService.refreshArc(id, req.user.id);
+      res.json({ summary });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as summariesRouter };
@@ -0,0 +1,51 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { documentsService } from '../services/documents';
+import { projectsService } from '../services/projects';
+import { timelineService } from '../services/timeline';
+import { parseStringParam } from '../utils/validation';
+
+const router = Router();
+
+/**
+ * GET /api/documents/:id/timeline
+ * Events in causal and reading order, with thread lanes, flashback and
+ * flash-forward markers, and causal gaps. `?scope=project` covers every
+ * book in the document's project.
+ */
+router.get(
+  '/documents/:id/timeline',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new Error('User not authenticated');
+      const id = parseStringParam(req.params.id, 'id');
+
+      const document = await documentsService.get(id, req.user.id, 'viewer');
+
+      // ?scope=project returns a timeline per book in the project
+      if (req.query.scope === 'project') {
+        const scope = await projectsService.getScopeForDocument(
+          document,
+          req.user.id,
+        );
+        res.json(
+          await timelineService.getProjectTimeline(
+            scope.project.id,
+            scope.documents,
+          ),
+        );
+        return;
+      }
+
+      const timeline = await timelineService.getTimeline(id, document.userId);
+
+      res.json(timeline);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export { router as timelineRouter };
@@ -0,0 +1,22 @@
+// Run with: `bun src/scripts/compact-versions.ts`
+// One-off backfill: converts existing full-copy version history to
+// deltas and applies retention. The daily cron keeps it compacted after.
+
+import { versioningService } from '../services/versioning';
+import { logger } from '../utils/logger';
+
+async function compactVersions() {
+  try {
+    logger.info('Starting version history backfill...');
+
+    const totals = await versioningService.compactAllHistories();
+
+    logger.info(totals, 'Version history backfill completed');
+    process.exit(totals.failed > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error({ error }, 'Failed to backfill version history');
+    process.exit(1);
+  }
+}
+
+compactVersions();
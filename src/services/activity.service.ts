@@ -528,6 +528,7 @@ class ActivityService {
       docx_export: 'docx_export',
       image_generation: 'image_generation',
       analysis_version_upgrade: 'analysis_version_upgrade',
+      epub_export: 'epub_export',
     };
 
     return mapping[jobType] ?? null;
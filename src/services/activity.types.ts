@@ -12,7 +12,10 @@ export type ActivityType =
   | 'md_export'
   | 'drive_import'
   | 'drive_export'
-  | 'analysis_version_upgrade';
+  | 'analysis_version_upgrade'
+  | 'epub_export'
+  | 'file_import'
+  | 'story_bible_export';
 
 export type ActivityStatus =
   | 'pending'
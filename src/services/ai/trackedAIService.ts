@@ -30,11 +30,65 @@ interface CallLLMParams {
   execute: () => Promise<LLMResponse>;
 }
 
+interface CallLLMStreamParams extends Omit<CallLLMParams, 'execute'> {
+  execute: () => Promise<AsyncIterable<LLMResponse>>;
+  /** Called with each text chunk as it arrives */
+  onChunk: (text: string) => void;
+}
+
 export class TrackedAIService {
   /**
    * Only call LLMs with this automatic usage tracking wrapper.
    */
   async callLLM(params: CallLLMParams): Promise<LLMResponse> {
+    const { execute } = params;
+    const startTime = Date.now();
+
+    try {
+      const result = await execute();
+      this.recordUsage(params, result, Date.now() - startTime);
+      return result;
+    } catch (error) {
+      this.logFailure(params, error, Date.now() - startTime);
+      throw error;
+    }
+  }
+
+  /**
+   * Streaming variant of callLLM. Usage is recorded once the stream ends,
+   * from the token counts on its final chunks.
+   */
+  async callLLMStream(params: CallLLMStreamParams): Promise<LLMResponse> {
+    const { execute, onChunk } = params;
+    const startTime = Date.now();
+
+    try {
+      const stream = await execute();
+      let text = '';
+      let usageMetadata: LLMResponse['usageMetadata'];
+
+      for await (const chunk of stream) {
+        if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+        if (chunk.text) {
+          text += chunk.text;
+          onChunk(chunk.text);
+        }
+      }
+
+      const result: LLMResponse = { text, usageMetadata };
+      this.recordUsage(params, result, Date.now() - startTime);
+      return result;
+    } catch (error) {
+      this.logFailure(params, error, Date.now() - startTime);
+      throw error;
+    }
+  }
+
+  private recordUsage(
+    params: Omit<CallLLMParams, 'execute'>,
+    result: LLMResponse,
+    durationMs: number,
+  ): void {
     const {
       operation,
       model,
@@ -43,66 +97,61 @@ export class TrackedAIService {
       requestId,
       stage,
       logger = defaultLogger,
-      execute,
     } = params;
 
-    const startTime = Date.now();
+    const inputTokens = result.usageMetadata?.promptTokenCount || 0;
+    const outputTokens = result.usageMetadata?.candidatesTokenCount || 0;
+    const { apiCostUsd } = calculateLLMCost({
+      model,
+      inputTokens,
+      outputTokens,
+    });
 
-    try {
-      const result = await execute();
-      const durationMs = Date.now() - startTime;
+    logLLMCall(logger, {
+      operation,
+      model,
+      promptTokens: inputTokens,
+      responseTokens: outputTokens,
+      durationMs,
+    });
 
-      const inputTokens = result.usageMetadata?.promptTokenCount || 0;
-      const outputTokens = result.usageMetadata?.candidatesTokenCount || 0;
-      const { apiCostUsd } = calculateLLMCost({
+    usageTrackingService
+      .recordLLMUsage({
+        userId,
+        documentId,
+        requestId,
+        operation,
         model,
         inputTokens,
         outputTokens,
+        costUsd: apiCostUsd,
+        durationMs,
+        stage,
+      })
+      .catch((err) => {
+        logger.error(
+          { err, userId, operation },
+          'Usage tracking failed (non-blocking)',
+        );
       });
+  }
 
-      logLLMCall(logger, {
+  private logFailure(
+    params: Omit<CallLLMParams, 'execute'>,
+    error: unknown,
+    durationMs: number,
+  ): void {
+    const { operation, userId, documentId, logger = defaultLogger } = params;
+    logger.error(
+      {
         operation,
-        model,
-        promptTokens: inputTokens,
-        responseTokens: outputTokens,
+        userId,
+        documentId,
+        error: (error as Error).message,
         durationMs,
-      });
-
-      usageTrackingService
-        .recordLLMUsage({
-          userId,
-          documentId,
-          requestId,
-          operation,
-          model,
-          inputTokens,
-          outputTokens,
-          costUsd: apiCostUsd,
-          durationMs,
-          stage,
-        })
-        .catch((err) => {
-          logger.error(
-            { err, userId, operation },
-            'Usage tracking failed (non-blocking)',
-          );
-        });
-
-      return result;
-    } catch (error) {
-      const durationMs = Date.now() - startTime;
-      logger.error(
-        {
-          operation,
-          userId,
-          documentId,
-          error: (error as Error).message,
-          durationMs,
-        },
-        'LLM call failed',
-      );
-      throw error;
-    }
+      },
+      'LLM call failed',
+    );
   }
 }
 
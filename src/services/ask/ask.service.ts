@@ -0,0 +1,230 @@
+/**
+ * Grounded Q&A over a manuscript. Evidence comes from passage search
+ * (sentence embeddings plus keywords), the entity graph at the passages'
+ * positions and segment summaries, sized to the model's context budget.
+ */
+
+import { getTextModelConfig } from '../../config/text-models';
+import { askManuscriptPrompt } from '../../prompts/ask';
+import {
+  calculateContextBudget,
+  countTokens,
+  type EntityRegistryEntry,
+} from '../contextBudget';
+import { graphService } from '../graph/graph.service';
+import { llmClient } from '../llm';
+import { mentionService } from '../mentions/mention.service';
+import { searchService } from '../search';
+import type { Segment } from '../segments';
+import { selectSummariesForContext } from '../summarization';
+import type { AskPassage, AskResult } from './ask.types';
+import {
+  buildPassages,
+  extractCitations,
+  formatPassages,
+  formatSegmentSummaries,
+} from './context';
+
+const ASK_MODEL = 'gemini-2.5-flash';
+const MAX_PASSAGES = 12;
+const MAX_ENTITIES = 20;
+const MAX_CONNECTIONS = 5;
+const SUMMARY_TOKENS = 4000;
+const MAX_ANSWER_TOKENS = 2048;
+// calculateContextBudget reserves 150 output tokens per expected entity
+const ANSWER_RESERVE_UNITS = Math.ceil(MAX_ANSWER_TOKENS / 150);
+
+interface AskableDocument {
+  id: string;
+  userId: string;
+  title: string;
+  content: string;
+  segmentSequence: unknown;
+  analysisVersion: string | null;
+}
+
+interface AskOptions {
+  requestId: string;
+  /** Receives answer text as it streams */
+  onChunk: (text: string) => void;
+}
+
+/**
+ * Registry entries for the nodes mentioned in the passages, most
+ * mentioned first. Characters are described in the state they are in at
+ * their last cited appearance.
+ */
+async function buildEntityRegistry(
+  passages: AskPassage[],
+  userId: string,
+): Promise<EntityRegistryEntry[]> {
+  const counts = new Map<string, number>();
+  const lastPosition = new Map<string, number>();
+  for (const passage of passages) {
+    for (const nodeId of passage.nodeIds) {
+      counts.set(nodeId, (counts.get(nodeId) ?? 0) + 1);
+      lastPosition.set(nodeId, passage.absoluteEnd);
+    }
+  }
+
+  const nodeIds = [...counts.keys()]
+    .sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0))
+    .slice(0, MAX_ENTITIES);
+
+  const entries = await Promise.all(
+    nodeIds.map(async (nodeId): Promise<EntityRegistryEntry | null> => {
+      const graph = await graphService.getEntityGraph(nodeId, userId);
+      if (!graph) return null;
+
+      const details: string[] = [];
+      if (graph.entity.description) details.push(graph.entity.description);
+
+      const state =
+        graph.entity.type === 'character'
+          ? await graphService.getEntityStateAtPosition(
+              nodeId,
+              userId,
+              lastPosition.get(nodeId) ?? 0,
+            )
+          : null;
+      if (state?.activeState) {
+        const stateFacets = state.stateFacets.map((f) => f.content);
+        details.push(
+          stateFacets.length > 0
+            ? `state: ${state.activeState.name} (${stateFacets.join('; ')})`
+            : `state: ${state.activeState.name}`,
+        );
+      }
+
+      const facts = graph.facets
+        .filter((f) => f.type !== 'name')
+        .map((f) => f.content);
+      if (facts.length > 0) details.push(facts.join('; '));
+
+      const connections = graph.connections
+        .slice(0, MAX_CONNECTIONS)
+        .map((c) =>
+          c.direction === 'out'
+            ? `${c.edgeType} ${c.connectedEntity.name}`
+            : `${c.connectedEntity.name} ${c.edgeType} them`,
+        );
+      if (connections.length > 0) {
+        details.push(`connections: ${connections.join(', ')}`);
+      }
+
+      return {
+        id: nodeId,
+        name: graph.entity.name,
+        type: graph.entity.type,
+        aliases: graph.entity.aliases ?? undefined,
+        summary: details.join('. ') || undefined,
+        mentionCount: counts.get(nodeId),
+      };
+    }),
+  );
+
+  return entries.filter((entry) => entry !== null);
+}
+
+/** Summaries of the segments around the passages, within a token budget */
+function selectStorySoFar(segments: Segment[], passages: AskPassage[]) {
+  const passageSegments = segments
+    .map((segment, index) => ({ segment, index }))
+    .filter(({ segment }) =>
+      passages.some(
+        (p) => p.absoluteStart < segment.end && p.absoluteEnd > segment.start,
+      ),
+    )
+    .map(({ index }) => index);
+
+  if (!segments.some((segment) => segment.summary)) return '';
+
+  return formatSegmentSummaries(
+    selectSummariesForContext({
+      currentBatchIndices:
+        passageSegments.length > 0 ? passageSegments : [segments.length - 1],
+      allSegments: segments,
+      availableTokens: SUMMARY_TOKENS,
+    }),
+  );
+}
+
+export const askService = {
+  /**
+   * Answer a question about a document. Access is checked by the caller.
+   */
+  async ask(
+    document: AskableDocument,
+    userId: string,
+    question: string,
+    options: AskOptions,
+  ): Promise<AskResult> {
+    const segments = Array.isArray(document.segmentSequence)
+      ? (document.segmentSequence as Segment[])
+      : [];
+
+    const [hits, mentions] = await Promise.all([
+      searchService.searchDocument(document, userId, question, {
+        limit: MAX_PASSAGES,
+      }),
+      mentionService.getByDocumentIdWithAbsolutePositions(document.id),
+    ]);
+
+    const passages = buildPassages(
+      document.content,
+      hits.map((hit) => ({
+        absoluteStart: hit.contextStart,
+        absoluteEnd: hit.contextStart + hit.context.length,
+      })),
+      mentions,
+    );
+    const passagesText = formatPassages(passages);
+    const storySoFar = selectStorySoFar(segments, passages);
+    // Nodes are stored under the document owner's id
+    const entityRegistry = await buildEntityRegistry(passages, document.userId);
+
+    const modelConfig = getTextModelConfig(ASK_MODEL);
+    const budget = calculateContextBudget({
+      modelConfig,
+      entityRegistry,
+      segmentText: passagesText,
+      previousSegmentText: storySoFar,
+      estimatedNewEntities: ANSWER_RESERVE_UNITS,
+      systemPromptTokens: countTokens(
+        askManuscriptPrompt.build({
+          documentTitle: document.title,
+          question,
+          storySoFar: '',
+          entities: '',
+          passages: '',
+        }),
+        modelConfig.charsPerToken,
+      ),
+    });
+
+    const answer = await llmClient.generateTextStream({
+      prompt: askManuscriptPrompt.build({
+        documentTitle: document.title,
+        question,
+        storySoFar,
+        entities: budget.formattedRegistry,
+        passages: passagesText,
+      }),
+      userId,
+      documentId: document.id,
+      requestId: options.requestId,
+      operation: 'ask-manuscript',
+      model: ASK_MODEL,
+      maxOutputTokens: MAX_ANSWER_TOKENS,
+      onChunk: options.onChunk,
+    });
+
+    return {
+      requestId: options.requestId,
+      documentId: document.id,
+      question,
+      answer,
+      citations: extractCitations(answer, passages),
+    };
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * Types for grounded Q&A over a manuscript.
+ */
+
+/** A stretch of the document given to the LLM as evidence */
+export interface AskPassage {
+  /** 1-based number the answer cites as [n] */
+  number: number;
+  absoluteStart: number;
+  absoluteEnd: number;
+  text: string;
+  /** Mentions of story nodes inside the passage */
+  mentionIds: string[];
+  nodeIds: string[];
+}
+
+export interface AskCitation {
+  passage: number;
+  absoluteStart: number;
+  absoluteEnd: number;
+  mentionIds: string[];
+}
+
+export interface AskResult {
+  requestId: string;
+  documentId: string;
+  question: string;
+  answer: string;
+  citations: AskCitation[];
+}
@@ -0,0 +1,105 @@
+/**
+ * Evidence assembly and citation parsing for manuscript Q&A.
+ */
+
+import type { Segment } from '../segments';
+import type { AskCitation, AskPassage } from './ask.types';
+
+type Range = { absoluteStart: number; absoluteEnd: number };
+
+interface PositionedMention extends Range {
+  id: string;
+  nodeId: string;
+}
+
+/**
+ * Sort ranges and merge those that overlap or touch, so neighbouring
+ * search hits become one passage instead of repeating shared text.
+ */
+export function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) => a.absoluteStart - b.absoluteStart);
+  const merged: Range[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.absoluteStart <= last.absoluteEnd) {
+      last.absoluteEnd = Math.max(last.absoluteEnd, range.absoluteEnd);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Numbered passages in document order, each with the mentions inside it.
+ */
+export function buildPassages(
+  content: string,
+  ranges: Range[],
+  mentions: PositionedMention[],
+): AskPassage[] {
+  return mergeRanges(ranges).map((range, i) => {
+    const inside = mentions.filter(
+      (m) =>
+        m.absoluteStart >= range.absoluteStart &&
+        m.absoluteEnd <= range.absoluteEnd,
+    );
+    return {
+      number: i + 1,
+      absoluteStart: range.absoluteStart,
+      absoluteEnd: range.absoluteEnd,
+      text: content.slice(range.absoluteStart, range.absoluteEnd).trim(),
+      mentionIds: inside.map((m) => m.id),
+      nodeIds: [...new Set(inside.map((m) => m.nodeId))],
+    };
+  });
+}
+
+export function formatPassages(passages: AskPassage[]): string {
+  return passages
+    .map(
+      (p) =>
+        `[${p.number}] (chars ${p.absoluteStart}-${p.absoluteEnd})\n${p.text}`,
+    )
+    .join('\n\n');
+}
+
+/** Segment summaries in document order, with their start offsets */
+export function formatSegmentSummaries(segments: Segment[]): string {
+  return [...segments]
+    .filter((segment) => segment.summary)
+    .sort((a, b) => a.start - b.start)
+    .map((segment) => `(from char ${segment.start}) ${segment.summary}`)
+    .join('\n');
+}
+
+/**
+ * Passages cited as [n] or [n, m] in an answer, in order of first
+ * citation. Numbers that don't match a passage are ignored.
+ */
+export function extractCitations(
+  answer: string,
+  passages: AskPassage[],
+): AskCitation[] {
+  const byNumber = new Map(passages.map((p) => [p.number, p]));
+  const cited = new Set<number>();
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const part of match[1].split(',')) {
+      const number = Number.parseInt(part.trim(), 10);
+      if (byNumber.has(number)) cited.add(number);
+    }
+  }
+
+  return [...cited].map((number) => {
+    const passage = byNumber.get(number) as AskPassage;
+    return {
+      passage: number,
+      absoluteStart: passage.absoluteStart,
+      absoluteEnd: passage.absoluteEnd,
+      mentionIds: passage.mentionIds,
+    };
+  });
+}
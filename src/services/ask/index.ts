@@ -0,0 +1,6 @@
+/**
+ * Ask the manuscript - grounded Q&A with passage citations.
+ */
+
+export { askService } from './ask.service';
+export type { AskCitation, AskPassage, AskResult } from './ask.types';
@@ -18,6 +18,11 @@ import {
 } from '../utils/validation';
 import { emailService } from './emailService';
 import { getImageProvider } from './image-generation/factory';
+import {
+  DEFAULT_VERSION_RETENTION,
+  parseRetentionPolicy,
+  type VersionRetentionPolicy,
+} from './versionStorage';
 
 const BCRYPT_ROUNDS = 12;
 const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
@@ -677,6 +682,7 @@ export class AuthService {
         defaultStylePreset: users.defaultStylePreset,
         hiddenPresetIds: users.hiddenPresetIds,
         nodeTypeStyleDefaults: users.nodeTypeStyleDefaults,
+        versionRetention: users.versionRetention,
       })
       .from(users)
       .where(eq(users.id, userId))
@@ -690,6 +696,9 @@ export class AuthService {
       ...user,
       hiddenPresetIds: user.hiddenPresetIds || [],
       nodeTypeStyleDefaults: user.nodeTypeStyleDefaults || null,
+      versionRetention:
+        parseRetentionPolicy(user.versionRetention) ??
+        DEFAULT_VERSION_RETENTION,
     };
   }
 
@@ -704,6 +713,7 @@ export class AuthService {
         string,
         { presetId: string; prompt?: string }
       > | null;
+      versionRetention?: unknown;
     },
   ) {
     const updates: {
@@ -715,6 +725,7 @@ export class AuthService {
         string,
         { presetId: string; prompt?: string }
       > | null;
+      versionRetention?: VersionRetentionPolicy | null;
     } = {};
 
     if (preferences.defaultImageWidth !== undefined) {
@@ -732,6 +743,18 @@ export class AuthService {
     if (preferences.nodeTypeStyleDefaults !== undefined) {
       updates.nodeTypeStyleDefaults = preferences.nodeTypeStyleDefaults;
     }
+    if (preferences.versionRetention !== undefined) {
+      // null resets to the default policy
+      if (preferences.versionRetention === null) {
+        updates.versionRetention = null;
+      } else {
+        const policy = parseRetentionPolicy(preferences.versionRetention);
+        if (!policy) {
+          throw new ConflictError('Invalid version retention policy');
+        }
+        updates.versionRetention = policy;
+      }
+    }
 
     if (Object.keys(updates).length === 0) {
       throw new ConflictError('No preferences to update');
@@ -775,6 +798,7 @@ export class AuthService {
         defaultStylePreset: users.defaultStylePreset,
         hiddenPresetIds: users.hiddenPresetIds,
         nodeTypeStyleDefaults: users.nodeTypeStyleDefaults,
+        versionRetention: users.versionRetention,
       });
 
     logger.info({ userId, updates }, 'User preferences updated');
@@ -783,6 +807,9 @@ export class AuthService {
       ...user,
       hiddenPresetIds: user.hiddenPresetIds || [],
       nodeTypeStyleDefaults: user.nodeTypeStyleDefaults || null,
+      versionRetention:
+        parseRetentionPolicy(user.versionRetention) ??
+        DEFAULT_VERSION_RETENTION,
     };
   }
 
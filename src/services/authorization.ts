@@ -1,8 +1,14 @@
-import { and, eq, isNull } from 'drizzle-orm';
+import { and, eq, isNotNull, isNull } from 'drizzle-orm';
 import { db } from '../config/database';
-import { documents } from '../models/schema';
+import { documentCollaborators, documents } from '../models/schema';
 import { logger } from '../utils/logger';
+import {
+  type CollaboratorRole,
+  type DocumentRole,
+  hasDocumentRole,
+} from './collaborators/roles';
 import { graphService } from './graph/graph.service';
+import type { StoredStoryNode } from './graph/graph.types';
 
 type ChannelType = 'user' | 'document' | 'node';
 
@@ -21,21 +27,74 @@ class AuthorizationService {
     return { type: match[1] as ChannelType, id: match[2] };
   }
 
-  async canAccessDocument(
+  /** Role of an accepted collaborator; null for anyone else */
+  async getCollaboratorRole(
     userId: string,
     documentId: string,
-  ): Promise<boolean> {
+  ): Promise<CollaboratorRole | null> {
+    const [collaborator] = await db
+      .select({ role: documentCollaborators.role })
+      .from(documentCollaborators)
+      .where(
+        and(
+          eq(documentCollaborators.documentId, documentId),
+          eq(documentCollaborators.userId, userId),
+          isNotNull(documentCollaborators.acceptedAt),
+        ),
+      )
+      .limit(1);
+    return collaborator?.role ?? null;
+  }
+
+  async getDocumentRole(
+    userId: string,
+    documentId: string,
+  ): Promise<DocumentRole | null> {
     const [doc] = await db
       .select({ userId: documents.userId })
       .from(documents)
       .where(and(eq(documents.id, documentId), isNull(documents.deletedAt)))
       .limit(1);
-    return doc?.userId === userId;
+    if (!doc) return null;
+    if (doc.userId === userId) return 'owner';
+    return this.getCollaboratorRole(userId, documentId);
+  }
+
+  async canAccessDocument(
+    userId: string,
+    documentId: string,
+    minRole: DocumentRole = 'viewer',
+  ): Promise<boolean> {
+    const role = await this.getDocumentRole(userId, documentId);
+    return hasDocumentRole(role, minRole);
   }
 
-  async canAccessNode(userId: string, nodeId: string): Promise<boolean> {
-    const node = await graphService.getStoryNodeById(nodeId, userId);
-    return node !== null;
+  /**
+   * A story node the user may act on with at least `minRole` on its
+   * document. Nodes are stored under the document owner's id, so this is
+   * what collaborators look nodes up through.
+   */
+  async getAccessibleNode(
+    userId: string,
+    nodeId: string,
+    minRole: DocumentRole = 'viewer',
+  ): Promise<StoredStoryNode | null> {
+    const node = await graphService.getStoryNodeByIdInternal(nodeId);
+    if (!node) return null;
+    const allowed = await this.canAccessDocument(
+      userId,
+      node.documentId,
+      minRole,
+    );
+    return allowed ? node : null;
+  }
+
+  async canAccessNode(
+    userId: string,
+    nodeId: string,
+    minRole: DocumentRole = 'viewer',
+  ): Promise<boolean> {
+    return (await this.getAccessibleNode(userId, nodeId, minRole)) !== null;
   }
 
   async validateChannelAccess(
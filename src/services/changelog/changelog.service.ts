@@ -1,5 +1,14 @@
 import { randomUUID } from 'node:crypto';
-import { arrayContains, desc, eq, sql } from 'drizzle-orm';
+import {
+  and,
+  arrayContains,
+  arrayOverlaps,
+  asc,
+  desc,
+  eq,
+  inArray,
+  sql,
+} from 'drizzle-orm';
 import { db } from '../../config/database';
 import { changeLog } from '../../models/schema';
 import type {
@@ -9,6 +18,11 @@ import type {
   Operation,
   TargetType,
 } from './changelog.types';
+import {
+  buildUserEditLocks,
+  NO_USER_EDIT_LOCKS,
+  type UserEditLocks,
+} from './userEditLocks';
 
 function truncate(str: string, maxLength: number): string {
   if (str.length <= maxLength) return str;
@@ -39,6 +53,11 @@ function generateSummary(input: CreateChangeLogInput): string {
         const mergedInto = changeData.mergedInto as { name?: string };
         return `Merged '${mergedFrom?.name || fromName}' into '${mergedInto?.name || toName}'`;
       }
+      if (operation === 'split') {
+        const splitFrom = changeData.splitFrom as { name?: string };
+        const splitInto = changeData.splitInto as { name?: string };
+        return `Split '${splitInto?.name || toName}' off from '${splitFrom?.name || fromName}'`;
+      }
       break;
     }
 
@@ -71,6 +90,10 @@ function generateSummary(input: CreateChangeLogInput): string {
         const created = changeData.created as { edgeType?: string };
         return `Connected: ${fromName || 'entity'} ${created?.edgeType || 'RELATED_TO'} ${toName || 'entity'}`;
       }
+      if (operation === 'update') {
+        const edgeType = changeData.edgeType as string | undefined;
+        return `Updated relationship: ${fromName || 'entity'} ${edgeType || ''} ${toName || 'entity'}`;
+      }
       if (operation === 'delete') {
         const deleted = changeData.deleted as { edgeType?: string };
         return `Removed relationship: ${fromName || 'entity'} ${deleted?.edgeType || ''} ${toName || 'entity'}`;
@@ -237,6 +260,28 @@ export const changeLogService = {
     return rows.map(rowToEntry);
   },
 
+  /**
+   * Load the entity fields, facets and edges the user has edited by hand, so
+   * re-analysis can leave them alone.
+   */
+  async getUserEditLocks(entityIds: string[]): Promise<UserEditLocks> {
+    if (entityIds.length === 0) return NO_USER_EDIT_LOCKS;
+
+    const rows = await db
+      .select()
+      .from(changeLog)
+      .where(
+        and(
+          eq(changeLog.source, 'user'),
+          inArray(changeLog.targetType, ['entity', 'facet', 'edge']),
+          arrayOverlaps(changeLog.relatedEntityIds, entityIds),
+        ),
+      )
+      .orderBy(asc(changeLog.createdAt));
+
+    return buildUserEditLocks(rows.map(rowToEntry));
+  },
+
   async getRecent(limit: number = 100): Promise<ChangeLogEntry[]> {
     const rows = await db
       .select()
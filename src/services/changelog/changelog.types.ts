@@ -7,7 +7,7 @@ export type TargetType =
   | 'character_state'
   | 'arc'
   | 'thread';
-export type Operation = 'create' | 'update' | 'delete' | 'merge';
+export type Operation = 'create' | 'update' | 'delete' | 'merge' | 'split';
 
 export interface ChangeLogEntry {
   id: string;
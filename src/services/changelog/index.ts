@@ -15,5 +15,22 @@ export {
   createTrackedState,
   createTrackedStateTransition,
   createTrackedThread,
+  createUserEdge,
+  createUserEntity,
+  createUserFacet,
+  deleteTrackedEdge,
+  deleteTrackedEntity,
+  deleteTrackedFacet,
+  mergeTrackedEntities,
+  splitTrackedEntity,
   type TrackedMutationOptions,
+  unmergeTrackedEntries,
+  updateTrackedEdge,
+  updateTrackedFacet,
 } from './tracked-mutations';
+export {
+  buildUserEditLocks,
+  type LockedEntityField,
+  NO_USER_EDIT_LOCKS,
+  type UserEditLocks,
+} from './userEditLocks';
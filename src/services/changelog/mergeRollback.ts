@@ -0,0 +1,79 @@
+/**
+ * Rolling back what merges copied onto a survivor node.
+ *
+ * Each 'merge' entry records the survivor as it was just before, and just
+ * after, the merge that wrote it. A node can go through several merges
+ * (even within one batch), so undoing them walks the entries newest first,
+ * each against its own snapshot.
+ */
+
+import type {
+  AbsorbedNodeRecord,
+  StoredStoryNode,
+  StoryNodeMergeResult,
+} from '../graph/graph.types';
+
+/**
+ * Shape of changeData on entity 'merge' entries. Records everything that moved
+ * so unmergeTrackedEntries can reverse it.
+ */
+export type MergeChangeData = {
+  mergedFrom: StoredStoryNode;
+  mergedInto: { id: string; name: string };
+  survivorBefore: Pick<
+    StoredStoryNode,
+    'aliases' | 'description' | 'documentOrder'
+  >;
+  survivorAfter: StoryNodeMergeResult['survivorUpdates'];
+  moved: Omit<AbsorbedNodeRecord, 'node'>;
+};
+
+export type SurvivorFields = Pick<
+  StoredStoryNode,
+  'aliases' | 'description' | 'documentOrder'
+>;
+
+function normalize(name: string): string {
+  return name.toLowerCase().trim();
+}
+
+/**
+ * The survivor's aliases, description and document order once the given
+ * merges are undone. Names each absorbed node brought in are dropped unless
+ * the survivor already had them before that merge; description and document
+ * order go back to their value before the merge unless edited since.
+ * `merges` are in the order they happened.
+ */
+export function rollBackSurvivor(
+  current: SurvivorFields,
+  merges: MergeChangeData[],
+): SurvivorFields {
+  let { aliases, description, documentOrder } = current;
+
+  for (const { mergedFrom, survivorBefore, survivorAfter } of [
+    ...merges,
+  ].reverse()) {
+    const keptAliases = new Set((survivorBefore.aliases ?? []).map(normalize));
+    const restoredNames = new Set(
+      [mergedFrom.name, ...(mergedFrom.aliases ?? [])]
+        .map(normalize)
+        .filter((a) => !keptAliases.has(a)),
+    );
+    aliases = (aliases ?? []).filter((a) => !restoredNames.has(normalize(a)));
+
+    if (
+      description === survivorAfter.description &&
+      survivorBefore.description !== survivorAfter.description
+    ) {
+      description = survivorBefore.description;
+    }
+    if (
+      documentOrder === survivorAfter.documentOrder &&
+      survivorBefore.documentOrder !== survivorAfter.documentOrder
+    ) {
+      documentOrder = survivorBefore.documentOrder;
+    }
+  }
+
+  return { aliases, description, documentOrder };
+}
@@ -12,11 +12,21 @@ import type {
   NarrativeThreadResult,
   StoryEdgeType,
   StoryNodeResult,
+  StoryNodeType,
 } from '../../types/storyNodes';
 import { logger } from '../../utils/logger';
 import { graphService } from '../graph/graph.service';
-import type { ChangesToEdgeProps } from '../graph/graph.types';
+import type {
+  ChangesToEdgeProps,
+  StoredFacet,
+  StoredStoryConnection,
+  StoredStoryNode,
+  StoryNodeMergeResult,
+} from '../graph/graph.types';
+import { mentionService } from '../mentions/mention.service';
 import { changeLogService } from './changelog.service';
+import type { ChangeLogEntry, ChangeSource } from './changelog.types';
+import { type MergeChangeData, rollBackSurvivor } from './mergeRollback';
 
 export interface TrackedMutationOptions {
   batchId?: string;
@@ -343,3 +353,528 @@ export async function createTrackedStateTransition(
     'createTrackedStateTransition',
   );
 }
+
+/**
+ * Merge story nodes into a survivor with changelog tracking.
+ *
+ * Logs one 'merge' entry per absorbed node, all sharing a batch ID.
+ */
+export async function mergeTrackedEntities(
+  survivorId: string,
+  absorbedIds: string[],
+  trackingOptions?: TrackedMutationOptions & { source?: ChangeSource },
+): Promise<{ batchId: string; result: StoryNodeMergeResult }> {
+  const result = await graphService.mergeStoryNodes(survivorId, absorbedIds);
+  const batchId =
+    trackingOptions?.batchId ?? changeLogService.generateBatchId();
+  const survivor = result.survivorBefore;
+
+  for (const { node, ...moved } of result.absorbed) {
+    const changeData: MergeChangeData = {
+      mergedFrom: node,
+      mergedInto: { id: survivor.id, name: survivor.name },
+      survivorBefore: {
+        aliases: survivor.aliases,
+        description: survivor.description,
+        documentOrder: survivor.documentOrder,
+      },
+      survivorAfter: result.survivorUpdates,
+      moved,
+    };
+
+    await safeLog(
+      () =>
+        changeLogService.log({
+          source: trackingOptions?.source ?? 'system',
+          targetType: 'entity',
+          targetId: node.id,
+          operation: 'merge',
+          relatedEntityIds: [survivor.id, node.id],
+          changeData,
+          fromName: node.name,
+          toName: survivor.name,
+          batchId,
+          reason: trackingOptions?.reason,
+        }),
+      'mergeTrackedEntities',
+    );
+  }
+
+  return { batchId, result };
+}
+
+/**
+ * Reverse 'merge' changelog entries that absorbed nodes into `survivorId`.
+ *
+ * Revives each absorbed node with its facets, states, arcs, threads, edges and
+ * mentions. Aliases, description and document order the merge copied onto the
+ * survivor are rolled back unless they were edited since.
+ */
+export async function unmergeTrackedEntries(
+  survivorId: string,
+  mergeEntries: ChangeLogEntry[],
+  trackingOptions?: TrackedMutationOptions & { source?: ChangeSource },
+): Promise<{ batchId: string; restoredIds: string[] }> {
+  const batchId =
+    trackingOptions?.batchId ?? changeLogService.generateBatchId();
+  const restored: StoredStoryNode[] = [];
+  // Oldest first, so the survivor is rolled back newest merge first
+  const entries = [...mergeEntries].sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  );
+  const merges = entries.map(
+    (entry) => entry.changeData as unknown as MergeChangeData,
+  );
+
+  for (const data of merges) {
+    await graphService.restoreMergedNode(survivorId, {
+      node: data.mergedFrom,
+      ...data.moved,
+    });
+    await mentionService.reassignMentions(
+      data.moved.mentionIds,
+      survivorId,
+      data.mergedFrom.id,
+    );
+    restored.push(data.mergedFrom);
+  }
+
+  const survivor = await graphService.getStoryNodeByIdInternal(survivorId);
+  if (survivor && merges.length > 0) {
+    const rolledBack = rollBackSurvivor(survivor, merges);
+    await graphService.updateStoryNode(survivorId, {
+      aliases: rolledBack.aliases ?? [],
+      ...(rolledBack.description !== survivor.description && {
+        description: rolledBack.description,
+      }),
+      ...(rolledBack.documentOrder !== survivor.documentOrder && {
+        documentOrder: rolledBack.documentOrder,
+      }),
+    });
+  }
+
+  for (const [i, node] of restored.entries()) {
+    await safeLog(
+      () =>
+        changeLogService.log({
+          source: trackingOptions?.source ?? 'system',
+          targetType: 'entity',
+          targetId: node.id,
+          operation: 'split',
+          relatedEntityIds: [survivorId, node.id],
+          changeData: {
+            splitFrom: { id: survivorId, name: survivor?.name },
+            splitInto: { id: node.id, name: node.name },
+            reversedEntryId: entries[i].id,
+            reversedBatchId: entries[i].batchId,
+          },
+          fromName: survivor?.name,
+          toName: node.name,
+          batchId,
+          reason: trackingOptions?.reason,
+        }),
+      'unmergeTrackedEntries',
+    );
+  }
+
+  return { batchId, restoredIds: restored.map((n) => n.id) };
+}
+
+/**
+ * Split part of an entity off into a new entity with changelog tracking.
+ *
+ * Mentions attached to a moved facet follow it. An edge moves when its other
+ * endpoint is mentioned only in segments where the moved mentions appear:
+ * relationships are extracted per segment, so that is where it was sourced.
+ */
+export async function splitTrackedEntity(
+  nodeId: string,
+  input: {
+    name: string;
+    type?: StoryNodeType;
+    description?: string | null;
+    mentionIds: string[];
+    facetIds: string[];
+  },
+  trackingOptions?: TrackedMutationOptions & { source?: ChangeSource },
+): Promise<{ batchId: string; nodeId: string }> {
+  const original = await graphService.getStoryNodeByIdInternal(nodeId);
+  if (!original) {
+    throw new Error(`Node ${nodeId} not found`);
+  }
+
+  const requestedMentionIds = new Set(input.mentionIds);
+  const movedFacetIds = new Set(input.facetIds);
+  const nodeMentions = await mentionService.getByNodeId(nodeId);
+  const movedMentions = nodeMentions.filter(
+    (m) =>
+      requestedMentionIds.has(m.id) ||
+      (m.facetId !== null && movedFacetIds.has(m.facetId)),
+  );
+  const movedMentionIds = new Set(movedMentions.map((m) => m.id));
+  const movedSegments = new Set(movedMentions.map((m) => m.segmentId));
+  const keptSegments = new Set(
+    nodeMentions
+      .filter((m) => !movedMentionIds.has(m.id))
+      .map((m) => m.segmentId),
+  );
+
+  const edgeIds: string[] = [];
+  for (const edge of await graphService.getLiveStoryEdges(nodeId)) {
+    const otherSegments = (
+      await mentionService.getByNodeId(edge.otherNodeId)
+    ).map((m) => m.segmentId);
+    const sourcedFromMoved = otherSegments.some((id) => movedSegments.has(id));
+    const sourcedFromKept = otherSegments.some((id) => keptSegments.has(id));
+    if (sourcedFromMoved && !sourcedFromKept) {
+      edgeIds.push(edge.originalId);
+    }
+  }
+
+  const split = await graphService.splitStoryNode(nodeId, input, {
+    facetIds: input.facetIds,
+    edgeIds,
+  });
+  const mentionIds = await mentionService.reassignMentions(
+    [...movedMentionIds],
+    nodeId,
+    split.nodeId,
+  );
+  const batchId =
+    trackingOptions?.batchId ?? changeLogService.generateBatchId();
+
+  await safeLog(
+    () =>
+      changeLogService.log({
+        source: trackingOptions?.source ?? 'system',
+        targetType: 'entity',
+        targetId: split.nodeId,
+        operation: 'split',
+        relatedEntityIds: [nodeId, split.nodeId],
+        changeData: {
+          splitFrom: { id: nodeId, name: original.name },
+          splitInto: {
+            id: split.nodeId,
+            name: input.name,
+            type: input.type ?? original.type,
+          },
+          moved: {
+            facetIds: split.facetIds,
+            edges: split.edges,
+            mentionIds,
+          },
+        },
+        fromName: original.name,
+        toName: input.name,
+        batchId,
+        reason: trackingOptions?.reason,
+      }),
+    'splitTrackedEntity',
+  );
+
+  return { batchId, nodeId: split.nodeId };
+}
+
+// ========== User Graph Edits ==========
+//
+// Items created or edited through these wrappers are flagged user-authored in
+// the graph so re-analysis preserves them.
+
+type UserEditOptions = TrackedMutationOptions & { source?: ChangeSource };
+
+/**
+ * Create an entity the extractor missed, with changelog tracking.
+ */
+export async function createUserEntity(
+  documentId: string,
+  userId: string,
+  node: {
+    type: StoryNodeType;
+    name: string;
+    description?: string | null;
+    aliases?: string[];
+  },
+  options?: { stylePreset?: string | null; stylePrompt?: string | null },
+  trackingOptions?: UserEditOptions,
+): Promise<string> {
+  const id = await graphService.createStoryNode(
+    documentId,
+    userId,
+    {
+      type: node.type,
+      name: node.name,
+      description: node.description ?? '',
+      aliases: node.aliases,
+      mentions: [],
+    },
+    { ...options, userAuthored: true },
+  );
+
+  await safeLog(
+    () =>
+      changeLogService.log({
+        source: trackingOptions?.source ?? 'user',
+        targetType: 'entity',
+        targetId: id,
+        operation: 'create',
+        relatedEntityIds: [id],
+        changeData: {
+          created: {
+            type: node.type,
+            name: node.name,
+            description: node.description ?? null,
+            aliases: node.aliases ?? [],
+          },
+        },
+        entityName: node.name,
+        batchId: trackingOptions?.batchId,
+        reason: trackingOptions?.reason,
+      }),
+    'createUserEntity',
+  );
+
+  return id;
+}
+
+/**
+ * Soft-delete an entity and its mentions with changelog tracking.
+ */
+export async function deleteTrackedEntity(
+  nodeId: string,
+  trackingOptions?: UserEditOptions,
+): Promise<void> {
+  const node = await graphService.getStoryNodeByIdInternal(nodeId);
+  if (!node) {
+    throw new Error(`Node ${nodeId} not found`);
+  }
+
+  await graphService.softDeleteStoryNode(nodeId);
+  await mentionService.deleteByNodeId(nodeId);
+
+  await safeLog(
+    () =>
+      changeLogService.log({
+        source: trackingOptions?.source ?? 'user',
+        targetType: 'entity',
+        targetId: nodeId,
+        operation: 'delete',
+        relatedEntityIds: [nodeId],
+        changeData: { deleted: node },
+        entityName: node.name,
+        batchId: trackingOptions?.batchId,
+        reason: trackingOptions?.reason,
+      }),
+    'deleteTrackedEntity',
+  );
+}
+
+/**
+ * Create a user-authored edge with changelog tracking.
+ * Unlike createTrackedEdge this always creates a new edge.
+ */
+export async function createUserEdge(
+  fromId: string,
+  toId: string,
+  edgeType: StoryEdgeType,
+  description: string | null,
+  properties?: { strength?: number },
+  trackingOptions?: UserEditOptions & { fromName?: string; toName?: string },
+): Promise<string> {
+  const id = await graphService.createStoryConnection(
+    fromId,
+    toId,
+    edgeType,
+    description,
+    { ...properties, userAuthored: true },
+  );
+
+  await safeLog(
+    () =>
+      changeLogService.log({
+        source: trackingOptions?.source ?? 'user',
+        targetType: 'edge',
+        targetId: id,
+        operation: 'create',
+        relatedEntityIds: [fromId, toId],
+        changeData: {
+          created: {
+            edgeType,
+            description,
+            strength: properties?.strength,
+          },
+        },
+        fromName: trackingOptions?.fromName,
+        toName: trackingOptions?.toName,
+        batchId: trackingOptions?.batchId,
+        reason: trackingOptions?.reason,
+      }),
+    'createUserEdge',
+  );
+
+  return id;
+}
+
+/**
+ * Update an edge's description or strength with changelog tracking.
+ */
+export async function updateTrackedEdge(
+  edge: StoredStoryConnection,
+  updates: { description?: string | null; strength?: number | null },
+  trackingOptions?: UserEditOptions & { fromName?: string; toName?: string },
+): Promise<void> {
+  await graphService.updateStoryConnection(edge.id, updates);
+
+  await safeLog(
+    () =>
+      changeLogService.log({
+        source: trackingOptions?.source ?? 'user',
+        targetType: 'edge',
+        targetId: edge.id,
+        operation: 'update',
+        relatedEntityIds: [edge.fromNodeId, edge.toNodeId],
+        changeData: {
+          edgeType: edge.edgeType,
+          ...changeLogService.buildUpdateChangeData(
+            edge as unknown as Record<string, unknown>,
+            updates,
+          ),
+        },
+        fromName: trackingOptions?.fromName,
+        toName: trackingOptions?.toName,
+        batchId: trackingOptions?.batchId,
+        reason: trackingOptions?.reason,
+      }),
+    'updateTrackedEdge',
+  );
+}
+
+/**
+ * Soft-delete an edge with changelog tracking.
+ */
+export async function deleteTrackedEdge(
+  edge: StoredStoryConnection,
+  trackingOptions?: UserEditOptions & { fromName?: string; toName?: string },
+): Promise<void> {
+  await graphService.softDeleteStoryConnectionById(edge.id);
+
+  await safeLog(
+    () =>
+      changeLogService.log({
+        source: trackingOptions?.source ?? 'user',
+        targetType: 'edge',
+        targetId: edge.id,
+        operation: 'delete',
+        relatedEntityIds: [edge.fromNodeId, edge.toNodeId],
+        changeData: {
+          deleted: {
+            edgeType: edge.edgeType,
+            description: edge.description,
+            strength: edge.strength,
+          },
+        },
+        fromName: trackingOptions?.fromName,
+        toName: trackingOptions?.toName,
+        batchId: trackingOptions?.batchId,
+        reason: trackingOptions?.reason,
+      }),
+    'deleteTrackedEdge',
+  );
+}
+
+/**
+ * Add a user-authored facet to an entity with changelog tracking.
+ */
+export async function createUserFacet(
+  entityId: string,
+  facet: FacetInput,
+  trackingOptions?: UserEditOptions & { entityName?: string },
+): Promise<string> {
+  const facetId = await graphService.createFacet(
+    entityId,
+    facet,
+    undefined,
+    undefined,
+    true,
+  );
+
+  await safeLog(
+    () =>
+      changeLogService.log({
+        source: trackingOptions?.source ?? 'user',
+        targetType: 'facet',
+        targetId: facetId,
+        operation: 'create',
+        relatedEntityIds: [entityId],
+        changeData: {
+          created: {
+            type: facet.type,
+            content: facet.content,
+          },
+        },
+        entityName: trackingOptions?.entityName,
+        batchId: trackingOptions?.batchId,
+        reason: trackingOptions?.reason,
+      }),
+    'createUserFacet',
+  );
+
+  return facetId;
+}
+
+/**
+ * Change a facet's content with changelog tracking.
+ */
+export async function updateTrackedFacet(
+  facet: StoredFacet,
+  content: string,
+  trackingOptions?: UserEditOptions & { entityName?: string },
+): Promise<void> {
+  await graphService.updateFacet(facet.id, { content, userAuthored: true });
+
+  await safeLog(
+    () =>
+      changeLogService.log({
+        source: trackingOptions?.source ?? 'user',
+        targetType: 'facet',
+        targetId: facet.id,
+        operation: 'update',
+        relatedEntityIds: [facet.entityId],
+        changeData: {
+          before: { type: facet.type, content: facet.content },
+          after: { type: facet.type, content },
+        },
+        entityName: trackingOptions?.entityName,
+        batchId: trackingOptions?.batchId,
+        reason: trackingOptions?.reason,
+      }),
+    'updateTrackedFacet',
+  );
+}
+
+/**
+ * Soft-delete a facet with changelog tracking.
+ */
+export async function deleteTrackedFacet(
+  facet: StoredFacet,
+  trackingOptions?: UserEditOptions & { entityName?: string },
+): Promise<void> {
+  await graphService.softDeleteFacet(facet.id);
+
+  await safeLog(
+    () =>
+      changeLogService.log({
+        source: trackingOptions?.source ?? 'user',
+        targetType: 'facet',
+        targetId: facet.id,
+        operation: 'delete',
+        relatedEntityIds: [facet.entityId],
+        changeData: {
+          deleted: { type: facet.type, content: facet.content },
+        },
+        entityName: trackingOptions?.entityName,
+        batchId: trackingOptions?.batchId,
+        reason: trackingOptions?.reason,
+      }),
+    'deleteTrackedFacet',
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * User edit locks derived from the changelog.
+ *
+ * Any entity field, facet or edge the user has touched directly
+ * (source: 'user') is treated as locked: re-analysis may propose a different
+ * value, but it must not silently replace the user's version.
+ */
+
+import type { ChangeLogEntry } from './changelog.types';
+
+export type LockedEntityField = 'name' | 'description' | 'aliases';
+
+const LOCKABLE_ENTITY_FIELDS: readonly LockedEntityField[] = [
+  'name',
+  'description',
+  'aliases',
+];
+
+export interface UserEditLocks {
+  size: number;
+  isFieldLocked(entityId: string, field: LockedEntityField): boolean;
+  lockedFields(entityId: string): LockedEntityField[];
+  /** Edge the user created or edited */
+  isEdgeLocked(edgeId: string): boolean;
+  /** Edge triple the user deleted and has not re-created since */
+  isEdgeDeleted(fromId: string, edgeType: string, toId: string): boolean;
+  /** Facet content the user rewrote or deleted on an entity */
+  isFacetOverridden(entityId: string, type: string, content: string): boolean;
+}
+
+function edgeKey(fromId: string, edgeType: string, toId: string): string {
+  return `${fromId}|${edgeType}|${toId}`;
+}
+
+function facetKey(entityId: string, type: string, content: string): string {
+  return `${entityId}|${type}|${content.toLowerCase().trim()}`;
+}
+
+/** The facet content a user update or delete took away */
+function overriddenFacetOf(
+  entry: ChangeLogEntry,
+): { type: string; content: string } | undefined {
+  const data = entry.changeData;
+  const snapshot =
+    entry.operation === 'delete'
+      ? data.deleted
+      : entry.operation === 'update'
+        ? data.before
+        : undefined;
+  return snapshot as { type: string; content: string } | undefined;
+}
+
+function edgeTypeOf(entry: ChangeLogEntry): string | undefined {
+  const data = entry.changeData;
+  const snapshot = (data.created ?? data.deleted) as
+    | { edgeType?: string }
+    | undefined;
+  return snapshot?.edgeType ?? (data.edgeType as string | undefined);
+}
+
+function entityFieldsOf(entry: ChangeLogEntry): LockedEntityField[] {
+  if (entry.operation === 'create') {
+    return [...LOCKABLE_ENTITY_FIELDS];
+  }
+  if (entry.operation === 'update') {
+    const after = (entry.changeData.after ?? {}) as Record<string, unknown>;
+    return LOCKABLE_ENTITY_FIELDS.filter((field) => field in after);
+  }
+  return [];
+}
+
+/**
+ * Build lock lookups from user changelog entries.
+ * Entries must be in chronological order so a later re-create of a
+ * deleted edge clears the deletion.
+ */
+export function buildUserEditLocks(entries: ChangeLogEntry[]): UserEditLocks {
+  const fieldsByEntity = new Map<string, Set<LockedEntityField>>();
+  const lockedEdgeIds = new Set<string>();
+  const deletedEdgeKeys = new Set<string>();
+  const overriddenFacetKeys = new Set<string>();
+
+  for (const entry of entries) {
+    if (entry.source !== 'user') continue;
+
+    if (entry.targetType === 'facet') {
+      const [entityId] = entry.relatedEntityIds;
+      const facet = overriddenFacetOf(entry);
+      if (entityId && facet?.type && facet.content) {
+        overriddenFacetKeys.add(facetKey(entityId, facet.type, facet.content));
+      }
+      continue;
+    }
+
+    if (entry.targetType === 'entity') {
+      const fields = entityFieldsOf(entry);
+      if (fields.length === 0) continue;
+      const locked = fieldsByEntity.get(entry.targetId) ?? new Set();
+      for (const field of fields) locked.add(field);
+      fieldsByEntity.set(entry.targetId, locked);
+      continue;
+    }
+
+    if (entry.targetType !== 'edge') continue;
+
+    const [fromId, toId] = entry.relatedEntityIds;
+    const edgeType = edgeTypeOf(entry);
+    const key = fromId && toId && edgeType && edgeKey(fromId, edgeType, toId);
+
+    if (entry.operation === 'delete') {
+      lockedEdgeIds.delete(entry.targetId);
+      if (key) deletedEdgeKeys.add(key);
+    } else if (entry.operation === 'create' || entry.operation === 'update') {
+      lockedEdgeIds.add(entry.targetId);
+      if (key) deletedEdgeKeys.delete(key);
+    }
+  }
+
+  return {
+    size:
+      fieldsByEntity.size +
+      lockedEdgeIds.size +
+      deletedEdgeKeys.size +
+      overriddenFacetKeys.size,
+    isFieldLocked(entityId, field) {
+      return fieldsByEntity.get(entityId)?.has(field) ?? false;
+    },
+    lockedFields(entityId) {
+      return [...(fieldsByEntity.get(entityId) ?? [])];
+    },
+    isEdgeLocked(edgeId) {
+      return lockedEdgeIds.has(edgeId);
+    },
+    isEdgeDeleted(fromId, edgeType, toId) {
+      return deletedEdgeKeys.has(edgeKey(fromId, edgeType, toId));
+    },
+    isFacetOverridden(entityId, type, content) {
+      return overriddenFacetKeys.has(facetKey(entityId, type, content));
+    },
+  };
+}
+
+export const NO_USER_EDIT_LOCKS: UserEditLocks = buildUserEditLocks([]);
@@ -20,6 +20,7 @@ import { GENERATION_SETTINGS_SCHEMA_VERSION } from '../types/generationSettings'
 import { extractJson } from '../utils/llmUtils';
 import { logger } from '../utils/logger';
 import { activityService } from './activity.service';
+import { authorizationService } from './authorization';
 import { GeminiType, getGeminiClient } from './gemini/core';
 import { graphService, type StoredStoryNode } from './graph/graph.service';
 import type { StoredFacet } from './graph/graph.types';
@@ -89,8 +90,12 @@ export const characterSheetService = {
     negativePrompt,
     cursorPosition,
   }: GenerateCharacterSheetParams) {
-    // Fetch node and verify ownership from FalkorDB
-    const node = await graphService.getStoryNodeById(nodeId, userId);
+    // Fetch node and verify access from FalkorDB
+    const node = await authorizationService.getAccessibleNode(
+      userId,
+      nodeId,
+      'editor',
+    );
 
     if (!node) {
       throw new Error('Node not found');
@@ -492,7 +497,11 @@ export const characterSheetService = {
     mediaId: string | null,
     userId: string,
   ) {
-    const node = await graphService.getStoryNodeById(nodeId, userId);
+    const node = await authorizationService.getAccessibleNode(
+      userId,
+      nodeId,
+      'editor',
+    );
 
     if (!node) {
       throw new Error('Node not found');
@@ -590,8 +599,8 @@ export const characterSheetService = {
    * Get all character sheets for a node.
    */
   async getNodeMedia(nodeId: string, userId: string) {
-    // Verify node ownership from FalkorDB
-    const node = await graphService.getStoryNodeById(nodeId, userId);
+    // Verify node access from FalkorDB
+    const node = await authorizationService.getAccessibleNode(userId, nodeId);
 
     if (!node) {
       throw new Error('Node not found');
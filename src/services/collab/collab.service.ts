@@ -0,0 +1,448 @@
+import type http from 'node:http';
+import type { Duplex } from 'node:stream';
+import { eq } from 'drizzle-orm';
+import { type RawData, type WebSocket, WebSocketServer } from 'ws';
+import { db } from '../../config/database';
+import { allowedOrigins } from '../../config/security';
+import { documents } from '../../models/schema';
+import { logger } from '../../utils/logger';
+import { authService } from '../auth';
+import { authorizationService } from '../authorization';
+import { hasDocumentRole } from '../collaborators/roles';
+import {
+  contentJsonToPlainText,
+  textToContentJson,
+} from '../documentImport/contentJson';
+import {
+  contentJsonToYjsState,
+  replaceDocContent,
+  yjsStateToContentJson,
+} from '../documentImport/yjsState';
+import { type Segment, segmentService } from '../segments';
+import { sseService } from '../sse';
+import { versioningService } from '../versioning';
+import { type CollabConnection, CollabRoom } from './collabRoom';
+import { parseCollabPath, readCookie, type YDoc } from './protocol';
+
+// Merged state is written shortly after typing pauses
+const PERSIST_DELAY_MS = 2000;
+// Versions are cut once editing goes quiet, or at least this often
+const VERSION_DELAY_MS = 30_000;
+const VERSION_MAX_WAIT_MS = 5 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+
+interface RoomTimers {
+  persist?: NodeJS.Timeout;
+  version?: NodeJS.Timeout;
+  // When the oldest change without a version was made
+  unversionedSince?: number;
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function toUint8Array(data: RawData): Uint8Array {
+  if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Real-time collaborative editing over y-websocket compatible WebSockets
+ * at /api/documents/:id/collab. Each open document has one in-memory room;
+ * its merged state is saved to documents.yjsState along with the derived
+ * content and segments, and versions are cut on a slower debounce.
+ */
+class CollabService {
+  private wss: WebSocketServer | null = null;
+  private rooms = new Map<string, Promise<CollabRoom>>();
+  private timers = new Map<string, RoomTimers>();
+  private closing = new Map<CollabRoom, Promise<void>>();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private alive = new WeakSet<WebSocket>();
+  private sockets = new Map<
+    WebSocket,
+    { documentId: string; userId: string }
+  >();
+
+  attach(server: http.Server): void {
+    this.wss = new WebSocketServer({
+      noServer: true,
+      maxPayload: MAX_MESSAGE_BYTES,
+    });
+
+    server.on('upgrade', (req, socket, head) => {
+      const documentId = parseCollabPath(req.url);
+      if (!documentId) {
+        rejectUpgrade(socket, 404, 'Not Found');
+        return;
+      }
+
+      this.authenticate(req, documentId)
+        .then((status) => {
+          if (typeof status === 'number') {
+            rejectUpgrade(
+              socket,
+              status,
+              status === 401 ? 'Unauthorized' : 'Forbidden',
+            );
+            return;
+          }
+          this.wss?.handleUpgrade(req, socket, head, (ws) => {
+            this.handleConnection(ws, documentId, status);
+          });
+        })
+        .catch((error) => {
+          logger.error({ error, documentId }, 'Collab upgrade failed');
+          rejectUpgrade(socket, 500, 'Internal Server Error');
+        });
+    });
+
+    this.heartbeat = setInterval(() => {
+      for (const ws of this.wss?.clients ?? []) {
+        if (!this.alive.has(ws)) {
+          ws.terminate();
+          continue;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    logger.info('Collab server attached');
+  }
+
+  /** Save every open room and disconnect its clients */
+  async closeAll(): Promise<void> {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    for (const ws of this.wss?.clients ?? []) {
+      ws.close(1001, 'Server shutting down');
+    }
+    const rooms = await Promise.allSettled(this.rooms.values());
+    await Promise.all(
+      rooms.flatMap((result) =>
+        result.status === 'fulfilled' ? [this.closeRoom(result.value)] : [],
+      ),
+    );
+    this.wss?.close();
+    this.wss = null;
+  }
+
+  /** Save an open document now, so its stored content is current */
+  async flush(documentId: string): Promise<void> {
+    const pending = this.rooms.get(documentId);
+    const room = pending ? await pending.catch(() => null) : null;
+    if (room) await this.flushRoom(room);
+  }
+
+  /**
+   * Apply a server-side edit to a document that is open for collaboration,
+   * so connected editors see it at once, then save and version it. Returns
+   * null when nobody has the document open; the caller then edits the
+   * stored state. Otherwise returns whether `edit` applied.
+   */
+  async applyEdit(
+    documentId: string,
+    edit: (doc: YDoc) => boolean,
+  ): Promise<boolean | null> {
+    const pending = this.rooms.get(documentId);
+    const room = pending ? await pending.catch(() => null) : null;
+    if (!room) return null;
+    if (room.size === 0) {
+      // Let the last save finish so it cannot overwrite the edit
+      await this.closing.get(room);
+      return null;
+    }
+
+    if (!edit(room.doc)) return false;
+    await this.flushRoom(room);
+    return true;
+  }
+
+  /**
+   * Replace an open document's contents with a stored state (a restored
+   * version or a full save) through the live document, so the room's next
+   * save doesn't write its old contents back. Returns null when nobody has
+   * the document open, false when the state cannot be decoded.
+   */
+  async replaceContent(
+    documentId: string,
+    yjsState: string,
+  ): Promise<boolean | null> {
+    const contentJson = yjsStateToContentJson(yjsState);
+    return this.applyEdit(documentId, (doc) => {
+      if (!contentJson) return false;
+      replaceDocContent(doc, contentJson);
+      return true;
+    });
+  }
+
+  /**
+   * Close a user's connections to a document after their access changed.
+   * Reconnecting clients are authorized again with their new role.
+   */
+  disconnectUser(documentId: string, userId: string): void {
+    for (const [ws, session] of this.sockets) {
+      if (session.documentId === documentId && session.userId === userId) {
+        ws.close(1008, 'Document access changed');
+      }
+    }
+  }
+
+  private async authenticate(
+    req: http.IncomingMessage,
+    documentId: string,
+  ): Promise<{ userId: string; readOnly: boolean } | number> {
+    // Browsers send cookies with cross-site WebSocket requests
+    const origin = req.headers.origin;
+    if (origin && !allowedOrigins().includes(origin)) return 403;
+
+    const token = readCookie(req.headers.cookie, 'sessionToken');
+    if (!token) return 401;
+    const user = await authService.validateSession(token);
+    if (!user) return 401;
+
+    const role = await authorizationService.getDocumentRole(
+      user.id,
+      documentId,
+    );
+    if (!role) {
+      logger.warn(
+        { userId: user.id, documentId },
+        'Unauthorized collab access',
+      );
+      return 403;
+    }
+    return {
+      userId: user.id,
+      readOnly: !hasDocumentRole(role, 'editor'),
+    };
+  }
+
+  private handleConnection(
+    ws: WebSocket,
+    documentId: string,
+    { userId, readOnly }: { userId: string; readOnly: boolean },
+  ): void {
+    ws.binaryType = 'nodebuffer';
+    this.alive.add(ws);
+    this.sockets.set(ws, { documentId, userId });
+    ws.on('pong', () => this.alive.add(ws));
+
+    const conn: CollabConnection = {
+      userId,
+      readOnly,
+      send: (message) => {
+        if (ws.readyState === ws.OPEN) ws.send(message);
+      },
+    };
+
+    // Messages can arrive while the room loads; apply them in order after
+    const queued: Uint8Array[] = [];
+    let room: CollabRoom | null = null;
+
+    ws.on('message', (data: RawData) => {
+      const message = toUint8Array(data);
+      if (!room) {
+        queued.push(message);
+        return;
+      }
+      try {
+        room.receive(conn, message);
+      } catch (error) {
+        logger.warn({ error, documentId, userId }, 'Bad collab message');
+        ws.close(1003, 'Invalid message');
+      }
+    });
+
+    ws.on('close', () => {
+      this.sockets.delete(ws);
+      if (!room) return;
+      room.leave(conn);
+      if (room.size === 0) {
+        this.closeRoom(room).catch((error) => {
+          logger.error({ error, documentId }, 'Failed to close collab room');
+        });
+      }
+    });
+
+    this.getRoom(documentId)
+      .then((loaded) => {
+        if (ws.readyState !== ws.OPEN) {
+          if (loaded.size === 0) {
+            this.closeRoom(loaded).catch((error) => {
+              logger.error(
+                { error, documentId },
+                'Failed to close collab room',
+              );
+            });
+          }
+          return;
+        }
+        room = loaded;
+        loaded.join(conn);
+        for (const message of queued.splice(0)) {
+          loaded.receive(conn, message);
+        }
+        logger.debug({ documentId, userId }, 'Collab client joined');
+      })
+      .catch((error) => {
+        logger.error({ error, documentId }, 'Failed to open collab room');
+        ws.close(1011, 'Could not open document');
+      });
+  }
+
+  private getRoom(documentId: string): Promise<CollabRoom> {
+    let room = this.rooms.get(documentId);
+    if (!room) {
+      room = this.loadRoom(documentId);
+      this.rooms.set(documentId, room);
+      room.catch(() => this.rooms.delete(documentId));
+    }
+    return room;
+  }
+
+  private async loadRoom(documentId: string): Promise<CollabRoom> {
+    const [doc] = await db
+      .select({ yjsState: documents.yjsState, content: documents.content })
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .limit(1);
+    if (!doc) throw new Error(`Document not found: ${documentId}`);
+
+    // Documents saved before collaboration existed only have text
+    const state =
+      doc.yjsState ||
+      (doc.content
+        ? contentJsonToYjsState(textToContentJson(doc.content))
+        : null);
+
+    return new CollabRoom(documentId, state, (changed) =>
+      this.scheduleSave(changed),
+    );
+  }
+
+  /**
+   * Save a room whose last client left, then drop it unless someone joined
+   * while it was saving.
+   */
+  private closeRoom(room: CollabRoom): Promise<void> {
+    let closing = this.closing.get(room);
+    if (!closing) {
+      closing = this.flushRoom(room).finally(() => {
+        this.closing.delete(room);
+        if (room.size > 0) return;
+        this.rooms.delete(room.documentId);
+        room.destroy();
+      });
+      this.closing.set(room, closing);
+    }
+    return closing;
+  }
+
+  private async flushRoom(room: CollabRoom): Promise<void> {
+    const timers = this.timers.get(room.documentId);
+    if (!timers) return;
+    this.timers.delete(room.documentId);
+    clearTimeout(timers.persist);
+    clearTimeout(timers.version);
+    await this.persist(room);
+    if (timers.unversionedSince !== undefined) {
+      await this.createVersion(room);
+    }
+  }
+
+  private scheduleSave(room: CollabRoom): void {
+    const { documentId } = room;
+    const timers = this.timers.get(documentId) ?? {};
+    this.timers.set(documentId, timers);
+
+    clearTimeout(timers.persist);
+    timers.persist = setTimeout(() => {
+      timers.persist = undefined;
+      this.persist(room).catch((error) => {
+        logger.error({ error, documentId }, 'Failed to save collab document');
+      });
+    }, PERSIST_DELAY_MS);
+
+    const now = Date.now();
+    timers.unversionedSince ??= now;
+    const overdue = now - timers.unversionedSince >= VERSION_MAX_WAIT_MS;
+    clearTimeout(timers.version);
+    timers.version = setTimeout(
+      () => {
+        timers.version = undefined;
+        timers.unversionedSince = undefined;
+        this.createVersion(room).catch((error) => {
+          logger.error({ error, documentId }, 'Failed to version collab edit');
+        });
+      },
+      overdue ? 0 : VERSION_DELAY_MS,
+    );
+  }
+
+  /** Merged document as stored state and plain-text content */
+  private snapshot(room: CollabRoom) {
+    const yjsState = room.encodeState();
+    const contentJson = yjsStateToContentJson(yjsState);
+    return {
+      yjsState,
+      content: contentJson ? contentJsonToPlainText(contentJson) : null,
+    };
+  }
+
+  private async persist(room: CollabRoom): Promise<void> {
+    const { documentId } = room;
+    const { yjsState, content } = this.snapshot(room);
+    if (content === null) {
+      logger.warn({ documentId }, 'Collab state could not be decoded');
+      return;
+    }
+
+    const [current] = await db
+      .select({
+        content: documents.content,
+        segmentSequence: documents.segmentSequence,
+      })
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .limit(1);
+    if (!current) return;
+
+    const contentChanged = current.content !== content;
+    const segments = contentChanged
+      ? segmentService.computeSegments(
+          content,
+          Array.isArray(current.segmentSequence)
+            ? (current.segmentSequence as Segment[])
+            : [],
+        )
+      : undefined;
+
+    await db
+      .update(documents)
+      .set({
+        yjsState,
+        ...(contentChanged && { content, segmentSequence: segments }),
+        updatedAt: new Date(),
+      })
+      .where(eq(documents.id, documentId));
+
+    // Clients outside the room (and SSE listeners) refetch
+    sseService.broadcastToDocument(documentId, 'document-update', {
+      updatedBy: room.lastEditorId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private async createVersion(room: CollabRoom): Promise<void> {
+    const { yjsState, content } = this.snapshot(room);
+    if (content === null) return;
+    await versioningService.createVersion(room.documentId, yjsState, content);
+  }
+}
+
+export const collabService = new CollabService();
@@ -0,0 +1,121 @@
+/**
+ * One shared document and the clients editing it. Updates are merged into
+ * the server's copy and relayed to everyone else; awareness states are
+ * relayed and dropped when their client disconnects. Persistence is left
+ * to the owner through `onChange`.
+ */
+
+import {
+  type Awareness,
+  type AwarenessChanges,
+  createAwareness,
+  createDoc,
+  encodeAwareness,
+  encodeDocState,
+  encodeSyncStep1,
+  encodeUpdate,
+  isDocumentUpdate,
+  readMessage,
+  removeAwareness,
+  type YDoc,
+} from './protocol';
+
+export interface CollabConnection {
+  userId: string;
+  // Viewers and commenters follow along without editing
+  readOnly?: boolean;
+  send(message: Uint8Array): void;
+}
+
+export class CollabRoom {
+  readonly doc: YDoc;
+  readonly awareness: Awareness;
+  // Awareness client ids each connection has announced
+  private connections = new Map<CollabConnection, Set<number>>();
+  lastEditorId: string | null = null;
+
+  constructor(
+    readonly documentId: string,
+    yjsState: string | null,
+    private onChange: (room: CollabRoom) => void,
+  ) {
+    this.doc = createDoc(yjsState);
+    this.awareness = createAwareness(this.doc);
+
+    this.doc.on('update', (update, origin) => {
+      const message = encodeUpdate(update);
+      for (const conn of this.connections.keys()) {
+        if (conn !== origin) conn.send(message);
+      }
+      if (this.isConnection(origin)) {
+        this.lastEditorId = origin.userId;
+      }
+      this.onChange(this);
+    });
+
+    this.awareness.on('update', (changes, origin) => {
+      this.trackAwareness(changes, origin);
+      const changed = [
+        ...changes.added,
+        ...changes.updated,
+        ...changes.removed,
+      ];
+      const message = encodeAwareness(this.awareness, changed);
+      for (const conn of this.connections.keys()) {
+        conn.send(message);
+      }
+    });
+  }
+
+  get size(): number {
+    return this.connections.size;
+  }
+
+  encodeState(): string {
+    return encodeDocState(this.doc);
+  }
+
+  join(conn: CollabConnection): void {
+    this.connections.set(conn, new Set());
+    conn.send(encodeSyncStep1(this.doc));
+
+    const states = [...this.awareness.getStates().keys()];
+    if (states.length > 0) {
+      conn.send(encodeAwareness(this.awareness, states));
+    }
+  }
+
+  receive(conn: CollabConnection, message: Uint8Array): void {
+    if (!this.connections.has(conn)) return;
+    if (conn.readOnly && isDocumentUpdate(message)) return;
+    const reply = readMessage(message, this.doc, this.awareness, conn);
+    if (reply) conn.send(reply);
+  }
+
+  leave(conn: CollabConnection): void {
+    const clientIds = this.connections.get(conn);
+    if (!clientIds) return;
+    this.connections.delete(conn);
+    if (clientIds.size > 0) {
+      removeAwareness(this.awareness, [...clientIds], null);
+    }
+  }
+
+  destroy(): void {
+    this.connections.clear();
+    this.awareness.destroy();
+    this.doc.destroy();
+  }
+
+  private isConnection(origin: unknown): origin is CollabConnection {
+    return this.connections.has(origin as CollabConnection);
+  }
+
+  private trackAwareness(changes: AwarenessChanges, origin: unknown): void {
+    if (!this.isConnection(origin)) return;
+    const clientIds = this.connections.get(origin);
+    if (!clientIds) return;
+    for (const id of changes.added) clientIds.add(id);
+    for (const id of changes.removed) clientIds.delete(id);
+  }
+}
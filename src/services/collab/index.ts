@@ -0,0 +1,8 @@
+/**
+ * Collab module - real-time multi-user editing over Yjs WebSockets.
+ */
+
+export { collabService } from './collab.service';
+export type { CollabConnection } from './collabRoom';
+export { CollabRoom } from './collabRoom';
+export { parseCollabPath, readCookie } from './protocol';
@@ -0,0 +1,170 @@
+/**
+ * y-websocket wire format: each message starts with a varuint type, sync
+ * messages carry y-protocols sync steps and awareness messages carry
+ * encoded awareness updates. Also parses the upgrade request.
+ */
+
+// yjs, y-protocols and lib0 types resolve as ESM-only from this CommonJS
+// build, so they are required like in the Yjs state helpers
+const Y = require('yjs');
+const syncProtocol = require('y-protocols/sync');
+const awarenessProtocol = require('y-protocols/awareness');
+const encoding = require('lib0/encoding');
+const decoding = require('lib0/decoding');
+
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+
+// Same rule as SSE channel ids
+const COLLAB_PATH = /^\/api\/documents\/([a-zA-Z0-9_-]+)\/collab\/?$/;
+
+export interface YDoc {
+  on(
+    event: 'update',
+    handler: (update: Uint8Array, origin: unknown) => void,
+  ): void;
+  getXmlFragment(name: string): { toArray(): unknown[] };
+  transact(fn: () => void, origin?: unknown): void;
+  destroy(): void;
+}
+
+export interface AwarenessChanges {
+  added: number[];
+  updated: number[];
+  removed: number[];
+}
+
+export interface Awareness {
+  getStates(): Map<number, unknown>;
+  setLocalState(state: unknown): void;
+  on(
+    event: 'update',
+    handler: (changes: AwarenessChanges, origin: unknown) => void,
+  ): void;
+  destroy(): void;
+}
+
+/** Document id from a collab upgrade URL, or null for any other path */
+export function parseCollabPath(url: string | undefined): string | null {
+  if (!url) return null;
+  const path = url.split('?')[0];
+  return path.match(COLLAB_PATH)?.[1] ?? null;
+}
+
+/** A cookie's decoded value from a raw Cookie header */
+export function readCookie(
+  header: string | undefined,
+  name: string,
+): string | null {
+  if (!header) return null;
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1 || pair.slice(0, index).trim() !== name) continue;
+    const value = pair.slice(index + 1).trim();
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+  return null;
+}
+
+export function createDoc(base64State: string | null): YDoc {
+  const doc = new Y.Doc();
+  if (base64State) {
+    Y.applyUpdate(doc, Buffer.from(base64State, 'base64'));
+  }
+  return doc;
+}
+
+export function encodeDocState(doc: YDoc): string {
+  return Buffer.from(Y.encodeStateAsUpdate(doc)).toString('base64');
+}
+
+export function createAwareness(doc: YDoc): Awareness {
+  const awareness: Awareness = new awarenessProtocol.Awareness(doc);
+  // The server is not a participant
+  awareness.setLocalState(null);
+  return awareness;
+}
+
+export function encodeSyncStep1(doc: YDoc): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, doc);
+  return encoding.toUint8Array(encoder);
+}
+
+export function encodeUpdate(update: Uint8Array): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeUpdate(encoder, update);
+  return encoding.toUint8Array(encoder);
+}
+
+export function encodeAwareness(
+  awareness: Awareness,
+  clientIds: number[],
+): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(
+    encoder,
+    awarenessProtocol.encodeAwarenessUpdate(awareness, clientIds),
+  );
+  return encoding.toUint8Array(encoder);
+}
+
+export function removeAwareness(
+  awareness: Awareness,
+  clientIds: number[],
+  origin: unknown,
+): void {
+  awarenessProtocol.removeAwarenessStates(awareness, clientIds, origin);
+}
+
+/**
+ * Whether a message would change the document: a sync step 2 or an update.
+ * Read-only clients may still ask for state with sync step 1.
+ */
+export function isDocumentUpdate(message: Uint8Array): boolean {
+  const decoder = decoding.createDecoder(message);
+  if (decoding.readVarUint(decoder) !== MESSAGE_SYNC) return false;
+  return decoding.readVarUint(decoder) !== syncProtocol.messageYjsSyncStep1;
+}
+
+/**
+ * Apply an incoming message on behalf of `origin`. Returns the reply to
+ * send back, if any: sync step 1 is answered with step 2.
+ */
+export function readMessage(
+  message: Uint8Array,
+  doc: YDoc,
+  awareness: Awareness,
+  origin: unknown,
+): Uint8Array | null {
+  const decoder = decoding.createDecoder(message);
+  const type: number = decoding.readVarUint(decoder);
+
+  switch (type) {
+    case MESSAGE_SYNC: {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.readSyncMessage(decoder, encoder, doc, origin);
+      // Only the type was written when there is nothing to answer
+      return encoding.length(encoder) > 1
+        ? encoding.toUint8Array(encoder)
+        : null;
+    }
+    case MESSAGE_AWARENESS:
+      awarenessProtocol.applyAwarenessUpdate(
+        awareness,
+        decoding.readVarUint8Array(decoder),
+        origin,
+      );
+      return null;
+    default:
+      throw new Error(`Unknown collab message type: ${type}`);
+  }
+}
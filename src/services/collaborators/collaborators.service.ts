@@ -0,0 +1,281 @@
+/**
+ * Sharing documents with other users. The owner invites by email; the
+ * invitation is accepted by the account with that address, which then
+ * gets the invited role on the document and its story graph.
+ */
+
+import crypto from 'node:crypto';
+import { and, desc, eq, isNotNull, isNull } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { documentCollaborators, documents, users } from '../../models/schema';
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { collabService } from '../collab';
+import { emailService } from '../emailService';
+import { sseService } from '../sse';
+import { type CollaboratorRole, normalizeEmail } from './roles';
+
+const INVITE_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const collaboratorsService = {
+  async list(documentId: string) {
+    return db
+      .select({
+        id: documentCollaborators.id,
+        userId: documentCollaborators.userId,
+        username: users.username,
+        email: documentCollaborators.email,
+        role: documentCollaborators.role,
+        acceptedAt: documentCollaborators.acceptedAt,
+        createdAt: documentCollaborators.createdAt,
+      })
+      .from(documentCollaborators)
+      .leftJoin(users, eq(documentCollaborators.userId, users.id))
+      .where(eq(documentCollaborators.documentId, documentId))
+      .orderBy(documentCollaborators.createdAt);
+  },
+
+  /** Documents other users have shared with this user */
+  async listSharedWith(userId: string) {
+    return db
+      .select({
+        id: documents.id,
+        userId: documents.userId,
+        ownerUsername: users.username,
+        title: documents.title,
+        role: documentCollaborators.role,
+        narrativeModeEnabled: documents.narrativeModeEnabled,
+        mediaModeEnabled: documents.mediaModeEnabled,
+        createdAt: documents.createdAt,
+        updatedAt: documents.updatedAt,
+      })
+      .from(documentCollaborators)
+      .innerJoin(documents, eq(documentCollaborators.documentId, documents.id))
+      .innerJoin(users, eq(documents.userId, users.id))
+      .where(
+        and(
+          eq(documentCollaborators.userId, userId),
+          isNotNull(documentCollaborators.acceptedAt),
+          isNull(documents.deletedAt),
+        ),
+      )
+      .orderBy(desc(documents.updatedAt));
+  },
+
+  /**
+   * Invite someone by email, or re-send a pending invitation with a new
+   * role. People who already accepted keep their access; change their
+   * role instead.
+   */
+  async invite(input: {
+    documentId: string;
+    invitedBy: string;
+    email: string;
+    role: CollaboratorRole;
+  }) {
+    const email = normalizeEmail(input.email);
+
+    const [document] = await db
+      .select({ title: documents.title, ownerEmail: users.email })
+      .from(documents)
+      .innerJoin(users, eq(documents.userId, users.id))
+      .where(eq(documents.id, input.documentId))
+      .limit(1);
+    if (!document) {
+      throw new NotFoundError('Document not found');
+    }
+    if (normalizeEmail(document.ownerEmail) === email) {
+      throw new BadRequestError(
+        'You already own this document',
+        'INVALID_INPUT',
+      );
+    }
+
+    const [existing] = await db
+      .select()
+      .from(documentCollaborators)
+      .where(
+        and(
+          eq(documentCollaborators.documentId, input.documentId),
+          eq(documentCollaborators.email, email),
+        ),
+      )
+      .limit(1);
+    if (existing?.acceptedAt) {
+      throw new BadRequestError(
+        'This person already has access to the document',
+        'ALREADY_COLLABORATOR',
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const inviteExpiresAt = new Date(Date.now() + INVITE_DURATION_MS);
+
+    const [collaborator] = existing
+      ? await db
+          .update(documentCollaborators)
+          .set({
+            role: input.role,
+            invitedBy: input.invitedBy,
+            inviteToken: token,
+            inviteExpiresAt,
+            updatedAt: new Date(),
+          })
+          .where(eq(documentCollaborators.id, existing.id))
+          .returning()
+      : await db
+          .insert(documentCollaborators)
+          .values({
+            documentId: input.documentId,
+            email,
+            role: input.role,
+            invitedBy: input.invitedBy,
+            inviteToken: token,
+            inviteExpiresAt,
+          })
+          .returning();
+
+    const [inviter] = await db
+      .select({ username: users.username })
+      .from(users)
+      .where(eq(users.id, input.invitedBy))
+      .limit(1);
+
+    await emailService.sendDocumentInvitation(email, token, {
+      documentTitle: document.title,
+      inviterName: inviter?.username ?? 'Someone',
+      role: input.role,
+    });
+
+    logger.info(
+      {
+        documentId: input.documentId,
+        collaboratorId: collaborator.id,
+        role: input.role,
+      },
+      'Document invitation sent',
+    );
+
+    return collaborator;
+  },
+
+  /** Accept an invitation as the account it was addressed to */
+  async accept(token: string, user: { id: string; email: string }) {
+    const [invitation] = await db
+      .select()
+      .from(documentCollaborators)
+      .where(eq(documentCollaborators.inviteToken, token))
+      .limit(1);
+
+    if (
+      !invitation ||
+      !invitation.inviteExpiresAt ||
+      invitation.inviteExpiresAt < new Date()
+    ) {
+      throw new NotFoundError('Invitation not found or expired');
+    }
+    if (normalizeEmail(user.email) !== invitation.email) {
+      throw new ForbiddenError(
+        'This invitation was sent to a different email address',
+      );
+    }
+
+    const [collaborator] = await db
+      .update(documentCollaborators)
+      .set({
+        userId: user.id,
+        acceptedAt: new Date(),
+        inviteToken: null,
+        inviteExpiresAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(documentCollaborators.id, invitation.id))
+      .returning();
+
+    sseService.broadcastToDocument(
+      invitation.documentId,
+      'collaborators-updated',
+      { documentId: invitation.documentId },
+    );
+    logger.info(
+      { documentId: invitation.documentId, userId: user.id },
+      'Document invitation accepted',
+    );
+
+    return collaborator;
+  },
+
+  async updateRole(
+    documentId: string,
+    collaboratorId: string,
+    role: CollaboratorRole,
+  ) {
+    const [collaborator] = await db
+      .update(documentCollaborators)
+      .set({ role, updatedAt: new Date() })
+      .where(
+        and(
+          eq(documentCollaborators.id, collaboratorId),
+          eq(documentCollaborators.documentId, documentId),
+        ),
+      )
+      .returning();
+    if (!collaborator) {
+      throw new NotFoundError('Collaborator not found');
+    }
+
+    if (collaborator.userId) {
+      collabService.disconnectUser(documentId, collaborator.userId);
+    }
+    sseService.broadcastToDocument(documentId, 'collaborators-updated', {
+      documentId,
+    });
+    return collaborator;
+  },
+
+  /** Revoke access or withdraw a pending invitation */
+  async remove(documentId: string, collaboratorId: string) {
+    const [removed] = await db
+      .delete(documentCollaborators)
+      .where(
+        and(
+          eq(documentCollaborators.id, collaboratorId),
+          eq(documentCollaborators.documentId, documentId),
+        ),
+      )
+      .returning({
+        id: documentCollaborators.id,
+        userId: documentCollaborators.userId,
+      });
+    if (!removed) {
+      throw new NotFoundError('Collaborator not found');
+    }
+
+    if (removed.userId) {
+      collabService.disconnectUser(documentId, removed.userId);
+    }
+
+    sseService.broadcastToDocument(documentId, 'collaborators-updated', {
+      documentId,
+    });
+    logger.info({ documentId, collaboratorId }, 'Collaborator removed');
+  },
+
+  async get(documentId: string, collaboratorId: string) {
+    const [collaborator] = await db
+      .select()
+      .from(documentCollaborators)
+      .where(
+        and(
+          eq(documentCollaborators.id, collaboratorId),
+          eq(documentCollaborators.documentId, documentId),
+        ),
+      )
+      .limit(1);
+    return collaborator ?? null;
+  },
+};
@@ -0,0 +1,7 @@
+/**
+ * Collaborators module - sharing documents with roles and email invitations.
+ */
+
+export { collaboratorsService } from './collaborators.service';
+export type { CollaboratorRole, DocumentRole } from './roles';
+export { COLLABORATOR_ROLES, hasDocumentRole, normalizeEmail } from './roles';
@@ -0,0 +1,30 @@
+/**
+ * Document roles, from least to most access. Viewers read the manuscript
+ * and its story graph, commenters may also comment, editors may change
+ * the text and the graph. Deleting, sharing, document settings and
+ * analysis runs (billed to the owner) stay with the owner.
+ */
+
+export const COLLABORATOR_ROLES = ['viewer', 'commenter', 'editor'] as const;
+
+export type CollaboratorRole = (typeof COLLABORATOR_ROLES)[number];
+export type DocumentRole = CollaboratorRole | 'owner';
+
+const ROLE_RANK: Record<DocumentRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export function hasDocumentRole(
+  role: DocumentRole | null | undefined,
+  required: DocumentRole,
+): boolean {
+  return role != null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/** Invitations match accounts by email regardless of case or padding */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,24 @@
+/**
+ * Comment bodies are plain text. `@username` mentions people with access
+ * to the document; usernames follow the signup rules (3-50 letters,
+ * numbers or underscores).
+ */
+
+const MENTION_PATTERN = /(?<![\w@])@([A-Za-z0-9_]{3,50})(?![\w@])/g;
+
+/** Usernames mentioned in a comment, lowercased and without duplicates */
+export function parseMentionedUsernames(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    names.add(match[1].toLowerCase());
+  }
+  return [...names];
+}
+
+/** Short single-line preview of a comment or passage for notifications */
+export function excerpt(text: string, maxLength = 160): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxLength
+    ? `${flat.slice(0, maxLength - 1).trimEnd()}…`
+    : flat;
+}
@@ -0,0 +1,467 @@
+/**
+ * Comment threads and suggested edits on document passages. Threads are
+ * anchored like mentions, to a segment-relative range plus the quoted
+ * text, and are re-located against the current text whenever they are
+ * read. Accepting a suggestion writes it into the document as a new
+ * version.
+ */
+
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { db } from '../../config/database';
+import {
+  comments,
+  commentThreads,
+  documentCollaborators,
+  documents,
+  users,
+} from '../../models/schema';
+import { BadRequestError, NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { collabService } from '../collab';
+import {
+  contentJsonToPlainText,
+  textToContentJson,
+} from '../documentImport/contentJson';
+import {
+  contentJsonToYjsState,
+  yjsStateToContentJson,
+} from '../documentImport/yjsState';
+import { documentsService } from '../documents';
+import { emailService } from '../emailService';
+import { computeTextHash, mentionService } from '../mentions';
+import type { Segment } from '../segments';
+import { segmentService } from '../segments';
+import { sseService } from '../sse';
+import { versioningService } from '../versioning';
+import { excerpt, parseMentionedUsernames } from './commentText';
+import {
+  replaceTextInState,
+  replaceTextRange,
+  type TextEdit,
+} from './textEdit';
+
+export type CommentThread = typeof commentThreads.$inferSelect;
+export type CommentThreadStatus = CommentThread['status'];
+
+async function loadText(documentId: string) {
+  const [doc] = await db
+    .select({
+      title: documents.title,
+      content: documents.content,
+      segmentSequence: documents.segmentSequence,
+      yjsState: documents.yjsState,
+    })
+    .from(documents)
+    .where(eq(documents.id, documentId))
+    .limit(1);
+  if (!doc) {
+    throw new NotFoundError('Document not found');
+  }
+  return {
+    ...doc,
+    content: doc.content ?? '',
+    segments: Array.isArray(doc.segmentSequence)
+      ? (doc.segmentSequence as Segment[])
+      : [],
+  };
+}
+
+function staleSuggestion(): BadRequestError {
+  return new BadRequestError(
+    'The passage has changed since this suggestion was made',
+    'SUGGESTION_STALE',
+  );
+}
+
+/** People with access to a document, for resolving @mentions */
+async function documentMembers(documentId: string) {
+  const [owner] = await db
+    .select({ id: users.id, username: users.username, email: users.email })
+    .from(documents)
+    .innerJoin(users, eq(documents.userId, users.id))
+    .where(eq(documents.id, documentId))
+    .limit(1);
+  const collaborators = await db
+    .select({ id: users.id, username: users.username, email: users.email })
+    .from(documentCollaborators)
+    .innerJoin(users, eq(documentCollaborators.userId, users.id))
+    .where(eq(documentCollaborators.documentId, documentId));
+  return owner ? [owner, ...collaborators] : collaborators;
+}
+
+export const commentsService = {
+  async getThread(threadId: string): Promise<CommentThread> {
+    const [thread] = await db
+      .select()
+      .from(commentThreads)
+      .where(eq(commentThreads.id, threadId))
+      .limit(1);
+    if (!thread) {
+      throw new NotFoundError('Comment thread not found', 'NOT_FOUND');
+    }
+    return thread;
+  },
+
+  /**
+   * Threads with their comments and current position. Threads whose
+   * passage can no longer be found come back with a null anchor.
+   */
+  async list(documentId: string, status?: CommentThreadStatus) {
+    const threads = await db
+      .select()
+      .from(commentThreads)
+      .where(
+        and(
+          eq(commentThreads.documentId, documentId),
+          status ? eq(commentThreads.status, status) : undefined,
+        ),
+      )
+      .orderBy(asc(commentThreads.createdAt));
+    if (threads.length === 0) return [];
+
+    const rows = await db
+      .select({
+        id: comments.id,
+        threadId: comments.threadId,
+        authorId: comments.authorId,
+        authorUsername: users.username,
+        body: comments.body,
+        mentionedUserIds: comments.mentionedUserIds,
+        createdAt: comments.createdAt,
+      })
+      .from(comments)
+      .innerJoin(users, eq(comments.authorId, users.id))
+      .where(
+        inArray(
+          comments.threadId,
+          threads.map((t) => t.id),
+        ),
+      )
+      .orderBy(asc(comments.createdAt));
+
+    const { content, segments } = await loadText(documentId);
+
+    return threads.map((thread) => {
+      const position = mentionService.resolveMentionPosition(
+        thread,
+        content,
+        segments,
+      );
+      return {
+        id: thread.id,
+        kind: thread.kind,
+        status: thread.status,
+        originalText: thread.originalText,
+        suggestedText: thread.suggestedText,
+        anchor: position
+          ? {
+              start: position.absoluteStart,
+              end: position.absoluteEnd,
+              confidence: position.confidence,
+            }
+          : null,
+        createdBy: thread.createdBy,
+        resolvedBy: thread.resolvedBy,
+        resolvedAt: thread.resolvedAt,
+        appliedVersion: thread.appliedVersion,
+        createdAt: thread.createdAt,
+        comments: rows
+          .filter((c) => c.threadId === thread.id)
+          .map(({ threadId: _threadId, ...comment }) => comment),
+      };
+    });
+  },
+
+  /**
+   * Start a thread on [start, end) of the current text. A thread with
+   * `suggestedText` is a suggestion to replace that passage.
+   */
+  async createThread(input: {
+    documentId: string;
+    userId: string;
+    start: number;
+    end: number;
+    body?: string;
+    suggestedText?: string;
+  }) {
+    const { content, segments } = await loadText(input.documentId);
+    if (input.end > content.length || input.start >= input.end) {
+      throw new BadRequestError(
+        'Range is outside the document text',
+        'INVALID_RANGE',
+      );
+    }
+
+    const relative = segmentService.toRelativePosition(
+      segments,
+      input.start,
+      input.end,
+    );
+    if (!relative) {
+      throw new BadRequestError(
+        'Range is outside the document text',
+        'INVALID_RANGE',
+      );
+    }
+
+    const originalText = content.slice(input.start, input.end);
+    const [thread] = await db
+      .insert(commentThreads)
+      .values({
+        documentId: input.documentId,
+        ...relative,
+        originalText,
+        textHash: computeTextHash(originalText),
+        kind: input.suggestedText !== undefined ? 'suggestion' : 'comment',
+        suggestedText: input.suggestedText ?? null,
+        createdBy: input.userId,
+      })
+      .returning();
+
+    if (input.body) {
+      await this.addComment(thread, input.userId, input.body);
+    } else {
+      this.broadcast(thread);
+    }
+    return thread;
+  },
+
+  /** Add a comment and notify anyone it @mentions */
+  async addComment(thread: CommentThread, authorId: string, body: string) {
+    const names = parseMentionedUsernames(body);
+    const mentioned = names.length
+      ? (await documentMembers(thread.documentId)).filter(
+          (member) =>
+            member.id !== authorId &&
+            names.includes(member.username.toLowerCase()),
+        )
+      : [];
+
+    const [comment] = await db
+      .insert(comments)
+      .values({
+        threadId: thread.id,
+        authorId,
+        body,
+        mentionedUserIds: mentioned.map((m) => m.id),
+      })
+      .returning();
+
+    await db
+      .update(commentThreads)
+      .set({ updatedAt: new Date() })
+      .where(eq(commentThreads.id, thread.id));
+    this.broadcast(thread);
+
+    if (mentioned.length > 0) {
+      await this.notifyMentioned(thread, comment, mentioned);
+    }
+    return comment;
+  },
+
+  async deleteComment(thread: CommentThread, commentId: string) {
+    const [removed] = await db
+      .delete(comments)
+      .where(and(eq(comments.id, commentId), eq(comments.threadId, thread.id)))
+      .returning({ id: comments.id });
+    if (!removed) {
+      throw new NotFoundError('Comment not found', 'NOT_FOUND');
+    }
+    this.broadcast(thread);
+  },
+
+  async getComment(threadId: string, commentId: string) {
+    const [comment] = await db
+      .select()
+      .from(comments)
+      .where(and(eq(comments.id, commentId), eq(comments.threadId, threadId)))
+      .limit(1);
+    return comment ?? null;
+  },
+
+  async resolve(thread: CommentThread, userId: string) {
+    if (thread.kind !== 'comment' || thread.status !== 'open') {
+      throw new BadRequestError(
+        'Only open comment threads can be resolved',
+        'INVALID_STATE',
+      );
+    }
+    return this.setStatus(thread, 'resolved', userId);
+  },
+
+  async reopen(thread: CommentThread) {
+    if (thread.status !== 'resolved') {
+      throw new BadRequestError(
+        'Only resolved threads can be reopened',
+        'INVALID_STATE',
+      );
+    }
+    return this.setStatus(thread, 'open', null);
+  },
+
+  async reject(thread: CommentThread, userId: string) {
+    if (thread.kind !== 'suggestion' || thread.status !== 'open') {
+      throw new BadRequestError(
+        'Only open suggestions can be rejected',
+        'INVALID_STATE',
+      );
+    }
+    return this.setStatus(thread, 'rejected', userId);
+  },
+
+  /**
+   * Write a suggestion into the document. Open collaborative sessions get
+   * the edit live; otherwise the stored state is edited. Either way the
+   * result is saved as a new version, which the thread records.
+   */
+  async accept(thread: CommentThread, userId: string) {
+    if (thread.kind !== 'suggestion' || thread.status !== 'open') {
+      throw new BadRequestError(
+        'Only open suggestions can be accepted',
+        'INVALID_STATE',
+      );
+    }
+    const { documentId } = thread;
+
+    // Locate the passage in the latest text, including unsaved live edits
+    await collabService.flush(documentId);
+    const doc = await loadText(documentId);
+    const position = mentionService.resolveMentionPosition(
+      thread,
+      doc.content,
+      doc.segments,
+    );
+    if (
+      !position ||
+      doc.content.slice(position.absoluteStart, position.absoluteEnd) !==
+        thread.originalText
+    ) {
+      throw staleSuggestion();
+    }
+
+    const edit: TextEdit = {
+      start: position.absoluteStart,
+      end: position.absoluteEnd,
+      replacement: thread.suggestedText ?? '',
+      expected: thread.originalText,
+    };
+
+    let currentVersion: number;
+    const applied = await collabService.applyEdit(documentId, (live) =>
+      replaceTextRange(live, edit),
+    );
+    if (applied === false) throw staleSuggestion();
+
+    if (applied) {
+      const [saved] = await db
+        .select({ currentVersion: documents.currentVersion })
+        .from(documents)
+        .where(eq(documents.id, documentId))
+        .limit(1);
+      currentVersion = saved?.currentVersion ?? 0;
+    } else {
+      // Documents saved before collaboration existed only have text
+      const state =
+        doc.yjsState ||
+        (doc.content
+          ? contentJsonToYjsState(textToContentJson(doc.content))
+          : null);
+      const yjsState = state ? replaceTextInState(state, edit) : null;
+      const contentJson = yjsState ? yjsStateToContentJson(yjsState) : null;
+      if (!yjsState || !contentJson) throw staleSuggestion();
+
+      const content = contentJsonToPlainText(contentJson);
+      await documentsService.update(documentId, userId, { content, yjsState });
+      currentVersion = await versioningService.createVersion(
+        documentId,
+        yjsState,
+        content,
+      );
+    }
+
+    const [updated] = await db
+      .update(commentThreads)
+      .set({
+        status: 'accepted',
+        resolvedBy: userId,
+        resolvedAt: new Date(),
+        appliedVersion: currentVersion,
+        updatedAt: new Date(),
+      })
+      .where(eq(commentThreads.id, thread.id))
+      .returning();
+    this.broadcast(updated);
+
+    logger.info(
+      { documentId, threadId: thread.id, userId, currentVersion },
+      'Suggestion accepted',
+    );
+    return { thread: updated, currentVersion };
+  },
+
+  async setStatus(
+    thread: CommentThread,
+    status: CommentThreadStatus,
+    userId: string | null,
+  ) {
+    const [updated] = await db
+      .update(commentThreads)
+      .set({
+        status,
+        resolvedBy: userId,
+        resolvedAt: userId ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(commentThreads.id, thread.id))
+      .returning();
+    this.broadcast(updated);
+    return updated;
+  },
+
+  broadcast(thread: CommentThread) {
+    sseService.broadcastToDocument(thread.documentId, 'comments-updated', {
+      documentId: thread.documentId,
+      threadId: thread.id,
+    });
+  },
+
+  async notifyMentioned(
+    thread: CommentThread,
+    comment: typeof comments.$inferSelect,
+    mentioned: Array<{ id: string; email: string }>,
+  ) {
+    const [[author], { title }] = await Promise.all([
+      db
+        .select({ username: users.username })
+        .from(users)
+        .where(eq(users.id, comment.authorId))
+        .limit(1),
+      loadText(thread.documentId),
+    ]);
+
+    await Promise.all(
+      mentioned.map(async (member) => {
+        sseService.broadcastToUser(member.id, 'comment-mention', {
+          documentId: thread.documentId,
+          threadId: thread.id,
+          commentId: comment.id,
+          authorId: comment.authorId,
+        });
+        try {
+          await emailService.sendCommentMention(member.email, {
+            documentId: thread.documentId,
+            threadId: thread.id,
+            documentTitle: title,
+            authorName: author?.username ?? 'Someone',
+            excerpt: excerpt(comment.body),
+          });
+        } catch (error) {
+          logger.error(
+            { error, threadId: thread.id, userId: member.id },
+            'Failed to send comment mention email',
+          );
+        }
+      }),
+    );
+  },
+};
@@ -0,0 +1,10 @@
+/**
+ * Comments module - anchored comment threads, @mentions and suggested
+ * edits on documents.
+ */
+
+export type { CommentThread, CommentThreadStatus } from './comments.service';
+export { commentsService } from './comments.service';
+export { excerpt, parseMentionedUsernames } from './commentText';
+export type { EditableDoc, TextEdit } from './textEdit';
+export { replaceTextInState, replaceTextRange } from './textEdit';
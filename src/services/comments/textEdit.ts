@@ -0,0 +1,177 @@
+/**
+ * Replaces a range of a document's plain text inside its Yjs state, so an
+ * accepted suggestion keeps the surrounding formatting and merges with
+ * concurrent edits. Offsets are in the plain text the document's `content`
+ * is derived from: text blocks joined by a blank line, hard breaks as
+ * newlines.
+ */
+
+import { TEXTBLOCKS } from '../documentImport/contentJson';
+
+// yjs types resolve as ESM-only from this CommonJS build, so it is
+// required like in the Yjs state helpers
+const Y = require('yjs');
+
+interface XmlText {
+  toDelta(): Array<{ insert: unknown }>;
+  delete(index: number, length: number): void;
+  insert(index: number, text: string): void;
+}
+
+interface XmlElement {
+  nodeName: string;
+  toArray(): Array<XmlElement | XmlText>;
+}
+
+export interface EditableDoc {
+  getXmlFragment(name: string): { toArray(): unknown[] };
+  transact(fn: () => void, origin?: unknown): void;
+}
+
+export interface TextEdit {
+  start: number;
+  end: number;
+  replacement: string;
+  // Text the range must still hold; the edit is refused if it changed
+  expected?: string;
+}
+
+/** A run of editable text and where it sits in the plain text */
+interface TextRun {
+  text: XmlText;
+  start: number;
+  end: number;
+}
+
+const MAX_DEPTH = 100;
+
+function isXmlText(node: XmlElement | XmlText): node is XmlText {
+  return node instanceof Y.XmlText;
+}
+
+/** Plain text of a text node, ignoring embeds */
+function plainText(text: XmlText): string {
+  return text
+    .toDelta()
+    .map((op) => (typeof op.insert === 'string' ? op.insert : ''))
+    .join('');
+}
+
+/** Index into a text node for a plain-text offset within it */
+function yjsIndex(text: XmlText, offset: number): number {
+  let plain = 0;
+  let index = 0;
+  for (const op of text.toDelta()) {
+    if (typeof op.insert !== 'string') {
+      index += 1;
+      continue;
+    }
+    if (offset <= plain + op.insert.length) {
+      return index + (offset - plain);
+    }
+    plain += op.insert.length;
+    index += op.insert.length;
+  }
+  return index;
+}
+
+/** Text runs of one block, in order; returns the block's text length */
+function collectInline(
+  nodes: Array<XmlElement | XmlText>,
+  start: number,
+  runs: TextRun[],
+  depth: number,
+): number {
+  if (depth > MAX_DEPTH) return 0;
+  let offset = start;
+  for (const node of nodes) {
+    if (isXmlText(node)) {
+      const length = plainText(node).length;
+      runs.push({ text: node, start: offset, end: offset + length });
+      offset += length;
+    } else if (node.nodeName === 'hardBreak') {
+      offset += 1;
+    } else {
+      offset += collectInline(node.toArray(), offset, runs, depth + 1);
+    }
+  }
+  return offset - start;
+}
+
+function collectRuns(doc: EditableDoc): TextRun[] {
+  let blocks = doc.getXmlFragment('prosemirror').toArray() as Array<
+    XmlElement | XmlText
+  >;
+  const [root] = blocks;
+  if (blocks.length === 1 && !isXmlText(root) && root.nodeName === 'doc') {
+    blocks = root.toArray();
+  }
+
+  const runs: TextRun[] = [];
+  let offset = 0;
+  let first = true;
+
+  const visit = (nodes: Array<XmlElement | XmlText>, depth: number) => {
+    if (depth > MAX_DEPTH) return;
+    for (const node of nodes) {
+      if (isXmlText(node)) continue;
+      if (!TEXTBLOCKS.has(node.nodeName)) {
+        visit(node.toArray(), depth + 1);
+        continue;
+      }
+      // Empty blocks are dropped from the plain text
+      const blockRuns: TextRun[] = [];
+      const start = first ? offset : offset + 2;
+      const length = collectInline(node.toArray(), start, blockRuns, 0);
+      if (length === 0) continue;
+      runs.push(...blockRuns);
+      offset = start + length;
+      first = false;
+    }
+  };
+  visit(blocks, 0);
+
+  return runs;
+}
+
+/**
+ * Replace plain-text [start, end) with the edit's replacement. The range
+ * must lie within one run of text (not across paragraphs or line breaks)
+ * and still hold the expected text; returns false otherwise and leaves the
+ * document untouched. Inserted text takes the formatting of the text
+ * before it.
+ */
+export function replaceTextRange(
+  doc: EditableDoc,
+  { start, end, replacement, expected }: TextEdit,
+  origin?: unknown,
+): boolean {
+  if (start < 0 || end < start) return false;
+  const run = collectRuns(doc).find((r) => start >= r.start && end <= r.end);
+  if (!run) return false;
+  if (
+    expected !== undefined &&
+    plainText(run.text).slice(start - run.start, end - run.start) !== expected
+  ) {
+    return false;
+  }
+
+  const from = yjsIndex(run.text, start - run.start);
+  const to = yjsIndex(run.text, end - run.start);
+  doc.transact(() => {
+    if (to > from) run.text.delete(from, to - from);
+    if (replacement) run.text.insert(from, replacement);
+  }, origin);
+  return true;
+}
+
+/** Apply a replacement to a stored base64 Yjs state; null if it cannot apply */
+export function replaceTextInState(
+  yjsState: string,
+  edit: TextEdit,
+): string | null {
+  const doc = new Y.Doc();
+  Y.applyUpdate(doc, Buffer.from(yjsState, 'base64'));
+  if (!replaceTextRange(doc, edit)) return null;
+  return Buffer.from(Y.encodeStateAsUpdate(doc)).toString('base64');
+}
@@ -9,6 +9,7 @@
  * - Progressive updates with unified diff format
  * - Edit chain tracking with forced regeneration at N=10
  * - NO_CHANGE support to avoid unnecessary updates
+ * - User-edited descriptions are kept; the generated text becomes a proposal
  */
 
 import type { FacetType } from '../../types/storyNodes';
@@ -20,6 +21,7 @@ import {
 } from '../../utils/diffUtils';
 import { extractJson, isNoChangeResponse } from '../../utils/llmUtils';
 import { logger } from '../../utils/logger';
+import { changeLogService } from '../changelog/changelog.service';
 import { graphService } from '../graph/graph.service';
 import type { StoredCharacterState, StoredFacet } from '../graph/graph.types';
 
@@ -32,14 +34,18 @@ export interface EntityForDescription {
   currentState?: StoredCharacterState | null;
   currentDescription?: string;
   editChainLength?: number;
+  /** User edited the description by hand; never overwrite it */
+  descriptionLocked?: boolean;
 }
 
 export interface DescriptionResult {
   entityId: string;
   description: string;
-  method: 'initial' | 'edit' | 'regenerate' | 'no_change';
+  method: 'initial' | 'edit' | 'regenerate' | 'no_change' | 'locked';
   diff?: string;
   editChainLength: number;
+  /** Generated text that was held back because the description is locked */
+  proposedDescription?: string;
 }
 
 export interface BatchDescriptionInput {
@@ -348,6 +354,28 @@ async function updateDescriptionProgressive(
   };
 }
 
+/**
+ * Keep a user-edited description, carrying any generated text as a proposal.
+ */
+function keepUserDescription(
+  entity: EntityForDescription,
+  generated: DescriptionResult,
+): DescriptionResult {
+  const current = entity.currentDescription || '';
+  const proposed =
+    generated.method !== 'no_change' && generated.description !== current
+      ? generated.description
+      : undefined;
+
+  return {
+    entityId: entity.id,
+    description: current,
+    method: proposed ? 'locked' : 'no_change',
+    proposedDescription: proposed,
+    editChainLength: entity.editChainLength ?? 0,
+  };
+}
+
 export const descriptionService = {
   /**
    * Generate descriptions for multiple entities in batches.
@@ -403,7 +431,17 @@ export const descriptionService = {
       });
     }
 
-    return results;
+    const lockedById = new Map(
+      entities.filter((e) => e.descriptionLocked).map((e) => [e.id, e]),
+    );
+    if (lockedById.size === 0) {
+      return results;
+    }
+
+    return results.map((result) => {
+      const entity = lockedById.get(result.entityId);
+      return entity ? keepUserDescription(entity, result) : result;
+    });
   },
 
   /**
@@ -442,13 +480,27 @@ export const descriptionService = {
   /**
    * Update an entity's description based on facet changes.
    * Uses progressive edit with unified diff format.
+   * A description the user edited is never replaced; checks the changelog
+   * unless the caller already set descriptionLocked.
    */
   async updateDescription(
     entity: EntityForDescription,
     facetChanges: string,
     llmGenerate: (prompt: string) => Promise<string>,
   ): Promise<DescriptionResult> {
-    return updateDescriptionProgressive(entity, facetChanges, llmGenerate);
+    const locked =
+      entity.descriptionLocked ??
+      (await changeLogService.getUserEditLocks([entity.id])).isFieldLocked(
+        entity.id,
+        'description',
+      );
+
+    const result = await updateDescriptionProgressive(
+      entity,
+      facetChanges,
+      llmGenerate,
+    );
+    return locked ? keepUserDescription(entity, result) : result;
   },
 
   /**
@@ -0,0 +1,528 @@
+/**
+ * Converts imported Markdown, HTML and plain text into editor documents
+ * (ProseMirror JSON using the Tiptap StarterKit node and mark names).
+ */
+
+import type { ChildNode, Element } from 'domhandler';
+import { isTag, isText } from 'domhandler';
+import { parseDocument } from 'htmlparser2';
+import type { ProseMirrorNode } from '../export/types';
+
+type Mark = NonNullable<ProseMirrorNode['marks']>[number];
+
+const MAX_DEPTH = 100;
+
+export const TEXTBLOCKS = new Set(['paragraph', 'heading', 'codeBlock']);
+
+function textNode(text: string, marks: Mark[]): ProseMirrorNode | null {
+  if (!text) return null;
+  return marks.length > 0
+    ? { type: 'text', text, marks }
+    : { type: 'text', text };
+}
+
+/** Join adjacent text nodes that carry the same marks */
+function mergeText(nodes: ProseMirrorNode[]): ProseMirrorNode[] {
+  const merged: ProseMirrorNode[] = [];
+  for (const node of nodes) {
+    const prev = merged[merged.length - 1];
+    if (
+      prev?.type === 'text' &&
+      node.type === 'text' &&
+      JSON.stringify(prev.marks ?? []) === JSON.stringify(node.marks ?? [])
+    ) {
+      merged[merged.length - 1] = { ...prev, text: `${prev.text}${node.text}` };
+    } else {
+      merged.push(node);
+    }
+  }
+  return merged;
+}
+
+function trimInline(nodes: ProseMirrorNode[]): ProseMirrorNode[] {
+  const result = mergeText(nodes).map((n) => ({ ...n }));
+  while (result[0]?.type === 'hardBreak') result.shift();
+  while (result[result.length - 1]?.type === 'hardBreak') result.pop();
+
+  const first = result[0];
+  if (first?.type === 'text') first.text = first.text?.trimStart();
+  const last = result[result.length - 1];
+  if (last?.type === 'text') last.text = last.text?.trimEnd();
+
+  return result.filter((n) => n.type !== 'text' || n.text);
+}
+
+function block(
+  type: string,
+  content: ProseMirrorNode[],
+  attrs?: Record<string, unknown>,
+): ProseMirrorNode {
+  return {
+    type,
+    ...(attrs && { attrs }),
+    ...(content.length > 0 && { content }),
+  };
+}
+
+function emptyDoc(): ProseMirrorNode {
+  return { type: 'doc', content: [{ type: 'paragraph' }] };
+}
+
+function doc(content: ProseMirrorNode[]): ProseMirrorNode {
+  return content.length > 0 ? { type: 'doc', content } : emptyDoc();
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+const INLINE_PATTERN =
+  /(\*\*|__)(.+?)\1|(\*|_)(.+?)\3|~~(.+?)~~|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\\([\\`*_[\]#>+\-.!~])/;
+
+function parseInline(text: string, marks: Mark[] = []): ProseMirrorNode[] {
+  const nodes: Array<ProseMirrorNode | null> = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push(textNode(rest, marks));
+      break;
+    }
+
+    nodes.push(textNode(rest.slice(0, match.index), marks));
+    if (match[2] !== undefined) {
+      nodes.push(...parseInline(match[2], [...marks, { type: 'bold' }]));
+    } else if (match[4] !== undefined) {
+      nodes.push(...parseInline(match[4], [...marks, { type: 'italic' }]));
+    } else if (match[5] !== undefined) {
+      nodes.push(...parseInline(match[5], [...marks, { type: 'strike' }]));
+    } else if (match[6] !== undefined) {
+      nodes.push(textNode(match[6], [...marks, { type: 'code' }]));
+    } else if (match[7] !== undefined) {
+      nodes.push(
+        ...parseInline(match[7], [
+          ...marks,
+          { type: 'link', attrs: { href: match[8] } },
+        ]),
+      );
+    } else {
+      nodes.push(textNode(match[9], marks));
+    }
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return mergeText(nodes.filter((n): n is ProseMirrorNode => n !== null));
+}
+
+const HEADING_LINE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_LINE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_LINE = /^\s{0,3}>\s?/;
+const LIST_LINE = /^(\s{0,3})([-*+]|\d+[.)])\s+(.*)$/;
+const FENCE_LINE = /^\s{0,3}```/;
+
+function isBlockStart(line: string): boolean {
+  return (
+    HEADING_LINE.test(line) ||
+    RULE_LINE.test(line) ||
+    QUOTE_LINE.test(line) ||
+    LIST_LINE.test(line) ||
+    FENCE_LINE.test(line)
+  );
+}
+
+function parseMarkdownBlocks(
+  lines: string[],
+  depth: number,
+): ProseMirrorNode[] {
+  if (depth > MAX_DEPTH) return [];
+  const blocks: ProseMirrorNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE_LINE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_LINE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const text = code.join('\n');
+      blocks.push(block('codeBlock', text ? [{ type: 'text', text }] : []));
+      continue;
+    }
+
+    const heading = HEADING_LINE.exec(line);
+    if (heading) {
+      blocks.push(
+        block('heading', parseInline(heading[2]), {
+          level: heading[1].length,
+        }),
+      );
+      i++;
+      continue;
+    }
+
+    if (RULE_LINE.test(line)) {
+      blocks.push({ type: 'horizontalRule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_LINE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_LINE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE_LINE, ''));
+        i++;
+      }
+      blocks.push(block('blockquote', parseMarkdownBlocks(quoted, depth + 1)));
+      continue;
+    }
+
+    const listStart = LIST_LINE.exec(line);
+    if (listStart) {
+      const ordered = /\d/.test(listStart[2]);
+      const items: ProseMirrorNode[] = [];
+
+      while (i < lines.length) {
+        // Blank lines between items keep the list going
+        if (!lines[i].trim() && LIST_LINE.test(lines[i + 1] ?? '')) {
+          i++;
+          continue;
+        }
+        const item = LIST_LINE.exec(lines[i]);
+        if (!item || /\d/.test(item[2]) !== ordered) break;
+
+        const indent = item[1].length + item[2].length + 1;
+        const body = [item[3]];
+        i++;
+        // Continuation lines are indented past the marker
+        while (i < lines.length) {
+          const next = lines[i];
+          const nextIndent = next.length - next.trimStart().length;
+          if (next.trim() && nextIndent < indent) break;
+          if (!next.trim() && !lines[i + 1]?.startsWith(' '.repeat(indent))) {
+            break;
+          }
+          body.push(next.slice(Math.min(indent, nextIndent)));
+          i++;
+        }
+
+        const content = parseMarkdownBlocks(body, depth + 1);
+        items.push(
+          block(
+            'listItem',
+            content.length > 0 ? content : [{ type: 'paragraph' }],
+          ),
+        );
+      }
+
+      const start = ordered ? Number.parseInt(listStart[2], 10) : 1;
+      blocks.push(
+        ordered
+          ? block('orderedList', items, { start })
+          : block('bulletList', items),
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push(block('paragraph', parseInline(paragraph.join(' '))));
+  }
+
+  return blocks;
+}
+
+export function markdownToContentJson(markdown: string): ProseMirrorNode {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  return doc(parseMarkdownBlocks(lines, 0));
+}
+
+// ---------------------------------------------------------------------------
+// HTML (Google Docs export, mammoth DOCX conversion)
+// ---------------------------------------------------------------------------
+
+const HEADING_TAGS: Record<string, number> = {
+  h1: 1,
+  h2: 2,
+  h3: 3,
+  h4: 4,
+  h5: 5,
+  h6: 6,
+};
+
+const CONTAINER_TAGS = new Set([
+  'html',
+  'body',
+  'div',
+  'section',
+  'article',
+  'main',
+  'header',
+  'footer',
+  'li',
+  'table',
+  'thead',
+  'tbody',
+  'tr',
+  'td',
+  'th',
+]);
+
+const BLOCK_TAGS = new Set([
+  ...Object.keys(HEADING_TAGS),
+  ...CONTAINER_TAGS,
+  'p',
+  'ul',
+  'ol',
+  'blockquote',
+  'pre',
+  'hr',
+]);
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'title', 'img']);
+
+/** Marks implied by an element, including Google Docs' inline styles */
+function marksFor(element: Element): Mark[] {
+  const style = (element.attribs.style ?? '').replace(/\s+/g, '');
+  const marks: Mark[] = [];
+
+  switch (element.name) {
+    case 'strong':
+    case 'b':
+      marks.push({ type: 'bold' });
+      break;
+    case 'em':
+    case 'i':
+      marks.push({ type: 'italic' });
+      break;
+    case 'u':
+      marks.push({ type: 'underline' });
+      break;
+    case 's':
+    case 'strike':
+    case 'del':
+      marks.push({ type: 'strike' });
+      break;
+    case 'code':
+      marks.push({ type: 'code' });
+      break;
+    case 'a':
+      if (element.attribs.href) {
+        marks.push({ type: 'link', attrs: { href: element.attribs.href } });
+      }
+      break;
+  }
+
+  if (/font-weight:(bold|[6-9]00)/.test(style)) marks.push({ type: 'bold' });
+  if (style.includes('font-style:italic')) marks.push({ type: 'italic' });
+  if (style.includes('text-decoration:underline')) {
+    marks.push({ type: 'underline' });
+  }
+  if (style.includes('text-decoration:line-through')) {
+    marks.push({ type: 'strike' });
+  }
+  return marks;
+}
+
+function addMarks(existing: Mark[], added: Mark[]): Mark[] {
+  const result = [...existing];
+  for (const mark of added) {
+    if (!result.some((m) => m.type === mark.type)) result.push(mark);
+  }
+  return result;
+}
+
+function inlineFromHtml(
+  nodes: ChildNode[],
+  marks: Mark[],
+  depth: number,
+): ProseMirrorNode[] {
+  if (depth > MAX_DEPTH) return [];
+  const result: ProseMirrorNode[] = [];
+
+  for (const node of nodes) {
+    if (isText(node)) {
+      const text = textNode(node.data.replace(/\s+/g, ' '), marks);
+      if (text) result.push(text);
+      continue;
+    }
+    if (!isTag(node) || SKIPPED_TAGS.has(node.name)) continue;
+    if (node.name === 'br') {
+      result.push({ type: 'hardBreak' });
+      continue;
+    }
+    result.push(
+      ...inlineFromHtml(
+        node.children,
+        addMarks(marks, marksFor(node)),
+        depth + 1,
+      ),
+    );
+  }
+
+  return result;
+}
+
+function textContent(node: ChildNode): string {
+  if (isText(node)) return node.data;
+  if (!isTag(node)) return '';
+  if (node.name === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+function blocksFromHtml(nodes: ChildNode[], depth: number): ProseMirrorNode[] {
+  if (depth > MAX_DEPTH) return [];
+  const blocks: ProseMirrorNode[] = [];
+  let pendingInline: ChildNode[] = [];
+
+  const flush = () => {
+    const content = trimInline(inlineFromHtml(pendingInline, [], depth + 1));
+    pendingInline = [];
+    if (content.length > 0) blocks.push(block('paragraph', content));
+  };
+
+  for (const node of nodes) {
+    if (isTag(node) && SKIPPED_TAGS.has(node.name)) continue;
+    if (!isTag(node) || !BLOCK_TAGS.has(node.name)) {
+      pendingInline.push(node);
+      continue;
+    }
+    flush();
+    blocks.push(...blockFromHtml(node, depth + 1));
+  }
+  flush();
+
+  return blocks;
+}
+
+function blockFromHtml(element: Element, depth: number): ProseMirrorNode[] {
+  const { name } = element;
+
+  if (HEADING_TAGS[name]) {
+    const content = trimInline(inlineFromHtml(element.children, [], depth));
+    return content.length > 0
+      ? [block('heading', content, { level: HEADING_TAGS[name] })]
+      : [];
+  }
+
+  switch (name) {
+    case 'p': {
+      const content = trimInline(inlineFromHtml(element.children, [], depth));
+      return content.length > 0 ? [block('paragraph', content)] : [];
+    }
+    case 'ul':
+    case 'ol': {
+      const items = element.children
+        .filter(
+          (child): child is Element => isTag(child) && child.name === 'li',
+        )
+        .map((li) => {
+          const content = blocksFromHtml(li.children, depth + 1);
+          return block(
+            'listItem',
+            content.length > 0 ? content : [{ type: 'paragraph' }],
+          );
+        });
+      if (items.length === 0) return [];
+      if (name === 'ul') return [block('bulletList', items)];
+      const start = Number.parseInt(element.attribs.start ?? '1', 10) || 1;
+      return [block('orderedList', items, { start })];
+    }
+    case 'blockquote': {
+      const content = blocksFromHtml(element.children, depth + 1);
+      return content.length > 0 ? [block('blockquote', content)] : [];
+    }
+    case 'pre': {
+      const text = textContent(element).replace(/\n$/, '');
+      return [block('codeBlock', text ? [{ type: 'text', text }] : [])];
+    }
+    case 'hr':
+      return [{ type: 'horizontalRule' }];
+    default:
+      return blocksFromHtml(element.children, depth + 1);
+  }
+}
+
+export function htmlToContentJson(html: string): ProseMirrorNode {
+  return doc(blocksFromHtml(parseDocument(html).children, 0));
+}
+
+// ---------------------------------------------------------------------------
+// Plain text
+// ---------------------------------------------------------------------------
+
+/**
+ * Blank lines separate paragraphs. Single newlines become hard breaks,
+ * or spaces when `joinLines` is set (for PDF text wrapped at the page edge).
+ */
+export function textToContentJson(
+  text: string,
+  options: { joinLines?: boolean } = {},
+): ProseMirrorNode {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  return doc(
+    paragraphs.map((paragraph) => {
+      if (options.joinLines) {
+        return block('paragraph', [
+          { type: 'text', text: paragraph.replace(/\s*\n\s*/g, ' ') },
+        ]);
+      }
+      const content: ProseMirrorNode[] = [];
+      paragraph.split('\n').forEach((line, i) => {
+        if (i > 0) content.push({ type: 'hardBreak' });
+        if (line) content.push({ type: 'text', text: line });
+      });
+      return block('paragraph', content);
+    }),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Plain text extraction
+// ---------------------------------------------------------------------------
+
+function inlineText(node: ProseMirrorNode): string {
+  if (node.type === 'text') return node.text ?? '';
+  if (node.type === 'hardBreak') return '\n';
+  return (node.content ?? []).map(inlineText).join('');
+}
+
+function blockTexts(nodes: ProseMirrorNode[], depth: number): string[] {
+  if (depth > MAX_DEPTH) return [];
+  return nodes.flatMap((node) => {
+    if (TEXTBLOCKS.has(node.type)) return [inlineText(node)];
+    return blockTexts(node.content ?? [], depth + 1);
+  });
+}
+
+export const PLAIN_TEXT_BLOCK_SEPARATOR = '\n\n';
+
+/** Text of each non-empty text block under the nodes, in document order */
+export function plainTextBlocks(nodes: ProseMirrorNode[]): string[] {
+  return blockTexts(nodes, 0).filter((text) => text.length > 0);
+}
+
+/** Plain-text content for an editor document, blocks separated by a blank line */
+export function contentJsonToPlainText(contentJson: ProseMirrorNode): string {
+  return plainTextBlocks(contentJson.content ?? []).join(
+    PLAIN_TEXT_BLOCK_SEPARATOR,
+  );
+}
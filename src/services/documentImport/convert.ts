@@ -0,0 +1,129 @@
+/**
+ * File-to-editor conversion shared by Google Drive and direct uploads.
+ * Each converter produces the editor document (contentJson), its Yjs
+ * state and the plain-text content used for segmentation and analysis.
+ */
+
+import { BadRequestError } from '../../utils/errors';
+import type { ProseMirrorNode } from '../export/types';
+import {
+  contentJsonToPlainText,
+  htmlToContentJson,
+  markdownToContentJson,
+  textToContentJson,
+} from './contentJson';
+import { contentJsonToYjsState } from './yjsState';
+
+export const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** Formats that can be uploaded directly (Drive also accepts Google Docs) */
+export const IMPORT_MIME_TYPES = [
+  DOCX_MIME_TYPE,
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+];
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  docx: DOCX_MIME_TYPE,
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+};
+
+export interface EditorContent {
+  plainText: string;
+  yjsState: string;
+  contentJson: ProseMirrorNode;
+}
+
+export interface ConvertedContent extends EditorContent {
+  title: string;
+}
+
+/**
+ * Browsers report Markdown (and sometimes DOCX) as octet-stream, so fall
+ * back to the file extension. Returns null for unsupported files.
+ */
+export function resolveImportMimeType(
+  filename: string,
+  reportedMimeType: string,
+): string | null {
+  if (IMPORT_MIME_TYPES.includes(reportedMimeType)) return reportedMimeType;
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_MIME_TYPES[extension] ?? null;
+}
+
+function fromContentJson(contentJson: ProseMirrorNode): EditorContent {
+  return {
+    plainText: contentJsonToPlainText(contentJson),
+    yjsState: contentJsonToYjsState(contentJson),
+    contentJson,
+  };
+}
+
+export function htmlToYjsState(html: string): EditorContent {
+  return fromContentJson(htmlToContentJson(html));
+}
+
+export function textToYjsState(text: string): EditorContent {
+  return fromContentJson(textToContentJson(text));
+}
+
+export function markdownToYjsState(md: string): EditorContent {
+  return fromContentJson(markdownToContentJson(md));
+}
+
+export async function docxToYjsState(buffer: Buffer): Promise<EditorContent> {
+  let html: string;
+  try {
+    const mammoth = await import('mammoth');
+    // HTML keeps Word headings and emphasis that raw text would drop
+    const result = await mammoth.convertToHtml({ buffer });
+    html = result.value;
+  } catch {
+    throw new BadRequestError('Failed to parse DOCX file', 'INVALID_FILE');
+  }
+  return htmlToYjsState(html);
+}
+
+export async function pdfToYjsState(buffer: Buffer): Promise<EditorContent> {
+  let text: string;
+  try {
+    const pdfParse = (await import('pdf-parse')).default;
+    const data = await pdfParse(buffer);
+    text = data.text;
+  } catch {
+    throw new BadRequestError('Failed to parse PDF file', 'INVALID_FILE');
+  }
+  return fromContentJson(textToContentJson(text, { joinLines: true }));
+}
+
+export async function convertToEditorFormat(
+  content: ArrayBuffer | Buffer,
+  mimeType: string,
+  filename: string,
+): Promise<ConvertedContent> {
+  const title = filename.replace(/\.[^/.]+$/, '');
+  const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content);
+
+  switch (mimeType) {
+    case 'text/html':
+      return { title, ...htmlToYjsState(buffer.toString('utf-8')) };
+    case 'text/plain':
+      return { title, ...textToYjsState(buffer.toString('utf-8')) };
+    case 'text/markdown':
+      return { title, ...markdownToYjsState(buffer.toString('utf-8')) };
+    case DOCX_MIME_TYPE:
+      return { title, ...(await docxToYjsState(buffer)) };
+    case 'application/pdf':
+      return { title, ...(await pdfToYjsState(buffer)) };
+    default:
+      throw new BadRequestError(
+        `Unsupported mime type: ${mimeType}`,
+        'UNSUPPORTED_FILE_TYPE',
+      );
+  }
+}
@@ -0,0 +1,67 @@
+import { logger } from '../../utils/logger';
+import { activityService } from '../activity.service';
+import { documentsService } from '../documents';
+import { convertToEditorFormat } from './convert';
+
+interface FileImportOptions {
+  userId: string;
+  filename: string;
+  mimeType: string;
+  buffer: Buffer;
+  title?: string;
+}
+
+interface FileImportResult {
+  documentId: string;
+  title: string;
+}
+
+/**
+ * Import an uploaded file as a new document, tracked as an activity the
+ * same way Drive imports are.
+ */
+export async function importDocumentFile(
+  options: FileImportOptions,
+): Promise<FileImportResult> {
+  const { userId, filename, mimeType, buffer } = options;
+
+  const activity = await activityService.create({
+    userId,
+    activityType: 'file_import',
+    targetType: 'document',
+    targetId: '00000000-0000-0000-0000-000000000000',
+    title: `Importing: ${filename}`,
+    viewedAt: new Date(),
+  });
+
+  try {
+    const converted = await convertToEditorFormat(buffer, mimeType, filename);
+
+    const document = await documentsService.createFromImport(userId, {
+      title: options.title || converted.title,
+      content: converted.plainText,
+      contentJson: converted.contentJson,
+      yjsState: converted.yjsState,
+    });
+
+    await activityService.updateStatus(activity.id, 'completed', {
+      resultUrl: `/documents/${document.id}`,
+    });
+
+    logger.info(
+      { userId, documentId: document.id, filename, mimeType },
+      'Document imported from file',
+    );
+
+    return { documentId: document.id, title: document.title };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Failed to import file';
+    await activityService.updateStatus(activity.id, 'failed', {
+      errorMessage,
+    });
+
+    logger.error({ userId, filename, error }, 'Failed to import file');
+    throw error;
+  }
+}
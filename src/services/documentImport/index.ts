@@ -0,0 +1,17 @@
+/**
+ * Document import - converts DOCX, PDF, Markdown and plain text files into
+ * editor documents.
+ */
+
+export {
+  htmlToContentJson,
+  markdownToContentJson,
+  textToContentJson,
+} from './contentJson';
+export type { ConvertedContent, EditorContent } from './convert';
+export {
+  convertToEditorFormat,
+  IMPORT_MIME_TYPES,
+  resolveImportMimeType,
+} from './convert';
+export { importDocumentFile } from './importFile';
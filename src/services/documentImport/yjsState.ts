@@ -0,0 +1,207 @@
+/**
+ * Builds the collaborative (Yjs) state for an imported editor document.
+ * Marks are stored as XmlText formatting attributes and node attrs as
+ * element attributes, matching y-prosemirror's encoding.
+ */
+
+import type { ProseMirrorNode } from '../export/types';
+
+// yjs types resolve as ESM-only from this CommonJS build, so it is
+// required like in the original Drive importer and typed structurally
+const Y = require('yjs');
+
+interface XmlText {
+  length: number;
+  insert(
+    index: number,
+    text: string,
+    attributes?: Record<string, unknown>,
+  ): void;
+}
+
+interface XmlElement {
+  push(content: Array<XmlElement | XmlText>): void;
+  setAttribute(name: string, value: unknown): void;
+}
+
+interface XmlContainer extends XmlElement {
+  length: number;
+  delete(index: number, length: number): void;
+  toArray(): unknown[];
+}
+
+interface XmlTextReader {
+  toDelta(): Array<{ insert: unknown; attributes?: Record<string, unknown> }>;
+}
+
+interface XmlElementReader {
+  nodeName: string;
+  getAttributes(): Record<string, unknown>;
+  toArray(): Array<XmlElementReader | XmlTextReader>;
+}
+
+const MAX_DEPTH = 100;
+
+/**
+ * Append nodes to a parent that is already part of the doc; Yjs types
+ * only report their length once integrated.
+ */
+function appendNodes(
+  parent: XmlElement,
+  nodes: ProseMirrorNode[],
+  depth: number,
+): void {
+  if (depth > MAX_DEPTH) return;
+  let text: XmlText | null = null;
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      if (!text) {
+        const created: XmlText = new Y.XmlText();
+        parent.push([created]);
+        text = created;
+      }
+      const attributes = Object.fromEntries(
+        (node.marks ?? []).map((mark) => [mark.type, mark.attrs ?? {}]),
+      );
+      text.insert(text.length, node.text ?? '', attributes);
+      continue;
+    }
+
+    text = null;
+    const element: XmlElement = new Y.XmlElement(node.type);
+    parent.push([element]);
+    for (const [key, value] of Object.entries(node.attrs ?? {})) {
+      if (value !== undefined && value !== null) {
+        element.setAttribute(key, value);
+      }
+    }
+    appendNodes(element, node.content ?? [], depth + 1);
+  }
+}
+
+/** Base64-encoded Yjs update for an editor document */
+export function contentJsonToYjsState(contentJson: ProseMirrorNode): string {
+  const doc = new Y.Doc();
+  const xmlFragment = doc.getXmlFragment('prosemirror');
+
+  doc.transact(() => {
+    // Same layout as the original Drive importer: one doc element at the root
+    const docNode = new Y.XmlElement('doc');
+    xmlFragment.push([docNode]);
+    appendNodes(docNode, contentJson.content ?? [], 0);
+  });
+
+  const state = Y.encodeStateAsUpdate(doc);
+  return Buffer.from(state).toString('base64');
+}
+
+/**
+ * Replace the contents of a live document in one transaction, so connected
+ * editors receive it as a single update. The document keeps its layout
+ * (one doc element at the root, or blocks directly in the fragment).
+ */
+export function replaceDocContent(
+  doc: {
+    getXmlFragment(name: string): unknown;
+    transact(fn: () => void, origin?: unknown): void;
+  },
+  contentJson: ProseMirrorNode,
+): void {
+  const fragment = doc.getXmlFragment('prosemirror') as XmlContainer;
+  const [root] = fragment.toArray();
+  const parent =
+    fragment.length === 1 &&
+    root instanceof Y.XmlElement &&
+    (root as XmlElementReader).nodeName === 'doc'
+      ? (root as XmlContainer)
+      : fragment;
+
+  doc.transact(() => {
+    parent.delete(0, parent.length);
+    appendNodes(parent, contentJson.content ?? [], 0);
+  });
+}
+
+function readNodes(
+  children: Array<XmlElementReader | XmlTextReader>,
+  depth: number,
+): ProseMirrorNode[] {
+  if (depth > MAX_DEPTH) return [];
+  const nodes: ProseMirrorNode[] = [];
+
+  for (const child of children) {
+    if (child instanceof Y.XmlText) {
+      for (const op of (child as XmlTextReader).toDelta()) {
+        if (typeof op.insert !== 'string') continue;
+        const marks = Object.entries(op.attributes ?? {}).map(
+          ([type, attrs]) =>
+            attrs && typeof attrs === 'object' && Object.keys(attrs).length > 0
+              ? { type, attrs: attrs as Record<string, unknown> }
+              : { type },
+        );
+        nodes.push(
+          marks.length > 0
+            ? { type: 'text', text: op.insert, marks }
+            : { type: 'text', text: op.insert },
+        );
+      }
+      continue;
+    }
+
+    const element = child as XmlElementReader;
+    const attrs = element.getAttributes();
+    const content = readNodes(element.toArray(), depth + 1);
+    nodes.push({
+      type: element.nodeName,
+      ...(Object.keys(attrs).length > 0 ? { attrs } : {}),
+      ...(content.length > 0 ? { content } : {}),
+    });
+  }
+
+  return nodes;
+}
+
+/**
+ * Editor document from a base64-encoded Yjs state, or null if the state
+ * cannot be decoded. Accepts both the importer's layout (one doc element
+ * at the root) and y-prosemirror's (blocks directly in the fragment).
+ */
+export function yjsStateToContentJson(
+  yjsState: string,
+): ProseMirrorNode | null {
+  try {
+    const doc = new Y.Doc();
+    Y.applyUpdate(doc, Buffer.from(yjsState, 'base64'));
+    let blocks: Array<XmlElementReader | XmlTextReader> = doc
+      .getXmlFragment('prosemirror')
+      .toArray();
+    const [root] = blocks;
+    if (
+      blocks.length === 1 &&
+      root instanceof Y.XmlElement &&
+      (root as XmlElementReader).nodeName === 'doc'
+    ) {
+      blocks = (root as XmlElementReader).toArray();
+    }
+    return { type: 'doc', content: readNodes(blocks, 0) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Current editor structure of a stored document. contentJson is only
+ * written on import, so the collaborative state is preferred when it has
+ * content.
+ */
+export function documentEditorContent(document: {
+  contentJson: unknown;
+  yjsState: string | null;
+}): ProseMirrorNode | null {
+  if (document.yjsState) {
+    const fromYjs = yjsStateToContentJson(document.yjsState);
+    if (fromYjs?.content?.length) return fromYjs;
+  }
+  return (document.contentJson as ProseMirrorNode | null) ?? null;
+}
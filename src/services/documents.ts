@@ -1,18 +1,38 @@
 import { and, desc, eq, gt, isNotNull, isNull, sql } from 'drizzle-orm';
 import { db } from '../config/database';
 import { documentMedia, documents, media, users } from '../models/schema';
-import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { computeStructuredDiff } from '../utils/diffUtils';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../utils/errors';
 import { logger } from '../utils/logger';
+import { authorizationService } from './authorization';
+import { collabService } from './collab';
+import { type DocumentRole, hasDocumentRole } from './collaborators/roles';
+import { textToContentJson } from './documentImport/contentJson';
+import { contentJsonToYjsState } from './documentImport/yjsState';
 import { graphService } from './graph/graph.service';
 import { getImageProvider } from './image-generation/factory';
 import { mediaService } from './mediaService';
 import { segmentService } from './segments';
 import { sseService } from './sse';
-import { summaryService } from './summarization';
+import { graphStoryNodesRepository } from './storyNodes';
+import { storySummaryService, summaryService } from './summarization';
 import { versioningService } from './versioning';
 
 const RETENTION_DAYS = 31;
 
+const EDITOR_UPDATE_FIELDS = new Set([
+  'content',
+  'yjsState',
+  'title',
+  'expectedVersion',
+  'forceOverwrite',
+]);
+
 function getDaysAgo(days: number): Date {
   const date = new Date();
   date.setDate(date.getDate() - days);
@@ -39,7 +59,24 @@ export class DocumentsService {
     return userDocuments;
   }
 
-  async get(documentId: string, userId: string) {
+  /**
+   * A document the user may act on with at least `minRole`. Owner-only
+   * unless the caller allows collaborators.
+   */
+  async get(
+    documentId: string,
+    userId: string,
+    minRole: DocumentRole = 'owner',
+  ) {
+    const { document } = await this.getWithRole(documentId, userId, minRole);
+    return document;
+  }
+
+  async getWithRole(
+    documentId: string,
+    userId: string,
+    minRole: DocumentRole = 'owner',
+  ) {
     const [document] = await db
       .select()
       .from(documents)
@@ -50,11 +87,16 @@ export class DocumentsService {
       throw new NotFoundError('Document not found');
     }
 
-    if (document.userId !== userId) {
+    const role: DocumentRole | null =
+      document.userId === userId
+        ? 'owner'
+        : await authorizationService.getCollaboratorRole(userId, documentId);
+
+    if (!hasDocumentRole(role, minRole)) {
       throw new ForbiddenError('Not authorized to access this document');
     }
 
-    return document;
+    return { document, role: role as DocumentRole };
   }
 
   async create(userId: string, title: string, content: string) {
@@ -88,35 +130,204 @@ export class DocumentsService {
     return document;
   }
 
-  async copy(sourceDocumentId: string, userId: string, newTitle: string) {
-    const source = await this.get(sourceDocumentId, userId);
+  /**
+   * Create a document from converted file content. The imported state is
+   * kept as version 0 so the original can always be restored.
+   */
+  async createFromImport(
+    userId: string,
+    input: {
+      title: string;
+      content: string;
+      contentJson: unknown;
+      yjsState: string;
+    },
+  ) {
+    const [user] = await db
+      .select({
+        defaultImageWidth: users.defaultImageWidth,
+        defaultImageHeight: users.defaultImageHeight,
+      })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
 
-    const segments = segmentService.computeSegments(source.content);
+    const segments = segmentService.computeSegments(input.content);
+
+    // No document without its restorable original
+    const document = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(documents)
+        .values({
+          userId,
+          title: input.title || this.generateTitle(input.content),
+          content: input.content,
+          contentJson: input.contentJson,
+          yjsState: input.yjsState,
+          segmentSequence: segments,
+          defaultImageWidth: user?.defaultImageWidth ?? 1024,
+          defaultImageHeight: user?.defaultImageHeight ?? 1024,
+        })
+        .returning();
+
+      await versioningService.createInitialVersion(
+        created.id,
+        input.yjsState,
+        input.content,
+        tx,
+      );
+      return created;
+    });
+
+    logger.info({ userId, documentId: document.id }, 'Document imported');
+
+    return document;
+  }
+
+  /**
+   * Copy a document. With fromVersion this forks an alternate draft from
+   * that version, recording the source document and version as lineage.
+   */
+  async copy(
+    sourceDocumentId: string,
+    userId: string,
+    newTitle: string,
+    options: { fromVersion?: number } = {},
+  ) {
+    const source = await this.get(sourceDocumentId, userId, 'editor');
+
+    let content = source.content;
+    let yjsState = source.yjsState;
+    if (options.fromVersion !== undefined) {
+      const version = await versioningService.getVersion(
+        sourceDocumentId,
+        options.fromVersion,
+      );
+      if (!version) {
+        throw new NotFoundError('Version not found');
+      }
+      content = version.content;
+      yjsState = version.yjsState || null;
+    }
+    const isFork = options.fromVersion !== undefined;
+
+    const segments = segmentService.computeSegments(content);
 
     const [document] = await db
       .insert(documents)
       .values({
         userId,
         title: newTitle,
-        content: source.content,
-        contentJson: source.contentJson,
-        yjsState: source.yjsState,
+        content,
+        // contentJson isn't versioned, so a fork falls back to content
+        contentJson: isFork ? null : source.contentJson,
+        yjsState,
         segmentSequence: segments,
         defaultImageWidth: source.defaultImageWidth,
         defaultImageHeight: source.defaultImageHeight,
         mediaModeEnabled: false,
         narrativeModeEnabled: false,
+        ...(isFork && {
+          forkedFromDocumentId: source.id,
+          forkedFromVersion: options.fromVersion,
+        }),
       })
       .returning();
 
+    if (isFork) {
+      try {
+        // The branch point is the draft's own version 0
+        await versioningService.createInitialVersion(
+          document.id,
+          yjsState ?? '',
+          content,
+        );
+        // The draft starts from the mainline's story graph, not an empty one
+        await graphStoryNodesRepository.copyToDocument(
+          { documentId: source.id, userId: source.userId },
+          { documentId: document.id, userId },
+        );
+      } catch (error) {
+        await this.discardFailedFork(document.id, userId);
+        throw error;
+      }
+    }
+
     logger.info(
-      { userId, documentId: document.id, sourceDocumentId },
-      'Document copied',
+      {
+        userId,
+        documentId: document.id,
+        sourceDocumentId,
+        fromVersion: options.fromVersion,
+      },
+      isFork ? 'Document forked' : 'Document copied',
     );
 
     return document;
   }
 
+  /**
+   * Remove a draft whose fork did not complete, with whatever part of the
+   * story graph was already copied. Versions cascade with the row.
+   */
+  private async discardFailedFork(documentId: string, userId: string) {
+    try {
+      await graphStoryNodesRepository.deleteAllForDocument(documentId, userId);
+    } catch (error) {
+      logger.error(
+        { error, documentId },
+        'Failed to delete story graph of failed fork',
+      );
+    }
+    await db.delete(documents).where(eq(documents.id, documentId));
+    logger.warn({ documentId }, 'Discarded failed fork');
+  }
+
+  /**
+   * Diff a forked draft against the document it was forked from: either
+   * the mainline as it is now, or the version the draft branched at.
+   */
+  async diffAgainstMainline(
+    documentId: string,
+    userId: string,
+    against: 'mainline' | 'fork-point' = 'mainline',
+  ) {
+    const draft = await this.get(documentId, userId, 'viewer');
+    if (!draft.forkedFromDocumentId || draft.forkedFromVersion === null) {
+      throw new NotFoundError('Document is not a forked draft');
+    }
+
+    const mainline = await this.get(
+      draft.forkedFromDocumentId,
+      userId,
+      'viewer',
+    );
+
+    let baseContent = mainline.content;
+    let baseVersion = mainline.currentVersion;
+    if (against === 'fork-point') {
+      const version = await versioningService.getVersion(
+        mainline.id,
+        draft.forkedFromVersion,
+      );
+      if (!version) {
+        throw new NotFoundError('Fork point version no longer exists');
+      }
+      baseContent = version.content;
+      baseVersion = version.versionNumber;
+    }
+
+    return {
+      mainline: {
+        documentId: mainline.id,
+        title: mainline.title,
+        versionNumber: baseVersion,
+      },
+      forkedFromVersion: draft.forkedFromVersion,
+      diff: computeStructuredDiff(baseContent, draft.content),
+    };
+  }
+
   async update(
     documentId: string,
     userId: string,
@@ -134,7 +345,12 @@ export class DocumentsService {
       forceOverwrite?: boolean;
     },
   ) {
-    const existing = await this.get(documentId, userId);
+    // Editors change the text; document settings stay with the owner
+    const settingsChanged = Object.entries(updates).some(
+      ([key, value]) => value !== undefined && !EDITOR_UPDATE_FIELDS.has(key),
+    );
+    const minRole: DocumentRole = settingsChanged ? 'owner' : 'editor';
+    const existing = await this.get(documentId, userId, minRole);
 
     if (
       !updates.forceOverwrite &&
@@ -184,7 +400,7 @@ export class DocumentsService {
     let oldSummaryEditChainLength: number | undefined;
 
     if (updates.content !== undefined) {
-      const current = await this.get(documentId, userId);
+      const current = await this.get(documentId, userId, minRole);
       existingSegments = Array.isArray(current.segmentSequence)
         ? current.segmentSequence
         : [];
@@ -201,18 +417,37 @@ export class DocumentsService {
       }
     }
 
+    // An open collaborative session would save its own copy over a direct
+    // write, so new text goes through the live document, which saves it
+    let savedLive = false;
+    if (updates.content !== undefined || updates.yjsState !== undefined) {
+      const state =
+        updates.yjsState ||
+        contentJsonToYjsState(textToContentJson(updates.content ?? ''));
+      const applied = await collabService.replaceContent(documentId, state);
+      if (applied === false) {
+        throw new BadRequestError(
+          'Document state could not be decoded',
+          'INVALID_INPUT',
+        );
+      }
+      savedLive = applied === true;
+    }
+
     // Recompute segments if content changed
     const newSegments =
-      updates.content !== undefined
+      updates.content !== undefined && !savedLive
         ? segmentService.computeSegments(updates.content, existingSegments)
         : undefined;
 
     const [updated] = await db
       .update(documents)
       .set({
-        ...(updates.content !== undefined && { content: updates.content }),
+        ...(updates.content !== undefined &&
+          !savedLive && { content: updates.content }),
         ...(newSegments !== undefined && { segmentSequence: newSegments }),
-        ...(updates.yjsState !== undefined && { yjsState: updates.yjsState }),
+        ...(updates.yjsState !== undefined &&
+          !savedLive && { yjsState: updates.yjsState }),
         ...(updates.title !== undefined && { title: updates.title }),
         ...(updates.defaultStylePreset !== undefined && {
           defaultStylePreset: updates.defaultStylePreset,
@@ -248,6 +483,7 @@ export class DocumentsService {
         oldSummary ?? null,
         oldSummaryEditChainLength ?? 0,
       );
+      await this.updateChapterSummaries(updated);
     }
 
     sseService.broadcastToDocument(documentId, 'document-update', {
@@ -258,6 +494,50 @@ export class DocumentsService {
     return updated;
   }
 
+  /**
+   * Restore an old version as a new one. The current state is snapshotted
+   * by update() first, so the restore itself can be undone.
+   */
+  async restoreVersion(
+    documentId: string,
+    userId: string,
+    versionNumber: number,
+  ) {
+    await this.get(documentId, userId, 'editor');
+
+    const version = await versioningService.getVersion(
+      documentId,
+      versionNumber,
+    );
+    if (!version) {
+      throw new NotFoundError('Version not found');
+    }
+
+    const document = await this.update(documentId, userId, {
+      content: version.content,
+      yjsState: version.yjsState,
+    });
+
+    // Versions what was saved: with the document open, the live session's
+    // state, which it has usually versioned already
+    const newVersion = await versioningService.createVersion(
+      documentId,
+      document.yjsState ?? version.yjsState,
+      document.content ?? version.content,
+    );
+
+    logger.info(
+      { userId, documentId, restoredFrom: versionNumber, newVersion },
+      'Document version restored',
+    );
+
+    return {
+      document: { ...document, currentVersion: newVersion },
+      restoredFrom: versionNumber,
+      currentVersion: newVersion,
+    };
+  }
+
   async delete(documentId: string, userId: string) {
     await this.get(documentId, userId);
 
@@ -469,6 +749,25 @@ export class DocumentsService {
       logger.error({ documentId, error }, 'Failed to update document summary');
     }
   }
+
+  /**
+   * Bring chapter summaries that have been generated before up to date.
+   * New chapters get summaries on request, not on every save.
+   */
+  private async updateChapterSummaries(
+    document: typeof documents.$inferSelect,
+  ): Promise<void> {
+    try {
+      await storySummaryService.refreshChapters(document, {
+        onlyExisting: true,
+      });
+    } catch (error) {
+      logger.error(
+        { documentId: document.id, error },
+        'Failed to update chapter summaries',
+      );
+    }
+  }
 }
 
 export const documentsService = new DocumentsService();
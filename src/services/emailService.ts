@@ -7,6 +7,14 @@ const WELCOME_MESSAGE = `We are on a mission to build the most insightful and cr
 
 Please tell us a little bit about yourself, your interests and your needs. We are seeking a diverse group of writers and creators to help us improve our product and build our community.`;
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 export class EmailService {
   private transporter: Transporter | null = null;
   private enabled: boolean = false;
@@ -267,6 +275,123 @@ export class EmailService {
     }
   }
 
+  async sendDocumentInvitation(
+    email: string,
+    token: string,
+    invitation: { documentTitle: string; inviterName: string; role: string },
+  ): Promise<void> {
+    const frontendUrl = process.env.FRONTEND_URL;
+    if (!frontendUrl) {
+      throw new Error('FRONTEND_URL required for email links');
+    }
+    const inviteUrl = `${frontendUrl}/invitations/accept?token=${token}`;
+
+    if (!this.enabled || !this.transporter) {
+      logger.info(
+        { email, inviteUrl },
+        '📧 DEV MODE - Copy this URL to accept the invitation:',
+      );
+      console.log('\n🔗 Document Invitation URL:');
+      console.log(`   ${inviteUrl}\n`);
+      return;
+    }
+
+    // Title and name are user-provided and land in someone else's inbox
+    const title = escapeHtml(invitation.documentTitle);
+    const inviter = escapeHtml(invitation.inviterName);
+
+    await this.transporter.sendMail({
+      from: process.env.SMTP_FROM || `${APP_NAME} <noreply@localhost>`,
+      to: email,
+      subject: `${invitation.inviterName} shared "${invitation.documentTitle}" with you`,
+      html: `
+        <h1>You've been invited to collaborate</h1>
+        <p>${inviter} invited you to "${title}" as ${invitation.role === 'editor' ? 'an' : 'a'} ${invitation.role}.</p>
+        <p><a href="${inviteUrl}">${inviteUrl}</a></p>
+        <p>This link will expire in 7 days.</p>
+        <p>If you were not expecting this invitation, you can safely ignore this email.</p>
+      `,
+      text: `
+        You've been invited to collaborate
+
+        ${invitation.inviterName} invited you to "${invitation.documentTitle}" as ${invitation.role === 'editor' ? 'an' : 'a'} ${invitation.role}.
+
+        ${inviteUrl}
+
+        This link will expire in 7 days.
+
+        If you were not expecting this invitation, you can safely ignore this email.
+      `,
+    });
+
+    if (this.devMode) {
+      logger.info(
+        { email },
+        '📧 Document invitation sent to Mailhog - Check http://localhost:8025',
+      );
+    } else {
+      logger.info({ email }, 'Document invitation sent');
+    }
+  }
+
+  async sendCommentMention(
+    email: string,
+    mention: {
+      documentId: string;
+      threadId: string;
+      documentTitle: string;
+      authorName: string;
+      excerpt: string;
+    },
+  ): Promise<void> {
+    const frontendUrl = process.env.FRONTEND_URL;
+    if (!frontendUrl) {
+      throw new Error('FRONTEND_URL required for email links');
+    }
+    const commentUrl = `${frontendUrl}/documents/${mention.documentId}?comment=${mention.threadId}`;
+
+    if (!this.enabled || !this.transporter) {
+      logger.info(
+        { email, commentUrl },
+        '📧 DEV MODE - Comment mention notification:',
+      );
+      return;
+    }
+
+    const title = escapeHtml(mention.documentTitle);
+    const author = escapeHtml(mention.authorName);
+
+    await this.transporter.sendMail({
+      from: process.env.SMTP_FROM || `${APP_NAME} <noreply@localhost>`,
+      to: email,
+      subject: `${mention.authorName} mentioned you in "${mention.documentTitle}"`,
+      html: `
+        <h1>You were mentioned in a comment</h1>
+        <p>${author} mentioned you in "${title}":</p>
+        <blockquote>${escapeHtml(mention.excerpt)}</blockquote>
+        <p><a href="${commentUrl}">View the comment</a></p>
+      `,
+      text: `
+        You were mentioned in a comment
+
+        ${mention.authorName} mentioned you in "${mention.documentTitle}":
+
+        ${mention.excerpt}
+
+        ${commentUrl}
+      `,
+    });
+
+    if (this.devMode) {
+      logger.info(
+        { email },
+        '📧 Comment mention sent to Mailhog - Check http://localhost:8025',
+      );
+    } else {
+      logger.info({ email }, 'Comment mention sent');
+    }
+  }
+
   async sendContactNotification(
     adminEmail: string,
     submission: {
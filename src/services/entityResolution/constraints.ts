@@ -0,0 +1,89 @@
+/**
+ * User Resolution Constraints
+ *
+ * Must-link and cannot-link pairs declared by the user override scoring:
+ * cannot-link pairs are never fused, must-link pairs always are.
+ *
+ * Existing entities match a constraint by ID. Extracted entities have no ID
+ * yet, so they match by name or alias — this is what keeps a constraint
+ * alive across re-analyses that recreate entities.
+ */
+
+import type { ConstraintKind, ResolutionConstraint } from './types';
+
+export interface ConstraintSubject {
+  ids?: string[];
+  names: string[];
+}
+
+export interface ConstraintIndex {
+  readonly size: number;
+  /**
+   * Constraint between two subjects, or null if none applies.
+   * cannot_link wins when both kinds match.
+   */
+  check(a: ConstraintSubject, b: ConstraintSubject): ConstraintKind | null;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function subjectKeys(subject: ConstraintSubject): string[] {
+  return [
+    ...(subject.ids ?? []).map((id) => `id:${id}`),
+    ...subject.names.map((name) => `name:${normalizeName(name)}`),
+  ];
+}
+
+/**
+ * Index constraints by the ID and name keys on each side of the pair.
+ */
+export function buildConstraintIndex(
+  constraints: ResolutionConstraint[] = [],
+): ConstraintIndex {
+  const sidesByKey = new Map<string, Set<string>>();
+
+  constraints.forEach((constraint, index) => {
+    for (const side of [0, 1] as const) {
+      const keys = subjectKeys({
+        ids: [constraint.entityIds[side]],
+        names: [constraint.entityNames[side]],
+      });
+      for (const key of keys) {
+        const sides = sidesByKey.get(key) ?? new Set<string>();
+        sides.add(`${index}:${side}`);
+        sidesByKey.set(key, sides);
+      }
+    }
+  });
+
+  const sidesFor = (subject: ConstraintSubject): Set<string> => {
+    const result = new Set<string>();
+    for (const key of subjectKeys(subject)) {
+      for (const side of sidesByKey.get(key) ?? []) result.add(side);
+    }
+    return result;
+  };
+
+  return {
+    size: constraints.length,
+    check(a, b) {
+      if (constraints.length === 0) return null;
+
+      const aSides = sidesFor(a);
+      if (aSides.size === 0) return null;
+
+      let result: ConstraintKind | null = null;
+      for (const side of sidesFor(b)) {
+        const [index, sideIdx] = side.split(':');
+        if (!aSides.has(`${index}:${sideIdx === '0' ? 1 : 0}`)) continue;
+
+        const { kind } = constraints[Number(index)];
+        if (kind === 'cannot_link') return kind;
+        result = kind;
+      }
+      return result;
+    },
+  };
+}
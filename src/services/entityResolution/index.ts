@@ -42,6 +42,12 @@ export {
   clusterToCandidate,
   clusterWithinSegment,
 } from './clustering';
+// User constraints
+export {
+  buildConstraintIndex,
+  type ConstraintIndex,
+  type ConstraintSubject,
+} from './constraints';
 // Main resolver
 export {
   getResolutionCandidates,
@@ -78,10 +84,12 @@ export {
 // Types
 export type {
   ClusterResolutionResult,
+  ConstraintKind,
   EntityCandidate,
   EntityCluster,
   ExistingEntity,
   ResolutionConfig,
+  ResolutionConstraint,
   ResolutionDecision,
   ResolutionResult,
   ResolutionThresholds,
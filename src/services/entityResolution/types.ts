@@ -117,6 +117,16 @@ export interface ClusterResolutionResult extends ResolutionResult {
   newFacets?: FacetInput[];
 }
 
+// ========== User Constraints ==========
+
+export type ConstraintKind = 'must_link' | 'cannot_link';
+
+export interface ResolutionConstraint {
+  kind: ConstraintKind;
+  entityIds: [string, string];
+  entityNames: [string, string];
+}
+
 // ========== Resolution Config ==========
 
 export interface ResolutionConfig {
@@ -0,0 +1,46 @@
+/**
+ * Chapter detection for editor documents: every H1 starts a new chapter.
+ */
+
+import type { ProseMirrorNode } from './types';
+
+export interface DocumentChapter {
+  title: string | null;
+  blocks: ProseMirrorNode[];
+}
+
+export function isChapterHeading(node: ProseMirrorNode): boolean {
+  return node.type === 'heading' && node.attrs?.level === 1;
+}
+
+export function nodeText(node: ProseMirrorNode): string {
+  if (node.type === 'text') return node.text ?? '';
+  return (node.content ?? []).map(nodeText).join('');
+}
+
+/**
+ * Split top-level blocks into chapters at each H1.
+ * Blocks before the first H1 form an untitled opening chapter.
+ */
+export function splitIntoChapters(doc: ProseMirrorNode): DocumentChapter[] {
+  const chapters: DocumentChapter[] = [];
+  let current: DocumentChapter | null = null;
+
+  for (const block of doc.content ?? []) {
+    if (isChapterHeading(block)) {
+      current = {
+        title: nodeText(block).trim() || 'Untitled Chapter',
+        blocks: [block],
+      };
+      chapters.push(current);
+      continue;
+    }
+    if (!current) {
+      current = { title: null, blocks: [] };
+      chapters.push(current);
+    }
+    current.blocks.push(block);
+  }
+
+  return chapters;
+}
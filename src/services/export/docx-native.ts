@@ -1,4 +1,11 @@
-import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import {
+  Document,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  TextRun,
+} from 'docx';
 import type { ChildNode, Element } from 'domhandler';
 import { isTag, isText } from 'domhandler';
 import { parseDocument } from 'htmlparser2';
@@ -7,6 +14,36 @@ import type { CancellationCallback, ExportResult } from './types';
 import { sanitizeHtml } from './utils/htmlProcessor';
 
 const MAX_HTML_DEPTH = 100;
+const DEFAULT_IMAGE_SIZE = 240;
+
+const DOCX_IMAGE_TYPES: Record<string, 'jpg' | 'png' | 'gif' | 'bmp'> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+/**
+ * Build an image run from an inline data: URI. Remote URLs and formats
+ * Word can't embed (e.g. WebP) are skipped.
+ */
+function imageRunFromElement(element: Element): ImageRun | null {
+  const match = element.attribs.src?.match(/^data:([^;,]+);base64,(.+)$/);
+  const type = match ? DOCX_IMAGE_TYPES[match[1]] : undefined;
+  if (!match || !type) return null;
+
+  const width = Number(element.attribs.width) || DEFAULT_IMAGE_SIZE;
+  const height = Number(element.attribs.height) || DEFAULT_IMAGE_SIZE;
+  return new ImageRun({
+    type,
+    data: Buffer.from(match[2], 'base64'),
+    transformation: { width, height },
+    altText: element.attribs.alt
+      ? { name: element.attribs.alt, description: element.attribs.alt }
+      : undefined,
+  });
+}
 
 function htmlToDocxParagraphs(html: string): Paragraph[] {
   const paragraphs: Paragraph[] = [];
@@ -164,6 +201,14 @@ function htmlToDocxParagraphs(html: string): Paragraph[] {
       return [];
     }
 
+    if (tagName === 'img') {
+      const image = imageRunFromElement(element);
+      if (image) {
+        paragraphs.push(new Paragraph({ children: [image] }));
+      }
+      return [];
+    }
+
     if (tagName === 'br') {
       paragraphs.push(new Paragraph({ children: [] }));
       return [];
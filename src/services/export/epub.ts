@@ -0,0 +1,320 @@
+/**
+ * EPUB 3 export.
+ *
+ * Builds a reflowable e-book from the stored editor document: one XHTML
+ * file per chapter (split on H1), a nav document for the table of contents,
+ * and scene images placed after the block their textOffset falls in.
+ *
+ * textOffset counts characters of the plain-text content as
+ * contentJsonToPlainText produces it: non-empty text blocks separated by a
+ * blank line.
+ */
+
+import JSZip from 'jszip';
+import {
+  PLAIN_TEXT_BLOCK_SEPARATOR,
+  plainTextBlocks,
+  textToContentJson,
+} from '../documentImport/contentJson';
+import { nodeText, splitIntoChapters } from './chapters';
+import type { ExportResult, ProseMirrorNode } from './types';
+
+export interface EpubImage {
+  textOffset: number;
+  buffer: Buffer;
+  mimeType: string;
+  alt?: string | null;
+}
+
+export interface EpubInput {
+  identifier: string;
+  title: string;
+  author?: string | null;
+  language?: string;
+  contentJson: ProseMirrorNode | null;
+  fallbackText: string;
+  images?: EpubImage[];
+}
+
+const EPUB_MIME_TYPE = 'application/epub+zip';
+const MAX_DEPTH = 100;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; }
+h1 { page-break-before: always; text-align: center; }
+p { margin: 0 0 0.8em; }
+blockquote { margin: 0 1.5em; font-style: italic; }
+figure { margin: 1em 0; text-align: center; }
+img { max-width: 100%; }
+`;
+
+interface PlacedImage {
+  href: string;
+  alt: string;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderInline(nodes: ProseMirrorNode[] | undefined): string {
+  return (nodes ?? [])
+    .map((node) => {
+      if (node.type === 'hardBreak') return '<br/>';
+      if (node.type !== 'text') return renderInline(node.content);
+
+      let out = escapeXml(node.text ?? '');
+      const marks = node.marks ?? [];
+      const has = (type: string) => marks.some((m) => m.type === type);
+      if (has('code')) out = `<code>${out}</code>`;
+      if (has('bold')) out = `<strong>${out}</strong>`;
+      if (has('italic')) out = `<em>${out}</em>`;
+      if (has('underline')) out = `<u>${out}</u>`;
+      if (has('strike')) out = `<s>${out}</s>`;
+      const href = marks.find((m) => m.type === 'link')?.attrs?.href;
+      if (typeof href === 'string' && href) {
+        out = `<a href="${escapeXml(href)}">${out}</a>`;
+      }
+      return out;
+    })
+    .join('');
+}
+
+function renderBlock(node: ProseMirrorNode, depth = 0): string {
+  if (depth > MAX_DEPTH) return '';
+  const children = () =>
+    (node.content ?? []).map((c) => renderBlock(c, depth + 1)).join('\n');
+
+  switch (node.type) {
+    case 'paragraph': {
+      const inline = renderInline(node.content);
+      return inline ? `<p>${inline}</p>` : '';
+    }
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return `<h${level}>${renderInline(node.content)}</h${level}>`;
+    }
+    case 'bulletList':
+      return `<ul>\n${children()}\n</ul>`;
+    case 'orderedList': {
+      const start = Number(node.attrs?.start ?? 1) || 1;
+      const startAttr = start !== 1 ? ` start="${start}"` : '';
+      return `<ol${startAttr}>\n${children()}\n</ol>`;
+    }
+    case 'listItem':
+      return `<li>${children()}</li>`;
+    case 'blockquote':
+      return `<blockquote>\n${children()}\n</blockquote>`;
+    case 'codeBlock':
+      return `<pre><code>${escapeXml(nodeText(node))}</code></pre>`;
+    case 'horizontalRule':
+      return '<hr/>';
+    default:
+      if (node.content?.some((c) => c.type === 'text')) {
+        return `<p>${renderInline(node.content)}</p>`;
+      }
+      return children();
+  }
+}
+
+/**
+ * Attach each image to the top-level block containing its textOffset.
+ * Images past the end of the text go after the last block.
+ */
+export function placeImages<T extends { textOffset: number }>(
+  blocks: ProseMirrorNode[],
+  images: T[],
+): Map<ProseMirrorNode, T[]> {
+  const placed = new Map<ProseMirrorNode, T[]>();
+  if (blocks.length === 0) return placed;
+
+  // Blocks without text take no space in the plain text, not even a separator
+  const ends: number[] = [];
+  let offset = 0;
+  let hasText = false;
+  for (const block of blocks) {
+    const texts = plainTextBlocks([block]);
+    if (texts.length > 0) {
+      if (hasText) offset += PLAIN_TEXT_BLOCK_SEPARATOR.length;
+      offset += texts.join(PLAIN_TEXT_BLOCK_SEPARATOR).length;
+      hasText = true;
+    }
+    ends.push(offset);
+  }
+
+  const sorted = [...images].sort((a, b) => a.textOffset - b.textOffset);
+  for (const image of sorted) {
+    let index = ends.findIndex((end) => image.textOffset <= end);
+    if (index === -1) index = blocks.length - 1;
+    const block = blocks[index];
+    placed.set(block, [...(placed.get(block) ?? []), image]);
+  }
+
+  return placed;
+}
+
+function xhtmlPage(title: string, language: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function packageDocument(
+  input: EpubInput,
+  language: string,
+  chapterCount: number,
+  images: Array<{ id: string; href: string; mimeType: string }>,
+): string {
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const creator = input.author
+    ? `\n    <dc:creator>${escapeXml(input.author)}</dc:creator>`
+    : '';
+
+  const chapterItems = Array.from(
+    { length: chapterCount },
+    (_, i) =>
+      `    <item id="chapter-${i + 1}" href="chapter-${i + 1}.xhtml" media-type="application/xhtml+xml"/>`,
+  );
+  const imageItems = images.map(
+    (img) =>
+      `    <item id="${img.id}" href="${img.href}" media-type="${img.mimeType}"/>`,
+  );
+  const spine = Array.from(
+    { length: chapterCount },
+    (_, i) => `    <itemref idref="chapter-${i + 1}"/>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${escapeXml(input.identifier)}</dc:identifier>
+    <dc:title>${escapeXml(input.title)}</dc:title>
+    <dc:language>${language}</dc:language>${creator}
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${[...chapterItems, ...imageItems].join('\n')}
+  </manifest>
+  <spine>
+${spine.join('\n')}
+  </spine>
+</package>
+`;
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+export async function generateEpub(input: EpubInput): Promise<ExportResult> {
+  const language = input.language ?? 'en';
+  // Same paragraph rules as the plain text, so image offsets line up
+  const doc = input.contentJson ?? textToContentJson(input.fallbackText);
+  const chapters = splitIntoChapters(doc);
+  if (chapters.length === 0) {
+    chapters.push({ title: null, blocks: [] });
+  }
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', EPUB_MIME_TYPE, { compression: 'STORE' });
+  zip.file('META-INF/container.xml', CONTAINER_XML);
+  zip.file('OEBPS/style.css', STYLESHEET);
+
+  const manifestImages: Array<{ id: string; href: string; mimeType: string }> =
+    [];
+  const imageByBlock = new Map<ProseMirrorNode, PlacedImage[]>();
+  const supportedImages = (input.images ?? []).filter(
+    (img) => IMAGE_EXTENSIONS[img.mimeType],
+  );
+
+  for (const [block, images] of placeImages(
+    doc.content ?? [],
+    supportedImages,
+  )) {
+    const placed = images.map((img) => {
+      const n = manifestImages.length + 1;
+      const href = `images/image-${n}.${IMAGE_EXTENSIONS[img.mimeType]}`;
+      zip.file(`OEBPS/${href}`, img.buffer);
+      manifestImages.push({ id: `image-${n}`, href, mimeType: img.mimeType });
+      return { href, alt: img.alt ?? '' };
+    });
+    imageByBlock.set(block, placed);
+  }
+
+  const navEntries: string[] = [];
+  chapters.forEach((chapter, i) => {
+    const title = chapter.title ?? input.title;
+    const body = chapter.blocks
+      .map((block) => {
+        const figures = (imageByBlock.get(block) ?? []).map(
+          (img) =>
+            `<figure><img src="${img.href}" alt="${escapeXml(img.alt)}"/></figure>`,
+        );
+        return [renderBlock(block), ...figures].filter(Boolean).join('\n');
+      })
+      .filter(Boolean)
+      .join('\n');
+
+    zip.file(
+      `OEBPS/chapter-${i + 1}.xhtml`,
+      xhtmlPage(
+        title,
+        language,
+        `<section epub:type="chapter">\n${body}\n</section>`,
+      ),
+    );
+    navEntries.push(
+      `<li><a href="chapter-${i + 1}.xhtml">${escapeXml(title)}</a></li>`,
+    );
+  });
+
+  zip.file(
+    'OEBPS/nav.xhtml',
+    xhtmlPage(
+      input.title,
+      language,
+      `<nav epub:type="toc" id="toc">\n<h1>Contents</h1>\n<ol>\n${navEntries.join('\n')}\n</ol>\n</nav>`,
+    ),
+  );
+  zip.file(
+    'OEBPS/content.opf',
+    packageDocument(input, language, chapters.length, manifestImages),
+  );
+
+  const buffer = await zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+    mimeType: EPUB_MIME_TYPE,
+  });
+
+  return { buffer, mimeType: EPUB_MIME_TYPE, extension: 'epub' };
+}
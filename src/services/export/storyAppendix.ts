@@ -0,0 +1,72 @@
+/**
+ * Story-graph appendix for text exports: characters and locations with
+ * their aliases and permanent facets.
+ */
+
+import { graphService } from '../graph/graph.service';
+import type { StoredFacet, StoredStoryNode } from '../graph/graph.types';
+import type { StoryAppendix, StoryAppendixEntry } from './types';
+
+/** Node aliases plus name facets, deduplicated against the primary name */
+export function collectAliases(
+  node: StoredStoryNode,
+  facets: StoredFacet[],
+): string[] {
+  const seen = new Set([node.name.toLowerCase()]);
+  const aliases: string[] = [];
+  const names = [
+    ...(node.aliases ?? []),
+    ...facets.filter((f) => f.type === 'name').map((f) => f.content),
+  ];
+  for (const name of names) {
+    if (seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    aliases.push(name);
+  }
+  return aliases;
+}
+
+async function toAppendixEntry(
+  node: StoredStoryNode,
+): Promise<StoryAppendixEntry> {
+  const facets = await graphService.getFacetsForEntity(node.id);
+
+  return {
+    name: node.name,
+    aliases: collectAliases(node, facets),
+    description: node.description,
+    // State facets describe a moment in the story, not the entity
+    facets: facets
+      .filter((f) => f.type !== 'name' && f.type !== 'state')
+      .map((f) => ({ type: f.type, content: f.content })),
+  };
+}
+
+export function byDocumentOrder(
+  a: StoredStoryNode,
+  b: StoredStoryNode,
+): number {
+  const orderA = a.documentOrder ?? Number.MAX_SAFE_INTEGER;
+  const orderB = b.documentOrder ?? Number.MAX_SAFE_INTEGER;
+  return orderA - orderB || a.name.localeCompare(b.name);
+}
+
+export async function loadStoryAppendix(
+  documentId: string,
+  userId: string,
+): Promise<StoryAppendix> {
+  const nodes = await graphService.getStoryNodesForDocument(documentId, userId);
+
+  const ofType = (type: StoredStoryNode['type']) =>
+    Promise.all(
+      nodes
+        .filter((n) => n.type === type)
+        .sort(byDocumentOrder)
+        .map(toAppendixEntry),
+    );
+
+  return {
+    characters: await ofType('character'),
+    locations: await ofType('location'),
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Story bible rendering: a dossier per character, location and object.
+ *
+ * HTML output feeds the existing DOCX (docx-native) and PDF (puppeteer)
+ * pipelines; Markdown is rendered directly and omits images.
+ */
+
+import type {
+  StoryBible,
+  StoryBibleEntityType,
+  StoryBibleEntry,
+  StoryBibleImage,
+  StoryBibleRelationship,
+} from './types';
+
+const SECTION_TITLES: Record<StoryBibleEntityType, string> = {
+  character: 'Characters',
+  location: 'Locations',
+  object: 'Objects',
+};
+
+const IMAGE_MAX_WIDTH = 240;
+
+export const STORY_BIBLE_STYLES = `
+  body { font-family: Georgia, serif; font-size: 11pt; line-height: 1.45; }
+  h1 { text-align: center; }
+  h2 { page-break-before: always; border-bottom: 1px solid #999; }
+  h3 { margin-top: 1.6em; }
+  img { display: block; margin: 0.5em 0; }
+  blockquote { margin: 0.4em 1.5em; font-style: italic; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+function facetLabel(type: string): string {
+  const label = type.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function relationshipParts(
+  entry: StoryBibleEntry,
+  relationship: StoryBibleRelationship,
+): [subject: string, verb: string, object: string] {
+  const verb = relationship.edgeType.toLowerCase().replace(/_/g, ' ');
+  return relationship.direction === 'outgoing'
+    ? [entry.name, verb, relationship.otherName]
+    : [relationship.otherName, verb, entry.name];
+}
+
+function groupBySection(bible: StoryBible): Array<[string, StoryBibleEntry[]]> {
+  return (Object.keys(SECTION_TITLES) as StoryBibleEntityType[])
+    .map((type): [string, StoryBibleEntry[]] => [
+      SECTION_TITLES[type],
+      bible.entries.filter((e) => e.type === type),
+    ])
+    .filter(([, entries]) => entries.length > 0);
+}
+
+function imageSize(image: StoryBibleImage): { width: number; height: number } {
+  if (!image.width || !image.height) {
+    return { width: IMAGE_MAX_WIDTH, height: IMAGE_MAX_WIDTH };
+  }
+  const width = Math.min(image.width, IMAGE_MAX_WIDTH);
+  return { width, height: Math.round((image.height / image.width) * width) };
+}
+
+function renderEntryHtml(entry: StoryBibleEntry): string {
+  const parts = [`<h3>${escapeHtml(entry.name)}</h3>`];
+  const label = (text: string) => `<p><strong>${escapeHtml(text)}</strong></p>`;
+  const list = (items: string[]) =>
+    `<ul>${items.map((item) => `<li>${item}</li>`).join('')}</ul>`;
+
+  if (entry.image) {
+    const { width, height } = imageSize(entry.image);
+    const src = `data:${entry.image.mimeType};base64,${entry.image.buffer.toString('base64')}`;
+    parts.push(
+      `<img src="${src}" width="${width}" height="${height}" alt="${escapeHtml(entry.name)}"/>`,
+    );
+  }
+  if (entry.aliases.length > 0) {
+    parts.push(
+      `<p><em>Also known as: ${escapeHtml(entry.aliases.join(', '))}</em></p>`,
+    );
+  }
+  if (entry.description) {
+    parts.push(`<p>${escapeHtml(entry.description)}</p>`);
+  }
+  for (const group of entry.facetGroups) {
+    parts.push(
+      label(facetLabel(group.type)),
+      list(group.contents.map(escapeHtml)),
+    );
+  }
+  if (entry.relationships.length > 0) {
+    parts.push(
+      label('Relationships'),
+      list(
+        entry.relationships.map((r) => {
+          const [subject, verb, object] = relationshipParts(entry, r);
+          const detail = r.description ? ` — ${escapeHtml(r.description)}` : '';
+          return `${escapeHtml(subject)} <em>${verb}</em> ${escapeHtml(object)}${detail}`;
+        }),
+      ),
+    );
+  }
+  for (const arc of entry.arcs) {
+    parts.push(label(`Arc: ${arc.name} (${arc.arcType})`));
+    if (arc.summary) parts.push(`<p>${escapeHtml(arc.summary)}</p>`);
+    if (arc.states.length > 0) {
+      parts.push(`<p>${arc.states.map(escapeHtml).join(' → ')}</p>`);
+    }
+  }
+  if (entry.keyPassages.length > 0) {
+    parts.push(label('Key passages'));
+    for (const passage of entry.keyPassages) {
+      parts.push(`<blockquote><p>${escapeHtml(passage)}</p></blockquote>`);
+    }
+  }
+
+  return parts.join('\n');
+}
+
+export function renderStoryBibleHtml(bible: StoryBible): string {
+  const parts = [`<h1>${escapeHtml(bible.title)}: Story Bible</h1>`];
+  for (const [title, entries] of groupBySection(bible)) {
+    parts.push(`<h2>${title}</h2>`, ...entries.map(renderEntryHtml));
+  }
+  return parts.join('\n');
+}
+
+function renderEntryMarkdown(entry: StoryBibleEntry): string {
+  const parts = [`### ${escapeMarkdown(entry.name)}`];
+
+  if (entry.aliases.length > 0) {
+    parts.push(`_Also known as: ${escapeMarkdown(entry.aliases.join(', '))}_`);
+  }
+  if (entry.description) parts.push(escapeMarkdown(entry.description));
+  for (const group of entry.facetGroups) {
+    parts.push(
+      `**${facetLabel(group.type)}**`,
+      group.contents.map((c) => `- ${escapeMarkdown(c)}`).join('\n'),
+    );
+  }
+  if (entry.relationships.length > 0) {
+    parts.push(
+      '**Relationships**',
+      entry.relationships
+        .map((r) => {
+          const [subject, verb, object] = relationshipParts(entry, r);
+          const detail = r.description
+            ? ` — ${escapeMarkdown(r.description)}`
+            : '';
+          return `- ${escapeMarkdown(subject)} _${verb}_ ${escapeMarkdown(object)}${detail}`;
+        })
+        .join('\n'),
+    );
+  }
+  for (const arc of entry.arcs) {
+    parts.push(`**Arc: ${escapeMarkdown(arc.name)} (${arc.arcType})**`);
+    if (arc.summary) parts.push(escapeMarkdown(arc.summary));
+    if (arc.states.length > 0) {
+      parts.push(arc.states.map(escapeMarkdown).join(' → '));
+    }
+  }
+  if (entry.keyPassages.length > 0) {
+    parts.push(
+      '**Key passages**',
+      ...entry.keyPassages.map(
+        (p) => `> ${escapeMarkdown(p.replace(/\s+/g, ' '))}`,
+      ),
+    );
+  }
+
+  return parts.join('\n\n');
+}
+
+export function renderStoryBibleMarkdown(bible: StoryBible): string {
+  const parts = [`# ${escapeMarkdown(bible.title)}: Story Bible`];
+  for (const [title, entries] of groupBySection(bible)) {
+    parts.push(`## ${title}`, ...entries.map(renderEntryMarkdown));
+  }
+  return `${parts.join('\n\n')}\n`;
+}
@@ -0,0 +1,202 @@
+/**
+ * Collects the story-graph data behind a story bible: one dossier per
+ * character, location and object.
+ */
+
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { media, nodeMedia } from '../../models/schema';
+import { logger } from '../../utils/logger';
+import { graphService } from '../graph/graph.service';
+import type {
+  StoredStoryConnection,
+  StoredStoryNode,
+} from '../graph/graph.types';
+import { mentionService } from '../mentions';
+import { type Segment, segmentService } from '../segments';
+import { storageProvider } from '../storage';
+import { byDocumentOrder, collectAliases } from './storyAppendix';
+import type {
+  StoryBible,
+  StoryBibleArc,
+  StoryBibleEntityType,
+  StoryBibleEntry,
+  StoryBibleImage,
+  StoryBibleRelationship,
+} from './types';
+
+const ENTITY_TYPES: StoryBibleEntityType[] = [
+  'character',
+  'location',
+  'object',
+];
+const MAX_KEY_PASSAGES = 10;
+
+/**
+ * Primary image for a node: its chosen primary media, otherwise the
+ * oldest completed image attached to it.
+ */
+async function loadPrimaryImage(
+  node: StoredStoryNode,
+): Promise<StoryBibleImage | null> {
+  const rows = await db
+    .select({
+      id: media.id,
+      storageKey: media.storageKey,
+      s3Key: media.s3Key,
+      mimeType: media.mimeType,
+      width: media.width,
+      height: media.height,
+    })
+    .from(nodeMedia)
+    .innerJoin(media, eq(nodeMedia.mediaId, media.id))
+    .where(
+      and(
+        eq(nodeMedia.nodeId, node.id),
+        eq(media.status, 'completed'),
+        isNull(nodeMedia.deletedAt),
+        isNull(media.deletedAt),
+      ),
+    )
+    .orderBy(media.createdAt);
+
+  const chosen =
+    rows.find((row) => row.id === node.primaryMediaId) ?? rows[0] ?? null;
+  const storageKey = chosen?.storageKey ?? chosen?.s3Key;
+  if (!chosen || !storageKey || !chosen.mimeType) return null;
+
+  try {
+    return {
+      buffer: await storageProvider.downloadToBuffer(storageKey),
+      mimeType: chosen.mimeType,
+      width: chosen.width,
+      height: chosen.height,
+    };
+  } catch (error) {
+    logger.warn(
+      { error, nodeId: node.id, mediaId: chosen.id },
+      'Failed to download story bible image, skipping',
+    );
+    return null;
+  }
+}
+
+async function loadKeyPassages(
+  nodeId: string,
+  segments: Segment[],
+): Promise<string[]> {
+  const mentions = await mentionService.getByNodeIdWithAbsolutePositions(
+    nodeId,
+    segments,
+  );
+  return mentions
+    .filter((m) => m.isKeyPassage)
+    .sort((a, b) => a.absoluteStart - b.absoluteStart)
+    .slice(0, MAX_KEY_PASSAGES)
+    .map((m) => m.originalText.trim())
+    .filter(Boolean);
+}
+
+async function loadArcs(characterId: string): Promise<StoryBibleArc[]> {
+  const arcs = await graphService.getCharacterArcs(characterId);
+  return Promise.all(
+    arcs.map(async (arc) => {
+      const states = await graphService.getArcStates(arc.id);
+      return {
+        name: arc.name,
+        arcType: arc.arcType,
+        summary: arc.summary,
+        states: states.map((s) => s.name),
+      };
+    }),
+  );
+}
+
+function relationshipsFor(
+  nodeId: string,
+  connections: StoredStoryConnection[],
+  namesById: Map<string, string>,
+): StoryBibleRelationship[] {
+  const relationships: StoryBibleRelationship[] = [];
+  for (const connection of connections) {
+    const outgoing = connection.fromNodeId === nodeId;
+    if (!outgoing && connection.toNodeId !== nodeId) continue;
+
+    const otherName = namesById.get(
+      outgoing ? connection.toNodeId : connection.fromNodeId,
+    );
+    if (!otherName) continue;
+
+    relationships.push({
+      edgeType: connection.edgeType,
+      direction: outgoing ? 'outgoing' : 'incoming',
+      otherName,
+      description: connection.description,
+    });
+  }
+  return relationships;
+}
+
+async function toBibleEntry(
+  node: StoredStoryNode,
+  segments: Segment[],
+  connections: StoredStoryConnection[],
+  namesById: Map<string, string>,
+): Promise<StoryBibleEntry> {
+  const [facets, image, keyPassages, arcs] = await Promise.all([
+    graphService.getFacetsForEntity(node.id),
+    loadPrimaryImage(node),
+    loadKeyPassages(node.id, segments),
+    node.type === 'character' ? loadArcs(node.id) : Promise.resolve([]),
+  ]);
+
+  // State facets are covered by arcs; name facets become aliases
+  const facetGroups = new Map<string, string[]>();
+  for (const facet of facets) {
+    if (facet.type === 'name' || facet.type === 'state') continue;
+    facetGroups.set(facet.type, [
+      ...(facetGroups.get(facet.type) ?? []),
+      facet.content,
+    ]);
+  }
+
+  return {
+    name: node.name,
+    type: node.type as StoryBibleEntityType,
+    aliases: collectAliases(node, facets),
+    description: node.description,
+    facetGroups: [...facetGroups].map(([type, contents]) => ({
+      type,
+      contents,
+    })),
+    image,
+    keyPassages,
+    relationships: relationshipsFor(node.id, connections, namesById),
+    arcs,
+  };
+}
+
+export async function loadStoryBible(
+  documentId: string,
+  userId: string,
+  title: string,
+): Promise<StoryBible> {
+  const [nodes, connections, segments] = await Promise.all([
+    graphService.getStoryNodesForDocument(documentId, userId),
+    graphService.getStoryConnectionsForDocument(documentId),
+    segmentService.getDocumentSegments(documentId),
+  ]);
+
+  const namesById = new Map(nodes.map((n) => [n.id, n.name]));
+  const entities = ENTITY_TYPES.flatMap((type) =>
+    nodes.filter((n) => n.type === type).sort(byDocumentOrder),
+  );
+
+  // Sequential to keep graph and storage load bounded on large casts
+  const entries: StoryBibleEntry[] = [];
+  for (const node of entities) {
+    entries.push(await toBibleEntry(node, segments, connections, namesById));
+  }
+
+  return { title, entries };
+}
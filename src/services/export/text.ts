@@ -0,0 +1,253 @@
+/**
+ * Plain text and Markdown export.
+ *
+ * Renders the stored editor document (ProseMirror JSON) directly, so no
+ * browser or HTML round-trip is needed. Falls back to the plain-text
+ * content for documents saved before contentJson existed.
+ */
+
+import type {
+  ExportResult,
+  ProseMirrorNode,
+  StoryAppendix,
+  StoryAppendixEntry,
+} from './types';
+
+export type TextExportFormat = 'txt' | 'md';
+
+export interface TextExportInput {
+  contentJson: ProseMirrorNode | null;
+  fallbackText: string;
+  appendix?: StoryAppendix | null;
+}
+
+const MIME_TYPES: Record<TextExportFormat, string> = {
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+};
+
+const MAX_DEPTH = 100;
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+/** Stop paragraph text from being read as a heading, quote or list */
+function escapeBlockStart(text: string): string {
+  return text
+    .replace(/^(\s*)([#>+-])(?=\s)/, '$1\\$2')
+    .replace(/^(\s*\d+)\.(?=\s)/, '$1\\.');
+}
+
+function wrapMark(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+function linkHref(node: ProseMirrorNode): string | null {
+  const link = node.marks?.find((m) => m.type === 'link');
+  const href = link?.attrs?.href;
+  return typeof href === 'string' && href ? href : null;
+}
+
+function renderTextNode(node: ProseMirrorNode, format: TextExportFormat) {
+  const text = node.text ?? '';
+  const href = linkHref(node);
+
+  if (format === 'txt') {
+    return href && href !== text ? `${text} (${href})` : text;
+  }
+
+  const markTypes = new Set((node.marks ?? []).map((m) => m.type));
+  let out = markTypes.has('code') ? `\`${text}\`` : escapeMarkdown(text);
+  if (markTypes.has('bold')) out = wrapMark(out, '**');
+  if (markTypes.has('italic')) out = wrapMark(out, '_');
+  if (markTypes.has('strike')) out = wrapMark(out, '~~');
+  if (href) out = `[${out}](${href})`;
+  return out;
+}
+
+function renderInline(
+  nodes: ProseMirrorNode[] | undefined,
+  format: TextExportFormat,
+): string {
+  return (nodes ?? [])
+    .map((node) => {
+      if (node.type === 'text') return renderTextNode(node, format);
+      if (node.type === 'hardBreak') return format === 'md' ? '  \n' : '\n';
+      return renderInline(node.content, format);
+    })
+    .join('');
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${prefix}${line}` : prefix.trimEnd()))
+    .join('\n');
+}
+
+function underline(text: string, char: string): string {
+  return `${text}\n${char.repeat(Math.max(text.length, 3))}`;
+}
+
+function renderList(
+  node: ProseMirrorNode,
+  format: TextExportFormat,
+  depth: number,
+): string {
+  const start = Number(node.attrs?.start ?? 1) || 1;
+
+  return (node.content ?? [])
+    .map((item, i) => {
+      const marker = node.type === 'orderedList' ? `${start + i}. ` : '- ';
+      const indent = ' '.repeat(marker.length);
+      const body = renderBlocks(item.content, format, depth + 1, '\n');
+      const [first = '', ...rest] = body.split('\n');
+      return [
+        `${marker}${first}`,
+        ...rest.map((line) => (line ? `${indent}${line}` : line)),
+      ].join('\n');
+    })
+    .join('\n');
+}
+
+function renderBlock(
+  node: ProseMirrorNode,
+  format: TextExportFormat,
+  depth: number,
+): string {
+  if (depth > MAX_DEPTH) return '';
+
+  switch (node.type) {
+    case 'paragraph': {
+      const text = renderInline(node.content, format);
+      return format === 'md' ? escapeBlockStart(text) : text;
+    }
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      const text = renderInline(node.content, format);
+      if (format === 'md') return `${'#'.repeat(level)} ${text}`;
+      if (level === 1) return underline(text, '=');
+      if (level === 2) return underline(text, '-');
+      return text;
+    }
+    case 'bulletList':
+    case 'orderedList':
+      return renderList(node, format, depth);
+    case 'blockquote':
+      return prefixLines(
+        renderBlocks(node.content, format, depth + 1),
+        format === 'md' ? '> ' : '    ',
+      );
+    case 'codeBlock': {
+      const code = (node.content ?? []).map((c) => c.text ?? '').join('');
+      if (format === 'txt') return prefixLines(code, '    ');
+      const language =
+        typeof node.attrs?.language === 'string' ? node.attrs.language : '';
+      return `\`\`\`${language}\n${code}\n\`\`\``;
+    }
+    case 'horizontalRule':
+      return format === 'md' ? '---' : '* * *';
+    default:
+      if (node.content?.some((c) => c.type === 'text')) {
+        return renderInline(node.content, format);
+      }
+      return renderBlocks(node.content, format, depth + 1);
+  }
+}
+
+function renderBlocks(
+  nodes: ProseMirrorNode[] | undefined,
+  format: TextExportFormat,
+  depth = 0,
+  separator = '\n\n',
+): string {
+  return (nodes ?? [])
+    .map((node) => renderBlock(node, format, depth))
+    .filter((block) => block.length > 0)
+    .join(separator);
+}
+
+function renderAppendixEntry(
+  entry: StoryAppendixEntry,
+  format: TextExportFormat,
+): string {
+  if (format === 'md') {
+    const parts = [`### ${escapeMarkdown(entry.name)}`];
+    if (entry.aliases.length > 0) {
+      parts.push(
+        `_Also known as: ${escapeMarkdown(entry.aliases.join(', '))}_`,
+      );
+    }
+    if (entry.description) parts.push(escapeMarkdown(entry.description));
+    if (entry.facets.length > 0) {
+      parts.push(
+        entry.facets
+          .map((f) => `- **${f.type}:** ${escapeMarkdown(f.content)}`)
+          .join('\n'),
+      );
+    }
+    return parts.join('\n\n');
+  }
+
+  const lines = [entry.name];
+  if (entry.aliases.length > 0) {
+    lines.push(`  Also known as: ${entry.aliases.join(', ')}`);
+  }
+  if (entry.description) lines.push(`  ${entry.description}`);
+  for (const facet of entry.facets) {
+    lines.push(`  - ${facet.type}: ${facet.content}`);
+  }
+  return lines.join('\n');
+}
+
+function renderAppendix(
+  appendix: StoryAppendix,
+  format: TextExportFormat,
+): string {
+  const sections: Array<[string, StoryAppendixEntry[]]> = [
+    ['Characters', appendix.characters],
+    ['Locations', appendix.locations],
+  ];
+  const nonEmpty = sections.filter(([, entries]) => entries.length > 0);
+  if (nonEmpty.length === 0) return '';
+
+  const blocks = [format === 'md' ? '# Appendix' : underline('APPENDIX', '=')];
+  for (const [title, entries] of nonEmpty) {
+    blocks.push(
+      format === 'md' ? `## ${title}` : underline(title.toUpperCase(), '-'),
+    );
+    for (const entry of entries) {
+      blocks.push(renderAppendixEntry(entry, format));
+    }
+  }
+  return blocks.join('\n\n');
+}
+
+/**
+ * Render a document (and optional story-graph appendix) as text.
+ */
+export function renderDocumentText(
+  input: TextExportInput,
+  format: TextExportFormat,
+): string {
+  const body = input.contentJson
+    ? renderBlocks(input.contentJson.content, format)
+    : input.fallbackText.trim();
+  const appendix = input.appendix ? renderAppendix(input.appendix, format) : '';
+
+  return `${[body, appendix].filter(Boolean).join('\n\n')}\n`;
+}
+
+export function generateTextExport(
+  input: TextExportInput,
+  format: TextExportFormat,
+): ExportResult {
+  return {
+    buffer: Buffer.from(renderDocumentText(input, format), 'utf-8'),
+    mimeType: MIME_TYPES[format],
+    extension: format,
+  };
+}
@@ -1,4 +1,4 @@
-export type ExportFormat = 'pdf' | 'docx';
+export type ExportFormat = 'pdf' | 'docx' | 'txt' | 'md' | 'epub';
 
 export interface ExportOptions {
   format: 'a4' | 'letter';
@@ -18,3 +18,64 @@ export interface ExportResult {
 }
 
 export type CancellationCallback = () => boolean;
+
+/** Editor document as stored in documents.contentJson (ProseMirror JSON) */
+export interface ProseMirrorNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: ProseMirrorNode[];
+  text?: string;
+  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+}
+
+export interface StoryAppendixEntry {
+  name: string;
+  aliases: string[];
+  description: string | null;
+  facets: Array<{ type: string; content: string }>;
+}
+
+export interface StoryAppendix {
+  characters: StoryAppendixEntry[];
+  locations: StoryAppendixEntry[];
+}
+
+export type StoryBibleEntityType = 'character' | 'location' | 'object';
+
+export interface StoryBibleImage {
+  buffer: Buffer;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+}
+
+export interface StoryBibleRelationship {
+  edgeType: string;
+  direction: 'outgoing' | 'incoming';
+  otherName: string;
+  description: string | null;
+}
+
+export interface StoryBibleArc {
+  name: string;
+  arcType: string;
+  summary: string | null;
+  states: string[];
+}
+
+export interface StoryBibleEntry {
+  name: string;
+  type: StoryBibleEntityType;
+  aliases: string[];
+  description: string | null;
+  facetGroups: Array<{ type: string; contents: string[] }>;
+  image: StoryBibleImage | null;
+  keyPassages: string[];
+  relationships: StoryBibleRelationship[];
+  arcs: StoryBibleArc[];
+}
+
+export interface StoryBible {
+  title: string;
+  entries: StoryBibleEntry[];
+}
@@ -365,6 +365,8 @@ export interface Stage2ExtractionResult {
     type: StoryNodeType;
     segmentId: string;
     documentOrder?: number;
+    /** Events only: when it happens, as written ("three days later") */
+    timeExpression?: string | null;
     existingMatch?: ExistingMatch;
   }>;
   facets: Array<{
@@ -113,6 +113,7 @@ const entityBaseSchema = {
     },
     segmentId: { type: GeminiType.STRING },
     documentOrder: { type: GeminiType.INTEGER, nullable: true },
+    timeExpression: { type: GeminiType.STRING, nullable: true },
     existingMatch: { ...existingMatchSchema, nullable: true },
   },
   required: ['name', 'type', 'segmentId'],
@@ -1,9 +1,8 @@
-import { db } from '../../config/database';
-import { documents } from '../../models/schema';
 import { logger } from '../../utils/logger';
 import { activityService } from '../activity.service';
 import type { ActivityProgress } from '../activity.types';
-import { segmentService } from '../segments';
+import { convertToEditorFormat, IMPORT_MIME_TYPES } from '../documentImport';
+import { documentsService } from '../documents';
 import { GoogleDriveClient } from './client';
 import { DriveConnectionExpiredError, mapDriveErrorToMessage } from './errors';
 import { clearTokens, getValidAccessToken } from './tokens';
@@ -11,10 +10,7 @@ import type { DriveFile } from './types';
 
 const SUPPORTED_MIME_TYPES = [
   'application/vnd.google-apps.document',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/pdf',
-  'text/plain',
-  'text/markdown',
+  ...IMPORT_MIME_TYPES,
 ];
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
@@ -107,18 +103,12 @@ export async function importFromDrive(
       stageName: 'creating',
     } as ActivityProgress);
 
-    const segments = segmentService.computeSegments(converted.plainText);
-
-    const [document] = await db
-      .insert(documents)
-      .values({
-        userId,
-        title: converted.title,
-        content: converted.plainText,
-        yjsState: converted.yjsState,
-        segmentSequence: segments,
-      })
-      .returning();
+    const document = await documentsService.createFromImport(userId, {
+      title: converted.title,
+      content: converted.plainText,
+      contentJson: converted.contentJson,
+      yjsState: converted.yjsState,
+    });
 
     await activityService.updateStatus(activity.id, 'completed');
 
@@ -146,149 +136,3 @@ export async function importFromDrive(
     throw new Error(errorMessage);
   }
 }
-
-interface ConvertedContent {
-  title: string;
-  plainText: string;
-  yjsState: string;
-}
-
-async function convertToEditorFormat(
-  content: ArrayBuffer,
-  mimeType: string,
-  filename: string,
-): Promise<ConvertedContent> {
-  const title = filename.replace(/\.[^/.]+$/, '');
-  const buffer = Buffer.from(content);
-
-  switch (mimeType) {
-    case 'text/html': {
-      const htmlText = buffer.toString('utf-8');
-      const { plainText, yjsState } = htmlToYjsState(htmlText);
-      return { title, plainText, yjsState };
-    }
-
-    case 'text/plain': {
-      const text = buffer.toString('utf-8');
-      const { plainText, yjsState } = textToYjsState(text);
-      return { title, plainText, yjsState };
-    }
-
-    case 'text/markdown': {
-      const mdText = buffer.toString('utf-8');
-      const { plainText, yjsState } = markdownToYjsState(mdText);
-      return { title, plainText, yjsState };
-    }
-
-    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
-      const { plainText, yjsState } = await docxToYjsState(buffer);
-      return { title, plainText, yjsState };
-    }
-
-    case 'application/pdf': {
-      const { plainText, yjsState } = await pdfToYjsState(buffer);
-      return { title, plainText, yjsState };
-    }
-
-    default:
-      throw new Error(`Unsupported mime type: ${mimeType}`);
-  }
-}
-
-function htmlToYjsState(html: string): { plainText: string; yjsState: string } {
-  const plainText = extractTextFromHtml(html);
-  const doc = createYjsDocFromText(plainText);
-  return { plainText, yjsState: doc };
-}
-
-function textToYjsState(text: string): { plainText: string; yjsState: string } {
-  const doc = createYjsDocFromText(text);
-  return { plainText: text, yjsState: doc };
-}
-
-function markdownToYjsState(md: string): {
-  plainText: string;
-  yjsState: string;
-} {
-  const plainText = md
-    .replace(/^#{1,6}\s+/gm, '')
-    .replace(/\*\*([^*]+)\*\*/g, '$1')
-    .replace(/\*([^*]+)\*/g, '$1')
-    .replace(/`([^`]+)`/g, '$1')
-    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
-  const doc = createYjsDocFromText(plainText);
-  return { plainText, yjsState: doc };
-}
-
-async function docxToYjsState(
-  buffer: Buffer,
-): Promise<{ plainText: string; yjsState: string }> {
-  try {
-    const mammoth = await import('mammoth');
-    const result = await mammoth.extractRawText({ buffer });
-    const plainText = result.value;
-    const doc = createYjsDocFromText(plainText);
-    return { plainText, yjsState: doc };
-  } catch {
-    throw new Error('Failed to parse DOCX file');
-  }
-}
-
-async function pdfToYjsState(
-  buffer: Buffer,
-): Promise<{ plainText: string; yjsState: string }> {
-  try {
-    const pdfParse = (await import('pdf-parse')).default;
-    const data = await pdfParse(buffer);
-    const plainText = data.text;
-    const doc = createYjsDocFromText(plainText);
-    return { plainText, yjsState: doc };
-  } catch {
-    throw new Error('Failed to parse PDF file');
-  }
-}
-
-function extractTextFromHtml(html: string): string {
-  return html
-    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/&nbsp;/gi, ' ')
-    .replace(/&amp;/gi, '&')
-    .replace(/&lt;/gi, '<')
-    .replace(/&gt;/gi, '>')
-    .replace(/&quot;/gi, '"')
-    .replace(/&#39;/gi, "'")
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
-function createYjsDocFromText(text: string): string {
-  const Y = require('yjs');
-  const doc = new Y.Doc();
-  const xmlFragment = doc.getXmlFragment('prosemirror');
-
-  // Create a minimal ProseMirror-compatible doc structure
-  const docNode = new Y.XmlElement('doc');
-
-  const paragraphs = text.split(/\n\n+/);
-  for (const para of paragraphs) {
-    if (!para.trim()) continue;
-    const xmlElement = new Y.XmlElement('paragraph');
-    const xmlText = new Y.XmlText();
-    xmlText.insert(0, para.trim());
-    xmlElement.insert(0, [xmlText]);
-    docNode.push([xmlElement]);
-  }
-
-  // If no paragraphs, add an empty one
-  if (docNode.length === 0) {
-    const emptyPara = new Y.XmlElement('paragraph');
-    docNode.push([emptyPara]);
-  }
-
-  xmlFragment.push([docNode]);
-
-  const state = Y.encodeStateAsUpdate(doc);
-  return Buffer.from(state).toString('base64');
-}
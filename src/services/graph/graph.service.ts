@@ -19,9 +19,11 @@ import type {
 } from '../../types/storyNodes';
 import { logger } from '../../utils/logger';
 import {
+  type AbsorbedNodeRecord,
   CAUSAL_EDGE_TYPES,
   type ChangesToEdgeProps,
   causalEdgePattern,
+  type MergedEdgeRecord,
   type NodeProperties,
   type QueryResult,
   type StoredArc,
@@ -29,6 +31,8 @@ import {
   type StoredFacet,
   type StoredStoryConnection,
   type StoredStoryNode,
+  type StoryNodeMergeResult,
+  type StoryNodeSplitResult,
 } from './graph.types';
 
 export type {
@@ -37,6 +41,8 @@ export type {
   StoredFacet,
   StoredStoryConnection,
   StoredStoryNode,
+  StoryNodeMergeResult,
+  StoryNodeSplitResult,
 };
 
 const GRAPH_NAME = process.env.FALKORDB_GRAPH_NAME || 'gengui';
@@ -121,6 +127,23 @@ const ALLOWED_PROPERTY_NAMES = new Set([
   'gapDetected',
 ]);
 
+// Edge types that connect two StoryNodes (excludes system/arc edges)
+const STORY_CONNECTION_TYPES: StoryEdgeType[] = [
+  'CAUSES',
+  'ENABLES',
+  'PREVENTS',
+  'HAPPENS_BEFORE',
+  'PARTICIPATES_IN',
+  'LOCATED_AT',
+  'PART_OF',
+  'MEMBER_OF',
+  'POSSESSES',
+  'CONNECTED_TO',
+  'OPPOSES',
+  'ABOUT',
+  'RELATED_TO',
+];
+
 class GraphService {
   private client: Redis | null = null;
   private connectionPromise: Promise<void> | null = null;
@@ -756,6 +779,7 @@ class GraphService {
       stylePreset?: string | null;
       stylePrompt?: string | null;
       existingId?: string;
+      userAuthored?: boolean;
     },
   ): Promise<string> {
     const label = this.getLabelForType(node.type);
@@ -778,6 +802,7 @@ class GraphService {
       stylePreset: options?.stylePreset ?? null,
       stylePrompt: options?.stylePrompt ?? null,
       documentOrder: node.documentOrder ?? null,
+      userAuthored: options?.userAuthored ?? null,
       createdAt: now,
       updatedAt: now,
       deletedAt: null,
@@ -806,7 +831,7 @@ class GraphService {
     toId: string,
     edgeType: StoryEdgeType,
     description: string | null,
-    properties?: { strength?: number },
+    properties?: { strength?: number; userAuthored?: boolean },
   ): Promise<string> {
     this.validateEdgeType(edgeType);
 
@@ -826,6 +851,7 @@ class GraphService {
       id: connectionId,
       description: description ?? null,
       strength: properties?.strength ?? null,
+      userAuthored: properties?.userAuthored ?? null,
       createdAt: now,
       deletedAt: null,
     };
@@ -904,7 +930,7 @@ class GraphService {
         AND b.documentId = $documentId
         AND ${this.deletedAtFilterEdge('a', 'r', 'b')}
         AND type(r) IN ['CAUSES', 'ENABLES', 'PREVENTS', 'HAPPENS_BEFORE', 'PARTICIPATES_IN', 'LOCATED_AT', 'PART_OF', 'MEMBER_OF', 'POSSESSES', 'CONNECTED_TO', 'OPPOSES', 'ABOUT', 'RELATED_TO']
-      RETURN DISTINCT r.id, a.id, b.id, type(r) as edgeType, r.description, r.strength, r.createdAt, r.deletedAt
+      RETURN DISTINCT r.id, a.id, b.id, type(r) as edgeType, r.description, r.strength, r.createdAt, r.deletedAt, r.userAuthored
     `;
     const result = await this.query(cypher, { documentId });
 
@@ -927,6 +953,7 @@ class GraphService {
         narrativeDistance: null,
         createdAt: row[6] as string,
         deletedAt: row[7] as string | null,
+        userAuthored: row[8] === true,
       });
     }
 
@@ -974,6 +1001,10 @@ class GraphService {
     }
   }
 
+  /**
+   * Soft-delete every extracted connection between two nodes.
+   * User-authored connections are kept; delete those by ID instead.
+   */
   async softDeleteStoryConnection(fromId: string, toId: string): Promise<void> {
     const fromNode = await this.getStoryNodeByIdInternal(fromId);
 
@@ -981,6 +1012,7 @@ class GraphService {
       MATCH (a:StoryNode)-[r]->(b:StoryNode)
       WHERE a.id = $fromId AND b.id = $toId
         AND type(r) <> 'BELONGS_TO_THREAD'
+        AND coalesce(r.userAuthored, false) = false
       SET r.deletedAt = $deletedAt
     `;
     await this.query(cypher, {
@@ -995,6 +1027,106 @@ class GraphService {
     }
   }
 
+  async getStoryConnectionById(
+    connectionId: string,
+  ): Promise<StoredStoryConnection | null> {
+    const cypher = `
+      MATCH (a:StoryNode)-[r]->(b:StoryNode)
+      WHERE r.id = $connectionId
+        AND ${this.deletedAtFilterEdge('a', 'r', 'b')}
+        AND type(r) IN $edgeTypes
+      RETURN r.id, a.id, b.id, type(r) as edgeType, r.description, r.strength, r.createdAt, r.deletedAt
+      LIMIT 1
+    `;
+    const result = await this.query(cypher, {
+      connectionId,
+      edgeTypes: STORY_CONNECTION_TYPES,
+    });
+
+    if (result.data.length === 0) return null;
+
+    const row = result.data[0];
+    return {
+      id: row[0] as string,
+      fromNodeId: row[1] as string,
+      toNodeId: row[2] as string,
+      edgeType: row[3] as StoryEdgeType,
+      description: row[4] as string | null,
+      strength: row[5] != null ? Number(row[5]) : null,
+      narrativeDistance: null,
+      createdAt: row[6] as string,
+      deletedAt: row[7] as string | null,
+    };
+  }
+
+  /**
+   * Update a connection's description or strength. Edited connections are
+   * marked user-authored so re-analysis leaves them alone.
+   */
+  async updateStoryConnection(
+    connectionId: string,
+    updates: { description?: string | null; strength?: number | null },
+  ): Promise<void> {
+    const setStatements = ['r.userAuthored = true'];
+    const params: Record<string, unknown> = { connectionId };
+
+    if (updates.description !== undefined) {
+      setStatements.push('r.description = $description');
+      params.description = updates.description;
+    }
+    if (updates.strength !== undefined) {
+      setStatements.push('r.strength = $strength');
+      params.strength = updates.strength;
+    }
+
+    const cypher = `
+      MATCH (:StoryNode)-[r]->(:StoryNode)
+      WHERE r.id = $connectionId
+      SET ${setStatements.join(', ')}
+    `;
+    await this.query(cypher, params);
+    logger.info({ connectionId }, 'Story connection updated in FalkorDB');
+  }
+
+  async softDeleteStoryConnectionById(connectionId: string): Promise<void> {
+    const connection = await this.getStoryConnectionById(connectionId);
+
+    const cypher = `
+      MATCH (:StoryNode)-[r]->(:StoryNode)
+      WHERE r.id = $connectionId
+      SET r.deletedAt = $deletedAt
+    `;
+    await this.query(cypher, {
+      connectionId,
+      deletedAt: new Date().toISOString(),
+    });
+    logger.info({ connectionId }, 'Story connection soft deleted in FalkorDB');
+
+    if (connection) {
+      const fromNode = await this.getStoryNodeByIdInternal(
+        connection.fromNodeId,
+      );
+      if (fromNode) {
+        await this.invalidateLayoutPositions(fromNode.documentId);
+      }
+    }
+  }
+
+  /**
+   * IDs of the document's live nodes created by the user rather than
+   * the extractor.
+   */
+  async getUserAuthoredNodeIds(documentId: string): Promise<Set<string>> {
+    const cypher = `
+      MATCH (n:StoryNode)
+      WHERE n.documentId = $documentId AND n.userAuthored = true
+        AND ${this.deletedAtFilter('n')}
+      RETURN n.id
+    `;
+    const result = await this.query(cypher, { documentId });
+    return new Set(result.data.map((row) => row[0] as string));
+  }
+
   async deleteAllStoryNodesForDocument(
     documentId: string,
     userId: string,
@@ -1042,6 +1174,7 @@ class GraphService {
       description?: string | null;
       aliases?: string[];
       documentOrder?: number | null;
+      metadata?: Record<string, unknown> | null;
     },
   ): Promise<void> {
     const setStatements: string[] = [];
@@ -1069,6 +1202,12 @@ class GraphService {
       setStatements.push(`n.documentOrder = $documentOrder`);
       params.documentOrder = updates.documentOrder;
     }
+    if (updates.metadata !== undefined) {
+      setStatements.push(`n.metadata = $metadata`);
+      params.metadata = updates.metadata
+        ? JSON.stringify(updates.metadata)
+        : null;
+    }
 
     const cypher = `
       MATCH (n:StoryNode)
@@ -1322,6 +1461,502 @@ class GraphService {
     };
   }
 
+  // ========== Merge Methods ==========
+
+  /**
+   * Merge one or more story nodes into a survivor.
+   *
+   * Facets, character states, arcs, thread memberships, story edges and
+   * mentions (Postgres) move onto the survivor, then the absorbed nodes are
+   * soft-deleted. Parallel edges collapse into the survivor's existing edge;
+   * edges that would become self-loops or causal cycles are dropped.
+   * The returned record is what the changelog stores to make the merge reversible.
+   */
+  async mergeStoryNodes(
+    survivorId: string,
+    absorbedIds: string[],
+  ): Promise<StoryNodeMergeResult> {
+    const uniqueAbsorbedIds = [...new Set(absorbedIds)].filter(
+      (id) => id !== survivorId,
+    );
+    if (uniqueAbsorbedIds.length === 0) {
+      throw new Error('No nodes to merge into survivor');
+    }
+
+    const survivor = await this.getStoryNodeByIdInternal(survivorId);
+    if (!survivor) {
+      throw new Error(`Survivor node ${survivorId} not found`);
+    }
+
+    const absorbedNodes: StoredStoryNode[] = [];
+    for (const id of uniqueAbsorbedIds) {
+      const node = await this.getStoryNodeByIdInternal(id);
+      if (!node) {
+        throw new Error(`Node ${id} not found`);
+      }
+      if (node.documentId !== survivor.documentId) {
+        throw new Error(
+          `Cannot merge node ${id}: belongs to a different document`,
+        );
+      }
+      absorbedNodes.push(node);
+    }
+
+    const { mentionService } = await import('../mentions/mention.service.js');
+    const mergedIds = new Set([survivorId, ...uniqueAbsorbedIds]);
+    const now = new Date().toISOString();
+    const absorbed: AbsorbedNodeRecord[] = [];
+
+    for (const node of absorbedNodes) {
+      const facetIds = await this.moveOwnedNodes(
+        node.id,
+        survivorId,
+        'HAS_FACET',
+        'Facet',
+        'entityId',
+      );
+      const stateIds = await this.moveOwnedNodes(
+        node.id,
+        survivorId,
+        'HAS_STATE',
+        'CharacterState',
+        'characterId',
+      );
+      const arcIds = await this.moveOwnedNodes(
+        node.id,
+        survivorId,
+        'HAS_ARC',
+        'Arc',
+        'characterId',
+      );
+      const threadMemberships = await this.moveThreadMemberships(
+        node.id,
+        survivorId,
+      );
+      const edges = await this.moveStoryEdges(node.id, survivorId, mergedIds);
+      const mentionIds = await mentionService.reassignNode(node.id, survivorId);
+
+      await this.query(
+        `
+        MATCH (n:StoryNode)
+        WHERE n.id = $nodeId
+        SET n.deletedAt = $now, n.updatedAt = $now
+        `,
+        { nodeId: node.id, now },
+      );
+
+      absorbed.push({
+        node,
+        facetIds,
+        stateIds,
+        arcIds,
+        threadMemberships,
+        edges,
+        mentionIds,
+      });
+    }
+
+    const documentOrders = [survivor, ...absorbedNodes]
+      .map((n) => n.documentOrder)
+      .filter((order): order is number => order != null);
+
+    const survivorUpdates = {
+      aliases: this.unionAliases(survivor, absorbedNodes),
+      description:
+        survivor.description ??
+        absorbedNodes.find((n) => n.description)?.description ??
+        null,
+      documentOrder:
+        documentOrders.length > 0 ? Math.min(...documentOrders) : null,
+    };
+    await this.updateStoryNode(survivorId, survivorUpdates);
+    await this.invalidateLayoutPositions(survivor.documentId);
+
+    logger.info(
+      {
+        survivorId,
+        absorbedIds: uniqueAbsorbedIds,
+        documentId: survivor.documentId,
+      },
+      'Story nodes merged in FalkorDB',
+    );
+
+    return { survivorBefore: survivor, survivorUpdates, absorbed };
+  }
+
+  /**
+   * Re-point owned nodes (facets, states, arcs) from one StoryNode to another,
+   * keeping their owner-id property in sync. Pass `onlyIds` to move a subset.
+   * Returns the moved node IDs.
+   */
+  private async moveOwnedNodes(
+    fromId: string,
+    toId: string,
+    edgeType: StoryEdgeType,
+    label: string,
+    ownerProperty: string,
+    onlyIds?: string[],
+  ): Promise<string[]> {
+    this.validateEdgeType(edgeType);
+    this.validateLabel(label);
+    this.validatePropertyName(ownerProperty);
+
+    if (onlyIds && onlyIds.length === 0) return [];
+    const idFilter = onlyIds ? 'AND o.id IN $onlyIds' : '';
+
+    const result = await this.query(
+      `
+      MATCH (a:StoryNode)-[:${edgeType}]->(o:${label})
+      WHERE a.id = $fromId ${idFilter}
+      RETURN o.id
+      `,
+      { fromId, ...(onlyIds && { onlyIds }) },
+    );
+    const ids = result.data.map((row) => row[0] as string);
+    if (ids.length === 0) return ids;
+
+    await this.query(
+      `
+      MATCH (a:StoryNode)-[r:${edgeType}]->(o:${label}), (b:StoryNode)
+      WHERE a.id = $fromId AND b.id = $toId AND o.id IN $ids
+      DELETE r
+      CREATE (b)-[:${edgeType} {createdAt: $now}]->(o)
+      SET o.${ownerProperty} = $toId
+      `,
+      { fromId, toId, ids, now: new Date().toISOString() },
+    );
+
+    return ids;
+  }
+
+  private async moveThreadMemberships(
+    fromId: string,
+    toId: string,
+  ): Promise<{ threadId: string; order: number; moved: boolean }[]> {
+    const result = await this.query(
+      `
+      MATCH (n:StoryNode)-[r:BELONGS_TO_THREAD]->(nt:NarrativeThread)
+      WHERE n.id IN [$fromId, $toId]
+      RETURN n.id, nt.id, r.order
+      `,
+      { fromId, toId },
+    );
+
+    const survivorThreadIds = new Set(
+      result.data.filter((row) => row[0] === toId).map((row) => row[1]),
+    );
+    const memberships = result.data
+      .filter((row) => row[0] === fromId)
+      .map((row) => ({
+        threadId: row[1] as string,
+        order: Number(row[2]),
+        moved: !survivorThreadIds.has(row[1]),
+      }));
+
+    for (const membership of memberships) {
+      if (membership.moved) {
+        await this.linkEventToThread(
+          toId,
+          membership.threadId,
+          membership.order,
+        );
+      }
+    }
+
+    if (memberships.length > 0) {
+      await this.query(
+        `
+        MATCH (n:StoryNode)-[r:BELONGS_TO_THREAD]->(:NarrativeThread)
+        WHERE n.id = $fromId
+        DELETE r
+        `,
+        { fromId },
+      );
+    }
+
+    return memberships;
+  }
+
+  /**
+   * Recreate a node's story edges on another node and soft-delete the originals.
+   * Pass `onlyEdgeIds` to move a subset. Edges between `toId` and any node in
+   * `collapsedIds` would become self-loops and are dropped.
+   */
+  private async moveStoryEdges(
+    fromId: string,
+    toId: string,
+    collapsedIds: Set<string>,
+    onlyEdgeIds?: string[],
+  ): Promise<MergedEdgeRecord[]> {
+    const edgeKey = (
+      edgeType: string,
+      direction: 'out' | 'in',
+      otherNodeId: string,
+    ) => `${edgeType}|${direction}|${otherNodeId}`;
+
+    const survivorKeys = new Set(
+      (await this.getLiveStoryEdges(toId)).map((e) =>
+        edgeKey(e.edgeType, e.direction, e.otherNodeId),
+      ),
+    );
+
+    const edges = (await this.getLiveStoryEdges(fromId)).filter(
+      (e) => !onlyEdgeIds || onlyEdgeIds.includes(e.originalId),
+    );
+
+    const records: MergedEdgeRecord[] = [];
+    for (const edge of edges) {
+      const key = edgeKey(edge.edgeType, edge.direction, edge.otherNodeId);
+      const [newFrom, newTo] =
+        edge.direction === 'out'
+          ? [toId, edge.otherNodeId]
+          : [edge.otherNodeId, toId];
+
+      let dropReason: MergedEdgeRecord['dropReason'] = null;
+      if (collapsedIds.has(edge.otherNodeId)) {
+        dropReason = 'self_loop';
+      } else if (survivorKeys.has(key)) {
+        dropReason = 'duplicate';
+      } else if (
+        CAUSAL_EDGE_TYPES.includes(edge.edgeType) &&
+        (await this.wouldCreateCycle(newFrom, newTo))
+      ) {
+        dropReason = 'cycle';
+      }
+
+      let newId: string | null = null;
+      if (!dropReason) {
+        newId = await this.createStoryConnection(
+          newFrom,
+          newTo,
+          edge.edgeType,
+          edge.description,
+          { strength: edge.strength ?? undefined },
+        );
+        survivorKeys.add(key);
+      }
+
+      records.push({ ...edge, newId, dropReason });
+    }
+
+    if (records.length > 0) {
+      await this.query(
+        `
+        MATCH (a:StoryNode)-[r]-(:StoryNode)
+        WHERE a.id = $fromId AND r.id IN $edgeIds
+        SET r.deletedAt = $deletedAt
+        `,
+        {
+          fromId,
+          edgeIds: records.map((r) => r.originalId),
+          deletedAt: new Date().toISOString(),
+        },
+      );
+    }
+
+    return records;
+  }
+
+  /**
+   * Live story edges touching a node, in either direction.
+   */
+  async getLiveStoryEdges(
+    nodeId: string,
+  ): Promise<Omit<MergedEdgeRecord, 'newId' | 'dropReason'>[]> {
+    const cypher = `
+      MATCH (a:StoryNode)-[r]-(b:StoryNode)
+      WHERE a.id = $nodeId
+        AND ${this.deletedAtFilterEdge('a', 'r', 'b')}
+        AND type(r) IN $edgeTypes
+      RETURN DISTINCT r.id, type(r), startNode(r).id = a.id, b.id, r.description, r.strength
+    `;
+    const result = await this.query(cypher, {
+      nodeId,
+      edgeTypes: STORY_CONNECTION_TYPES,
+    });
+
+    return result.data.map((row) => ({
+      originalId: row[0] as string,
+      edgeType: row[1] as StoryEdgeType,
+      direction:
+        row[2] === true || row[2] === 'true'
+          ? ('out' as const)
+          : ('in' as const),
+      otherNodeId: row[3] as string,
+      description: row[4] as string | null,
+      strength: row[5] != null ? Number(row[5]) : null,
+    }));
+  }
+
+  /**
+   * Split part of a story node off into a new node.
+   *
+   * The new node copies the original's type unless one is given. The listed
+   * facets and edges move to it; mentions are Postgres-side and are moved by
+   * the caller.
+   */
+  async splitStoryNode(
+    nodeId: string,
+    node: { name: string; type?: StoryNodeType; description?: string | null },
+    partition: { facetIds: string[]; edgeIds: string[] },
+  ): Promise<StoryNodeSplitResult> {
+    const original = await this.getStoryNodeByIdInternal(nodeId);
+    if (!original) {
+      throw new Error(`Node ${nodeId} not found`);
+    }
+
+    const newNodeId = await this.createStoryNode(
+      original.documentId,
+      original.userId,
+      {
+        type: node.type ?? original.type,
+        name: node.name,
+        description: node.description ?? '',
+        mentions: [],
+      },
+      {
+        stylePreset: original.stylePreset,
+        stylePrompt: original.stylePrompt,
+      },
+    );
+
+    const facetIds = await this.moveOwnedNodes(
+      nodeId,
+      newNodeId,
+      'HAS_FACET',
+      'Facet',
+      'entityId',
+      partition.facetIds,
+    );
+    const edges = await this.moveStoryEdges(
+      nodeId,
+      newNodeId,
+      new Set([nodeId]),
+      partition.edgeIds,
+    );
+
+    logger.info(
+      { nodeId, newNodeId, facetCount: facetIds.length },
+      'Story node split in FalkorDB',
+    );
+
+    return { nodeId: newNodeId, facetIds, edges };
+  }
+
+  /**
+   * Undo one absorbed node of a merge: revive the node and move back the
+   * facets, states, arcs, thread memberships and edges recorded at merge time.
+   * Survivor field changes and mentions are restored by the caller.
+   */
+  async restoreMergedNode(
+    survivorId: string,
+    record: AbsorbedNodeRecord,
+  ): Promise<void> {
+    const absorbedId = record.node.id;
+    const now = new Date().toISOString();
+
+    await this.query(
+      `
+      MATCH (n:StoryNode)
+      WHERE n.id = $nodeId
+      SET n.deletedAt = null, n.updatedAt = $now
+      `,
+      { nodeId: absorbedId, now },
+    );
+
+    await this.moveOwnedNodes(
+      survivorId,
+      absorbedId,
+      'HAS_FACET',
+      'Facet',
+      'entityId',
+      record.facetIds,
+    );
+    await this.moveOwnedNodes(
+      survivorId,
+      absorbedId,
+      'HAS_STATE',
+      'CharacterState',
+      'characterId',
+      record.stateIds,
+    );
+    await this.moveOwnedNodes(
+      survivorId,
+      absorbedId,
+      'HAS_ARC',
+      'Arc',
+      'characterId',
+      record.arcIds,
+    );
+
+    for (const membership of record.threadMemberships) {
+      if (membership.moved) {
+        await this.query(
+          `
+          MATCH (n:StoryNode)-[r:BELONGS_TO_THREAD]->(nt:NarrativeThread)
+          WHERE n.id = $survivorId AND nt.id = $threadId
+          DELETE r
+          `,
+          { survivorId, threadId: membership.threadId },
+        );
+      }
+      await this.linkEventToThread(
+        absorbedId,
+        membership.threadId,
+        membership.order,
+      );
+    }
+
+    const newEdgeIds = record.edges
+      .map((e) => e.newId)
+      .filter((id): id is string => id !== null);
+    if (newEdgeIds.length > 0) {
+      await this.query(
+        `
+        MATCH (a:StoryNode)-[r]-(:StoryNode)
+        WHERE a.id = $survivorId AND r.id IN $edgeIds
+        SET r.deletedAt = $now
+        `,
+        { survivorId, edgeIds: newEdgeIds, now },
+      );
+    }
+    if (record.edges.length > 0) {
+      await this.query(
+        `
+        MATCH (a:StoryNode)-[r]-(:StoryNode)
+        WHERE a.id = $absorbedId AND r.id IN $edgeIds
+        SET r.deletedAt = null
+        `,
+        { absorbedId, edgeIds: record.edges.map((e) => e.originalId) },
+      );
+    }
+
+    await this.invalidateLayoutPositions(record.node.documentId);
+
+    logger.info({ survivorId, absorbedId }, 'Merged story node restored');
+  }
+
+  private unionAliases(
+    survivor: StoredStoryNode,
+    absorbedNodes: StoredStoryNode[],
+  ): string[] {
+    const seen = new Set([survivor.name.toLowerCase().trim()]);
+    const aliases: string[] = [];
+    const candidates = [
+      ...(survivor.aliases ?? []),
+      ...absorbedNodes.flatMap((n) => [n.name, ...(n.aliases ?? [])]),
+    ];
+
+    for (const candidate of candidates) {
+      const key = candidate.toLowerCase().trim();
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      aliases.push(candidate);
+    }
+
+    return aliases;
+  }
+
   // ========== Narrative Thread Methods ==========
 
   async createNarrativeThread(
@@ -1620,6 +2255,7 @@ class GraphService {
     facet: FacetInput,
     embedding?: number[],
     analysisVersion?: string,
+    userAuthored?: boolean,
   ): Promise<string> {
     const facetId = randomUUID();
     const now = new Date().toISOString();
@@ -1629,6 +2265,7 @@ class GraphService {
       entityId,
       facetType: facet.type,
       content: facet.content,
+      userAuthored: userAuthored ?? null,
       createdAt: now,
       updatedAt: now,
       deletedAt: null,
@@ -1695,7 +2332,7 @@ class GraphService {
     const cypher = `
       MATCH (e:StoryNode)-[:HAS_FACET]->(f:Facet)
       WHERE e.id = $entityId AND f.deletedAt IS NULL
-      RETURN f.id, f.entityId, f.facetType, f.content, f.${embeddingColumn}, f.createdAt, f.updatedAt, f.deletedAt
+      RETURN f.id, f.entityId, f.facetType, f.content, f.${embeddingColumn}, f.createdAt, f.updatedAt, f.deletedAt, f.userAuthored
       ORDER BY f.facetType, f.createdAt
     `;
     const result = await this.query(cypher, { entityId });
@@ -1724,13 +2361,14 @@ class GraphService {
         createdAt: row[5] as string,
         updatedAt: row[6] as string,
         deletedAt: row[7] as string | null,
+        userAuthored: row[8] === true,
       };
     });
   }
 
   async updateFacet(
     facetId: string,
-    updates: { content?: string; embedding?: number[] },
+    updates: { content?: string; embedding?: number[]; userAuthored?: boolean },
   ): Promise<void> {
     // Get facet info before updating to check if name recomputation needed
     const facet = await this.getFacetById(facetId);
@@ -1749,6 +2387,9 @@ class GraphService {
       setStatements.push('f.content = $content');
       params.content = updates.content;
     }
+    if (updates.userAuthored) {
+      setStatements.push('f.userAuthored = true');
+    }
 
     const cypher = `
       MATCH (f:Facet)
@@ -2250,6 +2891,37 @@ class GraphService {
     }));
   }
 
+  /**
+   * Get an Arc with the document and user it belongs to.
+   */
+  async getArcById(
+    arcId: string,
+  ): Promise<(StoredArc & { documentId: string; userId: string }) | null> {
+    const cypher = `
+      MATCH (a:Arc)
+      WHERE a.id = $arcId AND a.deletedAt IS NULL
+      RETURN a.id, a.characterId, a.name, a.arcType, a.summary, a.embedding,
+             a.createdAt, a.updatedAt, a.deletedAt, a.documentId, a.userId
+    `;
+    const result = await this.query(cypher, { arcId });
+
+    if (result.data.length === 0) return null;
+    const row = result.data[0];
+    return {
+      id: row[0] as string,
+      characterId: row[1] as string,
+      name: row[2] as string,
+      arcType: row[3] as ArcType,
+      summary: row[4] as string | null,
+      embedding: row[5] as number[] | null,
+      createdAt: row[6] as string,
+      updatedAt: row[7] as string,
+      deletedAt: row[8] as string | null,
+      documentId: row[9] as string,
+      userId: row[10] as string,
+    };
+  }
+
   /**
    * Get all CharacterStates linked to an Arc, ordered by inclusion order.
    */
@@ -37,6 +37,7 @@ export interface StoredStoryConnection {
   narrativeDistance: number | null;
   createdAt: string;
   deletedAt: string | null;
+  userAuthored?: boolean;
 }
 
 export interface QueryResult {
@@ -85,6 +86,8 @@ export interface StoredFacet {
   type: FacetType;
   content: string;
   embedding?: number[];
+  /** Written or edited by the user; re-analysis never overrides it */
+  userAuthored?: boolean;
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
@@ -134,3 +137,51 @@ export function causalEdgePattern(variableHops?: string): string {
   const types = CAUSAL_EDGE_TYPES.join('|');
   return variableHops ? `:${types}${variableHops}` : `:${types}`;
 }
+
+// ========== Merge Types ==========
+
+/**
+ * An edge that belonged to an absorbed node during a merge.
+ * `newId` is the edge recreated on the survivor; null when the edge was
+ * dropped (duplicate of an existing survivor edge, self-loop, or cycle).
+ */
+export interface MergedEdgeRecord {
+  originalId: string;
+  edgeType: StoryEdgeType;
+  direction: 'out' | 'in';
+  otherNodeId: string;
+  description: string | null;
+  strength: number | null;
+  newId: string | null;
+  dropReason: 'duplicate' | 'self_loop' | 'cycle' | null;
+}
+
+export interface AbsorbedNodeRecord {
+  node: StoredStoryNode;
+  facetIds: string[];
+  stateIds: string[];
+  arcIds: string[];
+  /** `moved` is false when the survivor already belonged to the thread */
+  threadMemberships: { threadId: string; order: number; moved: boolean }[];
+  edges: MergedEdgeRecord[];
+  mentionIds: string[];
+}
+
+export interface StoryNodeMergeResult {
+  /** Survivor as it was before the merge */
+  survivorBefore: StoredStoryNode;
+  /** Fields written onto the survivor by the merge */
+  survivorUpdates: {
+    aliases: string[];
+    description: string | null;
+    documentOrder: number | null;
+  };
+  absorbed: AbsorbedNodeRecord[];
+}
+
+export interface StoryNodeSplitResult {
+  /** ID of the newly created node */
+  nodeId: string;
+  facetIds: string[];
+  edges: MergedEdgeRecord[];
+}
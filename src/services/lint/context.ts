@@ -0,0 +1,166 @@
+/**
+ * Prompt context and result mapping for the consistency linter. Kept free
+ * of database and graph access so it can be tested on its own.
+ */
+
+import type { FacetType } from '../../types/storyNodes';
+import type {
+  LintEntity,
+  LintFact,
+  LintPassage,
+  LintWarning,
+} from './lint.types';
+
+/** Warning as returned by the model, before it is located in the text */
+export interface RawLintWarning {
+  passage: number;
+  entityName: string;
+  quote: string;
+  factRef?: string | null;
+  message: string;
+}
+
+export interface EntityFacts {
+  id: string;
+  name: string;
+  type: string;
+  facets: Array<{ id: string; type: FacetType; content: string }>;
+  possessions: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Segments a changed range touches. An empty range (a deletion) checks
+ * the segment it falls in.
+ */
+export function overlappingSegments<T extends { start: number; end: number }>(
+  segments: T[],
+  start: number,
+  end: number,
+): T[] {
+  if (start === end) {
+    return segments.filter((s) => s.start <= start && start < s.end);
+  }
+  return segments.filter((s) => s.start < end && s.end > start);
+}
+
+/**
+ * Number facts across the whole request so a reference is unambiguous.
+ * Name facets are left out: they identify rather than describe.
+ */
+export function numberFacts(
+  entities: EntityFacts[],
+  startRef = 1,
+): LintEntity[] {
+  let next = startRef;
+  return entities.map((entity) => {
+    const facts: LintFact[] = [
+      ...entity.facets
+        .filter((f) => f.type !== 'name')
+        .map((f) => ({
+          ref: `F${next++}`,
+          kind: 'facet' as const,
+          id: f.id,
+          content: f.content,
+          facetType: f.type,
+        })),
+      ...entity.possessions.map((p) => ({
+        ref: `F${next++}`,
+        kind: 'possession' as const,
+        id: p.id,
+        content: `possesses ${p.name}`,
+        facetType: null,
+      })),
+    ];
+    return { id: entity.id, name: entity.name, type: entity.type, facts };
+  });
+}
+
+export function formatPassages(passages: LintPassage[]): string {
+  return passages
+    .map((passage) => {
+      const facts = passage.entities
+        .filter((e) => e.facts.length > 0)
+        .map(
+          (e) =>
+            `${e.name} (${e.type}):\n${e.facts
+              .map((f) =>
+                f.facetType
+                  ? `  [${f.ref}] ${f.facetType}: ${f.content}`
+                  : `  [${f.ref}] ${f.content}`,
+              )
+              .join('\n')}`,
+        )
+        .join('\n');
+      return `## PASSAGE ${passage.number}\n"""\n${passage.text}\n"""\n\n### ESTABLISHED FACTS\n${facts}`;
+    })
+    .join('\n\n');
+}
+
+/** Offset of a quote within text, tolerating differences in case */
+function findQuote(text: string, quote: string): number {
+  const exact = text.indexOf(quote);
+  if (exact !== -1) return exact;
+  return text.toLowerCase().indexOf(quote.toLowerCase());
+}
+
+/**
+ * Place the model's warnings in the document. Warnings whose quote can't
+ * be found, whose entity wasn't in the passage, or that fall outside the
+ * changed range are dropped.
+ */
+export function locateWarnings(
+  raw: RawLintWarning[],
+  passages: LintPassage[],
+  range: { start: number; end: number },
+): LintWarning[] {
+  const byNumber = new Map(passages.map((p) => [p.number, p]));
+  const seen = new Set<string>();
+  const warnings: LintWarning[] = [];
+
+  for (const item of raw) {
+    const passage = byNumber.get(item.passage);
+    const quote = item.quote?.trim();
+    if (!passage || !quote) continue;
+
+    const entity = passage.entities.find(
+      (e) => e.name.toLowerCase() === item.entityName?.trim().toLowerCase(),
+    );
+    if (!entity) continue;
+
+    const offset = findQuote(passage.text, quote);
+    if (offset === -1) continue;
+
+    const start = passage.start + offset;
+    const end = start + quote.length;
+    // A deletion's range is empty; anything in its segment counts
+    const inRange =
+      range.start === range.end ? true : start < range.end && end > range.start;
+    if (!inRange) continue;
+
+    const key = `${entity.id}:${start}:${end}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const fact = item.factRef
+      ? entity.facts.find((f) => f.ref === item.factRef)
+      : undefined;
+    warnings.push({
+      entityId: entity.id,
+      entityName: entity.name,
+      start,
+      end,
+      quote: passage.text.slice(offset, offset + quote.length),
+      message: item.message,
+      fact: fact
+        ? {
+            kind: fact.kind,
+            id: fact.id,
+            content: fact.content,
+            facetType: fact.facetType,
+          }
+        : null,
+    });
+  }
+
+  return warnings.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,10 @@
+/**
+ * On-demand consistency lint for new prose.
+ */
+
+export { lintService } from './lint.service';
+export type {
+  LintFact,
+  LintResult,
+  LintWarning,
+} from './lint.types';
@@ -0,0 +1,203 @@
+/**
+ * On-demand consistency lint for newly written prose. Only the segments a
+ * change touches are checked, against the facets active for the entities
+ * they mention at that point and what those entities possess, in a single
+ * model call. Nothing is sent when no known entity is mentioned.
+ */
+
+import { checkConsistencyPrompt } from '../../prompts/lint';
+import { GeminiType } from '../gemini/core';
+import { graphService } from '../graph/graph.service';
+import type { StoredFacet, StoredStoryNode } from '../graph/graph.types';
+import { llmClient } from '../llm';
+import { mentionService } from '../mentions/mention.service';
+import { findNameOccurrences } from '../mentions/nameMatch';
+import { type Segment, segmentService } from '../segments';
+import {
+  type EntityFacts,
+  formatPassages,
+  locateWarnings,
+  numberFacts,
+  overlappingSegments,
+  type RawLintWarning,
+} from './context';
+import type { LintPassage, LintResult } from './lint.types';
+
+const LINT_MODEL = 'gemini-2.5-flash';
+const MAX_SEGMENTS = 4;
+const MAX_ENTITIES_PER_PASSAGE = 12;
+const MAX_OUTPUT_TOKENS = 2048;
+
+// Entity types with facts prose can contradict
+const LINTABLE_TYPES = new Set(['character', 'location', 'object']);
+
+const lintResponseSchema = {
+  type: GeminiType.OBJECT,
+  properties: {
+    warnings: {
+      type: GeminiType.ARRAY,
+      items: {
+        type: GeminiType.OBJECT,
+        properties: {
+          passage: { type: GeminiType.INTEGER },
+          entityName: { type: GeminiType.STRING },
+          quote: { type: GeminiType.STRING },
+          factRef: { type: GeminiType.STRING, nullable: true },
+          message: { type: GeminiType.STRING },
+        },
+        required: ['passage', 'entityName', 'quote', 'message'],
+      },
+    },
+  },
+  required: ['warnings'],
+};
+
+interface LintableDocument {
+  id: string;
+  userId: string;
+  title: string;
+  content: string;
+  currentVersion: number;
+  segmentSequence: unknown;
+}
+
+/** Entities named, aliased or already mentioned in a segment */
+function entitiesInSegment(
+  text: string,
+  candidates: StoredStoryNode[],
+  mentionedIds: Set<string>,
+): StoredStoryNode[] {
+  return candidates
+    .filter(
+      (node) =>
+        mentionedIds.has(node.id) ||
+        findNameOccurrences(text, node.name, node.aliases ?? []).length > 0,
+    )
+    .slice(0, MAX_ENTITIES_PER_PASSAGE);
+}
+
+export const lintService = {
+  /**
+   * Check a changed range of a document. Access is checked by the
+   * caller; offsets are clamped to the saved content.
+   */
+  async lint(
+    document: LintableDocument,
+    userId: string,
+    range: { start: number; end: number },
+  ): Promise<LintResult> {
+    const start = Math.min(range.start, document.content.length);
+    const end = Math.min(Math.max(range.end, start), document.content.length);
+    const result: LintResult = {
+      documentId: document.id,
+      version: document.currentVersion,
+      range: { start, end },
+      warnings: [],
+      checkedSegmentIds: [],
+    };
+
+    const existing = Array.isArray(document.segmentSequence)
+      ? (document.segmentSequence as Segment[])
+      : [];
+    const segments = segmentService.computeSegments(document.content, existing);
+    const changed = overlappingSegments(segments, start, end).slice(
+      0,
+      MAX_SEGMENTS,
+    );
+    if (changed.length === 0) return result;
+
+    const [nodes, connections, mentions] = await Promise.all([
+      graphService.getStoryNodesForDocument(document.id, document.userId),
+      graphService.getStoryConnectionsForDocument(document.id),
+      mentionService.getByDocumentIdWithAbsolutePositions(document.id),
+    ]);
+    const nodesById = new Map(nodes.map((node) => [node.id, node]));
+    const candidates = nodes.filter((node) => LINTABLE_TYPES.has(node.type));
+
+    const facetCache = new Map<string, Promise<StoredFacet[]>>();
+    const activeFacets = (entityId: string, position: number) => {
+      const key = `${entityId}:${position}`;
+      let facets = facetCache.get(key);
+      if (!facets) {
+        facets = graphService.getActiveFacetsAtPosition(entityId, position);
+        facetCache.set(key, facets);
+      }
+      return facets;
+    };
+
+    const passages: LintPassage[] = [];
+    let nextRef = 1;
+    for (const segment of changed) {
+      const text = document.content.slice(segment.start, segment.end);
+      const mentionedIds = new Set(
+        mentions
+          .filter(
+            (m) =>
+              m.absoluteStart < segment.end && m.absoluteEnd > segment.start,
+          )
+          .map((m) => m.nodeId),
+      );
+      const found = entitiesInSegment(text, candidates, mentionedIds);
+      if (found.length === 0) continue;
+
+      // Facts as they stand where the change begins
+      const position = Math.max(segment.start, start);
+      const entityFacts: EntityFacts[] = await Promise.all(
+        found.map(async (node) => ({
+          id: node.id,
+          name: node.name,
+          type: node.type,
+          facets: await activeFacets(node.id, position),
+          possessions: connections
+            .filter(
+              (c) => c.edgeType === 'POSSESSES' && c.fromNodeId === node.id,
+            )
+            .flatMap((c) => {
+              const owned = nodesById.get(c.toNodeId);
+              return owned ? [{ id: owned.id, name: owned.name }] : [];
+            }),
+        })),
+      );
+
+      const entities = numberFacts(entityFacts, nextRef);
+      const factCount = entities.reduce((sum, e) => sum + e.facts.length, 0);
+      if (factCount === 0) continue;
+      nextRef += factCount;
+
+      passages.push({
+        number: passages.length + 1,
+        segmentId: segment.id,
+        start: segment.start,
+        end: segment.end,
+        text,
+        entities,
+      });
+    }
+    if (passages.length === 0) return result;
+
+    const response = await llmClient.generateJSON<{
+      warnings: RawLintWarning[];
+    }>({
+      prompt: checkConsistencyPrompt.build({
+        documentTitle: document.title,
+        passages: formatPassages(passages),
+      }),
+      userId,
+      documentId: document.id,
+      operation: 'lint-consistency',
+      model: LINT_MODEL,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      thinkingConfig: { thinkingBudget: 0 },
+      schema: lintResponseSchema,
+    });
+
+    return {
+      ...result,
+      warnings: locateWarnings(response.warnings ?? [], passages, {
+        start,
+        end,
+      }),
+      checkedSegmentIds: passages.map((p) => p.segmentId),
+    };
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * Types for the on-demand consistency linter.
+ */
+
+import type { FacetType } from '../../types/storyNodes';
+
+/** An established fact a passage is checked against */
+export interface LintFact {
+  /** Short reference used in the prompt, e.g. "F3" */
+  ref: string;
+  kind: 'facet' | 'possession';
+  /** Facet id, or the possessed node's id */
+  id: string;
+  content: string;
+  facetType: FacetType | null;
+}
+
+export interface LintEntity {
+  id: string;
+  name: string;
+  type: string;
+  facts: LintFact[];
+}
+
+/** A changed segment sent for checking */
+export interface LintPassage {
+  number: number;
+  segmentId: string;
+  start: number;
+  end: number;
+  text: string;
+  entities: LintEntity[];
+}
+
+export interface LintWarning {
+  entityId: string;
+  entityName: string;
+  /** Absolute offsets of the contradicting text */
+  start: number;
+  end: number;
+  quote: string;
+  message: string;
+  fact: Omit<LintFact, 'ref'> | null;
+}
+
+export interface LintResult {
+  documentId: string;
+  version: number;
+  range: { start: number; end: number };
+  warnings: LintWarning[];
+  /** Segments sent to the model; empty when nothing needed checking */
+  checkedSegmentIds: string[];
+}
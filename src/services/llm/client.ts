@@ -20,6 +20,7 @@ import { handleApiError, isRetryableError } from './errors';
 import type {
   GenerateJSONParams,
   GenerateTextParams,
+  GenerateTextStreamParams,
   LLMResponse,
 } from './types';
 
@@ -32,6 +33,93 @@ export class LLMClient {
     return (result.text ?? '').trim();
   }
 
+  /**
+   * Generate text, passing chunks to onChunk as they arrive. Retries only
+   * happen before the first chunk; a stream that fails midway is not
+   * restarted, since its chunks have already been delivered.
+   */
+  async generateTextStream(params: GenerateTextStreamParams): Promise<string> {
+    const {
+      prompt,
+      userId,
+      documentId,
+      requestId,
+      operation = 'llm-stream',
+      stage,
+      logger = defaultLogger,
+      model = DEFAULT_CONFIG.model,
+      maxRetries = DEFAULT_CONFIG.maxRetries,
+      timeout = DEFAULT_CONFIG.timeout,
+      thinkingConfig = DEFAULT_CONFIG.thinkingConfig,
+      onChunk,
+    } = params;
+
+    const client = await getGeminiClient();
+    if (!client) {
+      throw new Error(
+        'Gemini API client not initialized - GEMINI_API_KEY missing',
+      );
+    }
+
+    const maxOutputTokens =
+      params.maxOutputTokens ?? getTextModelConfig(model).maxOutputTokens;
+
+    let lastError: Error | null = null;
+    let streamed = false;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        const result = await trackedAI.callLLMStream({
+          operation,
+          model,
+          userId,
+          documentId,
+          requestId,
+          stage,
+          logger,
+          execute: async () =>
+            client.models.generateContentStream({
+              model,
+              contents: prompt,
+              config: {
+                maxOutputTokens,
+                thinkingConfig,
+                ...(timeout && { httpOptions: { timeout } }),
+              },
+            }),
+          onChunk: (text) => {
+            streamed = true;
+            onChunk(text);
+          },
+        });
+
+        return (result.text ?? '').trim();
+      } catch (error: unknown) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (!streamed && attempt < maxRetries - 1 && isRetryableError(error)) {
+          const retryDelayMs = DEFAULT_CONFIG.retryDelays[attempt];
+          logger.warn(
+            {
+              operation,
+              attempt: attempt + 1,
+              maxRetries,
+              error: lastError.message,
+              retryDelayMs,
+            },
+            `${operation} attempt failed, retrying`,
+          );
+
+          await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+        } else {
+          break;
+        }
+      }
+    }
+
+    throw handleApiError(lastError, operation);
+  }
+
   /**
    * Generate JSON with schema validation and automatic defaults.
    */
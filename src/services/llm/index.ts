@@ -3,5 +3,6 @@ export { DEFAULT_CONFIG } from './config';
 export type {
   GenerateJSONParams,
   GenerateTextParams,
+  GenerateTextStreamParams,
   LLMResponse,
 } from './types';
@@ -23,6 +23,11 @@ export interface BaseLLMParams {
 
 export interface GenerateTextParams extends BaseLLMParams {}
 
+export interface GenerateTextStreamParams extends BaseLLMParams {
+  /** Called with each text chunk as it arrives */
+  onChunk: (text: string) => void;
+}
+
 export interface GenerateJSONParams<T> extends BaseLLMParams {
   schema: object;
   validateResponse?: (data: unknown) => T;
@@ -4,12 +4,13 @@
 
 export type { FuzzyMatchInput, FuzzyMatchResult } from './fuzzyMatch';
 export { fuzzyFindText, fuzzyFindTextInSegment } from './fuzzyMatch';
-export { mentionService } from './mention.service';
+export { computeTextHash, mentionService } from './mention.service';
 export type {
   CreateMentionInput,
   Mention,
   MentionSource,
   MentionWithAbsolutePosition,
+  TextAnchor,
 } from './mention.types';
 export type { NameMatchConfig, NameMatchResult } from './nameMatch';
 export { findNameOccurrences, nameMatchesToMentionInputs } from './nameMatch';
@@ -16,6 +16,7 @@ import type {
   CreateMentionInput,
   Mention,
   MentionWithAbsolutePosition,
+  TextAnchor,
 } from './mention.types';
 import {
   buildNameFacetMap,
@@ -429,6 +430,41 @@ export const mentionService = {
     return deleted.length;
   },
 
+  /**
+   * Point every mention of one node at another node.
+   * Used by entity merges. Returns the IDs of the moved mentions.
+   */
+  async reassignNode(fromNodeId: string, toNodeId: string): Promise<string[]> {
+    const moved = await db
+      .update(mentions)
+      .set({ nodeId: toNodeId })
+      .where(eq(mentions.nodeId, fromNodeId))
+      .returning({ id: mentions.id });
+    return moved.map((m) => m.id);
+  },
+
+  /**
+   * Move specific mentions from one node to another.
+   * Mentions no longer attached to `fromNodeId` are left alone.
+   * Returns the IDs of the moved mentions.
+   */
+  async reassignMentions(
+    mentionIds: string[],
+    fromNodeId: string,
+    toNodeId: string,
+  ): Promise<string[]> {
+    if (mentionIds.length === 0) return [];
+
+    const moved = await db
+      .update(mentions)
+      .set({ nodeId: toNodeId })
+      .where(
+        and(inArray(mentions.id, mentionIds), eq(mentions.nodeId, fromNodeId)),
+      )
+      .returning({ id: mentions.id });
+    return moved.map((m) => m.id);
+  },
+
   /**
    * Delete mentions whose nodes don't exist in FalkorDB.
    * Handles both: nodes that were never created (failed analysis)
@@ -620,7 +656,7 @@ export const mentionService = {
    * Falls back from segment-local search to full document search.
    */
   resolveMentionPosition(
-    mention: Mention,
+    mention: TextAnchor,
     documentContent: string,
     segments: Segment[],
   ): { absoluteStart: number; absoluteEnd: number; confidence: number } | null {
@@ -811,7 +847,7 @@ export const mentionService = {
   },
 };
 
-function computeTextHash(text: string): string {
+export function computeTextHash(text: string): string {
   return createHash('sha256').update(text).digest('hex').slice(0, 64);
 }
 
@@ -21,6 +21,15 @@ export interface Mention {
   updatedAt: Date;
 }
 
+/**
+ * The part of a mention that pins it to the text. Other anchored records
+ * (comment threads) store the same fields and resolve the same way.
+ */
+export type TextAnchor = Pick<
+  Mention,
+  'segmentId' | 'relativeStart' | 'relativeEnd' | 'originalText' | 'textHash'
+>;
+
 export type MentionSource =
   | 'extraction' // LLM-extracted key passages
   | 'name_match' // Algorithmic name/alias matching
@@ -0,0 +1,153 @@
+/**
+ * Existing-Entity Matching
+ *
+ * Stage 3 decides which registry entity an extracted entity continues. The
+ * LLM's existingMatch names a candidate; the user's resolution constraints
+ * then override it: a cannot-link pair is never fused, and a must-link
+ * partner is used even when the LLM found no match.
+ */
+
+import type {
+  ConstraintIndex,
+  ConstraintSubject,
+} from '../entityResolution/constraints';
+import type { ExistingMatch } from '../gemini/client';
+
+/** The registry fields matching needs */
+export interface MatchableEntity {
+  id: string;
+  name: string;
+  type: string;
+  aliases: string[];
+}
+
+export interface ExtractedMatchInput {
+  name: string;
+  type: string;
+  facets: Array<{ type: string; content: string }>;
+  existingMatch?: ExistingMatch;
+}
+
+export interface ExistingMatchDecision {
+  /** Registry entity to fuse into, or null for a new entity */
+  entity: MatchableEntity | null;
+  /** existingMatch to record on the extracted entity */
+  existingMatch?: ExistingMatch;
+  /** Set when a user constraint overrode the LLM */
+  constraint?: 'cannot_link' | 'must_link';
+}
+
+function extractedSubject(entity: ExtractedMatchInput): ConstraintSubject {
+  return {
+    names: [
+      entity.name,
+      ...entity.facets.filter((f) => f.type === 'name').map((f) => f.content),
+    ],
+  };
+}
+
+function registrySubject(entity: MatchableEntity): ConstraintSubject {
+  return { ids: [entity.id], names: [entity.name, ...entity.aliases] };
+}
+
+/**
+ * Look up the registry entity the LLM matched, by primary name and then by
+ * alias. The type must agree.
+ */
+function findMatchedEntity(
+  match: ExistingMatch,
+  registry: MatchableEntity[],
+  aliasToEntityId: Map<string, string>,
+): MatchableEntity | undefined {
+  const matchedName = match.matchedName.toLowerCase();
+  const matchedType = match.matchedType.toLowerCase();
+
+  const byName = registry.find(
+    (e) =>
+      e.name.toLowerCase() === matchedName &&
+      e.type.toLowerCase() === matchedType,
+  );
+  if (byName) return byName;
+
+  const aliasEntityId = aliasToEntityId.get(matchedName);
+  const byAlias = aliasEntityId
+    ? registry.find((e) => e.id === aliasEntityId)
+    : undefined;
+  return byAlias?.type.toLowerCase() === matchedType ? byAlias : undefined;
+}
+
+function constrainedMatch(
+  entity: MatchableEntity,
+  reason: string,
+): ExistingMatch {
+  return {
+    matchedName: entity.name,
+    matchedType: entity.type,
+    confidence: 'high',
+    reason,
+  };
+}
+
+/**
+ * Decide which registry entity an extracted entity belongs to.
+ */
+export function matchExistingEntity(
+  entity: ExtractedMatchInput,
+  registry: MatchableEntity[],
+  aliasToEntityId: Map<string, string>,
+  constraints: ConstraintIndex,
+): ExistingMatchDecision {
+  const subject = extractedSubject(entity);
+  const { existingMatch } = entity;
+  let refused = false;
+
+  if (existingMatch && existingMatch.confidence !== 'low') {
+    const matched = findMatchedEntity(existingMatch, registry, aliasToEntityId);
+    if (matched) {
+      if (
+        constraints.check(subject, registrySubject(matched)) !== 'cannot_link'
+      ) {
+        return { entity: matched, existingMatch };
+      }
+      refused = true;
+    }
+  }
+
+  if (constraints.size > 0) {
+    const partner = registry.find(
+      (e) =>
+        e.type.toLowerCase() === entity.type.toLowerCase() &&
+        constraints.check(subject, registrySubject(e)) === 'must_link',
+    );
+    if (partner) {
+      return {
+        entity: partner,
+        existingMatch: constrainedMatch(
+          partner,
+          'User marked these as the same entity',
+        ),
+        constraint: 'must_link',
+      };
+    }
+  }
+
+  if (!refused) return { entity: null, existingMatch };
+
+  // Refused: continue the entity of the same name rather than duplicating it
+  const own = registry.find(
+    (e) =>
+      e.name.toLowerCase() === entity.name.toLowerCase() &&
+      e.type.toLowerCase() === entity.type.toLowerCase() &&
+      constraints.check(subject, registrySubject(e)) !== 'cannot_link',
+  );
+  return own
+    ? {
+        entity: own,
+        existingMatch: constrainedMatch(
+          own,
+          'User marked the suggested match as a different entity',
+        ),
+        constraint: 'cannot_link',
+      }
+    : { entity: null, constraint: 'cannot_link' };
+}
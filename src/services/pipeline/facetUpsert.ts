@@ -0,0 +1,39 @@
+/**
+ * Facet Upsert
+ *
+ * Stage 4 only adds facets; existing rows are never rewritten. What the user
+ * wrote wins over extraction: a facet restating a user-authored one is not
+ * added alongside it, and content the user rewrote or deleted is not put back.
+ */
+
+import type { FacetInput } from '../../types/storyNodes';
+import type { UserEditLocks } from '../changelog/userEditLocks';
+import type { StoredFacet } from '../graph/graph.types';
+
+function normalize(content: string): string {
+  return content.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Extracted facets to create on an entity, given the facets it already has.
+ */
+export function selectFacetsToCreate(
+  entityId: string,
+  extracted: FacetInput[],
+  existing: Pick<StoredFacet, 'type' | 'content' | 'userAuthored'>[],
+  userEditLocks: Pick<UserEditLocks, 'isFacetOverridden'>,
+): FacetInput[] {
+  const existingKeys = new Set(existing.map((f) => `${f.type}:${f.content}`));
+  const userAuthoredKeys = new Set(
+    existing
+      .filter((f) => f.userAuthored)
+      .map((f) => `${f.type}:${normalize(f.content)}`),
+  );
+
+  return extracted.filter(
+    (facet) =>
+      !existingKeys.has(`${facet.type}:${facet.content}`) &&
+      !userAuthoredKeys.has(`${facet.type}:${normalize(facet.content)}`) &&
+      !userEditLocks.isFacetOverridden(entityId, facet.type, facet.content),
+  );
+}
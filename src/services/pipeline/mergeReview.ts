@@ -5,18 +5,22 @@
  * Signals where the LLM was uncertain whether an extracted entity matches an existing
  * registry entity are grouped, classified, and acted on:
  *
- *   high-confidence (3+ independent segments agree): auto-merge logged, queued for execution
+ *   high-confidence (3+ independent segments agree): auto-merge
  *   medium-confidence: LLM disambiguation call with both entities' facets and evidence
  *   uncertain LLM result: routed to review queue as merge_suggestion
  *   low-confidence: skipped (not worth LLM cost)
  *
- * True graph merges (moving mentions + facets) are not yet implemented in graph.service.
- * High-confidence decisions are recorded in MergeAction with applied=false until that
- * infrastructure exists.
+ * Auto-merge decisions are executed by applyAutoMerges() via graphService.mergeStoryNodes,
+ * which flips MergeAction.applied once the graph merge has gone through.
  */
 
 import { logger } from '../../utils/logger';
 import { trackedAI } from '../ai';
+import { mergeTrackedEntities } from '../changelog';
+import {
+  buildConstraintIndex,
+  type ConstraintIndex,
+} from '../entityResolution/constraints';
 import type { MergeSignal } from '../gemini/client';
 import { GeminiType, getGeminiClient } from '../gemini/core';
 
@@ -66,7 +70,7 @@ export interface MergeAction {
   confidence: 'high' | 'medium' | 'low';
   segmentCount: number;
   reason: string;
-  /** False until graph merge infrastructure (move mentions + facets) is implemented */
+  /** True once an auto_merge has been executed against the graph */
   applied: boolean;
 }
 
@@ -142,12 +146,15 @@ export async function disambiguateMergeSignals(
     'Disambiguating merge signals',
   );
 
+  const constraints = await loadConstraints(documentId);
+
   for (const [_key, group] of groups) {
     const action = await processSignalGroup(group, {
       documentId,
       userId,
       entityIdByName,
       entityRegistryById,
+      constraints,
     });
 
     if (!action) continue;
@@ -182,6 +189,73 @@ export async function disambiguateMergeSignals(
   return result;
 }
 
+// ─── Applying auto-merges ────────────────────────────────────────────────────
+
+/**
+ * Execute the auto_merge actions produced by disambiguateMergeSignals.
+ *
+ * The registry entity (target) survives and the extracted entity (source) is
+ * absorbed. Chained decisions (A→B, B→C) resolve to the final survivor. A failed
+ * merge is logged and left unapplied rather than failing the pipeline.
+ *
+ * Returns absorbed entity ID → survivor ID, for remapping in-memory ID maps.
+ */
+export async function applyAutoMerges(
+  actions: MergeAction[],
+  options: { documentId: string; batchId?: string },
+): Promise<Map<string, string>> {
+  const survivorOf = new Map<string, string>();
+  const resolve = (id: string): string => {
+    let current = id;
+    let next = survivorOf.get(current);
+    while (next) {
+      current = next;
+      next = survivorOf.get(current);
+    }
+    return current;
+  };
+
+  for (const action of actions) {
+    if (action.decision !== 'auto_merge' || action.applied) continue;
+
+    const sourceId = resolve(action.sourceEntityId);
+    const targetId = resolve(action.targetEntityId);
+    if (sourceId === targetId) {
+      action.applied = true;
+      continue;
+    }
+
+    try {
+      await mergeTrackedEntities(targetId, [sourceId], {
+        batchId: options.batchId,
+        reason: action.reason,
+      });
+      survivorOf.set(sourceId, targetId);
+      action.applied = true;
+    } catch (error) {
+      logger.warn(
+        {
+          error,
+          documentId: options.documentId,
+          sourceEntityId: sourceId,
+          targetEntityId: targetId,
+        },
+        'Auto-merge failed — entities left separate',
+      );
+    }
+  }
+
+  logger.info(
+    {
+      documentId: options.documentId,
+      applied: survivorOf.size,
+    },
+    'Auto-merges applied',
+  );
+
+  return new Map([...survivorOf.keys()].map((id) => [id, resolve(id)]));
+}
+
 // ─── Grouping ─────────────────────────────────────────────────────────────────
 
 interface SignalGroup {
@@ -245,9 +319,16 @@ async function processSignalGroup(
     userId: string;
     entityIdByName: Map<string, string>;
     entityRegistryById: Map<string, RuntimeEntitySummary>;
+    constraints: ConstraintIndex;
   },
 ): Promise<MergeAction | null> {
-  const { documentId, userId, entityIdByName, entityRegistryById } = context;
+  const {
+    documentId,
+    userId,
+    entityIdByName,
+    entityRegistryById,
+    constraints,
+  } = context;
 
   const sourceEntityId = entityIdByName.get(group.extractedEntityName);
   // registryName belongs to an entity that was in the registry when the signal fired.
@@ -283,6 +364,28 @@ async function processSignalGroup(
     segmentCount: group.segmentCount,
   };
 
+  // User constraints override every signal.
+  const link = constraints.check(
+    { ids: [sourceEntityId], names: [group.extractedEntityName] },
+    { ids: [targetEntityId], names: [group.registryName] },
+  );
+  if (link === 'cannot_link') {
+    return {
+      ...baseAction,
+      decision: 'keep_separate',
+      reason: 'User marked these as different entities',
+      applied: false,
+    };
+  }
+  if (link === 'must_link') {
+    return {
+      ...baseAction,
+      decision: 'auto_merge',
+      reason: 'User marked these as the same entity',
+      applied: false,
+    };
+  }
+
   // Low-confidence signals are not worth LLM cost — skip them.
   if (group.maxConfidence === 'low') {
     logger.debug(
@@ -307,7 +410,7 @@ async function processSignalGroup(
         targetEntityName: group.registryName,
         segmentCount: group.segmentCount,
       },
-      'Auto-merge queued (high confidence, 3+ segments) — awaiting graph merge infrastructure',
+      'Auto-merge queued (high confidence, 3+ segments)',
     );
     return {
       ...baseAction,
@@ -325,6 +428,18 @@ async function processSignalGroup(
   });
 }
 
+/**
+ * Load the user's must-link / cannot-link constraints for this document.
+ */
+async function loadConstraints(documentId: string): Promise<ConstraintIndex> {
+  const { resolutionConstraintService } = await import(
+    '../resolutionConstraints/index.js'
+  );
+  const constraints =
+    await resolutionConstraintService.listForDocument(documentId);
+  return buildConstraintIndex(constraints);
+}
+
 function findByRegistryName(
   name: string,
   registryById: Map<string, RuntimeEntitySummary>,
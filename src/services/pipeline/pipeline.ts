@@ -32,8 +32,6 @@ import type {
 } from '../../types/storyNodes';
 import { generateRequestId, logger } from '../../utils/logger';
 import { logStageComplete, logStageStart } from '../../utils/logHelpers';
-// TODO: Re-enable when review queue UI is built and conflict detection is fixed
-// import { reviewQueueService } from '../reviewQueue';
 import {
   changeLogService,
   createTrackedArc,
@@ -52,6 +50,8 @@ import {
 } from '../contextBudget';
 import { descriptionService } from '../descriptionGeneration';
 import { generateEmbedding, generateEmbeddings } from '../embeddings';
+import { buildBlockingIndex, ensurePhoneticReady } from '../entityResolution';
+import { buildConstraintIndex } from '../entityResolution/constraints';
 import {
   analyzeHigherOrder,
   detectContradictionsInBatch,
@@ -66,15 +66,31 @@ import {
   type Stage5HigherOrderResult,
 } from '../gemini/client';
 import { getGeminiClient } from '../gemini/core';
-import { recomputeAndUpdatePrimaryName } from '../graph/entityNames.js';
+import {
+  computePrimaryName,
+  recomputeAndUpdatePrimaryName,
+} from '../graph/entityNames.js';
 import { computeCausalOrder } from '../graph/graph.analysis';
 import { graphService } from '../graph/graph.service';
 import type { StoredFacet, StoredStoryNode } from '../graph/graph.types';
 import { mentionService } from '../mentions';
+import {
+  matchProjectEntity,
+  nodeToCluster,
+  projectRegistry,
+  REGISTRY_NODE_TYPES,
+} from '../projects';
+import { resolutionConstraintService } from '../resolutionConstraints';
+import { reviewQueueService } from '../reviewQueue';
 import type { Segment } from '../segments';
 import { segmentService } from '../segments';
 import { sentenceService } from '../sentences';
 import { sseService } from '../sse';
+import {
+  readTimeExpression,
+  storyCalendarService,
+  withTimeExpression,
+} from '../storyCalendar';
 import {
   graphStoryNodesRepository,
   recomputeEntityEmbeddingWithMentionWeights,
@@ -84,6 +100,7 @@ import {
   generateSegmentSummaryWithRetry,
   CONFIG as SUMMARY_CONFIG,
   selectSummariesForContext,
+  storySummaryService,
 } from '../summarization';
 import { processBatchesInParallel } from './batchProcessing';
 import {
@@ -94,7 +111,10 @@ import {
   shouldRunStage,
 } from './checkpoint';
 import { AnalysisCancelledError, AnalysisPausedError } from './errors';
+import { matchExistingEntity } from './existingMatch';
+import { selectFacetsToCreate } from './facetUpsert';
 import {
+  applyAutoMerges,
   buildEntityRegistrySummary,
   disambiguateMergeSignals,
 } from './mergeReview';
@@ -179,6 +199,8 @@ interface ExtractedEntity {
   name: string;
   type: StoryNodeType;
   documentOrder?: number;
+  /** Events only: story time as written, placed later by storyCalendar */
+  timeExpression?: string;
   facets: FacetInput[];
   mentions: Array<{ text: string }>;
   existingMatch?: ExistingMatch;
@@ -829,6 +851,11 @@ export const multiStagePipeline = {
         }
       }
 
+      // Pairs the user already decided on, honoured over any LLM match
+      const constraints = buildConstraintIndex(
+        await resolutionConstraintService.listForDocument(documentId),
+      );
+
       const [docWithSummaries] = await db
         .select({
           segmentSequence: documents.segmentSequence,
@@ -1111,66 +1138,47 @@ export const multiStagePipeline = {
                 )
                 .map((m) => ({ text: m.text }));
 
-              // Determine entity ID based on LLM's existingMatch (name-based lookup)
-              let entityId: string;
-              if (
+              // Determine entity ID from the LLM's existingMatch (name-based
+              // lookup), overridden by the user's must-link / cannot-link pairs
+              const match = matchExistingEntity(
+                { ...entity, facets: entityFacets },
+                Array.from(runtimeRegistry.entries.values()),
+                aliasToEntityId,
+                constraints,
+              );
+              const entityId = match.entity?.id ?? randomUUID();
+              if (match.entity) {
+                logger.info(
+                  {
+                    entityName: entity.name,
+                    matchedName: match.entity.name,
+                    matchedType: match.entity.type,
+                    confidence: match.existingMatch?.confidence,
+                    reason: match.existingMatch?.reason,
+                    constraint: match.constraint,
+                  },
+                  'LLM matched entity to existing',
+                );
+              } else if (match.constraint === 'cannot_link') {
+                logger.info(
+                  {
+                    entityName: entity.name,
+                    matchedName: entity.existingMatch?.matchedName,
+                  },
+                  'Match refused by cannot-link constraint, creating new entity',
+                );
+              } else if (
                 entity.existingMatch &&
                 entity.existingMatch.confidence !== 'low'
               ) {
-                // First try: lookup by primary name in full registry
-                let matchedEntry = Array.from(
-                  runtimeRegistry.entries.values(),
-                ).find(
-                  (e) =>
-                    e.name.toLowerCase() ===
-                      entity.existingMatch?.matchedName.toLowerCase() &&
-                    e.type.toLowerCase() ===
-                      entity.existingMatch?.matchedType.toLowerCase(),
+                logger.warn(
+                  {
+                    entityName: entity.name,
+                    matchedName: entity.existingMatch.matchedName,
+                    matchedType: entity.existingMatch.matchedType,
+                  },
+                  'LLM matched to non-existent registry entry, creating new entity',
                 );
-
-                // Second try: lookup by alias
-                if (!matchedEntry) {
-                  const matchedNameLower =
-                    entity.existingMatch.matchedName.toLowerCase();
-                  const aliasEntityId = aliasToEntityId.get(matchedNameLower);
-                  if (aliasEntityId) {
-                    matchedEntry = runtimeRegistry.entries.get(aliasEntityId);
-                    // Verify type matches
-                    if (
-                      matchedEntry &&
-                      matchedEntry.type.toLowerCase() !==
-                        entity.existingMatch.matchedType.toLowerCase()
-                    ) {
-                      matchedEntry = undefined;
-                    }
-                  }
-                }
-
-                if (matchedEntry) {
-                  entityId = matchedEntry.id;
-                  logger.info(
-                    {
-                      entityName: entity.name,
-                      matchedName: matchedEntry.name,
-                      matchedType: matchedEntry.type,
-                      confidence: entity.existingMatch.confidence,
-                      reason: entity.existingMatch.reason,
-                    },
-                    'LLM matched entity to existing',
-                  );
-                } else {
-                  entityId = randomUUID();
-                  logger.warn(
-                    {
-                      entityName: entity.name,
-                      matchedName: entity.existingMatch.matchedName,
-                      matchedType: entity.existingMatch.matchedType,
-                    },
-                    'LLM matched to non-existent registry entry, creating new entity',
-                  );
-                }
-              } else {
-                entityId = randomUUID();
               }
 
               const extracted: ExtractedEntity = {
@@ -1178,9 +1186,13 @@ export const multiStagePipeline = {
                 name: entity.name,
                 type: entity.type as StoryNodeType,
                 documentOrder: entity.documentOrder,
+                timeExpression:
+                  entity.type === 'event'
+                    ? entity.timeExpression?.trim() || undefined
+                    : undefined,
                 facets: entityFacets,
                 mentions: entityMentions,
-                existingMatch: entity.existingMatch,
+                existingMatch: match.existingMatch,
               };
 
               extractedEntities.push(extracted);
@@ -1375,6 +1387,24 @@ export const multiStagePipeline = {
       );
       broadcast(4, uniqueEntityIds.size, 'Creating entities...');
 
+      // Names and facets the user set by hand are not overridden by extraction
+      const userEditLocks = await changeLogService.getUserEditLocks([
+        ...uniqueEntityIds,
+      ]);
+
+      // Entities known from the project's other books, so a recurring one
+      // starts with what they established about it
+      const [projectDoc] = await db
+        .select({ projectId: documents.projectId })
+        .from(documents)
+        .where(eq(documents.id, documentId))
+        .limit(1);
+      const projectEntities = projectDoc?.projectId
+        ? await projectRegistry.loadEntities(projectDoc.projectId, documentId)
+        : [];
+      const projectIndex = buildBlockingIndex(projectEntities);
+      if (projectEntities.length > 0) await ensurePhoneticReady();
+
       for (const entityId of uniqueEntityIds) {
         // Find ALL extracted entities that map to this entityId
         const entityInstances = extractedEntities.filter(
@@ -1397,6 +1427,28 @@ export const multiStagePipeline = {
         for (const instance of entityInstances) {
           allFacets.push(...instance.facets);
         }
+
+        const projectMatch =
+          !isExistingEntity &&
+          projectEntities.length > 0 &&
+          REGISTRY_NODE_TYPES.has(firstInstance.type)
+            ? matchProjectEntity(
+                nodeToCluster(
+                  { name: primaryName, type: firstInstance.type, aliases: [] },
+                  allFacets,
+                  embeddingByName.get(primaryName) ?? null,
+                ),
+                projectEntities,
+                projectIndex,
+              )
+            : null;
+        for (const facet of projectMatch?.entity.facets ?? []) {
+          allFacets.push({
+            type: facet.type as FacetType,
+            content: facet.content,
+          });
+        }
+
         const uniqueFacets = Array.from(
           new Map(allFacets.map((f) => [`${f.type}:${f.content}`, f])).values(),
         );
@@ -1419,6 +1471,10 @@ export const multiStagePipeline = {
         // Map to track name facet content -> facetId for linking mentions
         const nameFacetContentToId = new Map<string, string>();
 
+        const timeExpression = entityInstances.find(
+          (e) => e.timeExpression,
+        )?.timeExpression;
+
         // Create entity node if new (idempotent — safe for resume)
         let created = false;
         if (!isExistingEntity) {
@@ -1430,6 +1486,7 @@ export const multiStagePipeline = {
               name: primaryName,
               description: '',
               mentions: [],
+              metadata: timeExpression ? { timeExpression } : undefined,
             },
             {
               stylePreset: documentStyle?.preset,
@@ -1439,15 +1496,47 @@ export const multiStagePipeline = {
             { batchId: stage4BatchId },
           );
           created = result.created;
+
+          if (projectMatch) {
+            await projectRegistry.linkNode(
+              projectMatch.entity.id,
+              entityId,
+              documentId,
+            );
+            logger.info(
+              {
+                entityName: primaryName,
+                projectEntityId: projectMatch.entity.id,
+                score: projectMatch.score,
+              },
+              'Entity recurs from another book in the project',
+            );
+          }
+        } else if (timeExpression) {
+          // Re-analysis can move a known event in story time
+          const existing =
+            await graphService.getStoryNodeByIdInternal(entityId);
+          if (
+            existing &&
+            readTimeExpression(existing.metadata) !== timeExpression
+          ) {
+            await graphService.updateStoryNode(entityId, {
+              metadata: withTimeExpression(existing.metadata, timeExpression),
+            });
+          }
         }
 
         // Unified facet creation: fetch existing facets (skip if just created),
         // then create any missing ones. Handles resume, new, and existing entities.
+        // User-authored facets are kept as written and never re-extracted.
         const existingFacets = created
           ? []
           : await graphService.getFacetsForEntity(entityId, analysisVersion);
-        const existingFacetKeys = new Set(
-          existingFacets.map((f) => `${f.type}:${f.content}`),
+        const facetsToCreate = selectFacetsToCreate(
+          entityId,
+          uniqueFacets,
+          existingFacets,
+          userEditLocks,
         );
 
         for (const f of existingFacets) {
@@ -1457,8 +1546,7 @@ export const multiStagePipeline = {
         }
 
         let addedNameFacet = false;
-        for (const facet of uniqueFacets) {
-          if (existingFacetKeys.has(`${facet.type}:${facet.content}`)) continue;
+        for (const facet of facetsToCreate) {
           const facetEmbedding = await generateEmbedding(
             facet.content,
             versionConfig.embeddingModel,
@@ -1507,7 +1595,11 @@ export const multiStagePipeline = {
         }
 
         if (created || addedNameFacet) {
-          await recomputeAndUpdatePrimaryName(entityId);
+          if (userEditLocks.isFieldLocked(entityId, 'name')) {
+            await flagLockedNameChange(documentId, entityId);
+          } else {
+            await recomputeAndUpdatePrimaryName(entityId);
+          }
         }
 
         if (created) {
@@ -1575,18 +1667,41 @@ export const multiStagePipeline = {
       }
 
       // Disambiguate accumulated merge signals now that all entity IDs are stable.
+      let autoMergedCount = 0;
       if (accumulatedMergeSignals.length > 0) {
         const entityRegistryById = buildEntityRegistrySummary(
           extractedEntities,
           entityIdByName,
         );
-        await disambiguateMergeSignals({
+        const disambiguation = await disambiguateMergeSignals({
           documentId,
           userId,
           mergeSignals: accumulatedMergeSignals,
           entityIdByName,
           entityRegistryById,
         });
+
+        const survivorOf = await applyAutoMerges(disambiguation.actions, {
+          documentId,
+          batchId: stage4BatchId,
+        });
+
+        // Later stages look entities up by name — point absorbed IDs at survivors
+        if (survivorOf.size > 0) {
+          for (const [name, id] of entityIdByName) {
+            const survivorId = survivorOf.get(id);
+            if (survivorId) entityIdByName.set(name, survivorId);
+          }
+          for (const [alias, id] of aliasToEntityId) {
+            const survivorId = survivorOf.get(id);
+            if (survivorId) aliasToEntityId.set(alias, survivorId);
+          }
+          for (const entity of resolvedEntities) {
+            const survivorId = survivorOf.get(entity.id);
+            if (survivorId) entity.id = survivorId;
+          }
+          autoMergedCount = survivorOf.size;
+        }
       }
 
       const stage4DurationMs = Date.now() - stage4StartTime;
@@ -1594,10 +1709,20 @@ export const multiStagePipeline = {
         resolvedCount: resolvedEntities.length,
         newEntities: createdEntityIds.size,
         mergedEntities: uniqueEntityIds.size - createdEntityIds.size,
+        autoMergedEntities: autoMergedCount,
       });
 
       await saveCheckpoint(documentId, {
         lastStageCompleted: 4,
+        // Persist remapped IDs so a resume after Stage 4 skips absorbed entities
+        ...(autoMergedCount > 0 && {
+          stage3Output: {
+            extractedEntities,
+            entityIdByName: Object.fromEntries(entityIdByName),
+            aliasToEntityId: Object.fromEntries(aliasToEntityId),
+            mergeSignals: accumulatedMergeSignals,
+          },
+        }),
       });
     } else if (checkpoint) {
       resolvedEntities = extractedEntities
@@ -1914,10 +2039,40 @@ export const multiStagePipeline = {
       const [intraSegmentRels, crossSegmentRels] = stage5And6Results;
       allRelationships.push(...intraSegmentRels, ...crossSegmentRels);
 
+      // Edges the user deleted by hand are not re-created, and edges they
+      // edited keep the user's description
+      const edgeLocks = await changeLogService.getUserEditLocks([
+        ...new Set(entityIdByName.values()),
+      ]);
+      const nameById = new Map<string, string>();
+      for (const [name, id] of entityIdByName) {
+        if (!nameById.has(id)) nameById.set(id, name);
+      }
+
       // Write all relationships to graph (idempotent)
       for (const rel of allRelationships) {
+        if (edgeLocks.isEdgeDeleted(rel.fromId, rel.edgeType, rel.toId)) {
+          await reviewQueueService.flagUserEditConflict({
+            documentId,
+            entityId: rel.fromId,
+            entityName: nameById.get(rel.fromId) ?? 'entity',
+            field: 'edge',
+            current: null,
+            proposed: {
+              edgeType: rel.edgeType,
+              description: rel.description,
+              strength: rel.strength,
+            },
+            relatedEntity: {
+              id: rel.toId,
+              name: nameById.get(rel.toId) ?? 'entity',
+            },
+          });
+          continue;
+        }
+
         try {
-          await createTrackedEdge(
+          const edge = await createTrackedEdge(
             rel.fromId,
             rel.toId,
             rel.edgeType as StoryEdgeType,
@@ -1925,6 +2080,35 @@ export const multiStagePipeline = {
             { strength: rel.strength },
             { batchId: stage5And6BatchId },
           );
+          if (!edge.created && edgeLocks.isEdgeLocked(edge.id)) {
+            const current = await graphService.getStoryConnectionById(edge.id);
+            if (
+              current &&
+              rel.description &&
+              rel.description !== current.description
+            ) {
+              await reviewQueueService.flagUserEditConflict({
+                documentId,
+                entityId: rel.fromId,
+                entityName: nameById.get(rel.fromId) ?? 'entity',
+                field: 'edge',
+                current: {
+                  edgeType: current.edgeType,
+                  description: current.description,
+                  strength: current.strength,
+                },
+                proposed: {
+                  edgeType: rel.edgeType,
+                  description: rel.description,
+                  strength: rel.strength,
+                },
+                relatedEntity: {
+                  id: rel.toId,
+                  name: nameById.get(rel.toId) ?? 'entity',
+                },
+              });
+            }
+          }
         } catch (err: unknown) {
           const message = err instanceof Error ? err.message : '';
           if (!message.includes('would create a cycle')) {
@@ -2089,6 +2273,15 @@ export const multiStagePipeline = {
             for (const [i, eventId] of thread.eventIds.entries()) {
               await graphService.linkEventToThread(eventId, threadId, i);
             }
+
+            try {
+              await storySummaryService.refreshThread(threadId, userId);
+            } catch (err) {
+              logger.warn(
+                { threadId, documentId, err },
+                'Thread summary failed',
+              );
+            }
           }
         }
 
@@ -2188,6 +2381,15 @@ export const multiStagePipeline = {
 
       await detectFacetConflicts(documentId, userId);
 
+      try {
+        await storyCalendarService.flagConflicts(documentId, userId);
+      } catch (error) {
+        childLogger.warn(
+          { documentId, error },
+          'Story time conflict detection failed (non-fatal)',
+        );
+      }
+
       const stage9DurationMs = Date.now() - stage9StartTime;
       logStageComplete(
         childLogger,
@@ -2495,6 +2697,12 @@ async function processCharacterArcs(
         { characterId, arcId, stateCount: stateIds.length, arcType },
         'Character arc processed',
       );
+
+      try {
+        await storySummaryService.refreshArc(arcId, userId);
+      } catch (err) {
+        logger.warn({ arcId, documentId, err }, 'Arc summary failed');
+      }
     } catch (err) {
       logger.warn(
         { characterId, documentId, err },
@@ -4006,6 +4214,30 @@ function findMatchingNameFacet(
   return bestMatch?.facetId ?? null;
 }
 
+/**
+ * Queue a review item when facets point to a different primary name than
+ * the one the user chose. The user's name is left in place.
+ */
+async function flagLockedNameChange(
+  documentId: string,
+  entityId: string,
+): Promise<void> {
+  const node = await graphService.getStoryNodeByIdInternal(entityId);
+  if (!node) return;
+
+  const proposed = await computePrimaryName(entityId);
+  if (proposed === node.name) return;
+
+  await reviewQueueService.flagUserEditConflict({
+    documentId,
+    entityId,
+    entityName: node.name,
+    field: 'name',
+    current: node.name,
+    proposed,
+  });
+}
+
 /**
  * Generate descriptions for all entities using descriptionService.
  * Batches entities for efficient LLM processing.
@@ -4057,6 +4289,10 @@ async function generateEntityDescriptions(
     return result.text ?? '';
   };
 
+  const locks = await changeLogService.getUserEditLocks(
+    allNodes.map((n) => n.id),
+  );
+
   // Build entity input for descriptionService
   const entities = await Promise.all(
     allNodes.map(async (node) => {
@@ -4072,6 +4308,7 @@ async function generateEntityDescriptions(
         stateFacets: facets.filter((f) => f.type === 'state'),
         currentState,
         currentDescription: node.description || undefined,
+        descriptionLocked: locks.isFieldLocked(node.id, 'description'),
       };
     }),
   );
@@ -4082,19 +4319,33 @@ async function generateEntityDescriptions(
       llmGenerate,
     );
 
+    const updatedResults = results.filter(
+      (r) => r.method !== 'no_change' && r.method !== 'locked' && r.description,
+    );
+
     // Update entities with new descriptions
+    for (const result of updatedResults) {
+      await graphService.updateStoryNode(result.entityId, {
+        description: result.description,
+      });
+    }
+
+    // Hand-edited descriptions stay; surface the disagreement instead
+    const nodeById = new Map(allNodes.map((n) => [n.id, n]));
     for (const result of results) {
-      if (result.method !== 'no_change' && result.description) {
-        await graphService.updateStoryNode(result.entityId, {
-          description: result.description,
-        });
-      }
+      if (result.method !== 'locked') continue;
+      await reviewQueueService.flagUserEditConflict({
+        documentId,
+        entityId: result.entityId,
+        entityName: nodeById.get(result.entityId)?.name ?? 'entity',
+        field: 'description',
+        current: result.description,
+        proposed: result.proposedDescription,
+      });
     }
 
     // Emit nodes-updated for clients to refresh node data
-    const updatedNodeIds = results
-      .filter((r) => r.method !== 'no_change' && r.description)
-      .map((r) => r.entityId);
+    const updatedNodeIds = updatedResults.map((r) => r.entityId);
 
     sseService.broadcastToDocument(documentId, 'nodes-updated', {
       documentId,
@@ -4108,6 +4359,7 @@ async function generateEntityDescriptions(
         regenerated: results.filter((r) => r.method === 'regenerate').length,
         edited: results.filter((r) => r.method === 'edit').length,
         noChange: results.filter((r) => r.method === 'no_change').length,
+        locked: results.filter((r) => r.method === 'locked').length,
       },
       'Entity descriptions generated',
     );
@@ -0,0 +1,23 @@
+/**
+ * Projects module - groups of documents sharing one story world, with a
+ * registry linking entities that recur across them.
+ */
+
+export type {
+  DocumentGraph,
+  ProjectGraph,
+  ProjectGraphConnection,
+  ProjectGraphNode,
+  RegistryFacet,
+} from './projectGraph';
+export {
+  buildProjectGraph,
+  matchProjectEntity,
+  mergeEntityDetails,
+  nodeToCluster,
+  REGISTRY_NODE_TYPES,
+} from './projectGraph';
+export type { Project, ProjectDocument } from './projects.service';
+export { projectsService } from './projects.service';
+export type { ProjectEntity } from './registry';
+export { projectRegistry } from './registry';
@@ -0,0 +1,238 @@
+/**
+ * Pure helpers for the project entity registry and the project-wide story
+ * graph. Each document keeps its own nodes; the registry links nodes that
+ * are the same entity so the project graph can show them once.
+ */
+
+import type { FacetType } from '../../types/storyNodes';
+import {
+  type BlockingIndex,
+  buildBlockingIndex,
+  filterByBlocking,
+} from '../entityResolution/blocking';
+import { clusterToCandidate } from '../entityResolution/clustering';
+import { scoreCandidates } from '../entityResolution/scoring';
+import { resolveFromScores } from '../entityResolution/thresholding';
+import {
+  DEFAULT_CONFIG,
+  type EntityCluster,
+  type ExistingEntity,
+  type ScoredCandidate,
+} from '../entityResolution/types';
+import type {
+  StoredStoryConnection,
+  StoredStoryNode,
+} from '../graph/graph.types';
+
+/** Node types that recur across books; events and arcs stay per document */
+export const REGISTRY_NODE_TYPES = new Set([
+  'character',
+  'location',
+  'object',
+  'concept',
+  'other',
+]);
+
+export interface RegistryFacet {
+  type: string;
+  content: string;
+}
+
+/** A linked node's contribution to its project entity */
+export interface LinkedNodeDetails {
+  name: string;
+  aliases: string[] | null;
+  facets: RegistryFacet[];
+}
+
+export interface ProjectGraphNode {
+  // Project entity id for linked nodes, the node id otherwise
+  id: string;
+  projectEntityId: string | null;
+  type: StoredStoryNode['type'];
+  name: string;
+  description: string | null;
+  aliases: string[];
+  documentIds: string[];
+  nodeIds: string[];
+}
+
+export interface ProjectGraphConnection {
+  id: string;
+  fromNodeId: string;
+  toNodeId: string;
+  edgeType: StoredStoryConnection['edgeType'];
+  description: string | null;
+  strength: number | null;
+  documentIds: string[];
+}
+
+export interface ProjectGraph {
+  nodes: ProjectGraphNode[];
+  connections: ProjectGraphConnection[];
+}
+
+/** One document's graph, in project order */
+export interface DocumentGraph {
+  documentId: string;
+  nodes: StoredStoryNode[];
+  connections: StoredStoryConnection[];
+}
+
+/** A single node as a resolution cluster, for registry matching */
+export function nodeToCluster(
+  node: Pick<StoredStoryNode, 'name' | 'type' | 'aliases'>,
+  facets: RegistryFacet[],
+  embedding: number[] | null,
+): EntityCluster {
+  return {
+    primaryName: node.name,
+    type: node.type,
+    aliases: node.aliases ?? [],
+    members: [],
+    mergedEmbedding: embedding ?? [],
+    mergedFacets: facets.map((f) => ({
+      type: f.type as FacetType,
+      content: f.content,
+    })),
+    mentions: [],
+    segmentIds: [],
+  };
+}
+
+/**
+ * The project registry entity a cluster is the same as, or null. Only
+ * matches the resolver would merge outright count; linking is silent, so
+ * uncertain matches are left unlinked.
+ */
+export function matchProjectEntity(
+  cluster: EntityCluster,
+  projectEntities: ExistingEntity[],
+  index: BlockingIndex = buildBlockingIndex(projectEntities),
+): ScoredCandidate | null {
+  const candidates = filterByBlocking(cluster, projectEntities, index);
+  if (candidates.length === 0) return null;
+
+  const scored = scoreCandidates(clusterToCandidate(cluster), candidates);
+  const result = resolveFromScores(scored, DEFAULT_CONFIG.thresholds);
+  if (result.decision !== 'MERGE') return null;
+  return scored.find((c) => c.entity.id === result.targetId) ?? null;
+}
+
+/**
+ * Aliases and facets of a project entity from its linked nodes, without
+ * duplicates. Other names the entity goes by in later books become aliases.
+ */
+export function mergeEntityDetails(
+  name: string,
+  linked: LinkedNodeDetails[],
+): { aliases: string[]; facets: RegistryFacet[] } {
+  const seenNames = new Set([name.toLowerCase()]);
+  const aliases: string[] = [];
+  const addAlias = (alias: string) => {
+    const key = alias.toLowerCase();
+    if (seenNames.has(key)) return;
+    seenNames.add(key);
+    aliases.push(alias);
+  };
+
+  const seenFacets = new Set<string>();
+  const facets: RegistryFacet[] = [];
+
+  for (const node of linked) {
+    addAlias(node.name);
+    for (const alias of node.aliases ?? []) addAlias(alias);
+    for (const facet of node.facets) {
+      const key = `${facet.type}:${facet.content.toLowerCase()}`;
+      if (seenFacets.has(key)) continue;
+      seenFacets.add(key);
+      facets.push({ type: facet.type, content: facet.content });
+    }
+  }
+
+  return { aliases, facets };
+}
+
+/**
+ * Merge per-document graphs into one, collapsing nodes linked to the same
+ * project entity. The first document in project order supplies an
+ * entity's name and description. Connections are remapped onto the merged
+ * nodes and deduplicated; ones that collapse onto a single node are dropped.
+ */
+export function buildProjectGraph(
+  documentGraphs: DocumentGraph[],
+  projectEntityIdByNodeId: Map<string, string>,
+): ProjectGraph {
+  const nodesById = new Map<string, ProjectGraphNode>();
+  const mergedIdByNodeId = new Map<string, string>();
+
+  for (const { documentId, nodes } of documentGraphs) {
+    for (const node of nodes) {
+      const projectEntityId = projectEntityIdByNodeId.get(node.id) ?? null;
+      const id = projectEntityId ?? node.id;
+      mergedIdByNodeId.set(node.id, id);
+
+      const merged = nodesById.get(id);
+      if (!merged) {
+        nodesById.set(id, {
+          id,
+          projectEntityId,
+          type: node.type,
+          name: node.name,
+          description: node.description,
+          aliases: [...(node.aliases ?? [])],
+          documentIds: [documentId],
+          nodeIds: [node.id],
+        });
+        continue;
+      }
+
+      merged.nodeIds.push(node.id);
+      if (!merged.documentIds.includes(documentId)) {
+        merged.documentIds.push(documentId);
+      }
+      merged.description ??= node.description;
+      const known = new Set(
+        [merged.name, ...merged.aliases].map((n) => n.toLowerCase()),
+      );
+      for (const alias of [node.name, ...(node.aliases ?? [])]) {
+        if (known.has(alias.toLowerCase())) continue;
+        known.add(alias.toLowerCase());
+        merged.aliases.push(alias);
+      }
+    }
+  }
+
+  const connectionsByKey = new Map<string, ProjectGraphConnection>();
+
+  for (const { documentId, connections } of documentGraphs) {
+    for (const connection of connections) {
+      const fromNodeId = mergedIdByNodeId.get(connection.fromNodeId);
+      const toNodeId = mergedIdByNodeId.get(connection.toNodeId);
+      if (!fromNodeId || !toNodeId || fromNodeId === toNodeId) continue;
+
+      const key = `${fromNodeId}:${connection.edgeType}:${toNodeId}`;
+      const existing = connectionsByKey.get(key);
+      if (existing) {
+        if (!existing.documentIds.includes(documentId)) {
+          existing.documentIds.push(documentId);
+        }
+        continue;
+      }
+      connectionsByKey.set(key, {
+        id: connection.id,
+        fromNodeId,
+        toNodeId,
+        edgeType: connection.edgeType,
+        description: connection.description,
+        strength: connection.strength,
+        documentIds: [documentId],
+      });
+    }
+  }
+
+  return {
+    nodes: [...nodesById.values()],
+    connections: [...connectionsByKey.values()],
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Projects group an owner's documents, such as the books of a series, so
+ * they share one story world: recurring entities are tracked across them in
+ * the project registry, and the graph, arc and timeline views can span the
+ * whole project.
+ */
+
+import { and, asc, count, desc, eq, isNull, max } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { documents, projects } from '../../models/schema';
+import { BadRequestError, NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { authorizationService } from '../authorization';
+import { documentsService } from '../documents';
+import { graphStoryNodesRepository } from '../storyNodes';
+import { buildProjectGraph, type ProjectGraph } from './projectGraph';
+import { projectRegistry } from './registry';
+
+export type Project = typeof projects.$inferSelect;
+
+/** A document's place in its project */
+export interface ProjectDocument {
+  id: string;
+  userId: string;
+  title: string;
+  projectPosition: number | null;
+  updatedAt: Date;
+}
+
+/** Link a document's nodes; a failure leaves them to the next sync */
+async function syncQuietly(documentId: string) {
+  try {
+    await projectRegistry.syncDocument(documentId);
+  } catch (error) {
+    logger.warn({ error, documentId }, 'Project registry sync failed');
+  }
+}
+
+export const projectsService = {
+  async list(userId: string) {
+    return db
+      .select({
+        id: projects.id,
+        name: projects.name,
+        description: projects.description,
+        createdAt: projects.createdAt,
+        updatedAt: projects.updatedAt,
+        documentCount: count(documents.id),
+      })
+      .from(projects)
+      .leftJoin(
+        documents,
+        and(eq(documents.projectId, projects.id), isNull(documents.deletedAt)),
+      )
+      .where(eq(projects.userId, userId))
+      .groupBy(projects.id)
+      .orderBy(desc(projects.updatedAt));
+  },
+
+  /** A project owned by the user */
+  async get(projectId: string, userId: string): Promise<Project> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.id, projectId), eq(projects.userId, userId)))
+      .limit(1);
+
+    if (!project) {
+      throw new NotFoundError('Project not found', 'NOT_FOUND');
+    }
+    return project;
+  },
+
+  async create(
+    userId: string,
+    input: { name: string; description?: string | null },
+  ): Promise<Project> {
+    const [project] = await db
+      .insert(projects)
+      .values({
+        userId,
+        name: input.name,
+        description: input.description ?? null,
+      })
+      .returning();
+    return project;
+  },
+
+  async update(
+    projectId: string,
+    userId: string,
+    input: { name?: string; description?: string | null },
+  ): Promise<Project> {
+    await this.get(projectId, userId);
+    const [project] = await db
+      .update(projects)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(projects.id, projectId))
+      .returning();
+    return project;
+  },
+
+  /** Delete a project. Its documents are kept and leave the project. */
+  async delete(projectId: string, userId: string) {
+    await this.get(projectId, userId);
+    await db.delete(projects).where(eq(projects.id, projectId));
+  },
+
+  /** Documents in project order */
+  async listDocuments(projectId: string): Promise<ProjectDocument[]> {
+    return db
+      .select({
+        id: documents.id,
+        userId: documents.userId,
+        title: documents.title,
+        projectPosition: documents.projectPosition,
+        updatedAt: documents.updatedAt,
+      })
+      .from(documents)
+      .where(
+        and(eq(documents.projectId, projectId), isNull(documents.deletedAt)),
+      )
+      .orderBy(asc(documents.projectPosition), asc(documents.createdAt));
+  },
+
+  /**
+   * Add one of the owner's documents to a project, at the end unless a
+   * position is given. A document moves out of any project it was in.
+   */
+  async addDocument(
+    projectId: string,
+    userId: string,
+    documentId: string,
+    position?: number,
+  ) {
+    const project = await this.get(projectId, userId);
+    const document = await documentsService.get(documentId, userId);
+
+    if (document.projectId && document.projectId !== projectId) {
+      await projectRegistry.unlinkDocument(documentId, document.projectId);
+    }
+
+    let projectPosition = position;
+    if (projectPosition === undefined) {
+      if (document.projectId === projectId && document.projectPosition) {
+        projectPosition = document.projectPosition;
+      } else {
+        const [last] = await db
+          .select({ position: max(documents.projectPosition) })
+          .from(documents)
+          .where(eq(documents.projectId, projectId));
+        projectPosition = (last?.position ?? 0) + 1;
+      }
+    }
+
+    await db
+      .update(documents)
+      .set({ projectId, projectPosition })
+      .where(eq(documents.id, documentId));
+    await db
+      .update(projects)
+      .set({ updatedAt: new Date() })
+      .where(eq(projects.id, project.id));
+
+    await syncQuietly(documentId);
+    return this.listDocuments(projectId);
+  },
+
+  async removeDocument(projectId: string, userId: string, documentId: string) {
+    await this.get(projectId, userId);
+
+    const [document] = await db
+      .update(documents)
+      .set({ projectId: null, projectPosition: null })
+      .where(
+        and(eq(documents.id, documentId), eq(documents.projectId, projectId)),
+      )
+      .returning({ id: documents.id });
+    if (!document) {
+      throw new NotFoundError('Document is not in this project', 'NOT_FOUND');
+    }
+
+    await projectRegistry.unlinkDocument(documentId, projectId);
+  },
+
+  /**
+   * The project a document belongs to, with the project's documents the
+   * user can view. Access to the document itself is checked by the caller.
+   */
+  async getScopeForDocument(
+    document: { id: string; projectId: string | null },
+    userId: string,
+  ) {
+    if (!document.projectId) {
+      throw new BadRequestError(
+        'Document is not part of a project',
+        'NOT_IN_PROJECT',
+      );
+    }
+
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.id, document.projectId))
+      .limit(1);
+    if (!project) {
+      throw new NotFoundError('Project not found', 'NOT_FOUND');
+    }
+
+    const projectDocuments = await this.listDocuments(project.id);
+    const visible: ProjectDocument[] = [];
+    for (const projectDocument of projectDocuments) {
+      if (
+        project.userId === userId ||
+        projectDocument.id === document.id ||
+        (await authorizationService.canAccessDocument(
+          userId,
+          projectDocument.id,
+        ))
+      ) {
+        visible.push(projectDocument);
+      }
+    }
+
+    return { project, documents: visible };
+  },
+
+  /** Story graph across the given project documents, in their order */
+  async getGraph(projectDocuments: ProjectDocument[]): Promise<ProjectGraph> {
+    const documentGraphs = await Promise.all(
+      projectDocuments.map(async (document) => {
+        const nodes = await graphStoryNodesRepository.getActiveNodes(
+          document.id,
+          document.userId,
+        );
+        const connections =
+          nodes.length > 0
+            ? await graphStoryNodesRepository.getConnectionsForDocument(
+                document.id,
+              )
+            : [];
+        return { documentId: document.id, nodes, connections };
+      }),
+    );
+
+    const entityIdsByNode = await projectRegistry.getEntityIdsByNode(
+      projectDocuments.map((d) => d.id),
+    );
+    return buildProjectGraph(documentGraphs, entityIdsByNode);
+  },
+};
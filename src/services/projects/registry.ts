@@ -0,0 +1,385 @@
+/**
+ * Project entity registry. Analysis links the entities it creates to the
+ * ones known from the project's other documents, carrying their facets
+ * over; afterwards each remaining recurring-type node is matched the same
+ * way and linked to one, or registered as new. Nodes stay in their own
+ * document, so mentions keep pointing at that document's text.
+ */
+
+import { and, asc, eq, inArray, isNull, notExists } from 'drizzle-orm';
+import { db } from '../../config/database';
+import {
+  documents,
+  projectEntities,
+  projectEntityNodes,
+} from '../../models/schema';
+import { logger } from '../../utils/logger';
+import {
+  buildBlockingIndex,
+  type ExistingEntity,
+  ensurePhoneticReady,
+} from '../entityResolution';
+import { graphService } from '../graph/graph.service';
+import {
+  type LinkedNodeDetails,
+  matchProjectEntity,
+  mergeEntityDetails,
+  nodeToCluster,
+  REGISTRY_NODE_TYPES,
+} from './projectGraph';
+
+export type ProjectEntity = typeof projectEntities.$inferSelect;
+
+/** Details of a node for the registry: its facets and embedding */
+async function loadNodeDetails(nodeId: string) {
+  const [facets, embedding] = await Promise.all([
+    graphService.getFacetsForEntity(nodeId),
+    graphService.getNodeEmbedding(nodeId),
+  ]);
+  return {
+    facets: facets.map((f) => ({ type: f.type, content: f.content })),
+    embedding,
+  };
+}
+
+/** Remove project entities no node links to any more */
+async function pruneOrphans(projectId: string) {
+  await db
+    .delete(projectEntities)
+    .where(
+      and(
+        eq(projectEntities.projectId, projectId),
+        notExists(
+          db
+            .select({ nodeId: projectEntityNodes.nodeId })
+            .from(projectEntityNodes)
+            .where(eq(projectEntityNodes.projectEntityId, projectEntities.id)),
+        ),
+      ),
+    );
+}
+
+export const projectRegistry = {
+  async listEntities(projectId: string) {
+    const entities = await db
+      .select()
+      .from(projectEntities)
+      .where(eq(projectEntities.projectId, projectId))
+      .orderBy(asc(projectEntities.type), asc(projectEntities.name));
+
+    const links = await this.getLinks(projectId);
+    const nodesByEntity = new Map<
+      string,
+      Array<{ nodeId: string; documentId: string }>
+    >();
+    for (const link of links) {
+      const list = nodesByEntity.get(link.projectEntityId) ?? [];
+      list.push({ nodeId: link.nodeId, documentId: link.documentId });
+      nodesByEntity.set(link.projectEntityId, list);
+    }
+
+    return entities.map((entity) => ({
+      ...entity,
+      nodes: nodesByEntity.get(entity.id) ?? [],
+    }));
+  },
+
+  /** Node links of the project's documents, skipping deleted documents */
+  async getLinks(projectId: string) {
+    return db
+      .select({
+        nodeId: projectEntityNodes.nodeId,
+        projectEntityId: projectEntityNodes.projectEntityId,
+        documentId: projectEntityNodes.documentId,
+      })
+      .from(projectEntityNodes)
+      .innerJoin(
+        projectEntities,
+        eq(projectEntityNodes.projectEntityId, projectEntities.id),
+      )
+      .innerJoin(documents, eq(projectEntityNodes.documentId, documents.id))
+      .where(
+        and(
+          eq(projectEntities.projectId, projectId),
+          isNull(documents.deletedAt),
+        ),
+      )
+      .orderBy(asc(projectEntityNodes.createdAt));
+  },
+
+  /** Project entity id by node id, for the given documents */
+  async getEntityIdsByNode(
+    documentIds: string[],
+  ): Promise<Map<string, string>> {
+    if (documentIds.length === 0) return new Map();
+    const links = await db
+      .select({
+        nodeId: projectEntityNodes.nodeId,
+        projectEntityId: projectEntityNodes.projectEntityId,
+      })
+      .from(projectEntityNodes)
+      .where(inArray(projectEntityNodes.documentId, documentIds));
+    return new Map(links.map((l) => [l.nodeId, l.projectEntityId]));
+  },
+
+  /** The nodes linked to the same project entity as a node, itself included */
+  async getLinkedNodes(nodeId: string) {
+    const [link] = await db
+      .select({ projectEntityId: projectEntityNodes.projectEntityId })
+      .from(projectEntityNodes)
+      .where(eq(projectEntityNodes.nodeId, nodeId))
+      .limit(1);
+    if (!link) return null;
+
+    const nodes = await db
+      .select({
+        nodeId: projectEntityNodes.nodeId,
+        documentId: projectEntityNodes.documentId,
+      })
+      .from(projectEntityNodes)
+      .where(eq(projectEntityNodes.projectEntityId, link.projectEntityId));
+
+    return { projectEntityId: link.projectEntityId, nodes };
+  },
+
+  /**
+   * Registry entities as resolution candidates. Entities only the excluded
+   * document contributes to are left out, so a document is never matched
+   * against itself.
+   */
+  async loadEntities(
+    projectId: string,
+    excludeDocumentId?: string,
+  ): Promise<ExistingEntity[]> {
+    const links = (await this.getLinks(projectId)).filter(
+      (link) => link.documentId !== excludeDocumentId,
+    );
+    if (links.length === 0) return [];
+
+    // Earliest linked node stands in for the entity's embedding
+    const representativeNode = new Map<string, string>();
+    const linkCount = new Map<string, number>();
+    for (const link of links) {
+      if (!representativeNode.has(link.projectEntityId)) {
+        representativeNode.set(link.projectEntityId, link.nodeId);
+      }
+      linkCount.set(
+        link.projectEntityId,
+        (linkCount.get(link.projectEntityId) ?? 0) + 1,
+      );
+    }
+
+    const entities = await db
+      .select()
+      .from(projectEntities)
+      .where(
+        and(
+          eq(projectEntities.projectId, projectId),
+          inArray(projectEntities.id, [...representativeNode.keys()]),
+        ),
+      );
+
+    return Promise.all(
+      entities.map(async (entity) => {
+        const nodeId = representativeNode.get(entity.id);
+        const embedding = nodeId
+          ? await graphService.getNodeEmbedding(nodeId)
+          : null;
+        return {
+          id: entity.id,
+          name: entity.name,
+          type: entity.type,
+          embedding: embedding ?? undefined,
+          aliases: entity.aliases,
+          facets: entity.facets,
+          mentionCount: linkCount.get(entity.id) ?? 0,
+        };
+      }),
+    );
+  },
+
+  /**
+   * Link a document's nodes into its project's registry. Existing links
+   * are kept; links to nodes that no longer exist are dropped. Documents
+   * outside a project are unlinked.
+   */
+  async syncDocument(
+    documentId: string,
+  ): Promise<{ linked: number; created: number }> {
+    const [document] = await db
+      .select({ userId: documents.userId, projectId: documents.projectId })
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .limit(1);
+
+    if (!document?.projectId) {
+      await this.unlinkDocument(documentId);
+      return { linked: 0, created: 0 };
+    }
+    const projectId = document.projectId;
+
+    await ensurePhoneticReady();
+
+    const nodes = (
+      await graphService.getStoryNodesForDocument(documentId, document.userId)
+    ).filter((node) => REGISTRY_NODE_TYPES.has(node.type));
+    const nodeIds = new Set(nodes.map((n) => n.id));
+
+    const existingLinks = await db
+      .select()
+      .from(projectEntityNodes)
+      .where(eq(projectEntityNodes.documentId, documentId));
+
+    const staleNodeIds = existingLinks
+      .filter((link) => !nodeIds.has(link.nodeId))
+      .map((link) => link.nodeId);
+    if (staleNodeIds.length > 0) {
+      await db
+        .delete(projectEntityNodes)
+        .where(inArray(projectEntityNodes.nodeId, staleNodeIds));
+    }
+
+    const linkedNodeIds = new Set(existingLinks.map((link) => link.nodeId));
+    const unlinked = nodes.filter((node) => !linkedNodeIds.has(node.id));
+
+    const registry = await this.loadEntities(projectId, documentId);
+    const index = buildBlockingIndex(registry);
+    const touched = new Set<string>(
+      existingLinks
+        .filter((link) => nodeIds.has(link.nodeId))
+        .map((link) => link.projectEntityId),
+    );
+    let linked = 0;
+    let created = 0;
+
+    for (const node of unlinked) {
+      const { facets, embedding } = await loadNodeDetails(node.id);
+      const match = matchProjectEntity(
+        nodeToCluster(node, facets, embedding),
+        registry,
+        index,
+      );
+
+      let projectEntityId = match?.entity.id;
+      if (projectEntityId) {
+        linked++;
+      } else {
+        const [entity] = await db
+          .insert(projectEntities)
+          .values({
+            projectId,
+            type: node.type,
+            name: node.name,
+            aliases: node.aliases ?? [],
+            facets,
+          })
+          .returning({ id: projectEntities.id });
+        projectEntityId = entity.id;
+        created++;
+      }
+
+      await this.linkNode(projectEntityId, node.id, documentId);
+      touched.add(projectEntityId);
+    }
+
+    for (const projectEntityId of touched) {
+      await this.refreshEntity(projectEntityId);
+    }
+    await pruneOrphans(projectId);
+
+    logger.info(
+      { documentId, projectId, linked, created },
+      'Project registry synced',
+    );
+    return { linked, created };
+  },
+
+  /** Link a node to a project entity, replacing any link it had */
+  async linkNode(projectEntityId: string, nodeId: string, documentId: string) {
+    await db
+      .insert(projectEntityNodes)
+      .values({ nodeId, projectEntityId, documentId })
+      .onConflictDoUpdate({
+        target: projectEntityNodes.nodeId,
+        set: { projectEntityId, documentId },
+      });
+  },
+
+  /** Recompute an entity's aliases and facets from its linked nodes */
+  async refreshEntity(projectEntityId: string) {
+    const [entity] = await db
+      .select()
+      .from(projectEntities)
+      .where(eq(projectEntities.id, projectEntityId))
+      .limit(1);
+    if (!entity) return;
+
+    const links = await db
+      .select({ nodeId: projectEntityNodes.nodeId })
+      .from(projectEntityNodes)
+      .where(eq(projectEntityNodes.projectEntityId, projectEntityId))
+      .orderBy(asc(projectEntityNodes.createdAt));
+
+    const linked: LinkedNodeDetails[] = [];
+    for (const { nodeId } of links) {
+      const node = await graphService.getStoryNodeByIdInternal(nodeId);
+      if (!node) continue;
+      const { facets } = await loadNodeDetails(nodeId);
+      linked.push({ name: node.name, aliases: node.aliases, facets });
+    }
+    if (linked.length === 0) return;
+
+    const { aliases, facets } = mergeEntityDetails(entity.name, linked);
+    await db
+      .update(projectEntities)
+      .set({ aliases, facets, updatedAt: new Date() })
+      .where(eq(projectEntities.id, projectEntityId));
+  },
+
+  /** Drop a document's links, e.g. when it leaves its project */
+  async unlinkDocument(documentId: string, projectId?: string | null) {
+    const removed = await db
+      .delete(projectEntityNodes)
+      .where(eq(projectEntityNodes.documentId, documentId))
+      .returning({ projectEntityId: projectEntityNodes.projectEntityId });
+    if (removed.length === 0) return;
+
+    const projectIds = projectId
+      ? [projectId]
+      : (
+          await db
+            .selectDistinct({ projectId: projectEntities.projectId })
+            .from(projectEntities)
+            .where(
+              inArray(
+                projectEntities.id,
+                removed.map((r) => r.projectEntityId),
+              ),
+            )
+        ).map((r) => r.projectId);
+
+    for (const id of projectIds) {
+      await pruneOrphans(id);
+    }
+  },
+
+  /** Re-link every document in a project, in project order */
+  async syncProject(projectId: string) {
+    const projectDocuments = await db
+      .select({ id: documents.id })
+      .from(documents)
+      .where(
+        and(eq(documents.projectId, projectId), isNull(documents.deletedAt)),
+      )
+      .orderBy(asc(documents.projectPosition), asc(documents.createdAt));
+
+    let linked = 0;
+    let created = 0;
+    for (const { id } of projectDocuments) {
+      const result = await this.syncDocument(id);
+      linked += result.linked;
+      created += result.created;
+    }
+    return { documents: projectDocuments.length, linked, created };
+  },
+};
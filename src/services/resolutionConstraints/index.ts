@@ -0,0 +1,5 @@
+export {
+  type ResolutionConstraintRecord,
+  resolutionConstraintService,
+  type SetConstraintInput,
+} from './resolutionConstraintService';
@@ -0,0 +1,186 @@
+/**
+ * Resolution Constraint Service
+ *
+ * Persists user-declared must-link / cannot-link pairs per document.
+ * Entity resolution and merge review consume these so a decision the
+ * user made once survives every later re-analysis.
+ */
+
+import { and, desc, eq, or } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { resolutionConstraints } from '../../models/schema';
+import { BadRequestError, NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import type {
+  ConstraintKind,
+  ResolutionConstraint,
+} from '../entityResolution/types';
+import { graphService } from '../graph/graph.service';
+
+export interface ResolutionConstraintRecord extends ResolutionConstraint {
+  id: string;
+  documentId: string;
+  reviewItemId: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface SetConstraintInput {
+  documentId: string;
+  kind: ConstraintKind;
+  entityIds: [string, string];
+  userId: string;
+  reviewItemId?: string;
+}
+
+export const resolutionConstraintService = {
+  /**
+   * Create or replace the constraint between two entities.
+   * A pair has at most one constraint, so declaring the opposite kind
+   * overwrites the earlier decision.
+   */
+  async set(input: SetConstraintInput): Promise<ResolutionConstraintRecord> {
+    const [firstId, secondId] = [...input.entityIds].sort();
+    if (firstId === secondId) {
+      throw new BadRequestError(
+        'A constraint needs two different entities',
+        'INVALID_CONSTRAINT',
+      );
+    }
+
+    const [first, second] = await Promise.all([
+      graphService.getStoryNodeByIdInternal(firstId),
+      graphService.getStoryNodeByIdInternal(secondId),
+    ]);
+    if (!first || !second) throw new NotFoundError('Node not found');
+    if (
+      first.documentId !== input.documentId ||
+      second.documentId !== input.documentId
+    ) {
+      throw new BadRequestError(
+        'Constrained entities must belong to the same document',
+        'INVALID_CONSTRAINT',
+      );
+    }
+
+    const values = {
+      kind: input.kind,
+      entityAName: first.name,
+      entityBName: second.name,
+      reviewItemId: input.reviewItemId ?? null,
+      createdBy: input.userId,
+      createdAt: new Date(),
+    };
+
+    const [row] = await db
+      .insert(resolutionConstraints)
+      .values({
+        documentId: input.documentId,
+        entityAId: firstId,
+        entityBId: secondId,
+        ...values,
+      })
+      .onConflictDoUpdate({
+        target: [
+          resolutionConstraints.documentId,
+          resolutionConstraints.entityAId,
+          resolutionConstraints.entityBId,
+        ],
+        set: values,
+      })
+      .returning();
+
+    logger.info(
+      {
+        constraintId: row.id,
+        documentId: input.documentId,
+        kind: input.kind,
+        entityIds: [firstId, secondId],
+      },
+      'Resolution constraint set',
+    );
+
+    return this.mapToRecord(row);
+  },
+
+  /**
+   * Get a constraint by ID.
+   */
+  async getById(id: string): Promise<ResolutionConstraintRecord | null> {
+    const [row] = await db
+      .select()
+      .from(resolutionConstraints)
+      .where(eq(resolutionConstraints.id, id))
+      .limit(1);
+
+    return row ? this.mapToRecord(row) : null;
+  },
+
+  /**
+   * Get all constraints for a document.
+   */
+  async listForDocument(
+    documentId: string,
+  ): Promise<ResolutionConstraintRecord[]> {
+    const rows = await db
+      .select()
+      .from(resolutionConstraints)
+      .where(eq(resolutionConstraints.documentId, documentId))
+      .orderBy(desc(resolutionConstraints.createdAt));
+
+    return rows.map((row) => this.mapToRecord(row));
+  },
+
+  /**
+   * Get the constraints involving one entity.
+   */
+  async listForEntity(
+    documentId: string,
+    entityId: string,
+  ): Promise<ResolutionConstraintRecord[]> {
+    const rows = await db
+      .select()
+      .from(resolutionConstraints)
+      .where(
+        and(
+          eq(resolutionConstraints.documentId, documentId),
+          or(
+            eq(resolutionConstraints.entityAId, entityId),
+            eq(resolutionConstraints.entityBId, entityId),
+          ),
+        ),
+      )
+      .orderBy(desc(resolutionConstraints.createdAt));
+
+    return rows.map((row) => this.mapToRecord(row));
+  },
+
+  /**
+   * Delete a constraint.
+   */
+  async delete(id: string): Promise<void> {
+    await db
+      .delete(resolutionConstraints)
+      .where(eq(resolutionConstraints.id, id));
+
+    logger.info({ constraintId: id }, 'Resolution constraint deleted');
+  },
+
+  /**
+   * Map database row to ResolutionConstraintRecord.
+   */
+  mapToRecord(
+    row: typeof resolutionConstraints.$inferSelect,
+  ): ResolutionConstraintRecord {
+    return {
+      id: row.id,
+      documentId: row.documentId,
+      kind: row.kind,
+      entityIds: [row.entityAId, row.entityBId],
+      entityNames: [row.entityAName, row.entityBName],
+      reviewItemId: row.reviewItemId,
+      createdBy: row.createdBy,
+      createdAt: row.createdAt,
+    };
+  },
+};
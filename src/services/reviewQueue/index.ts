@@ -1,10 +1,15 @@
 export {
+  type AcceptMergeOptions,
   type AddReviewItemInput,
+  type ChronologyConflictInput,
   type ConflictType,
   type ResolveInput,
   type ReviewItem,
   type ReviewItemType,
+  type ReviewQueuePage,
+  type ReviewQueuePageOptions,
   type ReviewQueueStats,
   type ReviewStatus,
   reviewQueueService,
+  type UserEditConflictInput,
 } from './reviewQueueService';
@@ -9,12 +9,16 @@
  * - Merge suggestions: Entities may be same
  * - Gap detected: State transition without trigger
  * - Low confidence: Extraction below threshold
+ * - User edit overrides: Re-analysis disagrees with a hand-edited field
  */
 
-import { and, desc, eq, sql } from 'drizzle-orm';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
 import { db } from '../../config/database';
 import { reviewQueue } from '../../models/schema';
+import { BadRequestError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
+import { mergeTrackedEntities } from '../changelog';
+import { resolutionConstraintService } from '../resolutionConstraints';
 
 export type ReviewItemType =
   | 'contradiction'
@@ -28,7 +32,9 @@ export type ConflictType =
   | 'temporal_change'
   | 'arc_divergence'
   | 'true_inconsistency'
-  | 'perspective_difference';
+  | 'perspective_difference'
+  | 'user_edit_override'
+  | 'chronology';
 
 export interface AddReviewItemInput {
   documentId: string;
@@ -43,6 +49,23 @@ export interface AddReviewItemInput {
   similarity?: number;
 }
 
+export interface UserEditConflictInput {
+  documentId: string;
+  entityId: string;
+  entityName: string;
+  field: 'name' | 'description' | 'aliases' | 'edge';
+  current: unknown;
+  proposed: unknown;
+  /** Other end of the edge when field is 'edge' */
+  relatedEntity?: { id: string; name: string };
+}
+
+export interface ChronologyConflictInput {
+  documentId: string;
+  beforeEvent: { id: string; name: string; label: string };
+  afterEvent: { id: string; name: string; label: string };
+}
+
 export interface ReviewItem {
   id: string;
   documentId: string;
@@ -68,6 +91,26 @@ export interface ResolveInput {
   resolution: Record<string, unknown>;
 }
 
+export interface ReviewQueuePageOptions {
+  itemType?: ReviewItemType;
+  status?: ReviewStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ReviewQueuePage {
+  items: ReviewItem[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface AcceptMergeOptions {
+  survivorId?: string;
+  /** Also record a must-link constraint so re-analyses keep them fused */
+  alwaysMerge?: boolean;
+}
+
 export interface ReviewQueueStats {
   pending: number;
   resolved: number;
@@ -75,6 +118,23 @@ export interface ReviewQueueStats {
   byType: Record<ReviewItemType, number>;
 }
 
+function describeUserEditConflict(input: UserEditConflictInput): string {
+  if (input.field === 'edge') {
+    const { edgeType, description } = input.proposed as {
+      edgeType: string;
+      description?: string | null;
+    };
+    const edge = `${edgeType} from "${input.entityName}" to "${input.relatedEntity?.name ?? 'unknown'}"`;
+    return input.current === null
+      ? `Re-analysis found ${edge}, which you removed`
+      : `Re-analysis suggests a different ${edge}: ${description ?? ''}`;
+  }
+  const proposed = Array.isArray(input.proposed)
+    ? input.proposed.join(', ')
+    : String(input.proposed ?? '');
+  return `Re-analysis suggests a different ${input.field} for "${input.entityName}": ${proposed}`;
+}
+
 export const reviewQueueService = {
   /**
    * Add an item to the review queue.
@@ -111,6 +171,176 @@ export const reviewQueueService = {
     return this.mapToReviewItem(item);
   },
 
+  /**
+   * Surface a re-analysis result that disagrees with a user edit.
+   * The user's value stays in place; the proposal waits for review.
+   * Returns null if the same proposal is already pending.
+   */
+  async flagUserEditConflict(
+    input: UserEditConflictInput,
+  ): Promise<ReviewItem | null> {
+    const contextSummary = describeUserEditConflict(input);
+
+    const [existing] = await db
+      .select({ id: reviewQueue.id })
+      .from(reviewQueue)
+      .where(
+        and(
+          eq(reviewQueue.documentId, input.documentId),
+          eq(reviewQueue.primaryEntityId, input.entityId),
+          eq(reviewQueue.conflictType, 'user_edit_override'),
+          eq(reviewQueue.contextSummary, contextSummary),
+          eq(reviewQueue.status, 'pending'),
+        ),
+      )
+      .limit(1);
+
+    if (existing) return null;
+
+    const [item] = await db
+      .insert(reviewQueue)
+      .values({
+        documentId: input.documentId,
+        itemType: 'contradiction',
+        primaryEntityId: input.entityId,
+        secondaryEntityId: input.relatedEntity?.id,
+        contextSummary,
+        conflictType: 'user_edit_override',
+        resolution: {
+          metadata: {
+            field: input.field,
+            entityName: input.entityName,
+            current: input.current,
+            proposed: input.proposed,
+          },
+        },
+      })
+      .returning();
+
+    logger.info(
+      {
+        reviewItemId: item.id,
+        documentId: input.documentId,
+        entityId: input.entityId,
+        field: input.field,
+      },
+      'Re-analysis conflicts with user edit, queued for review',
+    );
+
+    return this.mapToReviewItem(item);
+  },
+
+  /**
+   * Surface a HAPPENS_BEFORE edge that the events' story times contradict.
+   * Returns null if the same pair is already pending.
+   */
+  async flagChronologyConflict(
+    input: ChronologyConflictInput,
+  ): Promise<ReviewItem | null> {
+    const [existing] = await db
+      .select({ id: reviewQueue.id })
+      .from(reviewQueue)
+      .where(
+        and(
+          eq(reviewQueue.documentId, input.documentId),
+          eq(reviewQueue.primaryEntityId, input.beforeEvent.id),
+          eq(reviewQueue.secondaryEntityId, input.afterEvent.id),
+          eq(reviewQueue.conflictType, 'chronology'),
+          eq(reviewQueue.status, 'pending'),
+        ),
+      )
+      .limit(1);
+
+    if (existing) return null;
+
+    const [item] = await db
+      .insert(reviewQueue)
+      .values({
+        documentId: input.documentId,
+        itemType: 'gap_detected',
+        primaryEntityId: input.beforeEvent.id,
+        secondaryEntityId: input.afterEvent.id,
+        contextSummary: `"${input.beforeEvent.name}" should happen before "${input.afterEvent.name}", but falls on ${input.beforeEvent.label}, after ${input.afterEvent.label}`,
+        conflictType: 'chronology',
+        resolution: {
+          metadata: {
+            beforeEvent: input.beforeEvent,
+            afterEvent: input.afterEvent,
+          },
+        },
+      })
+      .returning();
+
+    logger.info(
+      {
+        reviewItemId: item.id,
+        documentId: input.documentId,
+        beforeEventId: input.beforeEvent.id,
+        afterEventId: input.afterEvent.id,
+      },
+      'Story time contradicts event ordering, queued for review',
+    );
+
+    return this.mapToReviewItem(item);
+  },
+
+  /**
+   * Dismiss pending chronology items whose event pair is no longer in
+   * conflict, e.g. after a calendar change or re-analysis moved an event.
+   * Returns how many were dismissed.
+   */
+  async clearStaleChronologyConflicts(
+    documentId: string,
+    current: Array<{ beforeEventId: string; afterEventId: string }>,
+  ): Promise<number> {
+    const stillConflicting = new Set(
+      current.map((c) => `${c.beforeEventId}:${c.afterEventId}`),
+    );
+    const pending = await db
+      .select({
+        id: reviewQueue.id,
+        primaryEntityId: reviewQueue.primaryEntityId,
+        secondaryEntityId: reviewQueue.secondaryEntityId,
+      })
+      .from(reviewQueue)
+      .where(
+        and(
+          eq(reviewQueue.documentId, documentId),
+          eq(reviewQueue.conflictType, 'chronology'),
+          eq(reviewQueue.status, 'pending'),
+        ),
+      );
+
+    const staleIds = pending
+      .filter(
+        (item) =>
+          !stillConflicting.has(
+            `${item.primaryEntityId}:${item.secondaryEntityId}`,
+          ),
+      )
+      .map((item) => item.id);
+    if (staleIds.length === 0) return 0;
+
+    await db
+      .update(reviewQueue)
+      .set({
+        status: 'dismissed',
+        resolvedAt: new Date(),
+        resolution: {
+          type: 'dismissed',
+          reason: 'Story time no longer contradicts the ordering',
+        },
+      })
+      .where(inArray(reviewQueue.id, staleIds));
+
+    logger.info(
+      { documentId, count: staleIds.length },
+      'Cleared chronology conflicts that no longer apply',
+    );
+
+    return staleIds.length;
+  },
+
   /**
    * Get pending review items for a document.
    */
@@ -157,6 +387,45 @@ export const reviewQueueService = {
     return items.map((item) => this.mapToReviewItem(item));
   },
 
+  /**
+   * Get a page of review items for a document, optionally filtered.
+   */
+  async getPageForDocument(
+    documentId: string,
+    options: ReviewQueuePageOptions = {},
+  ): Promise<ReviewQueuePage> {
+    const limit = Math.min(options.limit ?? 50, 100);
+    const offset = options.offset ?? 0;
+    const conditions = [eq(reviewQueue.documentId, documentId)];
+
+    if (options.itemType) {
+      conditions.push(eq(reviewQueue.itemType, options.itemType));
+    }
+    if (options.status) {
+      conditions.push(eq(reviewQueue.status, options.status));
+    }
+
+    const [countResult] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(reviewQueue)
+      .where(and(...conditions));
+
+    const items = await db
+      .select()
+      .from(reviewQueue)
+      .where(and(...conditions))
+      .orderBy(desc(reviewQueue.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      items: items.map((item) => this.mapToReviewItem(item)),
+      total: countResult?.count ?? 0,
+      limit,
+      offset,
+    };
+  },
+
   /**
    * Get a single review item by ID.
    */
@@ -201,6 +470,83 @@ export const reviewQueueService = {
     return this.mapToReviewItem(item);
   },
 
+  /**
+   * Accept a merge suggestion by merging the two entities.
+   * The secondary (existing registry) entity survives unless `survivorId` picks
+   * the primary instead.
+   */
+  async acceptMergeSuggestion(
+    item: ReviewItem,
+    userId: string,
+    options: AcceptMergeOptions = {},
+  ): Promise<ReviewItem> {
+    const [primaryId, secondaryId] = assertPendingMergeSuggestion(item);
+    const survivor = options.survivorId ?? secondaryId;
+    if (survivor !== primaryId && survivor !== secondaryId) {
+      throw new BadRequestError(
+        'Survivor must be one of the suggested entities',
+        'INVALID_MERGE',
+      );
+    }
+    const absorbed = survivor === primaryId ? secondaryId : primaryId;
+
+    // Record the constraint first: it reads names from the live nodes
+    const constraint = options.alwaysMerge
+      ? await resolutionConstraintService.set({
+          documentId: item.documentId,
+          kind: 'must_link',
+          entityIds: [primaryId, secondaryId],
+          userId,
+          reviewItemId: item.id,
+        })
+      : null;
+
+    const { batchId } = await mergeTrackedEntities(survivor, [absorbed], {
+      source: 'user',
+      reason: 'Merge suggestion accepted',
+    });
+
+    return this.resolve({
+      reviewItemId: item.id,
+      userId,
+      resolution: {
+        type: 'merged',
+        survivorId: survivor,
+        absorbedId: absorbed,
+        batchId,
+        constraintId: constraint?.id ?? null,
+      },
+    });
+  },
+
+  /**
+   * Reject a merge suggestion. Records a cannot-link constraint so later
+   * pipeline runs never suggest or fuse the pair again.
+   */
+  async rejectMergeSuggestion(
+    item: ReviewItem,
+    userId: string,
+  ): Promise<ReviewItem> {
+    const entityIds = assertPendingMergeSuggestion(item);
+    const constraint = await resolutionConstraintService.set({
+      documentId: item.documentId,
+      kind: 'cannot_link',
+      entityIds,
+      userId,
+      reviewItemId: item.id,
+    });
+
+    return this.resolve({
+      reviewItemId: item.id,
+      userId,
+      resolution: {
+        type: 'not_same_entity',
+        entityIds,
+        constraintId: constraint.id,
+      },
+    });
+  },
+
   /**
    * Dismiss a review item (mark as not needing action).
    */
@@ -337,3 +683,25 @@ export const reviewQueueService = {
     };
   },
 };
+
+function assertPendingMergeSuggestion(item: ReviewItem): [string, string] {
+  if (item.itemType !== 'merge_suggestion') {
+    throw new BadRequestError(
+      'Review item is not a merge suggestion',
+      'INVALID_REVIEW_ITEM',
+    );
+  }
+  if (item.status !== 'pending') {
+    throw new BadRequestError(
+      'Review item has already been handled',
+      'REVIEW_ITEM_CLOSED',
+    );
+  }
+  if (!item.primaryEntityId || !item.secondaryEntityId) {
+    throw new BadRequestError(
+      'Merge suggestion is missing an entity',
+      'INVALID_REVIEW_ITEM',
+    );
+  }
+  return [item.primaryEntityId, item.secondaryEntityId];
+}
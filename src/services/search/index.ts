@@ -0,0 +1,11 @@
+/**
+ * Search module - ranked passage search over document text.
+ */
+
+export { searchService } from './search.service';
+export type {
+  PassageHighlight,
+  SearchFilters,
+  SearchOptions,
+  SearchPassage,
+} from './search.types';
@@ -0,0 +1,187 @@
+/**
+ * Keyword scoring, hybrid ranking and highlighting for passage search.
+ * Passages are sentences, matching the granularity of sentence embeddings.
+ */
+
+import type { Segment } from '../segments';
+import { splitIntoSentences } from '../sentences';
+import type { PassageHighlight, SearchPassage } from './search.types';
+
+/** Weight of embedding similarity vs keyword overlap in the final score */
+const SEMANTIC_WEIGHT = 0.7;
+const KEYWORD_WEIGHT = 0.3;
+
+const DEFAULT_CONTEXT_CHARS = 160;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'did',
+  'do',
+  'for',
+  'from',
+  'he',
+  'her',
+  'his',
+  'i',
+  'in',
+  'is',
+  'it',
+  'me',
+  'my',
+  'of',
+  'on',
+  'or',
+  'she',
+  'that',
+  'the',
+  'their',
+  'they',
+  'this',
+  'to',
+  'was',
+  'we',
+  'were',
+  'what',
+  'when',
+  'where',
+  'which',
+  'who',
+  'with',
+  'you',
+]);
+
+export interface DocumentSentence {
+  segmentId: string;
+  absoluteStart: number;
+  absoluteEnd: number;
+  text: string;
+}
+
+/** Lowercased content words of a query, in order, without duplicates */
+export function extractQueryTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  const terms = words
+    .map((word) => word.replace(/^'+|'+$/g, ''))
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+  return [...new Set(terms)];
+}
+
+/**
+ * Split a document into sentences with absolute offsets, the same way
+ * sentence embeddings are extracted per segment.
+ */
+export function splitDocumentSentences(
+  content: string,
+  segments: Segment[],
+): DocumentSentence[] {
+  const sentences: DocumentSentence[] = [];
+
+  for (const segment of segments) {
+    const segmentText = content.slice(segment.start, segment.end);
+    for (const sentence of splitIntoSentences(segmentText)) {
+      const raw = segmentText.slice(sentence.start, sentence.end);
+      const leading = raw.length - raw.trimStart().length;
+      sentences.push({
+        segmentId: segment.id,
+        absoluteStart: segment.start + sentence.start + leading,
+        absoluteEnd: segment.start + sentence.end,
+        text: raw.trim(),
+      });
+    }
+  }
+
+  return sentences;
+}
+
+function termPattern(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Prefix match so "lighthouse" also finds "lighthouses"
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}[\\p{L}\\p{N}']*`, 'giu');
+}
+
+/**
+ * Fraction of query terms found in the text, discounted unless the
+ * terms also appear together as the original phrase.
+ */
+export function scoreKeywordMatch(
+  text: string,
+  terms: string[],
+  phrase?: string,
+): number {
+  if (terms.length === 0) return 0;
+
+  let matched = 0;
+  for (const term of terms) {
+    if (termPattern(term).test(text)) matched++;
+  }
+  if (matched === 0) return 0;
+
+  const coverage = matched / terms.length;
+  const hasPhrase =
+    phrase !== undefined &&
+    terms.length > 1 &&
+    text.toLowerCase().includes(phrase.trim().toLowerCase());
+  return hasPhrase ? coverage : coverage * 0.8;
+}
+
+export function combineScores(
+  semanticScore: number | null,
+  keywordScore: number,
+): number {
+  return SEMANTIC_WEIGHT * (semanticScore ?? 0) + KEYWORD_WEIGHT * keywordScore;
+}
+
+/**
+ * Surrounding text for a passage, cut at word boundaries, with every
+ * query term occurrence marked by offsets into the context string.
+ */
+export function buildHighlightedContext(
+  content: string,
+  absoluteStart: number,
+  absoluteEnd: number,
+  terms: string[],
+  contextChars = DEFAULT_CONTEXT_CHARS,
+): Pick<SearchPassage, 'context' | 'contextStart' | 'highlights'> {
+  let start = Math.max(0, absoluteStart - contextChars);
+  let end = Math.min(content.length, absoluteEnd + contextChars);
+
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < absoluteStart) start = space + 1;
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end);
+    if (space > absoluteEnd) end = space;
+  }
+
+  const context = content.slice(start, end);
+  const highlights: PassageHighlight[] = [];
+  for (const term of terms) {
+    for (const match of context.matchAll(termPattern(term))) {
+      const index = match.index ?? 0;
+      highlights.push({ start: index, end: index + match[0].length });
+    }
+  }
+  highlights.sort((a, b) => a.start - b.start);
+
+  return { context, contextStart: start, highlights };
+}
+
+/** Whether a passage overlaps any of the given ranges */
+export function overlapsAny(
+  absoluteStart: number,
+  absoluteEnd: number,
+  ranges: { absoluteStart: number; absoluteEnd: number }[],
+): boolean {
+  return ranges.some(
+    (range) =>
+      range.absoluteStart < absoluteEnd && range.absoluteEnd > absoluteStart,
+  );
+}
@@ -0,0 +1,311 @@
+/**
+ * Passage search within one document or across a user's documents.
+ * Combines sentence-embedding similarity with keyword matching so both
+ * "the lighthouse at night" and loosely worded descriptions are found.
+ */
+
+import { and, eq, isNull } from 'drizzle-orm';
+import { getVersionConfig } from '../../config/analysis-versions';
+import { db } from '../../config/database';
+import { documents } from '../../models/schema';
+import { NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { authorizationService } from '../authorization';
+import { hasDocumentRole } from '../collaborators/roles';
+import { generateEmbedding } from '../embeddings';
+import { graphThreads } from '../graph/graph.threads';
+import { mentionService } from '../mentions/mention.service';
+import { type Segment, segmentService } from '../segments';
+import { sentenceService } from '../sentences';
+import {
+  buildHighlightedContext,
+  combineScores,
+  extractQueryTerms,
+  overlapsAny,
+  scoreKeywordMatch,
+  splitDocumentSentences,
+} from './passages';
+import type {
+  SearchFilters,
+  SearchOptions,
+  SearchPassage,
+} from './search.types';
+
+const DEFAULT_LIMIT = 20;
+const MIN_SEMANTIC_CANDIDATES = 30;
+
+interface SearchableDocument {
+  id: string;
+  title: string;
+  content: string;
+  segmentSequence: unknown;
+  analysisVersion: string | null;
+}
+
+interface Candidate {
+  documentId: string;
+  segmentId: string;
+  absoluteStart: number;
+  absoluteEnd: number;
+  text: string;
+  semanticScore: number | null;
+  keywordScore: number;
+}
+
+type Range = { absoluteStart: number; absoluteEnd: number };
+
+function segmentsOf(document: SearchableDocument): Segment[] {
+  return Array.isArray(document.segmentSequence)
+    ? (document.segmentSequence as Segment[])
+    : [];
+}
+
+/**
+ * Top sentences by embedding similarity, keyed by document and absolute
+ * start. Documents are grouped by analysis version since each version
+ * has its own embedding model and column.
+ */
+async function findSemanticCandidates(
+  docs: SearchableDocument[],
+  query: string,
+  limit: number,
+): Promise<Candidate[]> {
+  const byVersion = new Map<string, SearchableDocument[]>();
+  for (const doc of docs) {
+    // Never analyzed: no embeddings to search
+    if (!doc.analysisVersion) continue;
+    const group = byVersion.get(doc.analysisVersion) ?? [];
+    group.push(doc);
+    byVersion.set(doc.analysisVersion, group);
+  }
+
+  const docsById = new Map(docs.map((doc) => [doc.id, doc]));
+  const candidates: Candidate[] = [];
+
+  for (const [version, group] of byVersion) {
+    let results: Awaited<
+      ReturnType<typeof sentenceService.findSimilarInDocuments>
+    >;
+    try {
+      const embedding = await generateEmbedding(
+        query,
+        getVersionConfig(version).embeddingModel,
+      );
+      results = await sentenceService.findSimilarInDocuments(
+        group.map((doc) => doc.id),
+        embedding,
+        limit,
+        version,
+      );
+    } catch (error) {
+      // Keyword results are still useful without embeddings
+      logger.warn(
+        { error, analysisVersion: version },
+        'Semantic search unavailable, using keyword matching only',
+      );
+      continue;
+    }
+
+    for (const result of results) {
+      const doc = docsById.get(result.documentId);
+      if (!doc) continue;
+      const absolute = segmentService.toAbsolutePosition(
+        segmentsOf(doc),
+        result.segmentId,
+        result.sentenceStart,
+        result.sentenceEnd,
+      );
+      // Embeddings can lag behind edits made since the last analysis
+      if (!absolute || absolute.absoluteEnd > doc.content.length) continue;
+
+      const raw = doc.content.slice(
+        absolute.absoluteStart,
+        absolute.absoluteEnd,
+      );
+      const text = raw.trim();
+      if (!text) continue;
+
+      candidates.push({
+        documentId: doc.id,
+        segmentId: result.segmentId,
+        absoluteStart:
+          absolute.absoluteStart + (raw.length - raw.trimStart().length),
+        absoluteEnd: absolute.absoluteEnd,
+        text,
+        semanticScore: result.score,
+        keywordScore: 0,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Mention ranges per document for the entity or thread filter, or null
+ * when no filter applies.
+ */
+async function loadFilterRanges(
+  docs: SearchableDocument[],
+  userId: string,
+  filters: SearchFilters,
+): Promise<Map<string, Range[]> | null> {
+  const nodeIds: string[] = [];
+  if (filters.nodeId) nodeIds.push(filters.nodeId);
+
+  if (filters.threadId) {
+    const thread = await graphThreads.getThreadById(filters.threadId);
+    if (
+      !thread ||
+      !hasDocumentRole(
+        await authorizationService.getDocumentRole(userId, thread.documentId),
+        'viewer',
+      )
+    ) {
+      throw new NotFoundError('Thread not found');
+    }
+    const events = await graphThreads.getEventsForThread(filters.threadId);
+    nodeIds.push(...events.map((event) => event.eventId));
+  }
+
+  if (!filters.nodeId && !filters.threadId) return null;
+
+  const docsById = new Map(docs.map((doc) => [doc.id, doc]));
+  const ranges = new Map<string, Range[]>();
+
+  for (const nodeId of nodeIds) {
+    const nodeMentions = await mentionService.getByNodeId(nodeId);
+    for (const mention of nodeMentions) {
+      const doc = docsById.get(mention.documentId);
+      if (!doc) continue;
+      const absolute = segmentService.toAbsolutePosition(
+        segmentsOf(doc),
+        mention.segmentId,
+        mention.relativeStart,
+        mention.relativeEnd,
+      );
+      if (!absolute) continue;
+      const docRanges = ranges.get(doc.id) ?? [];
+      docRanges.push(absolute);
+      ranges.set(doc.id, docRanges);
+    }
+  }
+
+  return ranges;
+}
+
+async function searchDocuments(
+  docs: SearchableDocument[],
+  userId: string,
+  query: string,
+  options: SearchOptions,
+): Promise<SearchPassage[]> {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const terms = extractQueryTerms(query);
+  const filterRanges = await loadFilterRanges(docs, userId, options);
+
+  const candidates = new Map<string, Candidate>();
+  const keyOf = (documentId: string, absoluteStart: number) =>
+    `${documentId}:${absoluteStart}`;
+
+  const semantic = await findSemanticCandidates(
+    docs,
+    query,
+    Math.max(limit * 3, MIN_SEMANTIC_CANDIDATES),
+  );
+  for (const candidate of semantic) {
+    candidates.set(keyOf(candidate.documentId, candidate.absoluteStart), {
+      ...candidate,
+      keywordScore: scoreKeywordMatch(candidate.text, terms, query),
+    });
+  }
+
+  if (terms.length > 0) {
+    for (const doc of docs) {
+      for (const sentence of splitDocumentSentences(
+        doc.content,
+        segmentsOf(doc),
+      )) {
+        const key = keyOf(doc.id, sentence.absoluteStart);
+        if (candidates.has(key)) continue;
+        const keywordScore = scoreKeywordMatch(sentence.text, terms, query);
+        if (keywordScore === 0) continue;
+        candidates.set(key, {
+          documentId: doc.id,
+          ...sentence,
+          semanticScore: null,
+          keywordScore,
+        });
+      }
+    }
+  }
+
+  const docsById = new Map(docs.map((doc) => [doc.id, doc]));
+
+  return [...candidates.values()]
+    .filter(
+      (candidate) =>
+        !filterRanges ||
+        overlapsAny(
+          candidate.absoluteStart,
+          candidate.absoluteEnd,
+          filterRanges.get(candidate.documentId) ?? [],
+        ),
+    )
+    .map((candidate) => ({
+      candidate,
+      score: combineScores(candidate.semanticScore, candidate.keywordScore),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate, score }) => {
+      const doc = docsById.get(candidate.documentId) as SearchableDocument;
+      return {
+        ...candidate,
+        documentTitle: doc.title,
+        score,
+        ...buildHighlightedContext(
+          doc.content,
+          candidate.absoluteStart,
+          candidate.absoluteEnd,
+          terms,
+        ),
+      };
+    });
+}
+
+export const searchService = {
+  /**
+   * Search one document. Access is checked by the caller.
+   */
+  async searchDocument(
+    document: SearchableDocument,
+    userId: string,
+    query: string,
+    options: SearchOptions = {},
+  ): Promise<SearchPassage[]> {
+    return searchDocuments([document], userId, query, options);
+  },
+
+  /**
+   * Search all of a user's documents.
+   */
+  async searchAll(
+    userId: string,
+    query: string,
+    options: SearchOptions = {},
+  ): Promise<SearchPassage[]> {
+    const userDocuments = await db
+      .select({
+        id: documents.id,
+        title: documents.title,
+        content: documents.content,
+        segmentSequence: documents.segmentSequence,
+        analysisVersion: documents.analysisVersion,
+      })
+      .from(documents)
+      .where(and(eq(documents.userId, userId), isNull(documents.deletedAt)));
+
+    return searchDocuments(userDocuments, userId, query, options);
+  },
+};
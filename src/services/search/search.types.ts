@@ -0,0 +1,38 @@
+/**
+ * Types for passage search.
+ */
+
+export interface SearchFilters {
+  /** Only passages that mention this story node */
+  nodeId?: string;
+  /** Only passages that mention an event in this narrative thread */
+  threadId?: string;
+}
+
+export interface SearchOptions extends SearchFilters {
+  limit?: number;
+}
+
+/** Offsets into SearchPassage.context */
+export interface PassageHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchPassage {
+  documentId: string;
+  documentTitle: string;
+  segmentId: string;
+  absoluteStart: number;
+  absoluteEnd: number;
+  text: string;
+  /** Passage with surrounding text */
+  context: string;
+  /** Absolute offset of the first character of context */
+  contextStart: number;
+  highlights: PassageHighlight[];
+  score: number;
+  /** Null when the passage was found by keyword only */
+  semanticScore: number | null;
+  keywordScore: number;
+}
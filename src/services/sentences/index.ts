@@ -5,6 +5,7 @@
 export { computeContentHash, splitIntoSentences } from './sentence.detector';
 export { sentenceService } from './sentence.service';
 export type {
+  DocumentSentenceSimilarityResult,
   Sentence,
   SentenceSimilarityResult,
   SentenceWithEmbedding,
@@ -17,6 +17,7 @@ import { generateEmbeddings } from '../embeddings';
 import type { Segment } from '../segments';
 import { splitIntoSentences } from './sentence.detector';
 import type {
+  DocumentSentenceSimilarityResult,
   Sentence,
   SentenceSimilarityResult,
   SentenceWithEmbedding,
@@ -415,6 +416,61 @@ export const sentenceService = {
     }));
   },
 
+  /**
+   * Find sentences similar to a query embedding across several documents.
+   * All documents must share the analysis version's embedding column.
+   */
+  async findSimilarInDocuments(
+    documentIds: string[],
+    queryEmbedding: number[],
+    limit: number = 10,
+    analysisVersion?: string,
+  ): Promise<DocumentSentenceSimilarityResult[]> {
+    if (documentIds.length === 0) return [];
+
+    const version = analysisVersion ?? getCurrentAnalysisVersion();
+    const versionConfig = getVersionConfig(version);
+    const embeddingColumn = versionConfig.embeddingColumn;
+
+    const embeddingStr = `[${queryEmbedding.join(',')}]`;
+
+    const rows = await db.execute(sql`
+      SELECT
+        id,
+        document_id,
+        segment_id,
+        sentence_start,
+        sentence_end,
+        1 - (${sql.raw(embeddingColumn)} <=> ${embeddingStr}::vector) as score
+      FROM sentence_embeddings
+      WHERE document_id IN (${sql.join(
+        documentIds.map((id) => sql`${id}`),
+        sql`, `,
+      )})
+        AND ${sql.raw(embeddingColumn)} IS NOT NULL
+      ORDER BY ${sql.raw(embeddingColumn)} <=> ${embeddingStr}::vector
+      LIMIT ${limit}
+    `);
+
+    return (
+      rows as unknown as {
+        id: string;
+        document_id: string;
+        segment_id: string | null;
+        sentence_start: number;
+        sentence_end: number;
+        score: number;
+      }[]
+    ).map((row) => ({
+      sentenceId: row.id,
+      documentId: row.document_id,
+      segmentId: row.segment_id ?? '',
+      sentenceStart: row.sentence_start,
+      sentenceEnd: row.sentence_end,
+      score: row.score,
+    }));
+  },
+
   /**
    * Find sentences similar to text.
    * Generates embedding for the query text first.
@@ -38,3 +38,8 @@ export interface SentenceSimilarityResult {
   text?: string;
   score: number;
 }
+
+export interface DocumentSentenceSimilarityResult
+  extends SentenceSimilarityResult {
+  documentId: string;
+}
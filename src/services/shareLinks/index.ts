@@ -0,0 +1,13 @@
+/**
+ * Share links module - public read-only views of documents for readers
+ * without accounts.
+ */
+
+export type {
+  PublicStoryConnection,
+  PublicStoryGraph,
+  PublicStoryNode,
+  ShareLinkStatus,
+} from './publicView';
+export { shareLinkStatus, toPublicStoryGraph } from './publicView';
+export { shareLinksService } from './shareLinks.service';
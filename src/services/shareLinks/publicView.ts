@@ -0,0 +1,81 @@
+/**
+ * What a share link exposes. Readers get the prose and a trimmed story
+ * graph: names, descriptions and relationships, without analysis metadata,
+ * style prompts or anything tying nodes to the owner's account.
+ */
+
+import type { StoryNodeType } from '../../types/storyNodes';
+import type {
+  StoredStoryConnection,
+  StoredStoryNode,
+} from '../graph/graph.types';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface PublicStoryNode {
+  id: string;
+  type: StoryNodeType;
+  name: string;
+  description: string | null;
+  aliases: string[];
+  imageUrl: string | null;
+}
+
+export interface PublicStoryConnection {
+  fromNodeId: string;
+  toNodeId: string;
+  edgeType: string;
+  description: string | null;
+}
+
+export interface PublicStoryGraph {
+  nodes: PublicStoryNode[];
+  connections: PublicStoryConnection[];
+}
+
+export function shareLinkStatus(
+  link: { expiresAt: Date | null; revokedAt: Date | null },
+  now: Date = new Date(),
+): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+/**
+ * Sanitized story graph for readers. Nodes come out in document order;
+ * connections are kept only when both ends are visible.
+ */
+export function toPublicStoryGraph(
+  nodes: StoredStoryNode[],
+  connections: StoredStoryConnection[],
+  imageUrls: Map<string, string>,
+): PublicStoryGraph {
+  const ordered = [...nodes].sort(
+    (a, b) =>
+      (a.documentOrder ?? Number.MAX_SAFE_INTEGER) -
+      (b.documentOrder ?? Number.MAX_SAFE_INTEGER),
+  );
+  const visible = new Set(ordered.map((n) => n.id));
+
+  return {
+    nodes: ordered.map((node) => ({
+      id: node.id,
+      type: node.type,
+      name: node.name,
+      description: node.description,
+      aliases: node.aliases ?? [],
+      imageUrl: node.primaryMediaId
+        ? (imageUrls.get(node.primaryMediaId) ?? null)
+        : null,
+    })),
+    connections: connections
+      .filter((c) => visible.has(c.fromNodeId) && visible.has(c.toNodeId))
+      .map((c) => ({
+        fromNodeId: c.fromNodeId,
+        toNodeId: c.toNodeId,
+        edgeType: c.edgeType,
+        description: c.description,
+      })),
+  };
+}
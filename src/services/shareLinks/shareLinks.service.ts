@@ -0,0 +1,206 @@
+/**
+ * Public read-only share links. The owner creates revocable links, each
+ * optionally expiring and password-protected; readers open them without an
+ * account and see the document, its images and, if the link allows it, a
+ * sanitized story graph.
+ */
+
+import crypto from 'node:crypto';
+import bcrypt from 'bcrypt';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { documentShareLinks, documents } from '../../models/schema';
+import { NotFoundError, UnauthorizedError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { documentEditorContent } from '../documentImport/yjsState';
+import { mediaService } from '../mediaService';
+import { graphStoryNodesRepository } from '../storyNodes';
+import { shareLinkStatus, toPublicStoryGraph } from './publicView';
+
+const BCRYPT_ROUNDS = 12;
+
+type ShareLink = typeof documentShareLinks.$inferSelect;
+
+/** Link details for the owner; the password hash never leaves the server */
+function toSummary(link: ShareLink) {
+  return {
+    id: link.id,
+    token: link.token,
+    label: link.label,
+    hasPassword: link.passwordHash !== null,
+    includeStoryGraph: link.includeStoryGraph,
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    status: shareLinkStatus(link),
+    viewCount: link.viewCount,
+    lastViewedAt: link.lastViewedAt,
+    createdAt: link.createdAt,
+  };
+}
+
+/** Signed URL for a media item, or null if it can no longer be served */
+async function signedUrl(
+  mediaId: string,
+  ownerId: string,
+): Promise<string | null> {
+  try {
+    return await mediaService.getSignedUrl(mediaId, ownerId);
+  } catch (error) {
+    logger.warn({ error, mediaId }, 'Could not sign shared media URL');
+    return null;
+  }
+}
+
+export const shareLinksService = {
+  async list(documentId: string) {
+    const links = await db
+      .select()
+      .from(documentShareLinks)
+      .where(eq(documentShareLinks.documentId, documentId))
+      .orderBy(desc(documentShareLinks.createdAt));
+    return links.map(toSummary);
+  },
+
+  async create(input: {
+    documentId: string;
+    createdBy: string;
+    label?: string;
+    password?: string;
+    includeStoryGraph?: boolean;
+    expiresAt?: Date;
+  }) {
+    const passwordHash = input.password
+      ? await bcrypt.hash(input.password, BCRYPT_ROUNDS)
+      : null;
+
+    const [link] = await db
+      .insert(documentShareLinks)
+      .values({
+        documentId: input.documentId,
+        createdBy: input.createdBy,
+        token: crypto.randomBytes(32).toString('base64url'),
+        label: input.label ?? null,
+        passwordHash,
+        includeStoryGraph: input.includeStoryGraph ?? false,
+        expiresAt: input.expiresAt ?? null,
+      })
+      .returning();
+
+    logger.info(
+      { documentId: input.documentId, shareLinkId: link.id },
+      'Share link created',
+    );
+    return toSummary(link);
+  },
+
+  async revoke(documentId: string, linkId: string) {
+    const [link] = await db
+      .update(documentShareLinks)
+      .set({ revokedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(documentShareLinks.id, linkId),
+          eq(documentShareLinks.documentId, documentId),
+          isNull(documentShareLinks.revokedAt),
+        ),
+      )
+      .returning();
+    if (!link) {
+      throw new NotFoundError('Share link not found');
+    }
+
+    logger.info({ documentId, shareLinkId: linkId }, 'Share link revoked');
+    return toSummary(link);
+  },
+
+  /**
+   * The read-only view behind a token. Revoked, expired and unknown links
+   * all look the same to the reader. Each successful open counts as a view.
+   */
+  async view(token: string, password: string | undefined) {
+    const [link] = await db
+      .select()
+      .from(documentShareLinks)
+      .where(eq(documentShareLinks.token, token))
+      .limit(1);
+    if (!link || shareLinkStatus(link) !== 'active') {
+      throw new NotFoundError('Share link not found or expired', 'NOT_FOUND');
+    }
+
+    if (link.passwordHash) {
+      if (!password) {
+        throw new UnauthorizedError(
+          'This link is password protected',
+          'PASSWORD_REQUIRED',
+        );
+      }
+      if (!(await bcrypt.compare(password, link.passwordHash))) {
+        throw new UnauthorizedError('Incorrect password', 'INVALID_PASSWORD');
+      }
+    }
+
+    const [document] = await db
+      .select()
+      .from(documents)
+      .where(
+        and(eq(documents.id, link.documentId), isNull(documents.deletedAt)),
+      )
+      .limit(1);
+    if (!document) {
+      throw new NotFoundError('Share link not found or expired', 'NOT_FOUND');
+    }
+
+    await db
+      .update(documentShareLinks)
+      .set({
+        viewCount: sql`${documentShareLinks.viewCount} + 1`,
+        lastViewedAt: new Date(),
+      })
+      .where(eq(documentShareLinks.id, link.id));
+
+    const documentMedia = (
+      await mediaService.getDocumentMedia(document.id)
+    ).filter((m) => m.status === 'completed');
+    const media = await Promise.all(
+      documentMedia.map(async (m) => ({
+        id: m.id,
+        url: await signedUrl(m.id, m.userId),
+        width: m.width,
+        height: m.height,
+        nodePos: m.nodePos,
+        textOffset: m.textOffset,
+        sourceText: m.sourceText,
+      })),
+    );
+
+    let storyGraph = null;
+    if (link.includeStoryGraph) {
+      const [nodes, connections] = await Promise.all([
+        graphStoryNodesRepository.getActiveNodes(document.id, document.userId),
+        graphStoryNodesRepository.getConnectionsForDocument(document.id),
+      ]);
+      const mediaIds = [
+        ...new Set(nodes.flatMap((n) => n.primaryMediaId ?? [])),
+      ];
+      const imageUrls = new Map<string, string>();
+      await Promise.all(
+        mediaIds.map(async (mediaId) => {
+          const url = await signedUrl(mediaId, document.userId);
+          if (url) imageUrls.set(mediaId, url);
+        }),
+      );
+      storyGraph = toPublicStoryGraph(nodes, connections, imageUrls);
+    }
+
+    return {
+      document: {
+        title: document.title,
+        contentJson: documentEditorContent(document),
+        content: document.content,
+        updatedAt: document.updatedAt,
+      },
+      media: media.filter((m) => m.url !== null),
+      storyGraph,
+    };
+  },
+};
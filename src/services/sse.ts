@@ -46,6 +46,12 @@ class SSEService {
     'activity-created': { buffer: true, ttlMs: 5 * 60 * 1000 },
     'activity-updated': { buffer: true, ttlMs: 60_000 },
 
+    // Answer chunks are too many to buffer; the complete event carries the
+    // full answer for clients that reconnect mid-stream
+    'ask-chunk': { buffer: false, ttlMs: 0 },
+    'ask-complete': { buffer: true, ttlMs: 5 * 60 * 1000 },
+    'ask-failed': { buffer: true, ttlMs: 60_000 },
+
     'nodes-updated': { buffer: false, ttlMs: 0 },
     'update-failed': { buffer: false, ttlMs: 0 },
   };
@@ -9,6 +9,10 @@ export type SSEEventName =
   // Document events
   | 'document-updated'
   | 'document-deleted'
+  | 'collaborators-updated'
+  // Comment events
+  | 'comments-updated'
+  | 'comment-mention'
   // Mention events
   | 'mention-key-passage-updated'
   // Node events
@@ -44,6 +48,22 @@ export interface DocumentDeletedEvent {
   documentId: string;
 }
 
+export interface CollaboratorsUpdatedEvent {
+  documentId: string;
+}
+
+export interface CommentsUpdatedEvent {
+  documentId: string;
+  threadId: string;
+}
+
+export interface CommentMentionEvent {
+  documentId: string;
+  threadId: string;
+  commentId: string;
+  authorId: string;
+}
+
 export interface MentionKeyPassageUpdatedEvent {
   documentId: string;
   mentionId: string;
@@ -127,6 +147,10 @@ export const EVENT_INVALIDATION_MAP: Record<
     ['documents', ':documentId', 'nodes'],
   ],
   'document-deleted': [['documents', ':documentId']],
+  'collaborators-updated': [['documents', ':documentId', 'collaborators']],
+
+  'comments-updated': [['documents', ':documentId', 'comments']],
+  'comment-mention': [['documents', ':documentId', 'comments']],
 
   'mention-key-passage-updated': [
     ['documents', ':documentId', 'mentions'],
@@ -77,6 +77,7 @@ export class MinIOStorageProvider implements StorageProvider {
       'video/mpeg': '.mpeg',
       'video/webm': '.webm',
       'application/pdf': '.pdf',
+      'application/epub+zip': '.epub',
     };
 
     return mimeToExt[mimeType] || '';
@@ -137,6 +137,7 @@ export class S3StorageProvider implements StorageProvider {
       'video/mpeg': '.mpeg',
       'video/webm': '.webm',
       'application/pdf': '.pdf',
+      'application/epub+zip': '.epub',
     };
 
     return mimeToExt[mimeType] || '';
@@ -0,0 +1,121 @@
+/**
+ * In-world calendars and the story-time placements resolved against them.
+ */
+
+import { z } from 'zod';
+
+export const storyCalendarSchema = z
+  .object({
+    months: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(50),
+          days: z.number().int().min(1).max(1000),
+        }),
+      )
+      .min(1)
+      .max(100),
+    hoursPerDay: z.number().int().min(1).max(1000),
+    daysPerWeek: z.number().int().min(1).max(100),
+    /** Month indices are inclusive and zero-based */
+    seasons: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(50),
+          startMonth: z.number().int().min(0),
+          endMonth: z.number().int().min(0),
+        }),
+      )
+      .max(20),
+  })
+  .refine(
+    (calendar) =>
+      calendar.seasons.every(
+        (s) =>
+          s.startMonth <= s.endMonth && s.endMonth < calendar.months.length,
+      ),
+    { message: 'Season months must be within the calendar, start before end' },
+  );
+
+export type StoryCalendar = z.infer<typeof storyCalendarSchema>;
+
+const GREGORIAN_MONTHS: Array<[string, number]> = [
+  ['January', 31],
+  ['February', 28],
+  ['March', 31],
+  ['April', 30],
+  ['May', 31],
+  ['June', 30],
+  ['July', 31],
+  ['August', 31],
+  ['September', 30],
+  ['October', 31],
+  ['November', 30],
+  ['December', 31],
+];
+
+/** Used when a document has no calendar of its own. No leap years. */
+export const DEFAULT_CALENDAR: StoryCalendar = {
+  months: GREGORIAN_MONTHS.map(([name, days]) => ({ name, days })),
+  hoursPerDay: 24,
+  daysPerWeek: 7,
+  seasons: [
+    { name: 'winter', startMonth: 0, endMonth: 1 },
+    { name: 'spring', startMonth: 2, endMonth: 4 },
+    { name: 'summer', startMonth: 5, endMonth: 7 },
+    { name: 'autumn', startMonth: 8, endMonth: 10 },
+    { name: 'fall', startMonth: 8, endMonth: 10 },
+  ],
+};
+
+/** A time expression as read from event metadata */
+export type ParsedTime =
+  | {
+      kind: 'absolute';
+      year: number | null;
+      monthIndex: number | null;
+      day: number | null;
+      seasonIndex: number | null;
+    }
+  | {
+      kind: 'relative';
+      offsetHours: number;
+      /** Quantity was vague ("years later", "several days") */
+      approximate: boolean;
+    };
+
+/** Finest calendar unit a placement is known to */
+export type TimePrecision = 'day' | 'month' | 'season' | 'year';
+
+/**
+ * An event placed on the calendar. Times are hours since the start of
+ * year 0; the span covers the expression's precision (a whole year for
+ * "1843", a day for "3 March 1843").
+ */
+export interface StoryTimePlacement {
+  eventId: string;
+  expression: string;
+  start: number;
+  end: number;
+  label: string;
+  precision: TimePrecision;
+  approximate: boolean;
+  /** Event a relative expression was measured from */
+  anchorEventId: string | null;
+}
+
+/** A HAPPENS_BEFORE edge that story time says runs backwards */
+export interface ChronologyConflict {
+  beforeEventId: string;
+  afterEventId: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+export interface StoryTimeline {
+  calendar: StoryCalendar;
+  placements: StoryTimePlacement[];
+  /** Events with a time expression that could not be placed */
+  unplacedEventIds: string[];
+  conflicts: ChronologyConflict[];
+}
@@ -0,0 +1,14 @@
+/**
+ * In-world calendars and story-time placement of events.
+ */
+
+export {
+  type ChronologyConflict,
+  DEFAULT_CALENDAR,
+  type StoryCalendar,
+  type StoryTimeline,
+  type StoryTimePlacement,
+  storyCalendarSchema,
+} from './calendar.types';
+export { readTimeExpression, withTimeExpression } from './resolve';
+export { storyCalendarService } from './storyCalendar.service';
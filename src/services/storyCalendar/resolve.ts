@@ -0,0 +1,167 @@
+/**
+ * Places events on a story calendar in reading order and checks the
+ * result against HAPPENS_BEFORE edges.
+ */
+
+import type {
+  ChronologyConflict,
+  StoryCalendar,
+  StoryTimeline,
+  StoryTimePlacement,
+} from './calendar.types';
+import {
+  absoluteSpan,
+  formatStoryTime,
+  parseTimeExpression,
+  yearOf,
+} from './timeExpressions';
+
+export interface TimedEvent {
+  id: string;
+  documentOrder: number | null;
+  timeExpression: string | null;
+}
+
+export interface OrderingEdge {
+  fromId: string;
+  toId: string;
+}
+
+/** Time expression the extractor stored in an event node's metadata */
+export function readTimeExpression(metadata: string | null): string | null {
+  if (!metadata) return null;
+  try {
+    const parsed = JSON.parse(metadata) as { timeExpression?: unknown };
+    return typeof parsed.timeExpression === 'string'
+      ? parsed.timeExpression
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Node metadata with the time expression replaced, keeping any other keys.
+ * Unreadable metadata is replaced outright.
+ */
+export function withTimeExpression(
+  metadata: string | null,
+  timeExpression: string,
+): Record<string, unknown> {
+  let existing: Record<string, unknown> = {};
+  if (metadata) {
+    try {
+      const parsed: unknown = JSON.parse(metadata);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        existing = parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Replaced below
+    }
+  }
+  return { ...existing, timeExpression };
+}
+
+/**
+ * Place one expression. Relative expressions, and absolute ones without a
+ * year, are read from the previous placed event; a yearless date that
+ * would land before it is taken to be in the following year.
+ */
+function place(
+  event: TimedEvent & { timeExpression: string },
+  anchor: StoryTimePlacement | null,
+  calendar: StoryCalendar,
+): StoryTimePlacement | null {
+  const parsed = parseTimeExpression(event.timeExpression, calendar);
+  if (!parsed) return null;
+
+  if (parsed.kind === 'relative') {
+    if (!anchor) return null;
+    const start = anchor.start + parsed.offsetHours;
+    return {
+      eventId: event.id,
+      expression: event.timeExpression,
+      start,
+      end: anchor.end + parsed.offsetHours,
+      label: formatStoryTime(start, anchor.precision, calendar),
+      precision: anchor.precision,
+      approximate: parsed.approximate || anchor.approximate,
+      anchorEventId: anchor.eventId,
+    };
+  }
+
+  let year = parsed.year;
+  let inherited = false;
+  if (year === null) {
+    if (!anchor) return null;
+    year = yearOf(anchor.start, calendar);
+    inherited = true;
+  }
+
+  let span = absoluteSpan(parsed, year, calendar);
+  if (inherited && anchor && span.start < anchor.start) {
+    span = absoluteSpan(parsed, year + 1, calendar);
+  }
+
+  return {
+    eventId: event.id,
+    expression: event.timeExpression,
+    start: span.start,
+    end: span.end,
+    label: formatStoryTime(span.start, span.precision, calendar),
+    precision: span.precision,
+    approximate: anchor?.approximate === true && inherited,
+    anchorEventId: inherited ? (anchor?.eventId ?? null) : null,
+  };
+}
+
+export function resolveStoryTime(
+  events: TimedEvent[],
+  happensBefore: OrderingEdge[],
+  calendar: StoryCalendar,
+): StoryTimeline {
+  const ordered = [...events].sort(
+    (a, b) => (a.documentOrder ?? Infinity) - (b.documentOrder ?? Infinity),
+  );
+
+  const placements: StoryTimePlacement[] = [];
+  const unplacedEventIds: string[] = [];
+  let anchor: StoryTimePlacement | null = null;
+
+  for (const event of ordered) {
+    if (!event.timeExpression) continue;
+    const placement = place(
+      { ...event, timeExpression: event.timeExpression },
+      anchor,
+      calendar,
+    );
+    if (!placement) {
+      unplacedEventIds.push(event.id);
+      continue;
+    }
+    placements.push(placement);
+    anchor = placement;
+  }
+
+  const byEvent = new Map(placements.map((p) => [p.eventId, p]));
+  const seen = new Set<string>();
+  const conflicts: ChronologyConflict[] = [];
+  for (const edge of happensBefore) {
+    const key = `${edge.fromId}:${edge.toId}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const before = byEvent.get(edge.fromId);
+    const after = byEvent.get(edge.toId);
+    // Overlapping spans can't be told apart, so only a clear reversal counts
+    if (!before || !after || before.start < after.end) continue;
+    conflicts.push({
+      beforeEventId: before.eventId,
+      afterEventId: after.eventId,
+      beforeLabel: before.label,
+      afterLabel: after.label,
+    });
+  }
+
+  return { calendar, placements, unplacedEventIds, conflicts };
+}
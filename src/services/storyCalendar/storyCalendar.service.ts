@@ -0,0 +1,120 @@
+/**
+ * Story time: places events on the document's in-world calendar from the
+ * time expressions extracted into their metadata, and queues HAPPENS_BEFORE
+ * edges the placements contradict for review.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { documents } from '../../models/schema';
+import { NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { graphService } from '../graph/graph.service';
+import { reviewQueueService } from '../reviewQueue';
+import {
+  DEFAULT_CALENDAR,
+  type StoryCalendar,
+  type StoryTimeline,
+  storyCalendarSchema,
+} from './calendar.types';
+import { readTimeExpression, resolveStoryTime } from './resolve';
+
+export const storyCalendarService = {
+  /**
+   * The document's calendar, or the default when none is set (or the
+   * stored one no longer validates).
+   */
+  async getCalendar(
+    documentId: string,
+  ): Promise<{ calendar: StoryCalendar; isDefault: boolean }> {
+    const document = await db.query.documents.findFirst({
+      where: eq(documents.id, documentId),
+      columns: { storyCalendar: true },
+    });
+    if (!document) throw new NotFoundError('Document not found');
+
+    const parsed = storyCalendarSchema.safeParse(document.storyCalendar);
+    if (document.storyCalendar && !parsed.success) {
+      logger.warn({ documentId }, 'Stored story calendar is invalid, ignoring');
+    }
+    return parsed.success
+      ? { calendar: parsed.data, isDefault: false }
+      : { calendar: DEFAULT_CALENDAR, isDefault: true };
+  },
+
+  /** Set the document's calendar; null restores the default */
+  async setCalendar(
+    documentId: string,
+    calendar: StoryCalendar | null,
+  ): Promise<void> {
+    await db
+      .update(documents)
+      .set({ storyCalendar: calendar })
+      .where(eq(documents.id, documentId));
+  },
+
+  /**
+   * Place the document's events on its calendar. Ownership is checked by
+   * the caller.
+   */
+  async resolve(documentId: string, userId: string): Promise<StoryTimeline> {
+    const [{ calendar }, nodes, connections] = await Promise.all([
+      this.getCalendar(documentId),
+      graphService.getStoryNodesForDocument(documentId, userId),
+      graphService.getStoryConnectionsForDocument(documentId),
+    ]);
+
+    return resolveStoryTime(
+      nodes
+        .filter((node) => node.type === 'event')
+        .map((node) => ({
+          id: node.id,
+          documentOrder: node.documentOrder,
+          timeExpression: readTimeExpression(node.metadata),
+        })),
+      connections
+        .filter((c) => c.edgeType === 'HAPPENS_BEFORE')
+        .map((c) => ({ fromId: c.fromNodeId, toId: c.toNodeId })),
+      calendar,
+    );
+  },
+
+  /**
+   * Resolve story time and queue each contradicted HAPPENS_BEFORE edge as
+   * a gap_detected review item, dismissing pending items that no longer
+   * conflict. Returns how many new items were queued.
+   */
+  async flagConflicts(documentId: string, userId: string): Promise<number> {
+    const timeline = await this.resolve(documentId, userId);
+    await reviewQueueService.clearStaleChronologyConflicts(
+      documentId,
+      timeline.conflicts,
+    );
+    if (timeline.conflicts.length === 0) return 0;
+
+    const nodes = await graphService.getStoryNodesForDocument(
+      documentId,
+      userId,
+    );
+    const names = new Map(nodes.map((node) => [node.id, node.name]));
+
+    let flagged = 0;
+    for (const conflict of timeline.conflicts) {
+      const item = await reviewQueueService.flagChronologyConflict({
+        documentId,
+        beforeEvent: {
+          id: conflict.beforeEventId,
+          name: names.get(conflict.beforeEventId) ?? 'Unknown event',
+          label: conflict.beforeLabel,
+        },
+        afterEvent: {
+          id: conflict.afterEventId,
+          name: names.get(conflict.afterEventId) ?? 'Unknown event',
+          label: conflict.afterLabel,
+        },
+      });
+      if (item) flagged++;
+    }
+    return flagged;
+  },
+};
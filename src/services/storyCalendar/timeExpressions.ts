@@ -0,0 +1,304 @@
+/**
+ * Reads explicit ("winter of 1843", "3 Frostmoon 1201") and relative
+ * ("three days later", "the next morning") time expressions, and does
+ * the calendar arithmetic for placing them.
+ */
+
+import type {
+  ParsedTime,
+  StoryCalendar,
+  TimePrecision,
+} from './calendar.types';
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  hundred: 100,
+};
+
+/** Vague quantities, read as a small count and marked approximate */
+const VAGUE_WORDS: Record<string, number> = {
+  'a few': 3,
+  few: 3,
+  several: 3,
+  some: 3,
+  many: 10,
+};
+
+const QUANTITY = [
+  '\\d+',
+  ...Object.keys(VAGUE_WORDS),
+  ...Object.keys(NUMBER_WORDS),
+].join('|');
+const UNIT =
+  'hours?|days?|nights?|mornings?|evenings?|weeks?|months?|seasons?|years?|decades?|century|centuries';
+const FORWARD = 'later|after|afterwards?|on|hence';
+const BACKWARD = 'before|earlier|ago|prior|previously';
+
+const RELATIVE_PATTERN = new RegExp(
+  `(?:^|\\s)(?:(${QUANTITY})\\s+)?(${UNIT})\\s+(${FORWARD}|${BACKWARD})\\b`,
+);
+const NEXT_PATTERN = new RegExp(
+  `\\b(?:the\\s+)?(next|following|previous)\\s+(${UNIT})\\b`,
+);
+const UNIT_BEFORE_PATTERN = new RegExp(`\\bthe\\s+(${UNIT})\\s+before\\b`);
+const SAME_DAY_PATTERN =
+  /\b(?:that|the same|later that)\s+(?:day|morning|afternoon|evening|night)\b/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function daysInYear(calendar: StoryCalendar): number {
+  return calendar.months.reduce((sum, m) => sum + m.days, 0);
+}
+
+export function hoursInYear(calendar: StoryCalendar): number {
+  return daysInYear(calendar) * calendar.hoursPerDay;
+}
+
+/** Days from the start of the year to the start of a month */
+function monthStartDay(calendar: StoryCalendar, monthIndex: number): number {
+  return calendar.months
+    .slice(0, monthIndex)
+    .reduce((sum, m) => sum + m.days, 0);
+}
+
+function unitHours(unit: string, calendar: StoryCalendar): number {
+  const day = calendar.hoursPerDay;
+  const year = hoursInYear(calendar);
+  if (unit.startsWith('hour')) return 1;
+  if (unit.startsWith('week')) return day * calendar.daysPerWeek;
+  if (unit.startsWith('month')) return year / calendar.months.length;
+  if (unit.startsWith('season')) return year / 4;
+  if (unit.startsWith('year')) return year;
+  if (unit.startsWith('decade')) return year * 10;
+  if (unit.startsWith('centur')) return year * 100;
+  // day, night, morning, evening
+  return day;
+}
+
+function readQuantity(word: string | undefined): {
+  count: number;
+  approximate: boolean;
+} {
+  // "years later": some unstated number of units
+  if (!word) return { count: 1, approximate: true };
+  if (/^\d+$/.test(word)) return { count: Number(word), approximate: false };
+  if (word in VAGUE_WORDS) {
+    return { count: VAGUE_WORDS[word], approximate: true };
+  }
+  return { count: NUMBER_WORDS[word] ?? 1, approximate: false };
+}
+
+function parseRelative(
+  text: string,
+  calendar: StoryCalendar,
+): ParsedTime | null {
+  if (SAME_DAY_PATTERN.test(text)) {
+    return { kind: 'relative', offsetHours: 0, approximate: false };
+  }
+
+  const next = NEXT_PATTERN.exec(text);
+  if (next) {
+    const sign = next[1] === 'previous' ? -1 : 1;
+    return {
+      kind: 'relative',
+      offsetHours: sign * unitHours(next[2], calendar),
+      approximate: false,
+    };
+  }
+
+  const before = UNIT_BEFORE_PATTERN.exec(text);
+  if (before) {
+    return {
+      kind: 'relative',
+      offsetHours: -unitHours(before[1], calendar),
+      approximate: false,
+    };
+  }
+
+  const relative = RELATIVE_PATTERN.exec(text);
+  if (!relative) return null;
+
+  const { count, approximate } = readQuantity(relative[1]);
+  const sign = new RegExp(`^(?:${BACKWARD})$`).test(relative[3]) ? -1 : 1;
+  return {
+    kind: 'relative',
+    offsetHours: sign * count * unitHours(relative[2], calendar),
+    approximate,
+  };
+}
+
+/** Index of the first name that appears as a whole word */
+function findName(text: string, names: string[]): number | null {
+  const index = names.findIndex((name) =>
+    new RegExp(`\\b${escapeRegExp(name.toLowerCase())}\\b`).test(text),
+  );
+  return index === -1 ? null : index;
+}
+
+function parseAbsolute(
+  text: string,
+  calendar: StoryCalendar,
+): (ParsedTime & { kind: 'absolute' }) | null {
+  const yearMatch = /\byear\s+(\d+)\b/.exec(text) ?? /\b(\d{3,5})\b/.exec(text);
+  const year = yearMatch ? Number(yearMatch[1]) : null;
+
+  const month = findName(
+    text,
+    calendar.months.map((m) => m.name),
+  );
+  const season =
+    month !== null
+      ? null
+      : findName(
+          text,
+          calendar.seasons.map((s) => s.name),
+        );
+
+  let day: number | null = null;
+  if (month !== null) {
+    const name = escapeRegExp(calendar.months[month].name.toLowerCase());
+    const dayMatch =
+      new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${name}\\b`).exec(
+        text,
+      ) ?? new RegExp(`\\b${name}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`).exec(text);
+    if (dayMatch) day = Number(dayMatch[1]);
+  }
+
+  if (year === null && month === null && season === null) return null;
+  return {
+    kind: 'absolute',
+    year,
+    monthIndex: month,
+    day,
+    seasonIndex: season,
+  };
+}
+
+/**
+ * Parse a time expression against a calendar. Returns null for text that
+ * names no time, or a day the month doesn't have.
+ */
+export function parseTimeExpression(
+  expression: string,
+  calendar: StoryCalendar,
+): ParsedTime | null {
+  const text = expression.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+
+  const absolute = parseAbsolute(text, calendar);
+  const relative = parseRelative(text, calendar);
+
+  // "two years later, in spring" is measured from the previous event
+  if (relative && (!absolute || absolute.year === null)) return relative;
+  if (!absolute) return null;
+
+  if (
+    absolute.monthIndex !== null &&
+    absolute.day !== null &&
+    (absolute.day < 1 ||
+      absolute.day > calendar.months[absolute.monthIndex].days)
+  ) {
+    return null;
+  }
+  return absolute;
+}
+
+/** Hour span and precision of an absolute time within a known year */
+export function absoluteSpan(
+  time: {
+    monthIndex: number | null;
+    day: number | null;
+    seasonIndex: number | null;
+  },
+  year: number,
+  calendar: StoryCalendar,
+): { start: number; end: number; precision: TimePrecision } {
+  const hpd = calendar.hoursPerDay;
+  const yearStart = year * hoursInYear(calendar);
+
+  if (time.monthIndex !== null) {
+    const monthStart =
+      yearStart + monthStartDay(calendar, time.monthIndex) * hpd;
+    if (time.day !== null) {
+      const start = monthStart + (time.day - 1) * hpd;
+      return { start, end: start + hpd, precision: 'day' };
+    }
+    return {
+      start: monthStart,
+      end: monthStart + calendar.months[time.monthIndex].days * hpd,
+      precision: 'month',
+    };
+  }
+
+  if (time.seasonIndex !== null) {
+    const season = calendar.seasons[time.seasonIndex];
+    return {
+      start: yearStart + monthStartDay(calendar, season.startMonth) * hpd,
+      end: yearStart + monthStartDay(calendar, season.endMonth + 1) * hpd,
+      precision: 'season',
+    };
+  }
+
+  return {
+    start: yearStart,
+    end: yearStart + hoursInYear(calendar),
+    precision: 'year',
+  };
+}
+
+export function yearOf(hours: number, calendar: StoryCalendar): number {
+  return Math.floor(hours / hoursInYear(calendar));
+}
+
+/** Human-readable date for a time, as fine as the precision allows */
+export function formatStoryTime(
+  hours: number,
+  precision: TimePrecision,
+  calendar: StoryCalendar,
+): string {
+  const year = yearOf(hours, calendar);
+  if (precision === 'year') return String(year);
+
+  let dayOfYear = Math.floor(
+    (hours - year * hoursInYear(calendar)) / calendar.hoursPerDay,
+  );
+  let monthIndex = 0;
+  while (
+    monthIndex < calendar.months.length - 1 &&
+    dayOfYear >= calendar.months[monthIndex].days
+  ) {
+    dayOfYear -= calendar.months[monthIndex].days;
+    monthIndex++;
+  }
+
+  if (precision === 'season') {
+    const season = calendar.seasons.find(
+      (s) => s.startMonth <= monthIndex && monthIndex <= s.endMonth,
+    );
+    if (season) return `${season.name} ${year}`;
+  }
+
+  const monthName = calendar.months[monthIndex].name;
+  if (precision === 'day') return `${dayOfYear + 1} ${monthName} ${year}`;
+  return `${monthName} ${year}`;
+}
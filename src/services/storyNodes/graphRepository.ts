@@ -18,9 +18,12 @@ import type {
   TextPosition,
 } from '../../types/storyNodes';
 import { logger } from '../../utils/logger';
+import { changeLogService, type LockedEntityField } from '../changelog';
 import { buildEmbeddingText, generateEmbedding } from '../embeddings';
 import { graphService, type StoredStoryNode } from '../graph/graph.service';
+import { graphThreads } from '../graph/graph.threads';
 import { fuzzyFindText, mentionService } from '../mentions';
+import { reviewQueueService } from '../reviewQueue';
 import { type Segment, segmentService } from '../segments';
 
 interface CreateNodesParams {
@@ -750,8 +753,21 @@ export const graphStoryNodesRepository = {
     const newNodeIds = new Map<string, string>();
     const existingNodeMap = new Map(existingNodes.map((n) => [n.name, n.id]));
 
+    // User-authored nodes are never deleted or renamed by re-analysis
+    const userAuthoredIds =
+      await graphService.getUserAuthoredNodeIds(documentId);
+
+    // Fields and edges the user edited by hand are kept as-is
+    const userEditLocks = await changeLogService.getUserEditLocks(
+      existingNodes.map((n) => n.id),
+    );
+
     // 1. Soft delete nodes and their mentions
     for (const nodeId of updates.delete) {
+      if (userAuthoredIds.has(nodeId)) {
+        logger.info({ nodeId }, 'Kept user-authored node on update');
+        continue;
+      }
       await graphService.softDeleteStoryNode(nodeId);
       await mentionService.deleteByNodeId(nodeId);
       deleted++;
@@ -768,10 +784,27 @@ export const graphStoryNodesRepository = {
         aliases?: string[];
       } = {};
 
-      if (update.name !== undefined) updateFields.name = update.name;
-      if (update.description !== undefined)
-        updateFields.description = update.description;
-      if (update.aliases !== undefined) updateFields.aliases = update.aliases;
+      if (!userAuthoredIds.has(update.id)) {
+        const lockedFields = userEditLocks.lockedFields(update.id);
+        const proposals: Partial<Record<LockedEntityField, unknown>> = {};
+
+        if (update.name !== undefined) {
+          if (lockedFields.includes('name')) proposals.name = update.name;
+          else updateFields.name = update.name;
+        }
+        if (update.description !== undefined) {
+          if (lockedFields.includes('description'))
+            proposals.description = update.description;
+          else updateFields.description = update.description;
+        }
+        if (update.aliases !== undefined) {
+          if (lockedFields.includes('aliases'))
+            proposals.aliases = update.aliases;
+          else updateFields.aliases = update.aliases;
+        }
+
+        await flagLockedFieldProposals(documentId, update.id, proposals);
+      }
 
       let processedPassages: (TextPosition | { text: string })[] | undefined;
       if (update.mentions !== undefined) {
@@ -796,9 +829,8 @@ export const graphStoryNodesRepository = {
 
         // Run name matching for updated nodes
         const node = await graphService.getStoryNodeByIdInternal(update.id);
-        const nodeName = update.name !== undefined ? update.name : node?.name;
-        const aliases =
-          update.aliases !== undefined ? update.aliases : node?.aliases;
+        const nodeName = updateFields.name ?? node?.name;
+        const aliases = updateFields.aliases ?? node?.aliases;
         if (nodeName) {
           try {
             const matchCount = await mentionService.runNameMatchingForNode(
@@ -829,7 +861,10 @@ export const graphStoryNodesRepository = {
       }
 
       // Re-embed if name or description changed
-      if (update.name !== undefined || update.description !== undefined) {
+      if (
+        updateFields.name !== undefined ||
+        updateFields.description !== undefined
+      ) {
         try {
           const node = await graphService.getStoryNodeByIdInternal(update.id);
           if (node) {
@@ -934,7 +969,8 @@ export const graphStoryNodesRepository = {
       }
     }
 
-    // 4. Handle connection deletes
+    // 4. Handle connection deletes. Connections the user created or edited
+    // are user-authored and kept by softDeleteStoryConnection.
     for (const connDel of updates.connectionUpdates.delete) {
       await graphService.softDeleteStoryConnection(
         connDel.fromId,
@@ -953,11 +989,77 @@ export const graphStoryNodesRepository = {
         existingNodeMap.get(connAdd.toName || '') ||
         newNodeIds.get(connAdd.toName || '');
 
+      const edgeType = connAdd.edgeType || 'RELATED_TO';
+      if (
+        fromId &&
+        toId &&
+        userEditLocks.isEdgeDeleted(fromId, edgeType, toId)
+      ) {
+        const [fromNode, toNode] = await Promise.all([
+          graphService.getStoryNodeByIdInternal(fromId),
+          graphService.getStoryNodeByIdInternal(toId),
+        ]);
+        await reviewQueueService.flagUserEditConflict({
+          documentId,
+          entityId: fromId,
+          entityName: fromNode?.name ?? 'entity',
+          field: 'edge',
+          current: null,
+          proposed: {
+            edgeType,
+            description: connAdd.description,
+            strength: connAdd.strength,
+          },
+          relatedEntity: { id: toId, name: toNode?.name ?? 'entity' },
+        });
+        continue;
+      }
+
+      // A connection the user edited keeps their version
+      const existing =
+        fromId && toId
+          ? await graphService.findConnection(fromId, toId, edgeType)
+          : null;
+      if (
+        existing &&
+        fromId &&
+        toId &&
+        userEditLocks.isEdgeLocked(existing.id)
+      ) {
+        if (
+          connAdd.description &&
+          connAdd.description !== existing.description
+        ) {
+          const [fromNode, toNode] = await Promise.all([
+            graphService.getStoryNodeByIdInternal(fromId),
+            graphService.getStoryNodeByIdInternal(toId),
+          ]);
+          await reviewQueueService.flagUserEditConflict({
+            documentId,
+            entityId: fromId,
+            entityName: fromNode?.name ?? 'entity',
+            field: 'edge',
+            current: {
+              edgeType: existing.edgeType,
+              description: existing.description,
+              strength: existing.strength,
+            },
+            proposed: {
+              edgeType,
+              description: connAdd.description,
+              strength: connAdd.strength,
+            },
+            relatedEntity: { id: toId, name: toNode?.name ?? 'entity' },
+          });
+        }
+        continue;
+      }
+
       if (fromId && toId) {
         await graphService.createStoryConnection(
           fromId,
           toId,
-          connAdd.edgeType || 'RELATED_TO',
+          edgeType,
           connAdd.description,
           { strength: connAdd.strength },
         );
@@ -993,8 +1095,150 @@ export const graphStoryNodesRepository = {
   async getConnectionsForDocument(documentId: string) {
     return graphService.getStoryConnectionsForDocument(documentId);
   },
+
+  /**
+   * Copy a document's story graph to another document, e.g. a forked draft:
+   * nodes with their facets and embeddings, connections and narrative
+   * threads. User-authored nodes and connections stay marked as such, so
+   * the draft's analysis keeps them too. Mentions and character states
+   * point into the source's text, so the target's own analysis rebuilds
+   * them.
+   */
+  async copyToDocument(
+    source: { documentId: string; userId: string },
+    target: { documentId: string; userId: string },
+  ): Promise<Map<string, string>> {
+    const [nodes, userAuthoredIds] = await Promise.all([
+      this.getActiveNodes(source.documentId, source.userId),
+      graphService.getUserAuthoredNodeIds(source.documentId),
+    ]);
+    const idMap = new Map<string, string>();
+
+    for (const node of nodes) {
+      const nodeId = await graphService.createStoryNode(
+        target.documentId,
+        target.userId,
+        {
+          type: node.type,
+          name: node.name,
+          description: node.description ?? '',
+          aliases: node.aliases ?? undefined,
+          metadata: node.metadata ? JSON.parse(node.metadata) : undefined,
+          documentOrder: node.documentOrder ?? undefined,
+          mentions: [],
+        },
+        {
+          stylePreset: node.stylePreset,
+          stylePrompt: node.stylePrompt,
+          userAuthored: userAuthoredIds.has(node.id),
+        },
+      );
+      idMap.set(node.id, nodeId);
+
+      const [facets, embedding] = await Promise.all([
+        graphService.getFacetsForEntity(node.id),
+        graphService.getNodeEmbedding(node.id),
+      ]);
+      for (const facet of facets) {
+        await graphService.createFacet(
+          nodeId,
+          { type: facet.type, content: facet.content },
+          facet.embedding,
+          undefined,
+          facet.userAuthored,
+        );
+      }
+      if (embedding) {
+        await graphService.setNodeEmbedding(nodeId, embedding);
+      }
+    }
+
+    for (const connection of await this.getConnectionsForDocument(
+      source.documentId,
+    )) {
+      const fromId = idMap.get(connection.fromNodeId);
+      const toId = idMap.get(connection.toNodeId);
+      if (!fromId || !toId) continue;
+      await graphService.createStoryConnection(
+        fromId,
+        toId,
+        connection.edgeType,
+        connection.description,
+        {
+          strength: connection.strength ?? undefined,
+          userAuthored: connection.userAuthored,
+        },
+      );
+    }
+
+    const threads = await graphThreads.getThreadsForDocument(
+      source.documentId,
+      source.userId,
+    );
+    for (const thread of threads) {
+      const threadId = await graphService.createNarrativeThread(
+        target.documentId,
+        target.userId,
+        { name: thread.name, isPrimary: thread.isPrimary, eventNames: [] },
+      );
+      for (const membership of await graphThreads.getEventsForThread(
+        thread.id,
+      )) {
+        const eventId = idMap.get(membership.eventId);
+        if (eventId) {
+          await graphService.linkEventToThread(
+            eventId,
+            threadId,
+            membership.order,
+          );
+        }
+      }
+    }
+
+    logger.info(
+      {
+        sourceDocumentId: source.documentId,
+        targetDocumentId: target.documentId,
+        nodeCount: idMap.size,
+      },
+      'Story graph copied',
+    );
+    return idMap;
+  },
 };
 
+/**
+ * Queue review items for re-analysis values that would replace fields
+ * the user edited. Values matching the current ones are ignored.
+ */
+async function flagLockedFieldProposals(
+  documentId: string,
+  nodeId: string,
+  proposals: Partial<Record<LockedEntityField, unknown>>,
+): Promise<void> {
+  const fields = Object.keys(proposals) as LockedEntityField[];
+  if (fields.length === 0) return;
+
+  const node = await graphService.getStoryNodeByIdInternal(nodeId);
+  if (!node) return;
+
+  for (const field of fields) {
+    const current = node[field];
+    const proposed = proposals[field];
+    if (JSON.stringify(current ?? null) === JSON.stringify(proposed ?? null)) {
+      continue;
+    }
+    await reviewQueueService.flagUserEditConflict({
+      documentId,
+      entityId: nodeId,
+      entityName: node.name,
+      field,
+      current,
+      proposed,
+    });
+  }
+}
+
 function processPassage(
   content: string,
   passage: StoryNodeMention,
@@ -0,0 +1,13 @@
+/**
+ * Story state snapshots at a document position.
+ */
+
+export { storyStateService } from './storyState.service';
+export type {
+  SnapshotEntity,
+  SnapshotEvent,
+  SnapshotFacet,
+  SnapshotLocation,
+  SnapshotState,
+  StorySnapshot,
+} from './storyState.types';
@@ -0,0 +1,89 @@
+/**
+ * Position logic for story snapshots: which events have happened by an
+ * offset, and where an entity is at that point.
+ */
+
+import type {
+  StoredStoryConnection,
+  StoredStoryNode,
+} from '../graph/graph.types';
+import type { SnapshotEvent, SnapshotLocation } from './storyState.types';
+
+type SnapshotNode = Pick<
+  StoredStoryNode,
+  'id' | 'name' | 'type' | 'documentOrder'
+>;
+type SnapshotConnection = Pick<
+  StoredStoryConnection,
+  'fromNodeId' | 'toNodeId' | 'edgeType'
+>;
+
+/** Nodes without a position haven't been placed, so count as introduced */
+export function isIntroduced(node: SnapshotNode, position: number): boolean {
+  return node.documentOrder === null || node.documentOrder <= position;
+}
+
+/** Events first mentioned at or before the position, in document order */
+export function occurredEvents(
+  nodes: SnapshotNode[],
+  position: number,
+): SnapshotEvent[] {
+  return nodes
+    .filter(
+      (node): node is SnapshotNode & { documentOrder: number } =>
+        node.type === 'event' &&
+        node.documentOrder !== null &&
+        node.documentOrder <= position,
+    )
+    .sort((a, b) => a.documentOrder - b.documentOrder)
+    .map((node) => ({
+      id: node.id,
+      name: node.name,
+      documentOrder: node.documentOrder,
+    }));
+}
+
+/** Nodes joined to nodeId by an edge of the given type, either direction */
+function linked(
+  nodeId: string,
+  edgeType: string,
+  connections: SnapshotConnection[],
+): string[] {
+  return connections
+    .filter((c) => c.edgeType === edgeType)
+    .flatMap((c) => {
+      if (c.fromNodeId === nodeId) return [c.toNodeId];
+      if (c.toNodeId === nodeId) return [c.fromNodeId];
+      return [];
+    });
+}
+
+/**
+ * Where an entity is at a position: the location of the latest event it
+ * took part in by then, falling back to a direct LOCATED_AT edge.
+ */
+export function resolveLocation(
+  entityId: string,
+  events: SnapshotEvent[],
+  nodesById: Map<string, SnapshotNode>,
+  connections: SnapshotConnection[],
+): SnapshotLocation | null {
+  const locationOf = (nodeId: string) =>
+    linked(nodeId, 'LOCATED_AT', connections)
+      .map((id) => nodesById.get(id))
+      .find((node) => node?.type === 'location');
+
+  const participated = new Set(
+    linked(entityId, 'PARTICIPATES_IN', connections),
+  );
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (!participated.has(events[i].id)) continue;
+    const location = locationOf(events[i].id);
+    if (location) {
+      return { id: location.id, name: location.name, viaEventId: events[i].id };
+    }
+  }
+
+  const direct = locationOf(entityId);
+  return direct ? { id: direct.id, name: direct.name, viaEventId: null } : null;
+}
@@ -0,0 +1,163 @@
+/**
+ * "Story so far" snapshots: every entity's active state, facets and
+ * location at a document offset, plus the events that have happened by
+ * then. Used for continuity checks at the editor cursor.
+ */
+
+import { graphService } from '../graph/graph.service';
+import { redis } from '../redis';
+import { isIntroduced, occurredEvents, resolveLocation } from './snapshot';
+import type {
+  SnapshotEntity,
+  SnapshotFacet,
+  SnapshotState,
+  StorySnapshot,
+} from './storyState.types';
+
+const CACHE_TTL_SECONDS = 3600;
+const SERVICE_VERSION = 1;
+
+interface SnapshotDocument {
+  id: string;
+  currentVersion: number;
+  analysisCompletedAt: Date | null;
+}
+
+function getGraphRevisionKey(documentId: string): string {
+  return `story-state:graph-rev:${documentId}`;
+}
+
+/**
+ * Keyed by document version, analysis run and graph revision: edits bump
+ * the version, re-analysis rewrites the graph without one, and manual
+ * graph edits bump the revision.
+ */
+function getCacheKey(
+  document: SnapshotDocument,
+  graphRevision: string,
+  position: number,
+): string {
+  const analyzedAt = document.analysisCompletedAt?.getTime() ?? 0;
+  return `story-state:s${SERVICE_VERSION}:${document.id}:v${document.currentVersion}:a${analyzedAt}:g${graphRevision}:${position}`;
+}
+
+function toSnapshotFacets(
+  facets: Array<{ id: string; type: SnapshotFacet['type']; content: string }>,
+  source: SnapshotFacet['source'],
+): SnapshotFacet[] {
+  return facets.map((f) => ({
+    id: f.id,
+    type: f.type,
+    content: f.content,
+    source,
+  }));
+}
+
+/** Active state and facets of one entity at the position */
+async function loadEntityState(
+  entityId: string,
+  type: string,
+  userId: string,
+  position: number,
+): Promise<{ activeState: SnapshotState | null; facets: SnapshotFacet[] }> {
+  // Only characters have states; other entities only have permanent facets
+  if (type !== 'character') {
+    const facets = await graphService.getActiveFacetsAtPosition(
+      entityId,
+      position,
+    );
+    return {
+      activeState: null,
+      facets: toSnapshotFacets(facets, 'permanent'),
+    };
+  }
+
+  const info = await graphService.getEntityStateAtPosition(
+    entityId,
+    userId,
+    position,
+  );
+  if (!info) return { activeState: null, facets: [] };
+
+  let activeState: SnapshotState | null = null;
+  if (info.activeState) {
+    const window = await graphService.getStateValidityWindow(
+      info.activeState.id,
+    );
+    activeState = {
+      id: info.activeState.id,
+      name: info.activeState.name,
+      phaseIndex: info.activeState.phaseIndex,
+      validFrom: window.start,
+      validUntil: window.end,
+    };
+  }
+
+  return {
+    activeState,
+    facets: [
+      ...toSnapshotFacets(info.permanentFacets, 'permanent'),
+      ...toSnapshotFacets(info.stateFacets, 'state'),
+    ],
+  };
+}
+
+export const storyStateService = {
+  /**
+   * Snapshot of the story at a position. Access is checked by the caller.
+   */
+  async getSnapshot(
+    document: SnapshotDocument,
+    userId: string,
+    position: number,
+  ): Promise<StorySnapshot> {
+    const graphRevision =
+      (await redis.get(getGraphRevisionKey(document.id))) ?? '0';
+    const cacheKey = getCacheKey(document, graphRevision, position);
+    const cached = await redis.get(cacheKey);
+    if (cached) return JSON.parse(cached) as StorySnapshot;
+
+    const [nodes, connections] = await Promise.all([
+      graphService.getStoryNodesForDocument(document.id, userId),
+      graphService.getStoryConnectionsForDocument(document.id),
+    ]);
+    const nodesById = new Map(nodes.map((node) => [node.id, node]));
+    const events = occurredEvents(nodes, position);
+
+    const entities: SnapshotEntity[] = await Promise.all(
+      nodes
+        .filter((node) => node.type !== 'event')
+        .map(async (node) => ({
+          id: node.id,
+          name: node.name,
+          type: node.type,
+          introduced: isIntroduced(node, position),
+          ...(await loadEntityState(node.id, node.type, userId, position)),
+          location:
+            node.type === 'location'
+              ? null
+              : resolveLocation(node.id, events, nodesById, connections),
+        })),
+    );
+
+    const snapshot: StorySnapshot = {
+      documentId: document.id,
+      version: document.currentVersion,
+      position,
+      entities,
+      events,
+    };
+
+    await redis.set(cacheKey, JSON.stringify(snapshot), CACHE_TTL_SECONDS);
+
+    return snapshot;
+  },
+
+  /**
+   * Drop cached snapshots after the graph is edited outside analysis
+   * (node, facet and edge edits, merges and splits).
+   */
+  async invalidate(documentId: string): Promise<void> {
+    await redis.set(getGraphRevisionKey(documentId), String(Date.now()));
+  },
+};
@@ -0,0 +1,55 @@
+/**
+ * Types for position-aware "story so far" snapshots.
+ */
+
+import type { FacetType, StoryNodeType } from '../../types/storyNodes';
+
+export interface SnapshotFacet {
+  id: string;
+  type: FacetType;
+  content: string;
+  /** Permanent facets hold throughout; state facets only in the state */
+  source: 'permanent' | 'state';
+}
+
+export interface SnapshotState {
+  id: string;
+  name: string;
+  phaseIndex: number;
+  validFrom: number;
+  /** Null while no later state has replaced it */
+  validUntil: number | null;
+}
+
+export interface SnapshotLocation {
+  id: string;
+  name: string;
+  /** Event the location comes from, or null for a direct LOCATED_AT */
+  viaEventId: string | null;
+}
+
+export interface SnapshotEntity {
+  id: string;
+  name: string;
+  type: StoryNodeType;
+  /** Whether the entity has been mentioned by the position */
+  introduced: boolean;
+  activeState: SnapshotState | null;
+  facets: SnapshotFacet[];
+  location: SnapshotLocation | null;
+}
+
+export interface SnapshotEvent {
+  id: string;
+  name: string;
+  documentOrder: number;
+}
+
+export interface StorySnapshot {
+  documentId: string;
+  version: number;
+  position: number;
+  entities: SnapshotEntity[];
+  /** Events that have occurred by the position, in document order */
+  events: SnapshotEvent[];
+}
@@ -1,6 +1,11 @@
 export { CONFIG } from './config';
 export { generateDocumentSummary } from './documentSummary';
 export { generateSegmentSummaryWithRetry } from './segmentSummary';
+export {
+  type StorySummary,
+  type StorySummaryType,
+  storySummaryService,
+} from './storySummaries';
 export type { SummarySelectionConfig } from './summarySelection';
 export { selectSummariesForContext } from './summarySelection';
 export {
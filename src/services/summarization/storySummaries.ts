@@ -0,0 +1,349 @@
+/**
+ * Story Summaries
+ *
+ * Chapter, thread and arc summaries kept up to date with the same
+ * progressive unified-diff updates as the document summary. Each stored
+ * summary remembers the source text it reflects, so the next refresh only
+ * sends the LLM what changed since then.
+ */
+
+import { and, asc, eq, inArray, notInArray } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { storySummaries } from '../../models/schema';
+import { NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { authorizationService } from '../authorization';
+import { hasDocumentRole } from '../collaborators/roles';
+import { documentEditorContent } from '../documentImport/yjsState';
+import { graphService } from '../graph/graph.service';
+import { graphThreads } from '../graph/graph.threads';
+import { type SummaryType, summaryService } from './summaryService';
+import {
+  buildArcSource,
+  buildChapterSources,
+  buildThreadSource,
+  type SummarySource,
+} from './summarySources';
+
+export type StorySummaryType = Extract<
+  SummaryType,
+  'chapter' | 'thread' | 'arc'
+>;
+
+export type StorySummary = typeof storySummaries.$inferSelect;
+
+interface SummarizableDocument {
+  id: string;
+  title: string;
+  content: string;
+  contentJson: unknown;
+  yjsState: string | null;
+}
+
+interface RefreshOptions {
+  /** Only bring existing summaries up to date; never create new ones */
+  onlyExisting?: boolean;
+}
+
+/** Refreshing calls the LLM, so it takes at least editor access */
+async function canEditDocument(
+  userId: string,
+  documentId: string,
+): Promise<boolean> {
+  const role = await authorizationService.getDocumentRole(userId, documentId);
+  return hasDocumentRole(role, 'editor');
+}
+
+async function findSummary(
+  documentId: string,
+  summaryType: StorySummaryType,
+  targetId: string,
+): Promise<StorySummary | null> {
+  const [row] = await db
+    .select()
+    .from(storySummaries)
+    .where(
+      and(
+        eq(storySummaries.documentId, documentId),
+        eq(storySummaries.summaryType, summaryType),
+        eq(storySummaries.targetId, targetId),
+      ),
+    )
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Generate or progressively update one summary. Changes too small to
+ * matter leave the stored source untouched, so they accumulate into the
+ * diff of a later refresh instead of being dropped.
+ */
+async function refreshSummary(
+  documentId: string,
+  summaryType: StorySummaryType,
+  source: SummarySource,
+  context: string | undefined,
+  options: RefreshOptions,
+): Promise<StorySummary | null> {
+  const existing = await findSummary(documentId, summaryType, source.targetId);
+  if (!existing && options.onlyExisting) return null;
+
+  const summaryId = `${documentId}:${summaryType}:${source.targetId}`;
+
+  if (existing && existing.sourceText === source.sourceText) {
+    return existing;
+  }
+
+  let result: Awaited<ReturnType<typeof summaryService.generate>>;
+
+  if (!existing) {
+    result = await summaryService.generate({
+      summaryId,
+      summaryType,
+      sourceText: source.sourceText,
+      context,
+    });
+  } else {
+    const sourceDiff = summaryService.computeDiff(
+      existing.sourceText,
+      source.sourceText,
+    );
+    if (!summaryService.needsUpdate(sourceDiff)) {
+      logger.debug(
+        { documentId, summaryType, targetId: source.targetId },
+        'Source changes not significant, skipping summary update',
+      );
+      return existing;
+    }
+
+    if (existing.editChainLength >= summaryService.MAX_EDIT_CHAIN_LENGTH) {
+      result = await summaryService.generate({
+        summaryId,
+        summaryType,
+        sourceText: source.sourceText,
+        currentSummary: existing.summary,
+        editChainLength: existing.editChainLength,
+        context,
+      });
+    } else {
+      result = await summaryService.update({
+        summaryId,
+        summaryType,
+        currentSummary: existing.summary,
+        sourceDiff,
+        editChainLength: existing.editChainLength,
+        context,
+      });
+    }
+  }
+
+  if (existing && result.method === 'no_change') return existing;
+
+  const values = {
+    title: source.title,
+    sourceText: source.sourceText,
+    summary: result.summary,
+    editChainLength: result.editChainLength,
+    updatedAt: new Date(),
+  };
+
+  const [row] = await db
+    .insert(storySummaries)
+    .values({
+      documentId,
+      summaryType,
+      targetId: source.targetId,
+      ...values,
+    })
+    .onConflictDoUpdate({
+      target: [
+        storySummaries.documentId,
+        storySummaries.summaryType,
+        storySummaries.targetId,
+      ],
+      set: values,
+    })
+    .returning();
+
+  logger.info(
+    {
+      documentId,
+      summaryType,
+      targetId: source.targetId,
+      method: result.method,
+      editChainLength: result.editChainLength,
+    },
+    'Story summary updated',
+  );
+
+  return row;
+}
+
+export const storySummaryService = {
+  /**
+   * Stored summaries for a document, optionally of one type.
+   */
+  async list(
+    documentId: string,
+    summaryType?: StorySummaryType,
+  ): Promise<StorySummary[]> {
+    return db
+      .select()
+      .from(storySummaries)
+      .where(
+        summaryType
+          ? and(
+              eq(storySummaries.documentId, documentId),
+              eq(storySummaries.summaryType, summaryType),
+            )
+          : eq(storySummaries.documentId, documentId),
+      )
+      .orderBy(asc(storySummaries.summaryType), asc(storySummaries.createdAt));
+  },
+
+  get: findSummary,
+
+  /**
+   * Refresh every chapter summary of a document and drop summaries of
+   * chapters that no longer exist. Ownership is checked by the caller.
+   */
+  async refreshChapters(
+    document: SummarizableDocument,
+    options: RefreshOptions = {},
+  ): Promise<StorySummary[]> {
+    if (options.onlyExisting) {
+      const existing = await this.list(document.id, 'chapter');
+      if (existing.length === 0) return [];
+    }
+
+    const sources = buildChapterSources(
+      documentEditorContent(document),
+      document.content,
+    );
+
+    const staleFilter = and(
+      eq(storySummaries.documentId, document.id),
+      eq(storySummaries.summaryType, 'chapter'),
+    );
+    await db.delete(storySummaries).where(
+      sources.length > 0
+        ? and(
+            staleFilter,
+            notInArray(
+              storySummaries.targetId,
+              sources.map((source) => source.targetId),
+            ),
+          )
+        : staleFilter,
+    );
+
+    const summaries: StorySummary[] = [];
+    for (const source of sources) {
+      const summary = await refreshSummary(
+        document.id,
+        'chapter',
+        source,
+        `Chapter of "${document.title}"${source.title ? `: ${source.title}` : ''}`,
+        options,
+      );
+      if (summary) summaries.push(summary);
+    }
+    return summaries;
+  },
+
+  /**
+   * Refresh the summary of a narrative thread from its ordered events.
+   */
+  async refreshThread(
+    threadId: string,
+    userId: string,
+    options: RefreshOptions = {},
+  ): Promise<StorySummary | null> {
+    const thread = await graphThreads.getThreadById(threadId);
+    if (!thread || !(await canEditDocument(userId, thread.documentId))) {
+      throw new NotFoundError('Thread not found');
+    }
+
+    // Nodes are stored under the document owner's id
+    const [memberships, nodes] = await Promise.all([
+      graphThreads.getEventsForThread(threadId),
+      graphService.getStoryNodesForDocument(thread.documentId, thread.userId),
+    ]);
+    const nodesById = new Map(nodes.map((node) => [node.id, node]));
+    const events = memberships
+      .map((membership) => nodesById.get(membership.eventId))
+      .filter((node) => node !== undefined);
+
+    if (events.length === 0) return null;
+
+    return refreshSummary(
+      thread.documentId,
+      'thread',
+      {
+        targetId: threadId,
+        title: thread.name,
+        sourceText: buildThreadSource(events),
+      },
+      `Narrative thread: ${thread.name}`,
+      options,
+    );
+  },
+
+  /**
+   * Refresh the summary of a character arc from its ordered states. The
+   * result is mirrored onto the Arc node, where the graph views read it.
+   */
+  async refreshArc(
+    arcId: string,
+    userId: string,
+    options: RefreshOptions = {},
+  ): Promise<StorySummary | null> {
+    const arc = await graphService.getArcById(arcId);
+    if (!arc || !(await canEditDocument(userId, arc.documentId))) {
+      throw new NotFoundError('Arc not found');
+    }
+
+    const [arcStates, character] = await Promise.all([
+      graphService.getArcStates(arcId),
+      graphService.getStoryNodeByIdInternal(arc.characterId),
+    ]);
+    if (arcStates.length === 0) return null;
+
+    const states = await Promise.all(
+      arcStates.map(async (state) => ({
+        name: state.name,
+        facets: (await graphService.getFacetsForState(state.id)).map(
+          (facet) => facet.content,
+        ),
+      })),
+    );
+
+    const summary = await refreshSummary(
+      arc.documentId,
+      'arc',
+      { targetId: arcId, title: arc.name, sourceText: buildArcSource(states) },
+      `${arc.arcType} arc of ${character?.name ?? 'a character'}`,
+      options,
+    );
+
+    if (summary && summary.summary !== arc.summary) {
+      await graphService.updateArcSummary(arcId, summary.summary);
+    }
+    return summary;
+  },
+
+  /**
+   * Remove stored summaries of threads or arcs, e.g. after deletion.
+   */
+  async removeTargets(documentId: string, targetIds: string[]): Promise<void> {
+    if (targetIds.length === 0) return;
+    await db
+      .delete(storySummaries)
+      .where(
+        and(
+          eq(storySummaries.documentId, documentId),
+          inArray(storySummaries.targetId, targetIds),
+        ),
+      );
+  },
+};
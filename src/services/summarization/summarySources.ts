@@ -0,0 +1,77 @@
+/**
+ * Source text for chapter, thread and arc summaries. Sources are
+ * line-oriented so the unified diffs sent on updates stay small.
+ */
+
+import { nodeText, splitIntoChapters } from '../export/chapters';
+import type { ProseMirrorNode } from '../export/types';
+
+export interface SummarySource {
+  targetId: string;
+  title: string | null;
+  sourceText: string;
+}
+
+/**
+ * One source per chapter, split at H1 headings like the exports. Text
+ * before the first H1 is chapter-0; the Nth H1 starts chapter-N. Without
+ * editor JSON the whole text is a single chapter.
+ */
+export function buildChapterSources(
+  contentJson: ProseMirrorNode | null,
+  fallbackText: string,
+): SummarySource[] {
+  if (!contentJson?.content) {
+    const text = fallbackText.trim();
+    return text
+      ? [{ targetId: 'chapter-0', title: null, sourceText: text }]
+      : [];
+  }
+
+  const sources: SummarySource[] = [];
+  let headingCount = 0;
+
+  for (const chapter of splitIntoChapters(contentJson)) {
+    if (chapter.title !== null) headingCount++;
+    const body =
+      chapter.title !== null ? chapter.blocks.slice(1) : chapter.blocks;
+    const sourceText = body
+      .map((block) => nodeText(block).trim())
+      .filter(Boolean)
+      .join('\n');
+    if (!sourceText) continue;
+    sources.push({
+      targetId: `chapter-${headingCount}`,
+      title: chapter.title,
+      sourceText,
+    });
+  }
+
+  return sources;
+}
+
+/** Thread events in thread order, one line each */
+export function buildThreadSource(
+  events: Array<{ name: string; description: string | null }>,
+): string {
+  return events
+    .map((event, i) =>
+      event.description
+        ? `${i + 1}. ${event.name}: ${event.description}`
+        : `${i + 1}. ${event.name}`,
+    )
+    .join('\n');
+}
+
+/** Arc states in arc order, one line each with their facets */
+export function buildArcSource(
+  states: Array<{ name: string; facets: string[] }>,
+): string {
+  return states
+    .map((state, i) =>
+      state.facets.length > 0
+        ? `Phase ${i + 1}: ${state.name} (${state.facets.join('; ')})`
+        : `Phase ${i + 1}: ${state.name}`,
+    )
+    .join('\n');
+}
@@ -0,0 +1,188 @@
+/**
+ * Assembles a timeline from graph analysis results. Kept free of graph
+ * access so the ordering logic can be tested on its own.
+ */
+
+import type {
+  Displacement,
+  Timeline,
+  TimelineEvent,
+  TimelineGap,
+  TimelineLane,
+} from './timeline.types';
+
+export interface TimelineEventInput {
+  id: string;
+  name: string;
+  description: string | null;
+  documentOrder: number | null;
+}
+
+export interface TimelineThreadInput {
+  id: string;
+  name: string;
+  color: string | null;
+  isPrimary: boolean;
+  memberEventIds: string[];
+}
+
+export interface TimelineInput {
+  documentId: string;
+  events: TimelineEventInput[];
+  /** Node ids in causal order, as from computeCausalOrder */
+  causalOrder: string[];
+  threads: TimelineThreadInput[];
+  gapEventIds: string[];
+  pivotalNodeIds: string[];
+}
+
+/**
+ * Indices of the longest run of items whose values increase, in order.
+ * Events on this run are the main line the displaced ones jump away from.
+ */
+export function longestIncreasingRun(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous = new Array<number>(values.length).fill(-1);
+
+  for (let i = 0; i < values.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < values[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+
+  const run = new Set<number>();
+  let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (index !== -1) {
+    run.add(index);
+    index = previous[index];
+  }
+  return run;
+}
+
+/**
+ * Flashbacks and flash-forwards from reading order against causal order.
+ * An event off the main line is a flashback if it happens before the
+ * main-line event read just ahead of it, otherwise a flash-forward.
+ */
+export function detectDisplacements(
+  readingOrder: string[],
+  causalIndex: Map<string, number>,
+): Map<string, Displacement> {
+  const placed = readingOrder.filter((id) => causalIndex.has(id));
+  const values = placed.map((id) => causalIndex.get(id) ?? 0);
+  // Scanned from the end so that on ties the event told first stays on the
+  // main line and the one told later is the displaced one
+  const reversedRun = longestIncreasingRun(values.map((v) => -v).reverse());
+  const mainLine = new Set([...reversedRun].map((i) => placed.length - 1 - i));
+
+  const displacements = new Map<string, Displacement>();
+  let lastMain: number | null = null;
+  for (let i = 0; i < placed.length; i++) {
+    if (mainLine.has(i)) {
+      lastMain = values[i];
+      continue;
+    }
+    displacements.set(
+      placed[i],
+      lastMain !== null && values[i] < lastMain ? 'flashback' : 'flash-forward',
+    );
+  }
+  return displacements;
+}
+
+export function buildTimeline(input: TimelineInput): Timeline {
+  const eventIds = new Set(input.events.map((e) => e.id));
+
+  const causalOrder = input.causalOrder.filter((id) => eventIds.has(id));
+  const causalIndex = new Map(causalOrder.map((id, i) => [id, i]));
+
+  const readingOrder = input.events
+    .filter(
+      (e): e is TimelineEventInput & { documentOrder: number } =>
+        e.documentOrder !== null,
+    )
+    .sort((a, b) => a.documentOrder - b.documentOrder)
+    .map((e) => e.id);
+  const readingIndex = new Map(readingOrder.map((id, i) => [id, i]));
+
+  const displacements = detectDisplacements(readingOrder, causalIndex);
+  const pivotal = new Set(input.pivotalNodeIds);
+
+  const threadIdsByEvent = new Map<string, string[]>();
+  for (const thread of input.threads) {
+    for (const eventId of thread.memberEventIds) {
+      const ids = threadIdsByEvent.get(eventId) ?? [];
+      ids.push(thread.id);
+      threadIdsByEvent.set(eventId, ids);
+    }
+  }
+
+  const events: TimelineEvent[] = input.events.map((e) => ({
+    id: e.id,
+    name: e.name,
+    description: e.description,
+    documentOrder: e.documentOrder,
+    readingIndex: readingIndex.get(e.id) ?? null,
+    causalIndex: causalIndex.get(e.id) ?? null,
+    threadIds: threadIdsByEvent.get(e.id) ?? [],
+    pivotal: pivotal.has(e.id),
+    displacement: displacements.get(e.id) ?? null,
+  }));
+
+  // Lanes list events causally; cycle members fall back to reading order
+  const byTimeline = (a: string, b: string) =>
+    (causalIndex.get(a) ?? Infinity) - (causalIndex.get(b) ?? Infinity) ||
+    (readingIndex.get(a) ?? Infinity) - (readingIndex.get(b) ?? Infinity);
+
+  const lanes: TimelineLane[] = input.threads.map((thread) => ({
+    threadId: thread.id,
+    name: thread.name,
+    color: thread.color,
+    isPrimary: thread.isPrimary,
+    eventIds: thread.memberEventIds
+      .filter((id) => eventIds.has(id))
+      .sort(byTimeline),
+  }));
+
+  const unthreaded = events
+    .filter((e) => e.threadIds.length === 0)
+    .map((e) => e.id)
+    .sort(byTimeline);
+  if (unthreaded.length > 0) {
+    lanes.push({
+      threadId: null,
+      name: 'Unthreaded',
+      color: null,
+      isPrimary: false,
+      eventIds: unthreaded,
+    });
+  }
+
+  // The causally first event opens the story rather than leaving a gap
+  const gaps: TimelineGap[] = input.gapEventIds
+    .filter((id) => eventIds.has(id) && causalIndex.get(id) !== 0)
+    .sort(byTimeline)
+    .map((eventId) => {
+      const index = causalIndex.get(eventId);
+      return {
+        eventId,
+        afterEventId:
+          index !== undefined && index > 0 ? causalOrder[index - 1] : null,
+      };
+    });
+
+  return {
+    documentId: input.documentId,
+    causalOrder,
+    readingOrder,
+    events,
+    lanes,
+    gaps,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Timeline view of story events.
+ */
+
+export { timelineService } from './timeline.service';
+export type {
+  Displacement,
+  ProjectTimeline,
+  Timeline,
+  TimelineEvent,
+  TimelineGap,
+  TimelineLane,
+} from './timeline.types';
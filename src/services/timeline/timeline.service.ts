@@ -0,0 +1,78 @@
+/**
+ * Timeline view of a document's events: causal and reading order side by
+ * side, one lane per narrative thread, with gaps and displaced events
+ * marked so nonlinear structure can be planned.
+ */
+
+import {
+  computeCausalOrder,
+  findCausalGaps,
+  findPivotalNodes,
+} from '../graph/graph.analysis';
+import { graphService } from '../graph/graph.service';
+import { graphThreads } from '../graph/graph.threads';
+import { buildTimeline } from './build';
+import type { ProjectTimeline, Timeline } from './timeline.types';
+
+export const timelineService = {
+  /**
+   * Timeline for a document. Ownership is checked by the caller.
+   */
+  async getTimeline(documentId: string, userId: string): Promise<Timeline> {
+    const [nodes, causalOrder, gapEventIds, pivotalNodeIds, threads] =
+      await Promise.all([
+        graphService.getStoryNodesForDocument(documentId, userId),
+        computeCausalOrder(documentId, userId),
+        findCausalGaps(documentId, userId),
+        findPivotalNodes(documentId, userId),
+        graphThreads.getThreadsForDocument(documentId, userId),
+      ]);
+
+    const threadsWithMembers = await Promise.all(
+      threads.map(async (thread) => {
+        const memberships = await graphThreads.getEventsForThread(thread.id);
+        return {
+          id: thread.id,
+          name: thread.name,
+          color: thread.color,
+          isPrimary: thread.isPrimary,
+          memberEventIds: memberships.map((m) => m.eventId),
+        };
+      }),
+    );
+
+    return buildTimeline({
+      documentId,
+      events: nodes
+        .filter((node) => node.type === 'event')
+        .map((node) => ({
+          id: node.id,
+          name: node.name,
+          description: node.description,
+          documentOrder: node.documentOrder,
+        })),
+      causalOrder: causalOrder.map((r) => r.nodeId),
+      threads: threadsWithMembers,
+      gapEventIds,
+      pivotalNodeIds,
+    });
+  },
+
+  /**
+   * Timelines for a project's documents, one per book in project order.
+   * Access to each document is checked by the caller.
+   */
+  async getProjectTimeline(
+    projectId: string,
+    projectDocuments: Array<{ id: string; title: string; userId: string }>,
+  ): Promise<ProjectTimeline> {
+    const documents = await Promise.all(
+      projectDocuments.map(async (document) => ({
+        documentId: document.id,
+        title: document.title,
+        timeline: await this.getTimeline(document.id, document.userId),
+      })),
+    );
+    return { projectId, documents };
+  },
+};
@@ -0,0 +1,56 @@
+/**
+ * Types for the timeline view: events in causal and reading order.
+ */
+
+/**
+ * Where an event is told relative to when it happens. A flashback is read
+ * after events that happen later; a flash-forward is read before events
+ * that happen earlier.
+ */
+export type Displacement = 'flashback' | 'flash-forward';
+
+export interface TimelineEvent {
+  id: string;
+  name: string;
+  description: string | null;
+  documentOrder: number | null;
+  /** Index in reading order; null if the event has no position */
+  readingIndex: number | null;
+  /** Index in causal order; null if the event sits in a causal cycle */
+  causalIndex: number | null;
+  threadIds: string[];
+  pivotal: boolean;
+  displacement: Displacement | null;
+}
+
+export interface TimelineLane {
+  /** Null for the lane of events outside any thread */
+  threadId: string | null;
+  name: string;
+  color: string | null;
+  isPrimary: boolean;
+  /** Member events in causal order */
+  eventIds: string[];
+}
+
+/** An event with no causal antecedent, marked where it falls causally */
+export interface TimelineGap {
+  eventId: string;
+  /** Event just before the gap in causal order */
+  afterEventId: string | null;
+}
+
+export interface Timeline {
+  documentId: string;
+  causalOrder: string[];
+  readingOrder: string[];
+  events: TimelineEvent[];
+  lanes: TimelineLane[];
+  gaps: TimelineGap[];
+}
+
+/** Timelines of a project's documents, in project order */
+export interface ProjectTimeline {
+  projectId: string;
+  documents: Array<{ documentId: string; title: string; timeline: Timeline }>;
+}
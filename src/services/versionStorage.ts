@@ -0,0 +1,197 @@
+/**
+ * Delta encoding and retention rules for document version history.
+ * Versions are stored as a Yjs update plus a unified text diff against
+ * the previous stored version, with a full keyframe every
+ * VERSION_KEYFRAME_INTERVAL versions to bound reconstruction cost.
+ */
+
+import { applyUnifiedDiff, computeDiff } from '../utils/diffUtils';
+
+// yjs types resolve as ESM-only from this CommonJS build
+const Y = require('yjs');
+
+export const VERSION_KEYFRAME_INTERVAL = 20;
+
+export interface VersionState {
+  yjsState: string;
+  content: string;
+}
+
+export interface VersionRetentionPolicy {
+  /** Keep every version younger than this many days */
+  keepAllDays: number;
+  /** Then keep the last version of each hour up to this age; daily after */
+  keepHourlyDays: number;
+}
+
+export const DEFAULT_VERSION_RETENTION: VersionRetentionPolicy = {
+  keepAllDays: 7,
+  keepHourlyDays: 30,
+};
+
+const MAX_RETENTION_DAYS = 3650;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Re-encode a Yjs state through a document so that equal documents have
+ * equal encodings, whichever client or merge produced them.
+ */
+export function canonicalYjsState(yjsState: string): string {
+  if (!yjsState) return '';
+  const doc = new Y.Doc();
+  try {
+    Y.applyUpdate(doc, Buffer.from(yjsState, 'base64'));
+    return Buffer.from(Y.encodeStateAsUpdate(doc)).toString('base64');
+  } catch {
+    // Not a decodable update; store it as given
+    return yjsState;
+  } finally {
+    doc.destroy();
+  }
+}
+
+export function applyVersionDelta(
+  base: VersionState,
+  delta: VersionState,
+): VersionState {
+  return {
+    yjsState: mergeYjsStates(base.yjsState, delta.yjsState),
+    content: applyUnifiedDiff(base.content, delta.content),
+  };
+}
+
+function mergeYjsStates(base: string, update: string): string {
+  // Text-only documents have no Yjs state at all
+  if (!base && !update) return '';
+
+  const doc = new Y.Doc();
+  for (const state of [base, update]) {
+    if (state) Y.applyUpdate(doc, Buffer.from(state, 'base64'));
+  }
+  const merged = Y.encodeStateAsUpdate(doc);
+  doc.destroy();
+  return Buffer.from(merged).toString('base64');
+}
+
+/**
+ * Encode next as a delta against base. Returns null when the delta can't
+ * reproduce next exactly (e.g. a restore that drops Yjs history, or text
+ * the diff format can't round-trip), in which case a keyframe is stored.
+ */
+export function encodeVersionDelta(
+  base: VersionState,
+  next: VersionState,
+): VersionState | null {
+  try {
+    return encodeDelta(base, next);
+  } catch {
+    return null;
+  }
+}
+
+function encodeDelta(
+  base: VersionState,
+  next: VersionState,
+): VersionState | null {
+  let yjsDelta = '';
+  if (next.yjsState) {
+    if (!base.yjsState) return null;
+    const baseVector = Y.encodeStateVectorFromUpdate(
+      Buffer.from(base.yjsState, 'base64'),
+    );
+    const update = Y.diffUpdate(
+      Buffer.from(next.yjsState, 'base64'),
+      baseVector,
+    );
+    yjsDelta = Buffer.from(update).toString('base64');
+  }
+
+  const delta: VersionState = {
+    yjsState: yjsDelta,
+    content: computeDiff(base.content, next.content, 0),
+  };
+
+  const restored = applyVersionDelta(base, delta);
+  if (
+    restored.content !== next.content ||
+    restored.yjsState !== canonicalYjsState(next.yjsState)
+  ) {
+    return null;
+  }
+
+  return delta;
+}
+
+/** Parse a stored or submitted policy; null if it isn't valid */
+export function parseRetentionPolicy(
+  value: unknown,
+): VersionRetentionPolicy | null {
+  if (!value || typeof value !== 'object') return null;
+  const { keepAllDays, keepHourlyDays } = value as Record<string, unknown>;
+
+  if (
+    !Number.isInteger(keepAllDays) ||
+    !Number.isInteger(keepHourlyDays) ||
+    (keepAllDays as number) < 0 ||
+    (keepHourlyDays as number) < (keepAllDays as number) ||
+    (keepHourlyDays as number) > MAX_RETENTION_DAYS
+  ) {
+    return null;
+  }
+
+  return {
+    keepAllDays: keepAllDays as number,
+    keepHourlyDays: keepHourlyDays as number,
+  };
+}
+
+/**
+ * Version numbers to keep under a retention policy. Older versions are
+ * thinned to the last one in each hour, then each day; the latest
+ * version, pinned checkpoints and `alwaysKeep` (e.g. versions a draft was
+ * forked from) are always kept.
+ */
+export function selectRetainedVersions(
+  versions: { versionNumber: number; createdAt: Date; pinned?: boolean }[],
+  policy: VersionRetentionPolicy,
+  now: Date,
+  alwaysKeep: ReadonlySet<number> = new Set(),
+): Set<number> {
+  const retained = new Set<number>();
+  const lastInBucket = new Map<string, number>();
+  let latest: number | null = null;
+
+  for (const version of versions) {
+    if (latest === null || version.versionNumber > latest) {
+      latest = version.versionNumber;
+    }
+
+    const age = now.getTime() - version.createdAt.getTime();
+    if (
+      version.pinned ||
+      alwaysKeep.has(version.versionNumber) ||
+      age < policy.keepAllDays * DAY_MS
+    ) {
+      retained.add(version.versionNumber);
+      continue;
+    }
+
+    const bucket =
+      age < policy.keepHourlyDays * DAY_MS
+        ? `h${Math.floor(version.createdAt.getTime() / HOUR_MS)}`
+        : `d${Math.floor(version.createdAt.getTime() / DAY_MS)}`;
+    const current = lastInBucket.get(bucket);
+    if (current === undefined || version.versionNumber > current) {
+      lastInBucket.set(bucket, version.versionNumber);
+    }
+  }
+
+  for (const versionNumber of lastInBucket.values()) {
+    retained.add(versionNumber);
+  }
+  if (latest !== null) retained.add(latest);
+
+  return retained;
+}
@@ -1,7 +1,32 @@
-import { and, desc, eq, sql } from 'drizzle-orm';
+import type { ExtractTablesWithRelations } from 'drizzle-orm';
+import { and, asc, desc, eq, gte, isNull, lte, sql } from 'drizzle-orm';
+import type { PgTransaction } from 'drizzle-orm/pg-core';
+import type { PostgresJsQueryResultHKT } from 'drizzle-orm/postgres-js';
 import { db } from '../config/database';
-import { documents, documentVersions } from '../models/schema';
+import type * as schema from '../models/schema';
+import { documents, documentVersions, users } from '../models/schema';
 import { logger } from '../utils/logger';
+import {
+  applyVersionDelta,
+  canonicalYjsState,
+  DEFAULT_VERSION_RETENTION,
+  encodeVersionDelta,
+  parseRetentionPolicy,
+  selectRetainedVersions,
+  VERSION_KEYFRAME_INTERVAL,
+  type VersionRetentionPolicy,
+  type VersionState,
+} from './versionStorage';
+
+type DbTransaction = PgTransaction<
+  PostgresJsQueryResultHKT,
+  typeof schema,
+  ExtractTablesWithRelations<typeof schema>
+>;
+
+type DbExecutor = typeof db | DbTransaction;
+
+type StoredVersion = typeof documentVersions.$inferSelect;
 
 export class VersioningService {
   async createVersion(
@@ -16,48 +41,51 @@ export class VersioningService {
       );
       const currentVersion = (result[0]?.current_version as number) ?? 0;
 
+      // Equal documents compare equal however the client encoded them
+      const state: VersionState = {
+        yjsState: canonicalYjsState(yjsState),
+        content,
+      };
+
       // Skip if content unchanged from previous version
-      if (currentVersion > 0) {
-        const [latestVersion] = await tx
-          .select({
-            yjsState: documentVersions.yjsState,
-            content: documentVersions.content,
-          })
-          .from(documentVersions)
-          .where(
-            and(
-              eq(documentVersions.documentId, documentId),
-              eq(documentVersions.versionNumber, currentVersion),
-            ),
-          )
-          .limit(1);
+      const chain =
+        currentVersion > 0
+          ? await this.loadChain(tx, documentId, currentVersion)
+          : null;
+      const latest = chain ? this.reconstruct(chain) : null;
 
-        if (
-          latestVersion?.content === content &&
-          latestVersion?.yjsState === yjsState
-        ) {
-          logger.debug(
-            { documentId, versionNumber: currentVersion },
-            'Skipped duplicate version',
-          );
-          return currentVersion;
-        }
+      if (
+        latest?.content === state.content &&
+        latest?.yjsState === state.yjsState
+      ) {
+        logger.debug(
+          { documentId, versionNumber: currentVersion },
+          'Skipped duplicate version',
+        );
+        return currentVersion;
       }
 
       const newVersionNumber = currentVersion + 1;
 
+      // Deltas chain off the previous version until a keyframe is due
+      const delta =
+        chain && latest && chain.length < VERSION_KEYFRAME_INTERVAL
+          ? encodeVersionDelta(latest, state)
+          : null;
+
       await tx.insert(documentVersions).values({
         documentId,
         versionNumber: newVersionNumber,
-        yjsState,
-        content,
+        ...(delta
+          ? { ...delta, isKeyframe: false, baseVersion: currentVersion }
+          : { ...state, isKeyframe: true, baseVersion: null }),
       });
 
       await tx
         .update(documents)
         .set({
           currentVersion: newVersionNumber,
-          yjsState,
+          yjsState: state.yjsState,
           updatedAt: new Date(),
         })
         .where(eq(documents.id, documentId));
@@ -71,11 +99,31 @@ export class VersioningService {
     });
   }
 
+  /**
+   * Record a newly created document's starting state as version 0.
+   * Later edits number from 1 as usual.
+   */
+  async createInitialVersion(
+    documentId: string,
+    yjsState: string,
+    content: string,
+    executor: DbExecutor = db,
+  ): Promise<void> {
+    await executor
+      .insert(documentVersions)
+      .values({ documentId, versionNumber: 0, yjsState, content })
+      .onConflictDoNothing();
+
+    logger.debug({ documentId }, 'Initial version created');
+  }
+
   async getVersions(documentId: string, limit = 50) {
     const versions = await db
       .select({
         id: documentVersions.id,
         versionNumber: documentVersions.versionNumber,
+        name: documentVersions.name,
+        pinned: documentVersions.pinned,
         createdAt: documentVersions.createdAt,
       })
       .from(documentVersions)
@@ -86,19 +134,85 @@ export class VersioningService {
     return versions;
   }
 
-  async getVersion(documentId: string, versionNumber: number) {
-    const [version] = await db
-      .select()
+  async getCheckpoints(documentId: string) {
+    return db
+      .select({
+        id: documentVersions.id,
+        versionNumber: documentVersions.versionNumber,
+        name: documentVersions.name,
+        createdAt: documentVersions.createdAt,
+      })
       .from(documentVersions)
+      .where(
+        and(
+          eq(documentVersions.documentId, documentId),
+          eq(documentVersions.pinned, true),
+        ),
+      )
+      .orderBy(desc(documentVersions.versionNumber));
+  }
+
+  /**
+   * Name and pin an existing version. Returns null if the version doesn't
+   * exist (or was pruned).
+   */
+  async createCheckpoint(
+    documentId: string,
+    versionNumber: number,
+    name: string,
+  ) {
+    const [checkpoint] = await db
+      .update(documentVersions)
+      .set({ name, pinned: true })
       .where(
         and(
           eq(documentVersions.documentId, documentId),
           eq(documentVersions.versionNumber, versionNumber),
         ),
       )
-      .limit(1);
+      .returning({
+        id: documentVersions.id,
+        versionNumber: documentVersions.versionNumber,
+        name: documentVersions.name,
+        createdAt: documentVersions.createdAt,
+      });
 
-    return version ?? null;
+    if (checkpoint) {
+      logger.info({ documentId, versionNumber, name }, 'Checkpoint created');
+    }
+    return checkpoint ?? null;
+  }
+
+  /** Unpin a checkpoint; the version itself falls back under retention */
+  async removeCheckpoint(
+    documentId: string,
+    versionNumber: number,
+  ): Promise<boolean> {
+    const removed = await db
+      .update(documentVersions)
+      .set({ name: null, pinned: false })
+      .where(
+        and(
+          eq(documentVersions.documentId, documentId),
+          eq(documentVersions.versionNumber, versionNumber),
+          eq(documentVersions.pinned, true),
+        ),
+      )
+      .returning({ id: documentVersions.id });
+
+    return removed.length > 0;
+  }
+
+  /**
+   * Fetch a version with its full state, replaying deltas from the
+   * nearest keyframe.
+   */
+  async getVersion(documentId: string, versionNumber: number) {
+    const chain = await this.loadChain(db, documentId, versionNumber);
+    if (!chain) return null;
+
+    const version = chain[chain.length - 1];
+    return { ...version, ...this.reconstruct(chain) };
   }
 
   async getCurrentVersionNumber(documentId: string): Promise<number> {
@@ -110,6 +224,275 @@ export class VersioningService {
 
     return doc?.currentVersion ?? 0;
   }
+
+  /**
+   * Apply the owner's retention policy to a document's history and
+   * re-encode what's left as deltas between keyframes. Also compacts
+   * history written before delta storage, where every row is a keyframe.
+   */
+  async compactHistory(
+    documentId: string,
+    policy: VersionRetentionPolicy,
+    now = new Date(),
+  ): Promise<{ removed: number; rewritten: number }> {
+    return await db.transaction(async (tx) => {
+      // Same lock as createVersion so saves can't interleave
+      await tx.execute(
+        sql`SELECT id FROM documents WHERE id = ${documentId} FOR UPDATE`,
+      );
+
+      const rows = await tx
+        .select({
+          versionNumber: documentVersions.versionNumber,
+          isKeyframe: documentVersions.isKeyframe,
+          baseVersion: documentVersions.baseVersion,
+          pinned: documentVersions.pinned,
+          createdAt: documentVersions.createdAt,
+        })
+        .from(documentVersions)
+        .where(eq(documentVersions.documentId, documentId))
+        .orderBy(asc(documentVersions.versionNumber));
+
+      // Drafts diff against the version they were forked from
+      const forks = await tx
+        .select({ version: documents.forkedFromVersion })
+        .from(documents)
+        .where(eq(documents.forkedFromDocumentId, documentId));
+      const forkPoints = new Set(
+        forks.flatMap((f) => (f.version === null ? [] : [f.version])),
+      );
+
+      const retained = selectRetainedVersions(rows, policy, now, forkPoints);
+      if (!this.needsCompaction(rows, retained)) {
+        return { removed: 0, rewritten: 0 };
+      }
+
+      let removed = 0;
+      let rewritten = 0;
+      let previous: { versionNumber: number; state: VersionState } | null =
+        null;
+      let lastKept: { versionNumber: number; state: VersionState } | null =
+        null;
+      let sinceKeyframe = 0;
+
+      // One row at a time: only the previous state is held in memory
+      for (const meta of rows) {
+        const [row] = await tx
+          .select()
+          .from(documentVersions)
+          .where(
+            and(
+              eq(documentVersions.documentId, documentId),
+              eq(documentVersions.versionNumber, meta.versionNumber),
+            ),
+          )
+          .limit(1);
+
+        let state: VersionState;
+        if (row.isKeyframe) {
+          state = { yjsState: row.yjsState, content: row.content };
+        } else {
+          if (!previous || row.baseVersion !== previous.versionNumber) {
+            throw new Error(
+              `Broken version chain for document ${documentId} at version ${row.versionNumber}`,
+            );
+          }
+          state = applyVersionDelta(previous.state, row);
+        }
+        previous = { versionNumber: row.versionNumber, state };
+
+        if (!retained.has(row.versionNumber)) {
+          await tx
+            .delete(documentVersions)
+            .where(eq(documentVersions.id, row.id));
+          removed++;
+          continue;
+        }
+
+        const canChain =
+          lastKept !== null && sinceKeyframe + 1 < VERSION_KEYFRAME_INTERVAL;
+
+        if (
+          canChain &&
+          !row.isKeyframe &&
+          row.baseVersion === lastKept?.versionNumber
+        ) {
+          // Already a delta against the previous kept version
+          sinceKeyframe++;
+        } else {
+          const delta =
+            canChain && lastKept
+              ? encodeVersionDelta(lastKept.state, state)
+              : null;
+
+          if (delta && lastKept) {
+            await tx
+              .update(documentVersions)
+              .set({
+                ...delta,
+                isKeyframe: false,
+                baseVersion: lastKept.versionNumber,
+              })
+              .where(eq(documentVersions.id, row.id));
+            rewritten++;
+            sinceKeyframe++;
+          } else {
+            if (!row.isKeyframe) {
+              await tx
+                .update(documentVersions)
+                .set({
+                  yjsState: canonicalYjsState(state.yjsState),
+                  content: state.content,
+                  isKeyframe: true,
+                  baseVersion: null,
+                })
+                .where(eq(documentVersions.id, row.id));
+              rewritten++;
+            }
+            sinceKeyframe = 0;
+          }
+        }
+
+        lastKept = { versionNumber: row.versionNumber, state };
+      }
+
+      logger.info(
+        { documentId, removed, rewritten },
+        'Version history compacted',
+      );
+
+      return { removed, rewritten };
+    });
+  }
+
+  /** Compact every live document's history using its owner's policy */
+  async compactAllHistories(): Promise<{
+    documents: number;
+    removed: number;
+    rewritten: number;
+    failed: number;
+  }> {
+    const targets = await db
+      .selectDistinct({
+        documentId: documentVersions.documentId,
+        versionRetention: users.versionRetention,
+      })
+      .from(documentVersions)
+      .innerJoin(documents, eq(documents.id, documentVersions.documentId))
+      .innerJoin(users, eq(users.id, documents.userId))
+      .where(isNull(documents.deletedAt));
+
+    const totals = { documents: 0, removed: 0, rewritten: 0, failed: 0 };
+
+    for (const target of targets) {
+      const policy =
+        parseRetentionPolicy(target.versionRetention) ??
+        DEFAULT_VERSION_RETENTION;
+      try {
+        const result = await this.compactHistory(target.documentId, policy);
+        totals.documents++;
+        totals.removed += result.removed;
+        totals.rewritten += result.rewritten;
+      } catch (error) {
+        totals.failed++;
+        logger.error(
+          { error, documentId: target.documentId },
+          'Failed to compact version history',
+        );
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Rows from the nearest keyframe up to versionNumber, or null if the
+   * version doesn't exist.
+   */
+  private async loadChain(
+    executor: DbExecutor,
+    documentId: string,
+    versionNumber: number,
+  ): Promise<StoredVersion[] | null> {
+    const [keyframe] = await executor
+      .select({ versionNumber: documentVersions.versionNumber })
+      .from(documentVersions)
+      .where(
+        and(
+          eq(documentVersions.documentId, documentId),
+          eq(documentVersions.isKeyframe, true),
+          lte(documentVersions.versionNumber, versionNumber),
+        ),
+      )
+      .orderBy(desc(documentVersions.versionNumber))
+      .limit(1);
+
+    if (!keyframe) return null;
+
+    const chain = await executor
+      .select()
+      .from(documentVersions)
+      .where(
+        and(
+          eq(documentVersions.documentId, documentId),
+          gte(documentVersions.versionNumber, keyframe.versionNumber),
+          lte(documentVersions.versionNumber, versionNumber),
+        ),
+      )
+      .orderBy(asc(documentVersions.versionNumber));
+
+    if (chain[chain.length - 1]?.versionNumber !== versionNumber) {
+      return null;
+    }
+    return chain;
+  }
+
+  private reconstruct(chain: StoredVersion[]): VersionState {
+    const [keyframe, ...deltas] = chain;
+    let state: VersionState = {
+      yjsState: keyframe.yjsState,
+      content: keyframe.content,
+    };
+    let baseVersion = keyframe.versionNumber;
+
+    for (const delta of deltas) {
+      if (delta.isKeyframe || delta.baseVersion !== baseVersion) {
+        throw new Error(
+          `Broken version chain for document ${delta.documentId} at version ${delta.versionNumber}`,
+        );
+      }
+      state = applyVersionDelta(state, delta);
+      baseVersion = delta.versionNumber;
+    }
+
+    // Keyframes written before delta storage hold the client's encoding
+    if (deltas.length === 0) {
+      state.yjsState = canonicalYjsState(state.yjsState);
+    }
+    return state;
+  }
+
+  /** Whether compactHistory would delete or re-encode anything */
+  private needsCompaction(
+    rows: { versionNumber: number; isKeyframe: boolean }[],
+    retained: Set<number>,
+  ): boolean {
+    let sinceKeyframe = 0;
+    for (const [index, row] of rows.entries()) {
+      if (!retained.has(row.versionNumber)) return true;
+      if (row.isKeyframe) {
+        // Back-to-back keyframes: history from before delta storage, or
+        // changes that couldn't be encoded as a delta
+        if (index > 0 && rows[index - 1].isKeyframe && sinceKeyframe === 0) {
+          return true;
+        }
+        sinceKeyframe = 0;
+      } else {
+        sinceKeyframe++;
+      }
+    }
+    return false;
+  }
 }
 
 export const versioningService = new VersioningService();
@@ -514,3 +514,167 @@ export function hasSignificantChanges(
 
   return changes >= minChanges;
 }
+
+export interface WordDiffSegment {
+  type: 'equal' | 'delete' | 'insert';
+  text: string;
+}
+
+export interface ParagraphDiff {
+  type: 'equal' | 'delete' | 'insert' | 'modify';
+  oldIndex: number | null;
+  newIndex: number | null;
+  oldText: string | null;
+  newText: string | null;
+  /** Word-level changes, only for modified paragraphs */
+  words?: WordDiffSegment[];
+}
+
+export interface StructuredDiff {
+  paragraphs: ParagraphDiff[];
+  stats: {
+    paragraphsAdded: number;
+    paragraphsRemoved: number;
+    paragraphsModified: number;
+    wordsAdded: number;
+    wordsRemoved: number;
+  };
+  /** Line-level unified diff of the same texts */
+  unified: string;
+}
+
+/**
+ * Compute a side-by-side diff between two texts.
+ * Paragraphs (lines) are aligned with the same LCS edit script as
+ * computeDiff; within each run of changes, removed and added paragraphs
+ * are paired up in order and diffed word by word.
+ */
+export function computeStructuredDiff(
+  oldText: string,
+  newText: string,
+): StructuredDiff {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const operations = computeEditScript(oldLines, newLines);
+
+  const paragraphs: ParagraphDiff[] = [];
+  const stats = {
+    paragraphsAdded: 0,
+    paragraphsRemoved: 0,
+    paragraphsModified: 0,
+    wordsAdded: 0,
+    wordsRemoved: 0,
+  };
+
+  let i = 0;
+  while (i < operations.length) {
+    const op = operations[i];
+    if (op.type === 'equal') {
+      // Blank separator lines carry no content of their own
+      if (op.oldLine !== '') {
+        paragraphs.push({
+          type: 'equal',
+          oldIndex: op.oldIndex,
+          newIndex: op.newIndex,
+          oldText: op.oldLine ?? '',
+          newText: op.oldLine ?? '',
+        });
+      }
+      i++;
+      continue;
+    }
+
+    const deleted: EditOperation[] = [];
+    const inserted: EditOperation[] = [];
+    while (i < operations.length && operations[i].type !== 'equal') {
+      const change = operations[i];
+      if (change.type === 'delete' && change.oldLine !== '') {
+        deleted.push(change);
+      } else if (change.type === 'insert' && change.newLine !== '') {
+        inserted.push(change);
+      }
+      i++;
+    }
+
+    const pairs = Math.max(deleted.length, inserted.length);
+    for (let k = 0; k < pairs; k++) {
+      const removed = deleted[k];
+      const added = inserted[k];
+
+      if (removed && added) {
+        const words = computeWordDiff(
+          removed.oldLine ?? '',
+          added.newLine ?? '',
+        );
+        paragraphs.push({
+          type: 'modify',
+          oldIndex: removed.oldIndex,
+          newIndex: added.newIndex,
+          oldText: removed.oldLine ?? '',
+          newText: added.newLine ?? '',
+          words,
+        });
+        stats.paragraphsModified++;
+        for (const segment of words) {
+          if (segment.type === 'insert') {
+            stats.wordsAdded += countWords(segment.text);
+          } else if (segment.type === 'delete') {
+            stats.wordsRemoved += countWords(segment.text);
+          }
+        }
+      } else if (removed) {
+        paragraphs.push({
+          type: 'delete',
+          oldIndex: removed.oldIndex,
+          newIndex: null,
+          oldText: removed.oldLine ?? '',
+          newText: null,
+        });
+        stats.paragraphsRemoved++;
+        stats.wordsRemoved += countWords(removed.oldLine ?? '');
+      } else if (added) {
+        paragraphs.push({
+          type: 'insert',
+          oldIndex: null,
+          newIndex: added.newIndex,
+          oldText: null,
+          newText: added.newLine ?? '',
+        });
+        stats.paragraphsAdded++;
+        stats.wordsAdded += countWords(added.newLine ?? '');
+      }
+    }
+  }
+
+  return {
+    paragraphs,
+    stats,
+    unified: computeDiff(oldText, newText),
+  };
+}
+
+/**
+ * Word-level diff of a single paragraph. Whitespace is kept as its own
+ * token so the segments of each side join back to the original text.
+ */
+function computeWordDiff(oldText: string, newText: string): WordDiffSegment[] {
+  const oldWords = oldText.split(/(\s+)/).filter((t) => t !== '');
+  const newWords = newText.split(/(\s+)/).filter((t) => t !== '');
+  const segments: WordDiffSegment[] = [];
+
+  for (const op of computeEditScript(oldWords, newWords)) {
+    const text = (op.type === 'insert' ? op.newLine : op.oldLine) ?? '';
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += text;
+    } else {
+      segments.push({ type: op.type, text });
+    }
+  }
+
+  return segments;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((t) => t !== '').length;
+}